@@ -29,6 +29,7 @@ module.exports = {
   ],
   globals: {
     'KVNamespace': 'readonly',
+    'R2Bucket': 'readonly',
     'fetch': 'readonly',
     'AbortSignal': 'readonly',
     'crypto': 'readonly',
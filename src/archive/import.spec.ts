@@ -0,0 +1,271 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ManifestVerifier, SnapshotManifestStore } from '../backup/snapshot-manifest';
+import { SizeLimitError, decodeBackupContent, gzipBytes } from '../runtime/content-storage';
+import { BackupMetadata, SiteConfig } from '../types/site';
+import { ArchiveImporter, detectArchiveFormat, readArchivePages, readWarcPages, readZipPages } from './import';
+import { buildCaptureRecords, serializeWarcRecord } from './warc';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+const siteConfig: SiteConfig = {
+  id: 'site',
+  name: 'Site',
+  baseUrl: 'https://example.com/',
+  retentionDays: 30,
+  schedule: '0 2 * * *',
+  fetchOptions: { timeout: 10000, retries: 0, concurrency: 1 },
+  changeThreshold: {}
+};
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const combined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    combined.set(part, offset);
+    offset += part.length;
+  }
+  return combined;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** A zip with the given files, each stored (or deflated) and dated 2026-02-03 10:20:30. */
+async function buildZip(files: Array<{ name: string; content: string; deflate?: boolean }>): Promise<Uint8Array> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  const dosTime = (10 << 11) | (20 << 5) | 15;
+  const dosDate = ((2026 - 1980) << 9) | (2 << 5) | 3;
+
+  for (const file of files) {
+    const name = new TextEncoder().encode(file.name);
+    const raw = new TextEncoder().encode(file.content);
+    let data = raw;
+    if (file.deflate) {
+      const stream = new CompressionStream('deflate-raw');
+      const writer = stream.writable.getWriter();
+      void writer.write(raw).then(() => writer.close());
+      data = new Uint8Array(await new Response(stream.readable).arrayBuffer());
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, file.deflate ? 8 : 0, true);
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    locals.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, file.deflate ? 8 : 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centrals.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const directory = concat(centrals);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directory.length, true);
+  end.setUint32(16, offset, true);
+  return concat([...locals, directory, new Uint8Array(end.buffer)]);
+}
+
+describe('readArchivePages', () => {
+  it('reads HTML responses of the site from a gzipped WARC, decoding chunked and gzip payloads', async () => {
+    const plain = await buildCaptureRecords({
+      url: 'https://example.com/about',
+      timestamp: '2026-01-10T08:00:00.000Z',
+      hash: '',
+      status: 200,
+      contentType: 'text/html',
+      etag: '"a1"',
+      size: 0,
+      fetchTime: 0
+    }, '<p>About</p>');
+    const compressedBody = await gzipBytes(new TextEncoder().encode('<p>Home</p>'));
+    const chunked = concat([
+      new TextEncoder().encode(`HTTP/1.1 200 OK\r\nContent-Type: text/html; charset=utf-8\r\nContent-Encoding: gzip\r\nTransfer-Encoding: chunked\r\n\r\n${compressedBody.length.toString(16)}\r\n`),
+      compressedBody,
+      new TextEncoder().encode('\r\n0\r\n\r\n')
+    ]);
+    const warc = concat([
+      ...plain.map(serializeWarcRecord),
+      serializeWarcRecord({
+        headers: { 'WARC-Type': 'response', 'WARC-Date': '2026-01-11T09:00:00Z', 'WARC-Target-URI': '<https://example.com/>' },
+        block: chunked
+      }),
+      serializeWarcRecord({
+        headers: { 'WARC-Type': 'response', 'WARC-Date': '2026-01-11T09:00:00Z', 'WARC-Target-URI': 'https://example.com/app.css' },
+        block: new TextEncoder().encode('HTTP/1.1 200 OK\r\nContent-Type: text/css\r\n\r\nbody{}')
+      }),
+      serializeWarcRecord({
+        headers: { 'WARC-Type': 'resource', 'WARC-Date': '2026-01-11T09:00:00Z', 'WARC-Target-URI': 'https://elsewhere.example/', 'Content-Type': 'text/html' },
+        block: new TextEncoder().encode('<p>Elsewhere</p>')
+      })
+    ]);
+    const gzipped = await gzipBytes(warc);
+
+    expect(detectArchiveFormat(gzipped)).toBe('warc');
+    const archive = await readArchivePages(gzipped, 'https://example.com');
+
+    expect(archive.skipped).toBe(2);
+    expect(archive.pages).toEqual([
+      {
+        url: 'https://example.com/about',
+        timestamp: '2026-01-10T08:00:00.000Z',
+        status: 200,
+        contentType: 'text/html',
+        content: '<p>About</p>',
+        etag: '"a1"'
+      },
+      {
+        url: 'https://example.com/',
+        timestamp: '2026-01-11T09:00:00.000Z',
+        status: 200,
+        contentType: 'text/html; charset=utf-8',
+        content: '<p>Home</p>'
+      }
+    ]);
+  });
+
+  it('maps zip paths to site URLs and capture times', async () => {
+    const zip = await buildZip([
+      { name: '2026-01-05/example.com/about/index.html', content: '<p>About</p>' },
+      { name: '20260106123000/blog/post.html', content: '<p>Post</p>', deflate: true },
+      { name: 'index.html', content: '<p>Home</p>' },
+      { name: 'images/logo.png', content: 'png' }
+    ]);
+
+    expect(detectArchiveFormat(zip)).toBe('zip');
+    const archive = await readArchivePages(zip, 'https://example.com');
+
+    expect(archive.skipped).toBe(1);
+    expect(archive.pages.map(({ url, timestamp, content }) => ({ url, timestamp, content }))).toEqual([
+      { url: 'https://example.com/about/', timestamp: '2026-01-05T00:00:00.000Z', content: '<p>About</p>' },
+      { url: 'https://example.com/blog/post.html', timestamp: '2026-01-06T12:30:00.000Z', content: '<p>Post</p>' },
+      { url: 'https://example.com/', timestamp: '2026-02-03T10:20:30.000Z', content: '<p>Home</p>' }
+    ]);
+  });
+
+  it('gives up on archives that decompress past the size limit', async () => {
+    const page = `<p>${'x'.repeat(4096)}</p>`;
+    const warc = await gzipBytes(concat((await buildCaptureRecords({
+      url: 'https://example.com/',
+      timestamp: '2026-01-10T08:00:00.000Z',
+      hash: '',
+      status: 200,
+      contentType: 'text/html',
+      size: 0,
+      fetchTime: 0
+    }, page)).map(serializeWarcRecord)));
+    const zip = await buildZip([
+      { name: 'index.html', content: page, deflate: true },
+      { name: 'about/index.html', content: page, deflate: true }
+    ]);
+
+    await expect(readWarcPages(warc, 'https://example.com', 1024)).rejects.toBeInstanceOf(SizeLimitError);
+    await expect(readZipPages(zip, 'https://example.com', 6000)).rejects.toBeInstanceOf(SizeLimitError);
+    expect((await readZipPages(zip, 'https://example.com', 10000)).pages).toHaveLength(2);
+  });
+});
+
+describe('ArchiveImporter', () => {
+  it('writes historical backups without overwriting existing ones or newer latest pointers', async () => {
+    const urlHash = (await sha256Hex('https://example.com/')).substring(0, 16);
+    const current: Partial<BackupMetadata> = { url: 'https://example.com/', timestamp: '2026-03-01T02:00:00.000Z', hash: 'current' };
+    const kv = createMockKV({
+      [`latest:site:${urlHash}`]: JSON.stringify(current),
+      [`meta:site:2026-01-03:${urlHash}`]: JSON.stringify({ url: 'https://example.com/', timestamp: '2026-01-03T02:00:00.000Z' })
+    });
+    const page = (day: string, content: string) => ({
+      url: 'https://example.com/',
+      timestamp: `2026-01-${day}T12:00:00.000Z`,
+      status: 200,
+      contentType: 'text/html',
+      content
+    });
+
+    const result = await new ArchiveImporter(kv).importPages(siteConfig, {
+      format: 'warc',
+      pages: [page('01', 'one'), page('02', 'two (early)'), page('03', 'three'), { ...page('02', 'two'), timestamp: '2026-01-02T18:00:00.000Z' }],
+      skipped: 4,
+      errors: []
+    });
+
+    expect(result).toMatchObject({ totalPages: 3, processed: 3, imported: 2, alreadyStored: 1, skipped: 4, nextOffset: null });
+
+    const metadata = JSON.parse(kv.store.get(`meta:site:2026-01-02:${urlHash}`)!) as BackupMetadata;
+    expect(metadata).toMatchObject({ url: 'https://example.com/', timestamp: '2026-01-02T18:00:00.000Z', hash: await sha256Hex('two'), size: 3 });
+    expect(metadata.importedAt).toBeDefined();
+    expect(metadata.storageKey).toBe(`payload:site:${urlHash}:${metadata.hash}`);
+    expect(await decodeBackupContent(kv.store.get(metadata.storageKey!)!, metadata.contentEncoding)).toBe('two');
+
+    // The newer live backup stays latest; the newest import becomes its predecessor
+    expect(JSON.parse(kv.store.get(`latest:site:${urlHash}`)!)).toEqual(current);
+    expect(JSON.parse(kv.store.get(`prev_latest:site:${urlHash}`)!).timestamp).toBe('2026-01-02T18:00:00.000Z');
+
+    // The next run seals the imports into the manifest as backfilled entries
+    const sealed = await new SnapshotManifestStore(kv).sealBefore('site', '2026-03-02');
+    expect(sealed.map(({ date, backfilled, snapshots }) => [date, backfilled, snapshots.length])).toEqual([
+      ['2026-01-01', true, 1],
+      ['2026-01-02', true, 1]
+    ]);
+    expect(await new ManifestVerifier(kv).verify('site')).toMatchObject({ checkedEntries: 2, backfilledEntries: 2, mismatches: [] });
+  });
+
+  it('stops within its budget and resumes from the returned offset', async () => {
+    const kv = createMockKV();
+    const pages = ['a', 'b', 'c', 'd'].map((path) => ({
+      url: `https://example.com/${path}`,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      status: 200,
+      contentType: 'text/html',
+      content: path
+    }));
+    const archive = { format: 'zip' as const, pages, skipped: 0, errors: [] };
+
+    const first = await new ArchiveImporter(kv, undefined, { subrequests: 25 }).importPages(siteConfig, archive);
+    expect(first).toMatchObject({ processed: 2, imported: 2, nextOffset: 2 });
+
+    const second = await new ArchiveImporter(kv).importPages(siteConfig, archive, first.nextOffset!);
+    expect(second).toMatchObject({ processed: 2, imported: 2, nextOffset: null });
+    expect(Array.from(kv.store.keys()).filter((key) => key.startsWith('payload:'))).toHaveLength(4);
+  });
+});
@@ -0,0 +1,412 @@
+import { ExecutionBudget, ExecutionBudgetLimits, meterKVNamespace, meterR2Bucket } from '../backup/budget';
+import { getRetentionHorizonDays } from '../backup/retention';
+import { SnapshotManifestStore } from '../backup/snapshot-manifest';
+import { ContentComparer } from '../diff/comparer';
+import { gunzipBytes } from '../runtime/content-storage';
+import { createPayloadStore } from '../runtime/payload-store';
+import { SharedPayloadStore } from '../runtime/shared-payloads';
+import { BackupMetadata, SiteConfig } from '../types/site';
+import { parseHttpMessage, parseWarcRecords } from './warc';
+import { isZipArchive, readZipEntries } from './zip';
+
+export type ArchiveFormat = 'warc' | 'zip';
+
+/** A page snapshot read from an archive, ready to be stored as a backup. */
+export interface ArchivedPage {
+  url: string;
+  timestamp: string;
+  status: number;
+  contentType: string;
+  content: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface ArchiveReadResult {
+  format: ArchiveFormat;
+  pages: ArchivedPage[];
+  // Records or files that are not a successful HTML page of the site
+  skipped: number;
+  errors: string[];
+}
+
+export interface ArchiveImportResult {
+  format: ArchiveFormat;
+  // Distinct URL and date pairs found in the archive
+  totalPages: number;
+  processed: number;
+  imported: number;
+  // A backup for that URL and date already exists and was kept
+  alreadyStored: number;
+  skipped: number;
+  // Imported pages older than the site's longest retention tier; cleanup will remove them
+  olderThanRetention: number;
+  // Where to resume when the budget ran out, or null when the archive is done
+  nextOffset: number | null;
+  errors: string[];
+}
+
+const HTML_CONTENT_TYPES = /^(?:text\/html|application\/xhtml\+xml)\b/i;
+// YYYY-MM-DD or a 14-digit YYYYMMDDhhmmss capture time, as a leading zip folder
+const DATE_FOLDER = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIMESTAMP_FOLDER = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/;
+
+// An import request holds the upload, its decompressed contents and the pages read from
+// them in memory at once; these keep that well inside a Worker's 128 MB. Larger archives
+// are split and imported as several files.
+export const ARCHIVE_IMPORT_MAX_BYTES = 16 * 1024 * 1024;
+export const ARCHIVE_IMPORT_MAX_EXPANDED_BYTES = 32 * 1024 * 1024;
+
+const IMPORT_SUBREQUEST_ESTIMATE = 10; // meta check, payload reference, pointer and manifest reads, five writes
+
+export function detectArchiveFormat(bytes: Uint8Array): ArchiveFormat | null {
+  if (isZipArchive(bytes)) {
+    return 'zip';
+  }
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return 'warc';
+  }
+  return new TextDecoder().decode(bytes.subarray(0, 5)) === 'WARC/' ? 'warc' : null;
+}
+
+function decodeText(bytes: Uint8Array, contentType: string): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/** Undo `Transfer-Encoding: chunked`, which WARC response blocks keep as sent. */
+function dechunk(body: Uint8Array): Uint8Array {
+  const decoder = new TextDecoder();
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < body.length) {
+    let lineEnd = offset;
+    while (lineEnd < body.length - 1 && !(body[lineEnd] === 13 && body[lineEnd + 1] === 10)) {
+      lineEnd++;
+    }
+    const size = Number.parseInt(decoder.decode(body.subarray(offset, lineEnd)).split(';')[0].trim(), 16);
+    if (!Number.isFinite(size) || size === 0) {
+      break;
+    }
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+
+  const combined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    combined.set(chunk, position);
+    position += chunk.length;
+  }
+  return combined;
+}
+
+function isSameSite(url: string, origin: string): boolean {
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * HTML pages of the site in a WARC (plain or gzipped). `response` records must be 2xx;
+ * `resource` records count as 200. Chunked and gzip/deflate-encoded payloads are decoded.
+ * A gzipped WARC that decompresses to more than `maxBytes` throws a `SizeLimitError`.
+ */
+export async function readWarcPages(
+  bytes: Uint8Array,
+  origin: string,
+  maxBytes: number = ARCHIVE_IMPORT_MAX_EXPANDED_BYTES
+): Promise<ArchiveReadResult> {
+  const data = bytes[0] === 0x1f && bytes[1] === 0x8b ? await gunzipBytes(bytes, maxBytes) : bytes;
+  const result: ArchiveReadResult = { format: 'warc', pages: [], skipped: 0, errors: [] };
+
+  for (const record of parseWarcRecords(data)) {
+    const type = record.headers['WARC-Type'];
+    if (type !== 'response' && type !== 'resource') {
+      continue;
+    }
+
+    const url = (record.headers['WARC-Target-URI'] ?? '').replace(/^<|>$/g, '');
+    const timestamp = new Date(record.headers['WARC-Date'] ?? '');
+    if (!isSameSite(url, origin) || Number.isNaN(timestamp.getTime())) {
+      result.skipped++;
+      continue;
+    }
+
+    let status = 200;
+    let contentType = record.headers['Content-Type'] ?? '';
+    let body = record.block;
+    let etag: string | undefined;
+    let lastModified: string | undefined;
+
+    if (type === 'response') {
+      const message = parseHttpMessage(record.block);
+      status = Number.parseInt(message.startLine.split(' ')[1] ?? '', 10);
+      contentType = message.headers['content-type'] ?? '';
+      etag = message.headers.etag;
+      lastModified = message.headers['last-modified'];
+      body = message.body;
+
+      try {
+        if (/chunked/i.test(message.headers['transfer-encoding'] ?? '')) {
+          body = dechunk(body);
+        }
+        const encoding = (message.headers['content-encoding'] ?? 'identity').toLowerCase();
+        if (encoding === 'gzip' || encoding === 'x-gzip') {
+          body = await gunzipBytes(body, maxBytes);
+        } else if (encoding !== 'identity') {
+          throw new Error(`unsupported Content-Encoding ${encoding}`);
+        }
+      } catch (error) {
+        result.errors.push(`${url}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+    }
+
+    if (!(status >= 200 && status < 300) || !HTML_CONTENT_TYPES.test(contentType)) {
+      result.skipped++;
+      continue;
+    }
+
+    result.pages.push({
+      url,
+      timestamp: timestamp.toISOString(),
+      status,
+      contentType,
+      content: decodeText(body, contentType),
+      ...(etag && { etag }),
+      ...(lastModified && { lastModified })
+    });
+  }
+
+  return result;
+}
+
+/**
+ * HTML files in a zip, laid out as the site's paths: `about/index.html` is `/about/` and
+ * `blog/post.html` is `/blog/post.html`. A leading folder named after the site's host is
+ * dropped. A leading `YYYY-MM-DD` or `YYYYMMDDhhmmss` folder gives the capture time;
+ * otherwise the file's modification time is used.
+ */
+export async function readZipPages(
+  bytes: Uint8Array,
+  origin: string,
+  maxBytes: number = ARCHIVE_IMPORT_MAX_EXPANDED_BYTES
+): Promise<ArchiveReadResult> {
+  const host = new URL(origin).host;
+  const result: ArchiveReadResult = { format: 'zip', pages: [], skipped: 0, errors: [] };
+
+  for (const entry of await readZipEntries(bytes, maxBytes)) {
+    const segments = entry.name.split('/').filter((segment) => segment && segment !== '.');
+    let timestamp = entry.modifiedAt;
+
+    const dateMatch = DATE_FOLDER.exec(segments[0] ?? '');
+    const timestampMatch = TIMESTAMP_FOLDER.exec(segments[0] ?? '');
+    if (dateMatch) {
+      timestamp = new Date(`${segments.shift()}T00:00:00.000Z`);
+    } else if (timestampMatch) {
+      const [, year, month, day, hour, minute, second] = timestampMatch;
+      segments.shift();
+      timestamp = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`);
+    }
+    if (segments[0] === host) {
+      segments.shift();
+    }
+
+    const fileName = segments[segments.length - 1] ?? '';
+    if (!/\.x?html?$/i.test(fileName) || segments.includes('..') || Number.isNaN(timestamp.getTime())) {
+      result.skipped++;
+      continue;
+    }
+    if (/^index\.html?$/i.test(fileName)) {
+      segments[segments.length - 1] = '';
+    }
+
+    result.pages.push({
+      url: new URL(`/${segments.join('/')}`, origin).href,
+      timestamp: timestamp.toISOString(),
+      status: 200,
+      contentType: 'text/html; charset=utf-8',
+      content: decodeText(entry.data, 'text/html; charset=utf-8')
+    });
+  }
+
+  return result;
+}
+
+export async function readArchivePages(
+  bytes: Uint8Array,
+  origin: string,
+  format: ArchiveFormat | null = detectArchiveFormat(bytes)
+): Promise<ArchiveReadResult> {
+  switch (format) {
+    case 'warc':
+      return readWarcPages(bytes, origin);
+    case 'zip':
+      return readZipPages(bytes, origin);
+    default:
+      throw new Error('Unrecognised archive: expected a WARC, .warc.gz or zip file');
+  }
+}
+
+/**
+ * Writes archived pages as historical backups (payload and `meta:` for the capture date),
+ * recorded in the snapshot manifest as backfilled. Existing backups are never overwritten,
+ * and `latest:`/`prev_latest:` only move when an imported page is newer than the copy they
+ * point at. Large archives are imported over several requests: each stops within its
+ * budget and reports the offset to resume from.
+ */
+export class ArchiveImporter {
+  private kv: KVNamespace;
+  private payloads: SharedPayloadStore;
+  private budget: ExecutionBudget;
+
+  constructor(kv: KVNamespace, storage?: R2Bucket, limits?: Partial<ExecutionBudgetLimits>) {
+    this.budget = new ExecutionBudget(limits);
+    this.kv = meterKVNamespace(kv, () => this.budget.recordSubrequests());
+    this.payloads = new SharedPayloadStore(
+      this.kv,
+      createPayloadStore(this.kv, storage && meterR2Bucket(storage, () => this.budget.recordSubrequests()))
+    );
+  }
+
+  async importPages(siteConfig: SiteConfig, archive: ArchiveReadResult, offset: number = 0): Promise<ArchiveImportResult> {
+    const pages = await this.dedupePages(archive.pages);
+    const retentionCutoff = new Date(Date.now() - getRetentionHorizonDays(siteConfig) * 86400 * 1000).toISOString().split('T')[0];
+    const pointers = new Map<string, { latest: BackupMetadata | null; previous: BackupMetadata | null }>();
+    const result: ArchiveImportResult = {
+      format: archive.format,
+      totalPages: pages.length,
+      processed: 0,
+      imported: 0,
+      alreadyStored: 0,
+      skipped: archive.skipped,
+      olderThanRetention: 0,
+      nextOffset: null,
+      errors: [...archive.errors]
+    };
+
+    let index = Math.max(0, offset);
+    for (; index < pages.length; index++) {
+      if (!this.budget.canAfford(IMPORT_SUBREQUEST_ESTIMATE, 100)) {
+        this.budget.markStopped();
+        break;
+      }
+
+      const { page, urlHash, date } = pages[index];
+      try {
+        const metadataKey = `meta:${siteConfig.id}:${date}:${urlHash}`;
+        if (await this.kv.get(metadataKey) !== null) {
+          result.alreadyStored++;
+          continue;
+        }
+
+        const metadata = await this.buildMetadata(page, siteConfig.changeThreshold?.ignorePatterns);
+        const payload = await this.payloads.store(siteConfig.id, date, urlHash, page.content, metadata.hash);
+        const stored: BackupMetadata = { ...metadata, ...payload };
+        await this.kv.put(metadataKey, JSON.stringify(stored));
+        await this.updatePointers(siteConfig.id, urlHash, stored, pointers);
+        await new SnapshotManifestStore(this.kv).record(siteConfig.id, date, [{ urlHash, contentHash: stored.hash }], true);
+
+        result.imported++;
+        if (date < retentionCutoff) {
+          result.olderThanRetention++;
+        }
+      } catch (error) {
+        result.errors.push(`${page.url} (${date}): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    result.processed = index - Math.max(0, offset);
+    result.nextOffset = index < pages.length ? index : null;
+    return result;
+  }
+
+  /** One page per URL and date, the latest capture winning, ordered by URL then date. */
+  private async dedupePages(pages: ArchivedPage[]): Promise<Array<{ page: ArchivedPage; urlHash: string; date: string }>> {
+    const byKey = new Map<string, { page: ArchivedPage; urlHash: string; date: string }>();
+    for (const page of pages) {
+      const urlHash = await this.getUrlHash(page.url);
+      const date = page.timestamp.split('T')[0];
+      const key = `${urlHash}:${date}`;
+      const existing = byKey.get(key);
+      if (!existing || existing.page.timestamp < page.timestamp) {
+        byKey.set(key, { page, urlHash, date });
+      }
+    }
+
+    return Array.from(byKey.values())
+      .sort((a, b) => a.page.url.localeCompare(b.page.url) || a.page.timestamp.localeCompare(b.page.timestamp));
+  }
+
+  private async buildMetadata(page: ArchivedPage, ignorePatterns?: string[]): Promise<BackupMetadata> {
+    return {
+      url: page.url,
+      timestamp: page.timestamp,
+      hash: await this.calculateHash(page.content),
+      normalizedHash: await ContentComparer.calculateNormalizedHash(page.content, ignorePatterns),
+      status: page.status,
+      contentType: page.contentType,
+      ...(page.etag && { etag: page.etag }),
+      ...(page.lastModified && { lastModified: page.lastModified }),
+      size: page.content.length,
+      fetchTime: 0,
+      importedAt: new Date().toISOString()
+    };
+  }
+
+  /** Keep `latest:` on the newest copy and `prev_latest:` on the one before it. */
+  private async updatePointers(
+    siteId: string,
+    urlHash: string,
+    metadata: BackupMetadata,
+    cache: Map<string, { latest: BackupMetadata | null; previous: BackupMetadata | null }>
+  ): Promise<void> {
+    let pointers = cache.get(urlHash);
+    if (!pointers) {
+      const [latestRaw, previousRaw] = await Promise.all([
+        this.kv.get(`latest:${siteId}:${urlHash}`),
+        this.kv.get(`prev_latest:${siteId}:${urlHash}`)
+      ]);
+      pointers = {
+        latest: latestRaw ? JSON.parse(latestRaw) as BackupMetadata : null,
+        previous: previousRaw ? JSON.parse(previousRaw) as BackupMetadata : null
+      };
+      cache.set(urlHash, pointers);
+    }
+
+    if (!pointers.latest || pointers.latest.timestamp < metadata.timestamp) {
+      if (pointers.latest) {
+        await this.kv.put(`prev_latest:${siteId}:${urlHash}`, JSON.stringify(pointers.latest));
+      }
+      await this.kv.put(`latest:${siteId}:${urlHash}`, JSON.stringify(metadata));
+      pointers.previous = pointers.latest;
+      pointers.latest = metadata;
+    } else if (!pointers.previous || pointers.previous.timestamp < metadata.timestamp) {
+      await this.kv.put(`prev_latest:${siteId}:${urlHash}`, JSON.stringify(metadata));
+      pointers.previous = metadata;
+    }
+  }
+
+  private async calculateHash(content: string): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(hashBuffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private async getUrlHash(url: string): Promise<string> {
+    const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+    return Array.from(new Uint8Array(buffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('')
+      .substring(0, 16);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeBackupContent } from '../runtime/content-storage';
+import { readZipPages } from './import';
+import {
+  createSnapshotZipStream,
+  getSnapshotZipFilename,
+  getSnapshotZipPath,
+  listPointInTimeCandidates,
+  parsePointInTime,
+  resolvePointInTimeSnapshot
+} from './point-in-time';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace;
+}
+
+async function storeBackup(kv: KVNamespace, timestamp: string, urlHash: string, url: string, content: string) {
+  const date = timestamp.split('T')[0];
+  const encoded = await encodeBackupContent(content);
+  await kv.put(`backup:site:${date}:${urlHash}`, encoded.storedContent);
+  await kv.put(`meta:site:${date}:${urlHash}`, JSON.stringify({
+    url,
+    timestamp,
+    hash: 'unused',
+    status: 200,
+    contentType: 'text/html; charset=utf-8',
+    size: content.length,
+    fetchTime: 10,
+    contentEncoding: encoded.encoding
+  }));
+}
+
+describe('point-in-time reconstruction', () => {
+  it('picks the latest backup of each URL at or before the time, across different days', async () => {
+    const kv = createMockKV();
+    await storeBackup(kv, '2026-03-01T02:00:00.000Z', 'aaaa', 'https://example.com/', '<p>home v1</p>');
+    await storeBackup(kv, '2026-03-05T02:00:00.000Z', 'aaaa', 'https://example.com/', '<p>home v2</p>');
+    await storeBackup(kv, '2026-03-05T18:00:00.000Z', 'bbbb', 'https://example.com/about', '<p>about v2</p>');
+    await storeBackup(kv, '2026-03-03T02:00:00.000Z', 'bbbb', 'https://example.com/about', '<p>about v1</p>');
+    await storeBackup(kv, '2026-03-06T02:00:00.000Z', 'cccc', 'https://example.com/new', '<p>too late</p>');
+
+    const at = parsePointInTime('2026-03-05T12:00:00Z')!;
+    const candidates = await listPointInTimeCandidates(kv, 'site', at);
+    expect(candidates).toEqual([
+      { urlHash: 'aaaa', dates: ['2026-03-05', '2026-03-01'] },
+      { urlHash: 'bbbb', dates: ['2026-03-05', '2026-03-03'] }
+    ]);
+
+    const snapshots = await Promise.all(candidates.map((candidate) => resolvePointInTimeSnapshot(kv, 'site', candidate, at)));
+    // The about page's backup that day was taken after noon, so the earlier one is shown
+    expect(snapshots.map((snapshot) => [snapshot?.url, snapshot?.date])).toEqual([
+      ['https://example.com/', '2026-03-05'],
+      ['https://example.com/about', '2026-03-03']
+    ]);
+    expect(parsePointInTime('2026-03-05')?.toISOString()).toBe('2026-03-05T23:59:59.999Z');
+    expect(parsePointInTime('yesterday')).toBeNull();
+  });
+
+  it('zips the reconstructed site in the layout archive import reads back', async () => {
+    const kv = createMockKV();
+    await storeBackup(kv, '2026-03-01T02:00:00.000Z', 'aaaa', 'https://example.com/', '<p>home</p>');
+    await storeBackup(kv, '2026-03-02T02:00:00.000Z', 'bbbb', 'https://example.com/blog/post.html', '<p>Héllo</p>');
+    await storeBackup(kv, '2026-03-03T02:00:00.000Z', 'cccc', 'https://example.com/about', '<p>about</p>');
+    await storeBackup(kv, '2026-03-03T02:00:00.000Z', 'dddd', 'https://example.com/about/', '<p>about again</p>');
+
+    expect(getSnapshotZipPath('https://example.com/a%20b/')).toBe('example.com/a b/index.html');
+
+    // In two parts, as the endpoint pages them
+    const at = new Date('2026-03-10T00:00:00.000Z');
+    const candidates = await listPointInTimeCandidates(kv, 'site', at);
+    const pages = [];
+    for (const part of [candidates.slice(0, 2), candidates.slice(2)]) {
+      const zip = new Uint8Array(await new Response(createSnapshotZipStream(kv, 'site', at, part)).arrayBuffer());
+      pages.push(...(await readZipPages(zip, 'https://example.com')).pages);
+    }
+    expect(getSnapshotZipFilename('site', at, 2)).toBe('site-20260310T000000Z-from-2.zip');
+
+    expect(pages.map(({ url, timestamp, content }) => [url, timestamp, content])).toEqual([
+      ['https://example.com/', '2026-03-01T02:00:00.000Z', '<p>home</p>'],
+      ['https://example.com/blog/post.html', '2026-03-02T02:00:00.000Z', '<p>Héllo</p>'],
+      ['https://example.com/about/', '2026-03-03T02:00:00.000Z', '<p>about</p>'],
+      ['https://example.com/about/index.dddd.html', '2026-03-03T02:00:00.000Z', '<p>about again</p>']
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import { KVListResult } from '../runtime/kv-types';
+import { readBackupContent } from '../runtime/content-storage';
+import { createPayloadStore } from '../runtime/payload-store';
+import { BackupMetadata } from '../types/site';
+import { ZipWriter } from './zip';
+
+/** The backup of one URL a point-in-time view of the site shows. */
+export interface PointInTimeSnapshot {
+  url: string;
+  urlHash: string;
+  date: string;
+  timestamp: string;
+  status: number;
+  contentType: string;
+  metadata: BackupMetadata;
+}
+
+// URLs per zip response: each costs one or two metadata reads and a payload read, on top of
+// listing the site's metadata, which keeps a response well under the subrequest limit
+export const SNAPSHOT_ZIP_PAGE_LIMIT = 250;
+
+/**
+ * Backup dates of each URL up to a point in time, newest first. Only the last two are kept:
+ * a backup on the day itself may have been taken after the requested time, and then the
+ * one before it is the answer.
+ */
+export interface PointInTimeCandidate {
+  urlHash: string;
+  dates: string[];
+}
+
+/**
+ * `at` as a point in time: an ISO timestamp, or a `YYYY-MM-DD` date meaning the end of that
+ * day (UTC). Returns null when it cannot be read.
+ */
+export function parsePointInTime(value: string): Date | null {
+  const at = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T23:59:59.999Z`) : new Date(value);
+  return Number.isNaN(at.getTime()) ? null : at;
+}
+
+/**
+ * Every URL of a site with a backup dated on or before `at`, sorted by urlHash, from the
+ * `meta:` keys alone. Resolve each with `resolvePointInTimeSnapshot`.
+ */
+export async function listPointInTimeCandidates(kv: KVNamespace, siteId: string, at: Date): Promise<PointInTimeCandidate[]> {
+  const prefix = `meta:${siteId}:`;
+  const lastDay = at.toISOString().split('T')[0];
+  const datesByUrl = new Map<string, string[]>();
+  let cursor: string | undefined;
+  let pastLastDay = false;
+
+  do {
+    const list = await kv.list({ prefix, limit: 1000, cursor }) as KVListResult;
+    for (const key of list.keys) {
+      const [date, urlHash] = key.name.slice(prefix.length).split(':');
+      if (!date || !urlHash) {
+        continue;
+      }
+      if (date > lastDay) {
+        // Keys list in date order, so nothing later is on or before `at`
+        pastLastDay = true;
+        break;
+      }
+
+      const dates = datesByUrl.get(urlHash) ?? [];
+      datesByUrl.set(urlHash, [date, ...dates].slice(0, 2));
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor && !pastLastDay);
+
+  return Array.from(datesByUrl, ([urlHash, dates]) => ({ urlHash, dates }))
+    .sort((left, right) => left.urlHash.localeCompare(right.urlHash));
+}
+
+/** The most recent backup of a candidate URL taken at or before `at`, or null if there is none. */
+export async function resolvePointInTimeSnapshot(
+  kv: KVNamespace,
+  siteId: string,
+  candidate: PointInTimeCandidate,
+  at: Date
+): Promise<PointInTimeSnapshot | null> {
+  for (const date of candidate.dates) {
+    const raw = await kv.get(`meta:${siteId}:${date}:${candidate.urlHash}`);
+    let metadata: BackupMetadata | null = null;
+    try {
+      metadata = raw ? JSON.parse(raw) as BackupMetadata : null;
+    } catch (error) {
+      console.error(`Failed to parse backup metadata for ${siteId}/${date}/${candidate.urlHash}:`, error);
+    }
+    if (!metadata?.url || !metadata.timestamp || new Date(metadata.timestamp) > at) {
+      continue;
+    }
+
+    return {
+      url: metadata.url,
+      urlHash: candidate.urlHash,
+      date,
+      timestamp: metadata.timestamp,
+      status: metadata.status,
+      contentType: metadata.contentType || 'text/html',
+      metadata
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Where a page goes in a reconstructed site: under a folder named after its host, with
+ * `/about/` or `/about` as `about/index.html` and `/blog/post.html` kept as is. This is the
+ * layout archive import reads back.
+ */
+export function getSnapshotZipPath(url: string): string {
+  const { host, pathname } = new URL(url);
+  const segments = pathname.split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment).replace(/[/\\]/g, '_');
+      } catch {
+        return segment;
+      }
+    });
+
+  if (pathname.endsWith('/') || !/\.x?html?$/i.test(segments[segments.length - 1] ?? '')) {
+    segments.push('index.html');
+  }
+  return [host, ...segments].join('/');
+}
+
+/** `offset` names a later part of the zip, so its file does not overwrite the first one. */
+export function getSnapshotZipFilename(siteId: string, at: Date, offset: number = 0): string {
+  const part = offset > 0 ? `-from-${offset}` : '';
+  return `${siteId}-${at.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}${part}.zip`;
+}
+
+/**
+ * A zip of the site as it stood at `at`: the most recent backup of each of `candidates`
+ * (a page of `listPointInTimeCandidates`, at most `SNAPSHOT_ZIP_PAGE_LIMIT`) taken at or
+ * before then, laid out by `getSnapshotZipPath`, each file dated with its backup's time.
+ * Backups are read one at a time as the stream is consumed. Two URLs of the page that map
+ * to the same path (a query string, or `/about` and `/about/`) are told apart by urlHash.
+ * Pass the `BACKUP_STORAGE` bucket as `storage` when payloads are kept in R2.
+ */
+export function createSnapshotZipStream(
+  kv: KVNamespace,
+  siteId: string,
+  at: Date,
+  candidates: PointInTimeCandidate[],
+  storage?: R2Bucket
+): ReadableStream<Uint8Array> {
+  const payloads = createPayloadStore(kv, storage);
+  const writer = new ZipWriter();
+  const usedPaths = new Set<string>();
+  const remaining = [...candidates];
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // Emit one page per pull; URLs without a readable backup by then are skipped
+      for (let candidate = remaining.shift(); candidate; candidate = remaining.shift()) {
+        const snapshot = await resolvePointInTimeSnapshot(kv, siteId, candidate, at);
+        const content = snapshot && await readBackupContent(payloads, siteId, snapshot.date, snapshot.urlHash, snapshot.metadata);
+        if (!snapshot || content === null) {
+          continue;
+        }
+
+        let path = getSnapshotZipPath(snapshot.url);
+        if (usedPaths.has(path)) {
+          path = path.replace(/(\.x?html?)$/i, `.${snapshot.urlHash}$1`);
+        }
+        usedPaths.add(path);
+
+        controller.enqueue(await writer.addFile(path, new Date(snapshot.timestamp), new TextEncoder().encode(content)));
+        return;
+      }
+
+      controller.enqueue(writer.finish());
+      controller.close();
+    }
+  });
+}
@@ -0,0 +1,140 @@
+import { KVListResult } from '../runtime/kv-types';
+import { gzipBytes, readBackupContent } from '../runtime/content-storage';
+import { createPayloadStore } from '../runtime/payload-store';
+import { BackupMetadata } from '../types/site';
+import { WarcRecord, buildCaptureRecords, buildWarcinfoRecord, serializeWarcRecord } from './warc';
+
+/** Inclusive range of backup dates (YYYY-MM-DD); an open end takes every stored date. */
+export interface WarcExportRange {
+  from?: string;
+  to?: string;
+}
+
+// Backups per export response: each costs a metadata read and a payload read, and the
+// listing a few more, which keeps a response well under the invocation's subrequest limit
+export const WARC_EXPORT_PAGE_LIMIT = 300;
+
+/** `after` names a later page of the export, so its file does not overwrite the first one. */
+export function getWarcExportFilename(siteId: string, range: WarcExportRange, after?: string): string {
+  const part = after ? `-after-${after.replace(':', '-')}` : '';
+  return `${siteId}-${range.from ?? 'start'}-${range.to ?? 'latest'}${part}.warc.gz`;
+}
+
+/** Where the next export page starts: after `after` (`{date}:{urlHash}`), listing from KV cursor `cursor`. */
+export interface WarcExportPosition {
+  after: string;
+  cursor?: string;
+}
+
+/** The backups one export response holds, and where the next response starts, or null on the last. */
+export interface WarcExportPage {
+  keys: string[];
+  next: WarcExportPosition | null;
+}
+
+/**
+ * Up to `limit` `meta:` keys of a site within `range`, oldest date first, starting after
+ * `start`. Listing resumes from the KV cursor of the page the last response ended on, so a
+ * large site is not re-listed from the beginning for every page.
+ */
+export async function listWarcExportPage(
+  kv: KVNamespace,
+  siteId: string,
+  range: WarcExportRange,
+  limit: number,
+  start?: WarcExportPosition
+): Promise<WarcExportPage> {
+  const prefix = `meta:${siteId}:`;
+  const keys: string[] = [];
+  let cursor = start?.cursor;
+
+  do {
+    const page = await kv.list({ prefix, cursor }) as KVListResult;
+    for (const { name } of page.keys) {
+      const position = name.slice(prefix.length);
+      const date = position.split(':')[0];
+      if (range.to && date > range.to) {
+        // Keys list in date order, so nothing later can be in range
+        return { keys, next: null };
+      }
+      if ((start && position <= start.after) || (range.from && date < range.from)) {
+        continue;
+      }
+      if (keys.length === limit) {
+        return { keys, next: { after: keys[keys.length - 1].slice(prefix.length), cursor } };
+      }
+      keys.push(name);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return { keys, next: null };
+}
+
+/**
+ * A `.warc.gz` of the backups behind `keys` (from `listWarcExportPage`): a `warcinfo`
+ * record, then a request/response pair per backup. Each record is its own gzip member, as
+ * WARC tools expect. Backups are read from KV one at a time as the stream is consumed.
+ * `userAgent` goes in the request records; it defaults to the fetcher's own. Pass the
+ * `BACKUP_STORAGE` bucket as `storage` when payloads are kept in R2.
+ */
+export function createWarcExportStream(
+  kv: KVNamespace,
+  siteId: string,
+  range: WarcExportRange,
+  keys: string[],
+  userAgent?: string,
+  storage?: R2Bucket
+): ReadableStream<Uint8Array> {
+  const payloads = createPayloadStore(kv, storage);
+  const prefix = `meta:${siteId}:`;
+  const pendingKeys = [...keys];
+  let started = false;
+
+  async function gzipRecords(records: WarcRecord[]): Promise<Uint8Array[]> {
+    return Promise.all(records.map((record) => gzipBytes(serializeWarcRecord(record))));
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        const [warcinfo] = await gzipRecords([
+          buildWarcinfoRecord(getWarcExportFilename(siteId, range), {
+            isPartOf: siteId,
+            description: `Backups of ${siteId} from ${range.from ?? 'the first stored date'} to ${range.to ?? 'the latest stored date'}`
+          })
+        ]);
+        controller.enqueue(warcinfo);
+        return;
+      }
+
+      // Emit one backup per pull; entries whose payload is missing or unreadable are skipped
+      for (let key = pendingKeys.shift(); key !== undefined; key = pendingKeys.shift()) {
+        const [date, urlHash] = key.slice(prefix.length).split(':');
+        const metadataRaw = await kv.get(key);
+        let metadata: BackupMetadata | null = null;
+        try {
+          metadata = metadataRaw ? JSON.parse(metadataRaw) as BackupMetadata : null;
+        } catch {
+          // treated as missing
+        }
+        if (!metadata?.url) {
+          continue;
+        }
+
+        const content = await readBackupContent(payloads, siteId, date, urlHash, metadata);
+        if (content === null) {
+          continue;
+        }
+
+        for (const member of await gzipRecords(await buildCaptureRecords(metadata, content, userAgent))) {
+          controller.enqueue(member);
+        }
+        return;
+      }
+
+      controller.close();
+    }
+  });
+}
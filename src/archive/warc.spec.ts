@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeBackupContent, gunzipBytes } from '../runtime/content-storage';
+import { BackupMetadata } from '../types/site';
+import { parseHttpMessage, parseWarcRecords } from './warc';
+import { createWarcExportStream, listWarcExportPage } from './warc-export';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace;
+}
+
+async function storeBackup(kv: KVNamespace, date: string, urlHash: string, content: string, metadata: Partial<BackupMetadata>) {
+  const encoded = await encodeBackupContent(content);
+  await kv.put(`backup:site:${date}:${urlHash}`, encoded.storedContent);
+  await kv.put(`meta:site:${date}:${urlHash}`, JSON.stringify({
+    timestamp: `${date}T02:00:00.000Z`,
+    hash: 'unused',
+    status: 200,
+    contentType: 'text/html; charset=utf-8',
+    size: content.length,
+    fetchTime: 10,
+    ...metadata,
+    contentEncoding: encoded.encoding
+  }));
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('createWarcExportStream', () => {
+  it('round-trips stored backups within the date range as request/response records', async () => {
+    const kv = createMockKV();
+    await storeBackup(kv, '2026-03-01', 'aaaa', '<p>too early</p>', { url: 'https://example.com/' });
+    await storeBackup(kv, '2026-03-02', 'bbbb', '<p>Héllo</p>', {
+      url: 'https://example.com/about?x=1',
+      etag: '"v2"',
+      lastModified: 'Mon, 02 Mar 2026 01:00:00 GMT'
+    });
+    await storeBackup(kv, '2026-03-03', 'cccc', '<p>404</p>', { url: 'https://example.com/gone', status: 404 });
+    // Metadata without a payload is skipped
+    await kv.put('meta:site:2026-03-03:dddd', JSON.stringify({ url: 'https://example.com/missing', timestamp: '2026-03-03T02:00:00.000Z' }));
+    await storeBackup(kv, '2026-03-04', 'eeee', '<p>too late</p>', { url: 'https://example.com/' });
+
+    const range = { from: '2026-03-02', to: '2026-03-03' };
+    const page = await listWarcExportPage(kv, 'site', range, 10);
+    expect(page.next).toBeNull();
+    const gzipped = await readStream(createWarcExportStream(kv, 'site', range, page.keys, 'TestAgent/1.0'));
+    // Every record is its own gzip member
+    expect(Array.from(gzipped.subarray(0, 2))).toEqual([0x1f, 0x8b]);
+
+    const records = parseWarcRecords(await gunzipBytes(gzipped));
+    expect(records.map((record) => record.headers['WARC-Type'])).toEqual(['warcinfo', 'request', 'response', 'request', 'response']);
+    expect(new TextDecoder().decode(records[0].block)).toContain('isPartOf: site');
+
+    const [, request, response] = records;
+    expect(request.headers).toMatchObject({
+      'WARC-Target-URI': 'https://example.com/about?x=1',
+      'WARC-Date': '2026-03-02T02:00:00.000Z',
+      'WARC-Concurrent-To': response.headers['WARC-Record-ID'],
+      'Content-Type': 'application/http;msgtype=request'
+    });
+    expect(parseHttpMessage(request.block)).toMatchObject({
+      startLine: 'GET /about?x=1 HTTP/1.1',
+      headers: { host: 'example.com', 'user-agent': 'TestAgent/1.0' }
+    });
+
+    const message = parseHttpMessage(response.block);
+    expect(message.startLine).toBe('HTTP/1.1 200 OK');
+    expect(message.headers).toMatchObject({
+      'content-type': 'text/html; charset=utf-8',
+      etag: '"v2"',
+      'last-modified': 'Mon, 02 Mar 2026 01:00:00 GMT',
+      'content-length': String(message.body.length)
+    });
+    expect(new TextDecoder().decode(message.body)).toBe('<p>Héllo</p>');
+    const digest = await crypto.subtle.digest('SHA-256', message.body);
+    expect(response.headers['WARC-Payload-Digest']).toBe(
+      'sha256:' + Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+    );
+
+    expect(parseHttpMessage(records[4].block).startLine).toBe('HTTP/1.1 404 Not Found');
+  });
+
+  it('splits a large export into pages that each say where the next starts', async () => {
+    const kv = createMockKV();
+    for (const [date, urlHash] of [['2026-03-01', 'aaaa'], ['2026-03-01', 'bbbb'], ['2026-03-02', 'aaaa']]) {
+      await storeBackup(kv, date, urlHash, `<p>${date}</p>`, { url: `https://example.com/${urlHash}` });
+    }
+
+    const first = await listWarcExportPage(kv, 'site', {}, 2);
+    expect(first).toEqual({
+      keys: ['meta:site:2026-03-01:aaaa', 'meta:site:2026-03-01:bbbb'],
+      next: { after: '2026-03-01:bbbb', cursor: undefined }
+    });
+    expect(await listWarcExportPage(kv, 'site', {}, 2, first.next!)).toEqual({ keys: ['meta:site:2026-03-02:aaaa'], next: null });
+    // A page that ends exactly on the last backup is the last page
+    expect((await listWarcExportPage(kv, 'site', {}, 3)).next).toBeNull();
+  });
+});
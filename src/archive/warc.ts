@@ -0,0 +1,241 @@
+import { DEFAULT_USER_AGENT } from '../backup/request-headers';
+import { BackupMetadata } from '../types/site';
+
+export const WARC_VERSION = 'WARC/1.1';
+
+/** One WARC record: its named header fields and its content block. */
+export interface WarcRecord {
+  headers: Record<string, string>;
+  block: Uint8Array;
+}
+
+/** An HTTP request or response as stored in a WARC record block. */
+export interface HttpMessage {
+  startLine: string;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  body: Uint8Array;
+}
+
+const CRLF = '\r\n';
+const HEADER_END = new Uint8Array([13, 10, 13, 10]);
+
+const REASON_PHRASES: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  203: 'Non-Authoritative Information',
+  204: 'No Content',
+  206: 'Partial Content',
+  301: 'Moved Permanently',
+  302: 'Found',
+  304: 'Not Modified',
+  404: 'Not Found',
+  410: 'Gone'
+};
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const combined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    combined.set(part, offset);
+    offset += part.length;
+  }
+  return combined;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from: number): number {
+  for (let index = from; index <= haystack.length - needle.length; index++) {
+    let offset = 0;
+    while (offset < needle.length && haystack[index + offset] === needle[offset]) {
+      offset++;
+    }
+    if (offset === needle.length) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+async function sha256Digest(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `sha256:${hex}`;
+}
+
+/** Header values must stay on one line. */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function newRecordId(): string {
+  return `<urn:uuid:${crypto.randomUUID()}>`;
+}
+
+/** `Content-Length` is set from the block; the version line and field order are as given. */
+export function serializeWarcRecord(record: WarcRecord): Uint8Array {
+  const fields = Object.entries({ ...record.headers, 'Content-Length': String(record.block.length) })
+    .map(([name, value]) => `${name}: ${headerValue(value)}${CRLF}`)
+    .join('');
+  const head = new TextEncoder().encode(`${WARC_VERSION}${CRLF}${fields}${CRLF}`);
+  return concatBytes([head, record.block, new TextEncoder().encode(CRLF + CRLF)]);
+}
+
+/** Split uncompressed WARC data into records. Throws on malformed input. */
+export function parseWarcRecords(data: Uint8Array): WarcRecord[] {
+  const decoder = new TextDecoder();
+  const records: WarcRecord[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    // Tolerate extra blank lines between records
+    if (data[offset] === 13 || data[offset] === 10) {
+      offset++;
+      continue;
+    }
+
+    const headerEnd = indexOfBytes(data, HEADER_END, offset);
+    if (headerEnd === -1) {
+      throw new Error(`Truncated WARC record header at byte ${offset}`);
+    }
+
+    const [versionLine, ...fieldLines] = decoder.decode(data.subarray(offset, headerEnd)).split(CRLF);
+    if (!versionLine.startsWith('WARC/')) {
+      throw new Error(`Expected a WARC version line at byte ${offset}`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const line of fieldLines) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    const contentLength = Number.parseInt(
+      Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-length')?.[1] ?? '',
+      10
+    );
+    const blockStart = headerEnd + HEADER_END.length;
+    if (!Number.isFinite(contentLength) || contentLength < 0 || blockStart + contentLength > data.length) {
+      throw new Error(`Invalid Content-Length in WARC record at byte ${offset}`);
+    }
+
+    records.push({ headers, block: data.slice(blockStart, blockStart + contentLength) });
+    offset = blockStart + contentLength;
+  }
+
+  return records;
+}
+
+/** Parse the HTTP message in a request or response record block. */
+export function parseHttpMessage(block: Uint8Array): HttpMessage {
+  const headerEnd = indexOfBytes(block, HEADER_END, 0);
+  const head = new TextDecoder().decode(headerEnd === -1 ? block : block.subarray(0, headerEnd));
+  const [startLine, ...lines] = head.split(CRLF);
+
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return {
+    startLine,
+    headers,
+    body: headerEnd === -1 ? new Uint8Array() : block.slice(headerEnd + HEADER_END.length)
+  };
+}
+
+/** The `warcinfo` record that opens an export, describing its contents. */
+export function buildWarcinfoRecord(filename: string, fields: Record<string, string>, date: Date = new Date()): WarcRecord {
+  const block = Object.entries({
+    software: 'sitemap-scan',
+    format: 'WARC File Format 1.1',
+    conformsTo: 'http://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/',
+    ...fields
+  })
+    .map(([name, value]) => `${name}: ${headerValue(value)}${CRLF}`)
+    .join('');
+
+  return {
+    headers: {
+      'WARC-Type': 'warcinfo',
+      'WARC-Record-ID': newRecordId(),
+      'WARC-Date': date.toISOString(),
+      'WARC-Filename': filename,
+      'Content-Type': 'application/warc-fields'
+    },
+    block: new TextEncoder().encode(block)
+  };
+}
+
+/**
+ * Request and response records for one stored backup. The response carries the stored
+ * status and the headers kept in `BackupMetadata`; the payload is the decoded page, so no
+ * Content-Encoding is declared.
+ */
+export async function buildCaptureRecords(
+  metadata: BackupMetadata,
+  content: string,
+  userAgent: string = DEFAULT_USER_AGENT
+): Promise<WarcRecord[]> {
+  const target = new URL(metadata.url);
+  const capturedAt = new Date(metadata.timestamp);
+  const warcDate = Number.isNaN(capturedAt.getTime()) ? new Date().toISOString() : capturedAt.toISOString();
+  const requestId = newRecordId();
+  const responseId = newRecordId();
+
+  const requestBlock = new TextEncoder().encode(
+    `GET ${target.pathname}${target.search} HTTP/1.1${CRLF}` +
+    `Host: ${target.host}${CRLF}` +
+    `User-Agent: ${headerValue(userAgent)}${CRLF}` +
+    `Accept: text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8${CRLF}${CRLF}`
+  );
+
+  const payload = new TextEncoder().encode(content);
+  const responseHeaders: Record<string, string> = {
+    'Content-Type': metadata.contentType,
+    'Content-Length': String(payload.length),
+    ...(metadata.etag && { ETag: metadata.etag }),
+    ...(metadata.lastModified && { 'Last-Modified': metadata.lastModified }),
+    ...(!Number.isNaN(capturedAt.getTime()) && { Date: capturedAt.toUTCString() })
+  };
+  const responseHead = new TextEncoder().encode(
+    `HTTP/1.1 ${metadata.status} ${REASON_PHRASES[metadata.status] ?? ''}`.trimEnd() + CRLF +
+    Object.entries(responseHeaders).map(([name, value]) => `${name}: ${headerValue(value)}${CRLF}`).join('') +
+    CRLF
+  );
+  const responseBlock = concatBytes([responseHead, payload]);
+
+  return [
+    {
+      headers: {
+        'WARC-Type': 'request',
+        'WARC-Record-ID': requestId,
+        'WARC-Date': warcDate,
+        'WARC-Target-URI': metadata.url,
+        'WARC-Concurrent-To': responseId,
+        'WARC-Block-Digest': await sha256Digest(requestBlock),
+        'Content-Type': 'application/http;msgtype=request'
+      },
+      block: requestBlock
+    },
+    {
+      headers: {
+        'WARC-Type': 'response',
+        'WARC-Record-ID': responseId,
+        'WARC-Date': warcDate,
+        'WARC-Target-URI': metadata.url,
+        'WARC-Block-Digest': await sha256Digest(responseBlock),
+        'WARC-Payload-Digest': await sha256Digest(payload),
+        'Content-Type': 'application/http;msgtype=response'
+      },
+      block: responseBlock
+    }
+  ];
+}
@@ -0,0 +1,239 @@
+import { SizeLimitError, decompressBytes } from '../runtime/content-storage';
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  modifiedAt: Date;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Fixed part of the end-of-central-directory record, plus the longest possible comment
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === LOCAL_FILE_HEADER;
+}
+
+/** MS-DOS date and time fields, read as UTC. */
+function fromDosDateTime(date: number, time: number): Date {
+  return new Date(Date.UTC(
+    1980 + (date >> 9),
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ));
+}
+
+/**
+ * Files in a zip archive, read through its central directory. Stored and deflated entries
+ * are supported; directories are skipped. Zip64 and encrypted archives are rejected, and
+ * a `SizeLimitError` is thrown once the files together pass `maxTotalBytes`.
+ */
+export async function readZipEntries(bytes: Uint8Array, maxTotalBytes: number = Infinity): Promise<ZipEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let eocd = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - MAX_EOCD_SEARCH); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  let totalBytes = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Corrupt zip central directory at byte ${offset}`);
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const modifiedAt = fromDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true));
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip local header for ${name}`);
+    }
+
+    const dataStart = localHeaderOffset + 30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = compressed.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = await decompressBytes(compressed, 'deflate-raw', maxTotalBytes - totalBytes);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    totalBytes += data.length;
+    if (totalBytes > maxTotalBytes) {
+      throw new SizeLimitError(maxTotalBytes);
+    }
+    entries.push({ name, modifiedAt, data });
+  }
+
+  return entries;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date and time fields in UTC, the inverse of `fromDosDateTime`; clamped to 1980. */
+function toDosDateTime(value: Date): { date: number; time: number } {
+  if (value.getUTCFullYear() < 1980) {
+    return { date: (1 << 5) | 1, time: 0 };
+  }
+  return {
+    date: ((value.getUTCFullYear() - 1980) << 9) | ((value.getUTCMonth() + 1) << 5) | value.getUTCDate(),
+    time: (value.getUTCHours() << 11) | (value.getUTCMinutes() << 5) | Math.floor(value.getUTCSeconds() / 2)
+  };
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new CompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  const writing = writer.write(data).finally(() => writer.close());
+  const output = new Uint8Array(await new Response(stream.readable).arrayBuffer());
+  await writing;
+  return output;
+}
+
+interface WrittenZipEntry {
+  name: Uint8Array;
+  date: number;
+  time: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Builds a zip archive one file at a time, so it can be streamed: `addFile` returns the bytes
+ * of each file's local header and deflated data, and `finish` the central directory that
+ * closes the archive. Names are UTF-8. Archives that would need Zip64 are rejected.
+ */
+export class ZipWriter {
+  private entries: WrittenZipEntry[] = [];
+  private offset = 0;
+
+  async addFile(name: string, modifiedAt: Date, data: Uint8Array): Promise<Uint8Array> {
+    const compressed = await deflateRaw(data);
+    const { date, time } = toDosDateTime(modifiedAt);
+    const entry: WrittenZipEntry = {
+      name: new TextEncoder().encode(name),
+      date,
+      time,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset
+    };
+    if (this.entries.length >= 0xffff || this.offset + 30 + entry.name.length + compressed.length >= 0xffffffff) {
+      throw new Error('Zip archive is too large: Zip64 is not supported');
+    }
+
+    const output = new Uint8Array(30 + entry.name.length + compressed.length);
+    const view = new DataView(output.buffer);
+    view.setUint32(0, LOCAL_FILE_HEADER, true);
+    view.setUint16(4, 20, true); // version needed to extract
+    this.writeEntryFields(view, 6, entry);
+    view.setUint16(26, entry.name.length, true);
+    output.set(entry.name, 30);
+    output.set(compressed, 30 + entry.name.length);
+
+    this.entries.push(entry);
+    this.offset += output.length;
+    return output;
+  }
+
+  finish(): Uint8Array {
+    const directorySize = this.entries.reduce((total, entry) => total + 46 + entry.name.length, 0);
+    const output = new Uint8Array(directorySize + 22);
+    const view = new DataView(output.buffer);
+    let position = 0;
+
+    for (const entry of this.entries) {
+      view.setUint32(position, CENTRAL_DIRECTORY_HEADER, true);
+      view.setUint16(position + 4, 20, true); // version made by
+      view.setUint16(position + 6, 20, true); // version needed to extract
+      this.writeEntryFields(view, position + 8, entry);
+      view.setUint16(position + 28, entry.name.length, true);
+      view.setUint32(position + 42, entry.offset, true);
+      output.set(entry.name, position + 46);
+      position += 46 + entry.name.length;
+    }
+
+    view.setUint32(position, END_OF_CENTRAL_DIRECTORY, true);
+    view.setUint16(position + 8, this.entries.length, true);
+    view.setUint16(position + 10, this.entries.length, true);
+    view.setUint32(position + 12, directorySize, true);
+    view.setUint32(position + 16, this.offset, true);
+    return output;
+  }
+
+  /** The fields local and central headers share, from general purpose flags to uncompressed size. */
+  private writeEntryFields(view: DataView, position: number, entry: WrittenZipEntry): void {
+    view.setUint16(position, 0x0800, true); // names are UTF-8
+    view.setUint16(position + 2, METHOD_DEFLATE, true);
+    view.setUint16(position + 4, entry.time, true);
+    view.setUint16(position + 6, entry.date, true);
+    view.setUint32(position + 8, entry.crc, true);
+    view.setUint32(position + 12, entry.compressedSize, true);
+    view.setUint32(position + 16, entry.size, true);
+  }
+}
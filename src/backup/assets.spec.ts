@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { AssetManifest, extractAssetUrls, rewriteAssetUrls } from './assets';
+
+const html = `<html><head>
+  <base href="/docs/">
+  <link rel="stylesheet" href="site.css?v=2&amp;x=1">
+  <link rel="preconnect" href="https://fonts.example">
+  <link rel="shortcut icon" href='/favicon.ico'>
+  <script src="app.js"></script>
+  <script>inline()</script>
+</head><body>
+  <img src="data:image/png;base64,AAAA" alt="">
+  <picture><source srcset="hero.webp 1x, hero@2x.webp 2x"><img src=hero.jpg></picture>
+  <a href="page.html">Not an asset</a>
+</body></html>`;
+
+describe('extractAssetUrls', () => {
+  it('finds stylesheets, icons, scripts and images in document order, resolved against <base>', () => {
+    expect(extractAssetUrls(html, 'https://example.com/index.html')).toEqual([
+      'https://example.com/docs/site.css?v=2&x=1',
+      'https://example.com/favicon.ico',
+      'https://example.com/docs/app.js',
+      'https://example.com/docs/hero.webp',
+      'https://example.com/docs/hero@2x.webp',
+      'https://example.com/docs/hero.jpg'
+    ]);
+  });
+});
+
+describe('rewriteAssetUrls', () => {
+  it('points captured references, including srcset candidates, at stored copies', () => {
+    const asset = (hash: string) => ({ hash, contentType: 'application/octet-stream', size: 1 });
+    const manifest: AssetManifest = {
+      capturedAt: '2026-01-01T00:00:00.000Z',
+      assets: {
+        'https://example.com/docs/site.css?v=2&x=1': asset('css'),
+        'https://example.com/docs/hero@2x.webp': asset('hero2x')
+      }
+    };
+
+    const rewritten = rewriteAssetUrls(html, 'https://example.com/index.html', manifest, '/assets/s');
+
+    expect(rewritten).toContain('<link rel="stylesheet" href="/assets/s/css">');
+    expect(rewritten).toContain('<source srcset="hero.webp 1x, /assets/s/hero2x 2x">');
+    // Uncaptured references are left as they were
+    expect(rewritten).toContain('<script src="app.js"></script>');
+    expect(rewritten).toContain('<img src=hero.jpg>');
+  });
+});
@@ -0,0 +1,307 @@
+import { base64ToBytes, bytesToBase64 } from '../runtime/content-storage';
+import { decodeHtmlAttribute, getDocumentBase } from './crawler';
+
+/** A stored asset, as a page's manifest refers to it. */
+export interface CapturedAsset {
+  // SHA-256 of the asset's bytes; the blob is stored once per site under this hash
+  hash: string;
+  contentType: string;
+  size: number;
+}
+
+/** Assets captured with one backup of a page (`asset_manifest:{siteId}:{date}:{urlHash}`). */
+export interface AssetManifest {
+  capturedAt: string;
+  // When the manifest expires, if it was stored with an expiry; older manifests expire a horizon after capturedAt
+  expiresAt?: string;
+  // Keyed by the asset's absolute URL as the page references it
+  assets: Record<string, CapturedAsset>;
+}
+
+/** Latest capture of an asset URL, used to skip or re-validate it on later pages and runs. */
+export interface AssetRef extends CapturedAsset {
+  fetchedAt: string;
+  // When the blob expires; it is re-stored before a manifest could outlive it
+  blobExpiresAt: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface StoredAsset {
+  contentType: string;
+  body: Uint8Array;
+}
+
+/** Per-run asset capture counts, reported with the batch result. */
+export interface AssetCaptureStats {
+  // Downloaded from the origin (including 304 re-validations)
+  fetched: number;
+  // New or refreshed blobs written to KV
+  stored: number;
+  // Served from an earlier page or run without a request
+  reused: number;
+  failed: number;
+  // Left out: disallowed by robots.txt, too large, or over the run's budget
+  skipped: number;
+}
+
+export const DEFAULT_MAX_ASSETS_PER_PAGE = 50;
+export const MAX_ASSETS_PER_PAGE = 200;
+export const DEFAULT_MAX_ASSET_BYTES = 5 * 1024 * 1024;
+// Stored base64-encoded, which must stay under KV's 25 MiB value limit.
+export const MAX_ASSET_BYTES = 15 * 1024 * 1024;
+
+const ASSET_TAG_PATTERN = /<(link|script|img|source)\b[^>]*>/gi;
+const ATTRIBUTE_PATTERN = /(\s)([a-z][a-z0-9-]*)(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const REL_PATTERN = /\srel\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+
+/** Attributes of `tag` that point at an asset; `<link>` only counts for stylesheets and icons. */
+function getAssetAttributes(tagName: string, tag: string): string[] {
+  switch (tagName.toLowerCase()) {
+    case 'link': {
+      const relMatch = REL_PATTERN.exec(tag);
+      const rel = (relMatch?.[1] ?? relMatch?.[2] ?? relMatch?.[3] ?? '').toLowerCase().split(/\s+/);
+      return rel.includes('stylesheet') || rel.includes('icon') ? ['href'] : [];
+    }
+    case 'script':
+      return ['src'];
+    case 'img':
+    case 'source':
+      return ['src', 'srcset'];
+    default:
+      return [];
+  }
+}
+
+function resolveAssetUrl(value: string, base: string): string | null {
+  if (!value || value.startsWith('#')) {
+    return null;
+  }
+
+  try {
+    const url = new URL(value, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Visit every asset reference in `html` in document order. `replace` returns the value to
+ * write in place of the reference, or null to leave it unchanged.
+ */
+function mapAssetReferences(html: string, pageUrl: string, replace: (url: string) => string | null): string {
+  const base = getDocumentBase(html, pageUrl);
+
+  return html.replace(ASSET_TAG_PATTERN, (tag: string, tagName: string) => {
+    const assetAttributes = getAssetAttributes(tagName, tag);
+    if (assetAttributes.length === 0) {
+      return tag;
+    }
+
+    return tag.replace(ATTRIBUTE_PATTERN, (attribute, space, name, equals, doubleQuoted, singleQuoted, unquoted) => {
+      const attributeName = String(name).toLowerCase();
+      if (!assetAttributes.includes(attributeName)) {
+        return attribute;
+      }
+
+      const value = decodeHtmlAttribute(doubleQuoted ?? singleQuoted ?? unquoted);
+      let rewritten: string | null;
+      if (attributeName === 'srcset') {
+        let changed = false;
+        const candidates = value.split(',').map((candidate) => {
+          const [candidateUrl, ...descriptor] = candidate.trim().split(/\s+/);
+          const resolved = resolveAssetUrl(candidateUrl, base);
+          const replacement = resolved ? replace(resolved) : null;
+          if (replacement === null) {
+            return candidate.trim();
+          }
+          changed = true;
+          return [replacement, ...descriptor].join(' ');
+        });
+        rewritten = changed ? candidates.join(', ') : null;
+      } else {
+        const resolved = resolveAssetUrl(value, base);
+        rewritten = resolved ? replace(resolved) : null;
+      }
+
+      return rewritten === null ? attribute : `${space}${name}${equals}"${rewritten.replace(/"/g, '&quot;')}"`;
+    });
+  });
+}
+
+/**
+ * Absolute http(s) URLs of the stylesheets, icons, scripts and images `html` references,
+ * in document order, resolved against its `<base href>` or the page URL. Duplicates are dropped.
+ */
+export function extractAssetUrls(html: string, pageUrl: string): string[] {
+  const urls = new Set<string>();
+  mapAssetReferences(html, pageUrl, (url) => {
+    urls.add(url);
+    return null;
+  });
+  return Array.from(urls);
+}
+
+/** Point the asset references `html` has in `manifest` at `{assetBaseUrl}/{hash}`. */
+export function rewriteAssetUrls(html: string, pageUrl: string, manifest: AssetManifest, assetBaseUrl: string): string {
+  return mapAssetReferences(html, pageUrl, (url) => {
+    const asset = manifest.assets[url];
+    return asset ? `${assetBaseUrl}/${asset.hash}` : null;
+  });
+}
+
+export async function hashAssetBytes(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Content-addressed page assets in KV. Blobs (`asset_blob:{siteId}:{hash}`) are shared by
+ * every page and date that references the same bytes; `asset_ref:{siteId}:{urlHash}` tracks
+ * the latest capture of each asset URL, and each page backup lists its assets in a manifest.
+ */
+export class AssetStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async getRef(siteId: string, assetUrl: string): Promise<AssetRef | null> {
+    const raw = await this.kv.get(`asset_ref:${siteId}:${await this.getAssetUrlHash(assetUrl)}`);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as AssetRef;
+    } catch {
+      return null;
+    }
+  }
+
+  async putRef(siteId: string, assetUrl: string, ref: AssetRef, ttlSeconds: number): Promise<void> {
+    await this.kv.put(`asset_ref:${siteId}:${await this.getAssetUrlHash(assetUrl)}`, JSON.stringify(ref), {
+      expirationTtl: ttlSeconds
+    });
+  }
+
+  async getBlob(siteId: string, hash: string): Promise<StoredAsset | null> {
+    const raw = await this.kv.get(`asset_blob:${siteId}:${hash}`);
+    if (!raw) return null;
+    try {
+      const parsed = JSON.parse(raw) as { contentType: string; body: string };
+      return { contentType: parsed.contentType, body: base64ToBytes(parsed.body) };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Store a blob; a null TTL keeps it until the site is deleted. */
+  async putBlob(siteId: string, hash: string, asset: StoredAsset, ttlSeconds: number | null): Promise<void> {
+    await this.kv.put(
+      `asset_blob:${siteId}:${hash}`,
+      JSON.stringify({ contentType: asset.contentType, body: bytesToBase64(asset.body) }),
+      ttlSeconds === null ? undefined : { expirationTtl: ttlSeconds }
+    );
+  }
+
+  /**
+   * Keep a stored blob until the site is deleted, for a backup under legal hold. The blob is
+   * marked (`asset_blob_pin:{siteId}:{hash}`) so re-storing it later keeps it pinned.
+   * Returns false when the blob is not stored.
+   */
+  async pinBlob(siteId: string, hash: string): Promise<boolean> {
+    const raw = await this.kv.get(`asset_blob:${siteId}:${hash}`);
+    if (raw === null) {
+      return false;
+    }
+
+    await this.kv.put(`asset_blob_pin:${siteId}:${hash}`, '1');
+    await this.kv.put(`asset_blob:${siteId}:${hash}`, raw);
+    return true;
+  }
+
+  /** Re-store a blob with a fresh expiry; pinned blobs keep none. Returns false when the blob is not stored. */
+  async refreshBlob(siteId: string, hash: string, ttlSeconds: number): Promise<boolean> {
+    if (await this.isBlobPinned(siteId, hash)) {
+      return true;
+    }
+
+    const raw = await this.kv.get(`asset_blob:${siteId}:${hash}`);
+    if (raw === null) {
+      return false;
+    }
+    await this.kv.put(`asset_blob:${siteId}:${hash}`, raw, { expirationTtl: ttlSeconds });
+    return true;
+  }
+
+  async isBlobPinned(siteId: string, hash: string): Promise<boolean> {
+    return await this.kv.get(`asset_blob_pin:${siteId}:${hash}`) !== null;
+  }
+
+  async getManifest(siteId: string, date: string, urlHash: string): Promise<AssetManifest | null> {
+    const raw = await this.kv.get(`asset_manifest:${siteId}:${date}:${urlHash}`);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as AssetManifest;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Store a page's manifest; a null TTL keeps it until retention or site deletion removes the backup. */
+  async putManifest(siteId: string, date: string, urlHash: string, manifest: AssetManifest, ttlSeconds: number | null): Promise<void> {
+    await this.kv.put(
+      `asset_manifest:${siteId}:${date}:${urlHash}`,
+      JSON.stringify(ttlSeconds === null
+        ? manifest
+        : { ...manifest, expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString() }),
+      ttlSeconds === null ? undefined : { expirationTtl: ttlSeconds }
+    );
+  }
+
+  /**
+   * Push back the expiry of a backup's manifest and the blobs it names, for a backup a pointer
+   * keeps past the retention horizon. Nothing is written while more than half of `ttlSeconds`
+   * is left. Blobs already in `refreshedBlobs` are skipped, and refreshed ones are added.
+   * Returns whether the manifest was re-stored.
+   */
+  async refreshManifest(
+    siteId: string,
+    date: string,
+    urlHash: string,
+    ttlSeconds: number,
+    refreshedBlobs: Set<string> = new Set()
+  ): Promise<boolean> {
+    const manifest = await this.getManifest(siteId, date, urlHash);
+    if (!manifest) {
+      return false;
+    }
+
+    const expiresAt = manifest.expiresAt
+      ? Date.parse(manifest.expiresAt)
+      : Date.parse(manifest.capturedAt) + ttlSeconds * 1000;
+    if (expiresAt - Date.now() > ttlSeconds * 500) {
+      return false;
+    }
+
+    // Blobs go first and last twice as long, so the manifest never outlives them
+    for (const { hash } of Object.values(manifest.assets ?? {})) {
+      if (!refreshedBlobs.has(hash)) {
+        await this.refreshBlob(siteId, hash, ttlSeconds * 2);
+        refreshedBlobs.add(hash);
+      }
+    }
+    await this.putManifest(siteId, date, urlHash, manifest, ttlSeconds);
+    return true;
+  }
+
+  private async getAssetUrlHash(assetUrl: string): Promise<string> {
+    return (await hashAssetBytes(new TextEncoder().encode(assetUrl))).substring(0, 16);
+  }
+}
@@ -0,0 +1,117 @@
+export interface ExecutionBudgetLimits {
+  wallClockMs: number;
+  /** Outbound fetches plus KV and R2 operations. */
+  subrequests: number;
+}
+
+export interface BudgetUsage {
+  wallClockMs: number;
+  wallClockLimitMs: number;
+  subrequests: number;
+  subrequestLimit: number;
+  /** The larger of the two dimensions, as a percentage of its limit. */
+  percentUsed: number;
+  targetPercent: number;
+  /** True when the run stopped pulling URLs because the next chunk would cross the target. */
+  stoppedByBudget: boolean;
+}
+
+const METERED_KV_METHODS = new Set<PropertyKey>(['get', 'getWithMetadata', 'put', 'delete', 'list']);
+const METERED_R2_METHODS = new Set<PropertyKey>(['head', 'get', 'put', 'delete', 'list']);
+
+/**
+ * Tracks how much of an invocation's wall-clock and subrequest allowance a run has used.
+ * Work is admitted only while its projected cost keeps usage under the target ratio, which
+ * leaves headroom for the bookkeeping writes after the last batch.
+ */
+export class ExecutionBudget {
+  static readonly DEFAULT_WALL_CLOCK_MS = 120_000;
+  // Cloudflare's per-invocation subrequest limit on the paid plan
+  static readonly DEFAULT_SUBREQUESTS = 1000;
+  static readonly TARGET_RATIO = 0.8;
+
+  private readonly limits: ExecutionBudgetLimits;
+  private readonly startedAt: number;
+  private subrequests = 0;
+  private stoppedByBudget = false;
+
+  constructor(limits: Partial<ExecutionBudgetLimits> = {}, startedAt: number = Date.now()) {
+    this.limits = {
+      wallClockMs: limits.wallClockMs ?? ExecutionBudget.DEFAULT_WALL_CLOCK_MS,
+      subrequests: limits.subrequests ?? ExecutionBudget.DEFAULT_SUBREQUESTS
+    };
+    this.startedAt = startedAt;
+  }
+
+  recordSubrequests(count: number = 1): void {
+    this.subrequests += count;
+  }
+
+  getSubrequestsUsed(): number {
+    return this.subrequests;
+  }
+
+  getElapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /** Whether work with the given estimated cost still fits under the target. */
+  canAfford(estimatedSubrequests: number, estimatedWallClockMs: number): boolean {
+    return (
+      this.subrequests + estimatedSubrequests <= this.limits.subrequests * ExecutionBudget.TARGET_RATIO &&
+      this.getElapsedMs() + estimatedWallClockMs <= this.limits.wallClockMs * ExecutionBudget.TARGET_RATIO
+    );
+  }
+
+  markStopped(): void {
+    this.stoppedByBudget = true;
+  }
+
+  getUsage(): BudgetUsage {
+    const wallClockMs = this.getElapsedMs();
+    const usedRatio = Math.max(
+      wallClockMs / this.limits.wallClockMs,
+      this.subrequests / this.limits.subrequests
+    );
+
+    return {
+      wallClockMs,
+      wallClockLimitMs: this.limits.wallClockMs,
+      subrequests: this.subrequests,
+      subrequestLimit: this.limits.subrequests,
+      percentUsed: Math.round(usedRatio * 100),
+      targetPercent: Math.round(ExecutionBudget.TARGET_RATIO * 100),
+      stoppedByBudget: this.stoppedByBudget
+    };
+  }
+}
+
+function meterBinding<T extends object>(binding: T, meteredMethods: Set<PropertyKey>, onOperation: () => void): T {
+  return new Proxy(binding, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      if (!meteredMethods.has(property)) {
+        return value.bind(target);
+      }
+
+      return (...args: unknown[]) => {
+        onOperation();
+        return value.apply(target, args);
+      };
+    }
+  });
+}
+
+/** Wrap a KV namespace so every operation is reported to `onOperation`. */
+export function meterKVNamespace(kv: KVNamespace, onOperation: () => void): KVNamespace {
+  return meterBinding(kv, METERED_KV_METHODS, onOperation);
+}
+
+/** Wrap an R2 bucket so every operation is reported to `onOperation`. */
+export function meterR2Bucket(bucket: R2Bucket, onOperation: () => void): R2Bucket {
+  return meterBinding(bucket, METERED_R2_METHODS, onOperation);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlFrontier, extractLinks } from './crawler';
+
+describe('extractLinks', () => {
+  it('resolves hrefs against <base>, decodes entities and drops fragments and non-http links', () => {
+    const html = `
+      <html><head><base href="/docs/"></head><body>
+        <a href="intro">Intro</a>
+        <a class="x" href='guide?a=1&amp;b=2#setup'>Guide</a>
+        <a href=https://other.example/page>Other</a>
+        <area href="/map" />
+        <a href="#top">Top</a>
+        <a href="mailto:team@example.com">Mail</a>
+        <a href="javascript:void(0)">Nope</a>
+        <a href="intro">Intro again</a>
+      </body></html>`;
+
+    expect(extractLinks(html, 'https://example.com/index.html')).toEqual([
+      'https://example.com/docs/intro',
+      'https://example.com/docs/guide?a=1&b=2',
+      'https://other.example/page',
+      'https://example.com/map'
+    ]);
+  });
+});
+
+describe('CrawlFrontier', () => {
+  it('queues same-origin pages once, within the depth and page caps', () => {
+    const frontier = CrawlFrontier.start('https://example.com/', { maxDepth: 1, maxPages: 3 });
+    const queued = frontier.addLinks(
+      [
+        'https://example.com/a',
+        'https://other.example/b',
+        'https://example.com/logo.png',
+        'https://example.com/blocked',
+        'https://example.com/a',
+        'https://example.com/c',
+        'https://example.com/d'
+      ],
+      0,
+      (url) => !url.endsWith('/blocked')
+    );
+
+    expect(queued).toEqual(['https://example.com/a', 'https://example.com/c']);
+    expect(frontier.discoveredCount).toBe(3);
+
+    // Pages at maxDepth are fetched but their links are not followed
+    expect(frontier.addLinks(['https://example.com/e'], 1, () => true)).toEqual([]);
+
+    frontier.take(1);
+    expect(frontier.queue.map((entry) => entry.url)).toEqual(['https://example.com/a', 'https://example.com/c']);
+
+    const resumed = CrawlFrontier.resume('https://example.com/', { maxDepth: 2, maxPages: 10 }, frontier.toState());
+    expect(resumed.addLinks(['https://example.com/a', 'https://example.com/f'], 1, () => true)).toEqual([
+      'https://example.com/f'
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+export interface CrawlLimits {
+  maxDepth: number;
+  maxPages: number;
+}
+
+export interface CrawlQueueEntry {
+  url: string;
+  depth: number;
+}
+
+/** Frontier of a crawl in progress, persisted between cron ticks. */
+export interface CrawlState {
+  startedAt: string;
+  updatedAt: string;
+  queue: CrawlQueueEntry[];
+  // Every URL ever queued in this crawl, so links are only followed once and maxPages holds
+  seen: string[];
+  // URLs fetched successfully; becomes the crawl snapshot when the frontier empties
+  pages: string[];
+}
+
+/** Final say on whether a same-origin link may be queued (exclude patterns, robots.txt). */
+export type LinkFilter = (url: string) => boolean;
+
+export const DEFAULT_CRAWL_LIMITS: CrawlLimits = { maxDepth: 3, maxPages: 500 };
+export const MAX_CRAWL_DEPTH = 20;
+export const MAX_CRAWL_PAGES = 10_000;
+
+// Links to these are not pages, so the crawler does not queue them.
+const NON_PAGE_EXTENSIONS = /\.(?:avif|bmp|css|csv|docx?|eot|gif|gz|ico|jpe?g|js|json|mp3|mp4|otf|pdf|png|pptx?|rss|svg|tar|tgz|ttf|txt|webm|webp|woff2?|xlsx?|xml|zip)$/i;
+
+const LINK_PATTERN = /<(?:a|area)\b[^>]*?\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+const BASE_PATTERN = /<base\b[^>]*?\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+
+export function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&#0*38;/g, '&')
+    .replace(/&#x0*26;/gi, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;/g, "'")
+    .trim();
+}
+
+/** URL relative references in `html` resolve against: its `<base href>`, else the page URL. */
+export function getDocumentBase(html: string, pageUrl: string): string {
+  const baseMatch = BASE_PATTERN.exec(html);
+  if (baseMatch) {
+    try {
+      return new URL(decodeHtmlAttribute(baseMatch[1] ?? baseMatch[2] ?? baseMatch[3]), pageUrl).href;
+    } catch {
+      // keep the page URL
+    }
+  }
+  return pageUrl;
+}
+
+/**
+ * Absolute http(s) URLs of the `<a>`/`<area>` links in `html`, resolved against the page's
+ * `<base href>` or its own URL, with fragments removed. Duplicates are dropped.
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const base = getDocumentBase(html, pageUrl);
+  const links = new Set<string>();
+  for (const match of html.matchAll(LINK_PATTERN)) {
+    const href = decodeHtmlAttribute(match[1] ?? match[2] ?? match[3]);
+    if (!href || href.startsWith('#')) {
+      continue;
+    }
+
+    try {
+      const url = new URL(href, base);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        continue;
+      }
+      url.hash = '';
+      links.add(url.href);
+    } catch {
+      // ignore malformed hrefs
+    }
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * Breadth-first crawl frontier for one origin. Links are queued once, only when they stay
+ * on the start URL's origin, look like pages, and fit within the depth and page caps.
+ */
+export class CrawlFrontier {
+  private readonly origin: string;
+  private readonly limits: CrawlLimits;
+  private readonly state: CrawlState;
+  private readonly seen: Set<string>;
+
+  private constructor(origin: string, limits: CrawlLimits, state: CrawlState) {
+    this.origin = origin;
+    this.limits = limits;
+    this.state = state;
+    this.seen = new Set(state.seen);
+  }
+
+  static start(startUrl: string, limits: CrawlLimits, now: Date = new Date()): CrawlFrontier {
+    const start = new URL(startUrl);
+    start.hash = '';
+    const startedAt = now.toISOString();
+    return new CrawlFrontier(start.origin, limits, {
+      startedAt,
+      updatedAt: startedAt,
+      queue: [{ url: start.href, depth: 0 }],
+      seen: [start.href],
+      pages: []
+    });
+  }
+
+  static resume(startUrl: string, limits: CrawlLimits, state: CrawlState): CrawlFrontier {
+    return new CrawlFrontier(new URL(startUrl).origin, limits, state);
+  }
+
+  get queue(): CrawlQueueEntry[] {
+    return this.state.queue;
+  }
+
+  get discoveredCount(): number {
+    return this.seen.size;
+  }
+
+  get isComplete(): boolean {
+    return this.state.queue.length === 0;
+  }
+
+  /** Remove the first `count` queued entries once they have been fetched. */
+  take(count: number): void {
+    this.state.queue = this.state.queue.slice(count);
+  }
+
+  recordPage(url: string): void {
+    this.state.pages.push(url);
+  }
+
+  /** Queue the links found on a page at `depth` that pass `isAllowed`. Returns the URLs queued. */
+  addLinks(links: string[], depth: number, isAllowed: LinkFilter): string[] {
+    if (depth >= this.limits.maxDepth) {
+      return [];
+    }
+
+    const queued: string[] = [];
+    for (const link of links) {
+      if (this.seen.size >= this.limits.maxPages) {
+        break;
+      }
+
+      let url: URL;
+      try {
+        url = new URL(link);
+      } catch {
+        continue;
+      }
+
+      if (url.origin !== this.origin || NON_PAGE_EXTENSIONS.test(url.pathname) || this.seen.has(url.href)) {
+        continue;
+      }
+
+      if (!isAllowed(url.href)) {
+        continue;
+      }
+
+      this.seen.add(url.href);
+      this.state.queue.push({ url: url.href, depth: depth + 1 });
+      queued.push(url.href);
+    }
+
+    return queued;
+  }
+
+  toState(now: Date = new Date()): CrawlState {
+    return {
+      ...this.state,
+      updatedAt: now.toISOString(),
+      seen: Array.from(this.seen)
+    };
+  }
+}
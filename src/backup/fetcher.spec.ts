@@ -1,20 +1,44 @@
 import { afterEach, describe, it, expect, vi } from 'vitest';
+import { ExecutionBudget } from './budget';
+import { AssetStore } from './assets';
 import { BackupFetcher } from './fetcher';
+import { buildSiteRequestHeaders } from './request-headers';
 import type { SiteConfig } from '../types/site';
+import { encodeBackupContent, gunzipBytes } from '../runtime/content-storage';
+import { MemoryR2Bucket } from '../runtime/memory-r2-bucket';
 
 function createMockKV(initial: Record<string, string> = {}): KVNamespace {
   const store = new Map<string, string>(Object.entries(initial));
+  const expirations = new Map<string, number>();
+  const expire = () => {
+    for (const [key, expiresAt] of expirations) {
+      if (expiresAt <= Date.now()) {
+        store.delete(key);
+        expirations.delete(key);
+      }
+    }
+  };
   return {
-    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
-    put: vi.fn((key: string, value: string) => {
+    get: vi.fn((key: string) => {
+      expire();
+      return Promise.resolve(store.get(key) ?? null);
+    }),
+    put: vi.fn((key: string, value: string, options?: { expirationTtl?: number }) => {
       store.set(key, value);
+      if (options?.expirationTtl) {
+        expirations.set(key, Date.now() + options.expirationTtl * 1000);
+      } else {
+        expirations.delete(key);
+      }
       return Promise.resolve();
     }),
     delete: vi.fn((key: string) => {
       store.delete(key);
+      expirations.delete(key);
       return Promise.resolve();
     }),
     list: vi.fn((opts?: { prefix?: string; limit?: number; cursor?: string }) => {
+      expire();
       const prefix = opts?.prefix ?? '';
       const limit = opts?.limit ?? 1000;
       const offset = Number.parseInt(opts?.cursor ?? '0', 10);
@@ -57,6 +81,7 @@ function minimalSiteConfig(overrides: Partial<SiteConfig> = {}): SiteConfig {
 
 describe('BackupFetcher', () => {
   afterEach(() => {
+    vi.useRealTimers();
     vi.unstubAllGlobals();
     vi.restoreAllMocks();
   });
@@ -209,7 +234,7 @@ describe('BackupFetcher', () => {
 
       const kv = createMockKV();
       const fetcher = new BackupFetcher(kv);
-      const config = minimalSiteConfig({ sitemapUrl: 'https://example.com/sitemap.xml' });
+      const config = minimalSiteConfig({ sitemapUrl: 'https://example.com/sitemap.xml', respectRobots: false });
 
       const first = await fetcher.performSiteBackup(config, { continueFromLast: true, batchSize: 25 });
       expect(first.totalUrls).toBe(2);
@@ -225,6 +250,73 @@ describe('BackupFetcher', () => {
     }, 15000);
   });
 
+  describe('sitemap lastmod', () => {
+    const pages = {
+      stale: 'https://example.com/stale',
+      fresh: 'https://example.com/fresh',
+      undated: 'https://example.com/undated'
+    };
+
+    async function setupLastmodSite(lastFullScanDaysAgo: number) {
+      const sitemap = `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>${pages.undated}</loc></url>
+  <url><loc>${pages.stale}</loc><lastmod>${formatDateOffset(3)}</lastmod><priority>0.8</priority></url>
+  <url><loc>${pages.fresh}</loc><lastmod>${new Date().toISOString()}</lastmod></url>
+</urlset>`;
+      const pageFetches: string[] = [];
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        if (url.endsWith('/sitemap.xml')) {
+          return Promise.resolve(new Response(sitemap, { status: 200, headers: { 'Content-Type': 'application/xml' } }));
+        }
+        pageFetches.push(url);
+        return Promise.resolve(new Response(`<html><body>${url}</body></html>`, { status: 200 }));
+      }));
+
+      const kv = createMockKV();
+      const fetcher = new BackupFetcher(kv);
+      const getUrlHash = (fetcher as unknown as Record<string, Function>).getUrlHash.bind(fetcher);
+      const backedUpAt = new Date(Date.now() - 86_400_000).toISOString();
+      for (const url of [pages.stale, pages.fresh]) {
+        await kv.put(`latest:test-site:${await getUrlHash(url)}`, JSON.stringify({ hash: 'old', timestamp: backedUpAt }));
+      }
+      const lastFullScanAt = new Date(Date.now() - lastFullScanDaysAgo * 86_400_000).toISOString();
+      await kv.put('full_scan:test-site', JSON.stringify({ date: '2026-01-01', completedAt: lastFullScanAt, totalUrls: 3, lastFullScanAt }));
+
+      return { kv, fetcher, pageFetches };
+    }
+
+    it('fetches the most recently modified URLs first and skips URLs unchanged since their backup', async () => {
+      const { kv, fetcher, pageFetches } = await setupLastmodSite(1);
+
+      const result = await fetcher.performSiteBackup(
+        minimalSiteConfig({ respectRobots: false }),
+        { continueFromLast: true }
+      );
+
+      expect(pageFetches).toEqual([pages.fresh, pages.undated]);
+      expect(result).toMatchObject({ totalUrls: 3, successfulBackups: 2, lastmodSkippedBackups: 1, hasMore: false });
+      const cached = JSON.parse((await kv.get(`urls_cache:test-site:${formatDateOffset(0)}:chunk:0`)) as string);
+      expect(cached[1]).toEqual({ loc: pages.stale, lastmod: formatDateOffset(3), priority: 0.8 });
+      expect(cached[2]).toBe(pages.undated);
+    });
+
+    it('re-fetches every URL once the full scan interval has passed', async () => {
+      const { kv, fetcher, pageFetches } = await setupLastmodSite(8);
+
+      const result = await fetcher.performSiteBackup(
+        minimalSiteConfig({ respectRobots: false }),
+        { continueFromLast: true }
+      );
+
+      expect(pageFetches).toEqual([pages.fresh, pages.stale, pages.undated]);
+      expect(result.lastmodSkippedBackups).toBe(0);
+      const fullScan = JSON.parse((await kv.get('full_scan:test-site')) as string);
+      expect(Date.now() - Date.parse(fullScan.lastFullScanAt)).toBeLessThan(60_000);
+    });
+  });
+
   describe('sitemap listener mode (large sites)', () => {
     it('switches to listener mode when sitemap has >100 URLs and does not backfill', async () => {
       const urls = Array.from({ length: 101 }, (_, i) => `https://example.com/page${i + 1}`);
@@ -248,7 +340,7 @@ ${urls.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
 
       const kv = createMockKV();
       const fetcher = new BackupFetcher(kv);
-      const config = minimalSiteConfig({ sitemapUrl: 'https://example.com/sitemap.xml' });
+      const config = minimalSiteConfig({ sitemapUrl: 'https://example.com/sitemap.xml', respectRobots: false });
 
       const result = await fetcher.performSiteBackup(config, { continueFromLast: true, batchSize: 25 });
 
@@ -283,7 +375,7 @@ ${urls1.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
 
       const kv = createMockKV();
       const fetcher = new BackupFetcher(kv);
-      const config = minimalSiteConfig({ sitemapUrl: 'https://example.com/sitemap.xml' });
+      const config = minimalSiteConfig({ sitemapUrl: 'https://example.com/sitemap.xml', respectRobots: false });
 
       // Run 1: enables listener mode and snapshots without backfill.
       const first = await fetcher.performSiteBackup(config, { continueFromLast: true, batchSize: 25 });
@@ -383,6 +475,191 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
     }, 15000);
   });
 
+  describe('asset capture', () => {
+    it('stores same-origin assets once per site and lists them in each page manifest', async () => {
+      const pageHtml = (title: string) => `<html><head>
+        <link rel="stylesheet" href="/style.css"><link rel="canonical" href="/">
+        <script src="https://cdn.example.net/lib.js"></script>
+      </head><body><h1>${title}</h1><img src="/logo.png" srcset="/logo.png 1x, /logo@2x.png 2x"></body></html>`;
+      const assets: Record<string, { body: Uint8Array; type: string }> = {
+        'https://example.com/style.css': { body: new TextEncoder().encode('h1 { color: red; }'), type: 'text/css' },
+        'https://example.com/logo.png': { body: new Uint8Array([137, 80, 78, 71]), type: 'image/png' },
+        // Same bytes as logo.png, so it shares the blob
+        'https://example.com/logo@2x.png': { body: new Uint8Array([137, 80, 78, 71]), type: 'image/png' }
+      };
+      const fetchedUrls: string[] = [];
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        fetchedUrls.push(url);
+        const asset = assets[url];
+        if (asset) {
+          return Promise.resolve(new Response(asset.body, { status: 200, headers: { 'Content-Type': asset.type } }));
+        }
+        return Promise.resolve(new Response(pageHtml(url), { status: 200, headers: { 'Content-Type': 'text/html' } }));
+      }));
+
+      const kv = createMockKV();
+      const fetcher = new BackupFetcher(kv);
+      const result = await fetcher.performSiteBackup(minimalSiteConfig({
+        sitemapUrl: undefined,
+        urls: ['https://example.com/a', 'https://example.com/b'],
+        respectRobots: false,
+        assetCapture: { enabled: true }
+      }));
+
+      expect(result.successfulBackups).toBe(2);
+      expect(result.assetCapture).toEqual({ fetched: 3, stored: 3, reused: 3, failed: 0, skipped: 0 });
+      // Each asset is downloaded once; the cross-origin script is left alone
+      expect(fetchedUrls.filter((url) => url in assets)).toHaveLength(3);
+      expect(fetchedUrls).not.toContain('https://cdn.example.net/lib.js');
+
+      const keys = Array.from((await kv.list({ prefix: 'asset_' })).keys, (key) => key.name);
+      expect(keys.filter((key) => key.startsWith('asset_blob:test-site:'))).toHaveLength(2);
+      expect(keys.filter((key) => key.startsWith('asset_manifest:test-site:'))).toHaveLength(2);
+
+      const manifestKey = keys.find((key) => key.startsWith('asset_manifest:'))!;
+      const manifest = JSON.parse((await kv.get(manifestKey))!);
+      expect(Object.keys(manifest.assets)).toEqual([
+        'https://example.com/style.css',
+        'https://example.com/logo.png',
+        'https://example.com/logo@2x.png'
+      ]);
+      expect(manifest.assets['https://example.com/logo.png'].hash).toBe(manifest.assets['https://example.com/logo@2x.png'].hash);
+      expect(manifest.assets['https://example.com/style.css']).toMatchObject({ contentType: 'text/css', size: 18 });
+    });
+  });
+
+  describe('crawl strategy', () => {
+    function stubSitemap(getUrls: () => string[]): string[] {
+      const pageFetches: string[] = [];
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        if (url.endsWith('/sitemap.xml')) {
+          return Promise.resolve(new Response(
+            `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${getUrls().map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
+</urlset>`,
+            { status: 200, headers: { 'Content-Type': 'application/xml' } }
+          ));
+        }
+        pageFetches.push(url);
+        return Promise.resolve(new Response('<html><body>ok</body></html>', { status: 200, headers: { 'Content-Type': 'text/html' } }));
+      }));
+      return pageFetches;
+    }
+
+    it('keeps full scans on a large sitemap in full mode', async () => {
+      const urls = Array.from({ length: 101 }, (_, i) => `https://example.com/page${i + 1}`);
+      const pageFetches = stubSitemap(() => urls);
+      const kv = createMockKV();
+      const fetcher = new BackupFetcher(kv);
+
+      const result = await fetcher.performSiteBackup(
+        minimalSiteConfig({ respectRobots: false, crawlStrategy: { mode: 'full' } }),
+        { continueFromLast: true, batchSize: 10 }
+      );
+
+      expect(result.totalUrls).toBe(101);
+      expect(result.processedInBatch).toBe(10);
+      expect(pageFetches).toHaveLength(10);
+      expect(await kv.get('sitemap_listener:test-site')).toBeNull();
+    }, 15000);
+
+    it('fetches only new URLs in listener mode and rechecks N per tick in listener-rolling mode', async () => {
+      let urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
+      const pageFetches = stubSitemap(() => urls);
+      const kv = createMockKV();
+      const fetcher = new BackupFetcher(kv);
+      const listenerConfig = minimalSiteConfig({ respectRobots: false, crawlStrategy: { mode: 'listener' } });
+
+      // First run takes the snapshot without a backfill, even though the sitemap is small
+      expect((await fetcher.performSiteBackup(listenerConfig, { continueFromLast: true })).processedInBatch).toBe(0);
+      expect(await kv.get('sitemap_snapshot:test-site')).not.toBeNull();
+
+      urls = [...urls, 'https://example.com/d'];
+      expect((await fetcher.performSiteBackup(listenerConfig, { continueFromLast: true })).processedInBatch).toBe(1);
+      expect(pageFetches).toEqual(['https://example.com/d']);
+
+      // Nothing new: listener mode does not re-check existing URLs
+      expect((await fetcher.performSiteBackup(listenerConfig, { continueFromLast: true })).processedInBatch).toBe(0);
+
+      const rollingConfig = minimalSiteConfig({
+        respectRobots: false,
+        crawlStrategy: { mode: 'listener-rolling', recheckUrlsPerTick: 2 }
+      });
+      await fetcher.applyCrawlStrategy(rollingConfig);
+      const rolling = await fetcher.performSiteBackup(rollingConfig, { continueFromLast: true });
+      expect(rolling.processedInBatch).toBe(2);
+      expect(rolling.totalUrls).toBe(4);
+    }, 15000);
+
+    it('rebuilds the listener snapshot as a new baseline without queueing its URLs', async () => {
+      let urls = ['https://example.com/a'];
+      const pageFetches = stubSitemap(() => urls);
+      const kv = createMockKV();
+      const fetcher = new BackupFetcher(kv);
+      const config = minimalSiteConfig({ respectRobots: false, crawlStrategy: { mode: 'listener' } });
+
+      await fetcher.performSiteBackup(config, { continueFromLast: true });
+      urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
+
+      expect(await fetcher.rebuildSitemapSnapshot(config)).toEqual({ totalUrls: 3 });
+      expect(await fetcher.getBatchProgress('test-site')).toMatchObject({ mode: 'listener', pendingNewUrls: 0, monitoringPoolSize: 3 });
+      expect(await kv.get(`sitemap_delta:test-site:${new Date().toISOString().split('T')[0]}`)).toBeNull();
+
+      expect((await fetcher.performSiteBackup(config, { continueFromLast: true })).processedInBatch).toBe(0);
+      expect(pageFetches).toEqual([]);
+    }, 15000);
+  });
+
+  describe('sitemap delta', () => {
+    it('records added, removed and re-added URLs when the listener snapshot refreshes', async () => {
+      const baseUrls = Array.from({ length: 101 }, (_, i) => `https://example.com/page${i + 1}`);
+      let sitemapUrls = baseUrls;
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        if (url.endsWith('/sitemap.xml')) {
+          return Promise.resolve(new Response(
+            `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemapUrls.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
+</urlset>`,
+            { status: 200, headers: { 'Content-Type': 'application/xml' } }
+          ));
+        }
+        return Promise.resolve(new Response('<html><body>ok</body></html>', { status: 200, headers: { 'Content-Type': 'text/html' } }));
+      }));
+
+      const kv = createMockKV({
+        'sitemap_removed:test-site': JSON.stringify(['https://example.com/returning'])
+      });
+      const fetcher = new BackupFetcher(kv);
+      const config = minimalSiteConfig({ respectRobots: false });
+
+      const first = await fetcher.performSiteBackup(config, { continueFromLast: true, batchSize: 5 });
+      expect(first.sitemapDelta).toBeUndefined();
+
+      sitemapUrls = [...baseUrls.slice(0, 100), 'https://example.com/new-page', 'https://example.com/returning'];
+      const second = await fetcher.performSiteBackup(config, { continueFromLast: true, batchSize: 5 });
+
+      expect(second.sitemapDelta).toMatchObject({
+        added: ['https://example.com/new-page'],
+        removed: ['https://example.com/page101'],
+        readded: ['https://example.com/returning']
+      });
+
+      const today = new Date().toISOString().split('T')[0];
+      expect(JSON.parse((await kv.get(`sitemap_delta:test-site:${today}`))!)).toMatchObject({
+        date: today,
+        added: ['https://example.com/new-page'],
+        removed: ['https://example.com/page101'],
+        readded: ['https://example.com/returning']
+      });
+      expect(JSON.parse((await kv.get('sitemap_removed:test-site'))!)).toEqual(['https://example.com/page101']);
+    }, 15000);
+  });
+
   describe('resetSiteProgress', () => {
     it('clears batch progress, URL cache keys, and full_scan for site', async () => {
       const kv = createMockKV({
@@ -432,7 +709,8 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
       const fetcher = new BackupFetcher(kv);
       const config = minimalSiteConfig({
         sitemapUrl: undefined,
-        urls: ['https://example.com/start']
+        urls: ['https://example.com/start'],
+        respectRobots: false
       });
 
       const result = await fetcher.performSiteBackup(config, { continueFromLast: false, batchSize: 25 });
@@ -447,6 +725,267 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
       expect(requestOptions[0]).toMatchObject({ redirect: 'manual' });
       expect(requestOptions[1]).toMatchObject({ redirect: 'manual' });
     });
+
+    it('sends site request headers and drops them on redirects to another origin', async () => {
+      const requestHeaders: Array<Record<string, string>> = [];
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL, init?: { headers?: Record<string, string> }) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        requestHeaders.push({ ...init?.headers });
+
+        if (url === 'https://example.com/moved') {
+          return Promise.resolve(new Response(null, { status: 301, headers: { location: 'https://cdn.example.net/moved' } }));
+        }
+
+        return Promise.resolve(new Response('<html><body>ok</body></html>', { status: 200 }));
+      }));
+
+      const result = await new BackupFetcher(createMockKV()).performSiteBackup(
+        minimalSiteConfig({ sitemapUrl: undefined, urls: ['https://example.com/moved'], respectRobots: false }),
+        { continueFromLast: false, requestHeaders: { 'User-Agent': 'BackupBot', 'X-WAF-Bypass': 'waf-123', Cookie: 'preview=1' } }
+      );
+
+      expect(result.successfulBackups).toBe(1);
+      expect(requestHeaders[0]).toMatchObject({ 'User-Agent': 'BackupBot', 'X-WAF-Bypass': 'waf-123', Cookie: 'preview=1' });
+      expect(requestHeaders[1]).not.toHaveProperty('X-WAF-Bypass');
+      expect(requestHeaders[1]).not.toHaveProperty('Cookie');
+      expect(requestHeaders[1]['User-Agent']).toBe('MultiSiteBackup/1.0 (Cloudflare Worker)');
+    });
+
+    it('keeps site credentials off sitemaps on other origins and redirects to them', async () => {
+      const requestHeaders = new Map<string, Record<string, string>>();
+      const xml = (body: string) => new Response(body, { status: 200, headers: { 'Content-Type': 'application/xml' } });
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL, init?: { headers?: Record<string, string> }) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        requestHeaders.set(url, { ...init?.headers });
+
+        if (url === 'https://example.com/sitemap.xml') {
+          return Promise.resolve(xml(`<?xml version="1.0"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/own.xml</loc></sitemap>
+  <sitemap><loc>https://sitemaps.example.net/child.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/moved.xml</loc></sitemap>
+</sitemapindex>`));
+        }
+        if (url === 'https://example.com/moved.xml') {
+          return Promise.resolve(new Response(null, { status: 302, headers: { location: 'https://cdn.example.net/moved.xml' } }));
+        }
+        if (url.endsWith('.xml')) {
+          return Promise.resolve(xml(`<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>https://example.com/page</loc></url></urlset>`));
+        }
+        return Promise.resolve(new Response('<html><body>ok</body></html>', { status: 200 }));
+      }));
+
+      await new BackupFetcher(createMockKV()).performSiteBackup(
+        minimalSiteConfig({ respectRobots: false }),
+        { continueFromLast: false, requestHeaders: { Authorization: 'Bearer site-token', Cookie: 'session=abc' } }
+      );
+
+      for (const url of ['https://example.com/sitemap.xml', 'https://example.com/own.xml', 'https://example.com/moved.xml']) {
+        expect(requestHeaders.get(url), url).toMatchObject({ Authorization: 'Bearer site-token', Cookie: 'session=abc' });
+      }
+      for (const url of ['https://sitemaps.example.net/child.xml', 'https://cdn.example.net/moved.xml']) {
+        expect(requestHeaders.get(url), url).toBeDefined();
+        expect(requestHeaders.get(url), url).not.toHaveProperty('Authorization');
+        expect(requestHeaders.get(url), url).not.toHaveProperty('Cookie');
+      }
+    });
+
+    it('sends secret-backed headers and cookies to the site but not to a sitemap hosted elsewhere', async () => {
+      const requestHeaders = new Map<string, Record<string, string>>();
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL, init?: { headers?: Record<string, string> }) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        requestHeaders.set(url, { ...init?.headers });
+
+        if (url.endsWith('.xml')) {
+          return Promise.resolve(new Response(`<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc>https://example.com/page</loc></url></urlset>`, { status: 200 }));
+        }
+        return Promise.resolve(new Response('<html><body>ok</body></html>', { status: 200 }));
+      }));
+
+      const siteConfig = minimalSiteConfig({
+        sitemapUrl: 'https://sitemaps.example.net/sitemap.xml',
+        respectRobots: false,
+        fetchOptions: {
+          timeout: 10000,
+          retries: 2,
+          concurrency: 3,
+          headers: { 'X-WAF-Token': { secret: 'SITE_SECRET_WAF_TOKEN' } },
+          cookies: { preview: { secret: 'SITE_SECRET_PREVIEW' } }
+        }
+      });
+      await new BackupFetcher(createMockKV()).performSiteBackup(siteConfig, {
+        continueFromLast: false,
+        requestHeaders: buildSiteRequestHeaders(siteConfig.fetchOptions, { SITE_SECRET_WAF_TOKEN: 'waf-1', SITE_SECRET_PREVIEW: 'p-1' })
+      });
+
+      expect(requestHeaders.get('https://example.com/page')).toMatchObject({ 'X-WAF-Token': 'waf-1', Cookie: 'preview=p-1' });
+      expect(requestHeaders.get('https://sitemaps.example.net/sitemap.xml')).toEqual({});
+    });
+
+    it('sends stored validators and treats 304 Not Modified as unchanged without storing', async () => {
+      const kv = createMockKV();
+      const fetcher = new BackupFetcher(kv);
+      const getUrlHash = (fetcher as unknown as Record<string, Function>).getUrlHash.bind(fetcher);
+      const fresh = 'https://example.com/fresh';
+      const ageing = 'https://example.com/ageing';
+      const freshHash = await getUrlHash(fresh);
+      const validators = { etag: '"v1"', lastModified: 'Tue, 03 Mar 2026 10:00:00 GMT' };
+
+      await kv.put(`latest:test-site:${freshHash}`, JSON.stringify({
+        hash: 'h1',
+        timestamp: `${formatDateOffset(1)}T02:00:00.000Z`,
+        ...validators
+      }));
+      // Within a day of retention cleanup, so it is re-downloaded unconditionally.
+      await kv.put(`latest:test-site:${await getUrlHash(ageing)}`, JSON.stringify({
+        hash: 'h2',
+        timestamp: `${formatDateOffset(6)}T02:00:00.000Z`,
+        ...validators
+      }));
+
+      const requestHeaders = new Map<string, Record<string, string>>();
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL, init?: { headers?: Record<string, string> }) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        requestHeaders.set(url, init?.headers ?? {});
+
+        if (init?.headers?.['If-None-Match'] === validators.etag) {
+          return Promise.resolve(new Response(null, { status: 304 }));
+        }
+
+        return Promise.resolve(new Response('<html><body>changed</body></html>', {
+          status: 200,
+          headers: new Headers({ 'Content-Type': 'text/html', ETag: '"v2"' })
+        }));
+      }));
+
+      const result = await fetcher.performSiteBackup(
+        minimalSiteConfig({ sitemapUrl: undefined, urls: [fresh, ageing] }),
+        { continueFromLast: false }
+      );
+
+      expect(requestHeaders.get(fresh)).toMatchObject({
+        'If-None-Match': validators.etag,
+        'If-Modified-Since': validators.lastModified
+      });
+      expect(requestHeaders.get(ageing)).not.toHaveProperty('If-None-Match');
+      expect(result).toMatchObject({ successfulBackups: 2, notModifiedBackups: 1, storedBackups: 1, failedBackups: 0 });
+      expect(result.changedUrls).toEqual([ageing]);
+      expect(await kv.get(`backup:test-site:${formatDateOffset(0)}:${freshHash}`)).toBeNull();
+      expect(JSON.parse((await kv.get(`latest:test-site:${freshHash}`)) as string).hash).toBe('h1');
+    });
+  });
+
+  describe('robots.txt', () => {
+    it('discovers the sitemap from robots.txt and skips disallowed URLs', async () => {
+      const fetchedUrls: string[] = [];
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        fetchedUrls.push(url);
+
+        if (url === 'https://example.com/robots.txt') {
+          return Promise.resolve(new Response(
+            'User-agent: *\nDisallow: /private/\n\nSitemap: https://example.com/pages.xml\n',
+            { status: 200 }
+          ));
+        }
+
+        if (url === 'https://example.com/pages.xml') {
+          return Promise.resolve(new Response(
+            `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/public</loc></url>
+  <url><loc>https://example.com/private/admin</loc></url>
+</urlset>`,
+            { status: 200, headers: { 'Content-Type': 'application/xml' } }
+          ));
+        }
+
+        return Promise.resolve(new Response('<html><body>ok</body></html>', { status: 200 }));
+      }));
+
+      const kv = createMockKV();
+      const result = await new BackupFetcher(kv).performSiteBackup(
+        minimalSiteConfig({ sitemapUrl: undefined }),
+        { continueFromLast: false }
+      );
+
+      expect(result.successfulBackups).toBe(1);
+      expect(result.robotsSkippedUrls).toEqual(['https://example.com/private/admin']);
+      expect(fetchedUrls).toEqual([
+        'https://example.com/robots.txt',
+        'https://example.com/pages.xml',
+        'https://example.com/public'
+      ]);
+      expect(await kv.get('robots:test-site:https://example.com')).not.toBeNull();
+    });
+  });
+
+  describe('crawl discovery', () => {
+    it('crawls from baseUrl across runs and diffs the discovered URL set', async () => {
+      const pages: Record<string, string> = {
+        'https://example.com/': '<a href="/a">A</a> <a href="/skip/me">Skip</a> <a href="b">B</a>',
+        'https://example.com/a': '<a href="/c">C</a> <a href="https://other.example/">Elsewhere</a>',
+        'https://example.com/b': '<a href="/">Home</a>',
+        'https://example.com/c': '<a href="/d">Too deep</a>'
+      };
+      const fetchedUrls: string[] = [];
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        fetchedUrls.push(url);
+        return Promise.resolve(new Response(`<html><body>${pages[url] ?? ''}</body></html>`, {
+          status: pages[url] ? 200 : 404,
+          headers: { 'Content-Type': 'text/html; charset=utf-8' }
+        }));
+      }));
+
+      const kv = createMockKV({
+        'crawl_snapshot:test-site': JSON.stringify({ chunkCount: 1, totalUrls: 2 }),
+        'crawl_snapshot:test-site:chunk:0': JSON.stringify(['https://example.com/', 'https://example.com/old'])
+      });
+      const fetcher = new BackupFetcher(kv);
+      const siteConfig = minimalSiteConfig({
+        sitemapUrl: undefined,
+        respectRobots: false,
+        excludePatterns: ['/skip/'],
+        crawl: { maxDepth: 2 }
+      });
+
+      const first = await fetcher.performSiteBackup(siteConfig, { batchSize: 2, continueFromLast: true });
+      expect(first.processedInBatch).toBe(2);
+      expect(first.hasMore).toBe(true);
+      expect(await fetcher.getBatchProgress('test-site')).toMatchObject({ mode: 'crawl', completed: 2, totalUrls: 4 });
+
+      const second = await fetcher.performSiteBackup(siteConfig, { batchSize: 2, continueFromLast: true });
+      expect(second.processedInBatch).toBe(2);
+      expect(second.hasMore).toBe(false);
+      // robots.txt is still read for sitemap discovery
+      expect(fetchedUrls).toEqual([
+        'https://example.com/robots.txt',
+        'https://example.com/',
+        'https://example.com/a',
+        'https://example.com/b',
+        'https://example.com/c'
+      ]);
+
+      expect(await fetcher.getCrawlStatus('test-site')).toMatchObject({
+        inProgress: null,
+        snapshot: {
+          totalUrls: 4,
+          urls: ['https://example.com/', 'https://example.com/a', 'https://example.com/b', 'https://example.com/c'],
+          diff: {
+            added: ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'],
+            removed: ['https://example.com/old']
+          }
+        }
+      });
+
+      // A finished crawl is not repeated the same day
+      const third = await fetcher.performSiteBackup(siteConfig, { continueFromLast: true });
+      expect(third.processedInBatch).toBe(0);
+      expect(fetchedUrls).toHaveLength(5);
+    });
   });
 
   describe('cleanupOldBackups', () => {
@@ -468,14 +1007,103 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
       const fetcher = new BackupFetcher(kv);
       const cleanupOldBackups = (fetcher as unknown as Record<string, Function>).cleanupOldBackups.bind(fetcher);
 
-      await cleanupOldBackups('test-site', 7);
+      await cleanupOldBackups(minimalSiteConfig());
 
-      expect(kv.list).toHaveBeenCalledTimes(2);
+      // Two pages of metadata, then the sitemap deltas
+      expect(vi.mocked(kv.list).mock.calls.filter(([options]) => options?.prefix === 'meta:test-site:')).toHaveLength(2);
       expect(await kv.get(`backup:test-site:${oldDate}:page-1004`)).toBeNull();
       expect(await kv.get(`meta:test-site:${oldDate}:page-1004`)).toBeNull();
       expect(await kv.get(`backup:test-site:${recentDate}:page-recent`)).toBe('recent');
       expect(await kv.get(`meta:test-site:${recentDate}:page-recent`)).toBe('meta-recent');
     });
+
+    it('stops pruning when the run budget runs low and leaves the rest to the next run', async () => {
+      const oldDate = formatDateOffset(14);
+      const initial: Record<string, string> = {};
+      for (let i = 0; i < 30; i++) {
+        initial[`backup:test-site:${oldDate}:page-${i}`] = `old-${i}`;
+        initial[`meta:test-site:${oldDate}:page-${i}`] = `meta-old-${i}`;
+      }
+
+      const kv = createMockKV(initial);
+      const remaining = async () => (await kv.list({ prefix: 'meta:test-site:' })).keys.length;
+      const cleanUp = async (budget: ExecutionBudget) => {
+        const fetcher = new BackupFetcher(kv);
+        (fetcher as unknown as { budget: ExecutionBudget }).budget = budget;
+        await (fetcher as unknown as Record<string, Function>).cleanupOldBackups.call(fetcher, minimalSiteConfig());
+        return budget;
+      };
+
+      const first = await cleanUp(new ExecutionBudget({ subrequests: 100 }));
+      expect(first.getSubrequestsUsed()).toBeLessThanOrEqual(80);
+      const left = await remaining();
+      expect(left).toBeGreaterThan(0);
+      expect(left).toBeLessThan(30);
+
+      await cleanUp(new ExecutionBudget());
+      expect(await remaining()).toBe(0);
+    });
+
+    it('removes the asset manifests and sitemap deltas kept for holds once nothing holds them', async () => {
+      const releasedDate = formatDateOffset(14);
+      const heldDate = formatDateOffset(20);
+      const kv = createMockKV({
+        [`meta:test-site:${releasedDate}:page-a`]: 'meta-a',
+        [`asset_manifest:test-site:${releasedDate}:page-a`]: '{"assets":{}}',
+        [`sitemap_delta:test-site:${releasedDate}`]: '{}',
+        [`meta:test-site:${heldDate}:page-b`]: 'meta-b',
+        [`asset_manifest:test-site:${heldDate}:page-b`]: '{"assets":{}}',
+        [`sitemap_delta:test-site:${heldDate}`]: '{}',
+        'legal_holds:test-site': JSON.stringify([
+          { id: 'hold-1', siteId: 'test-site', reason: 'Dispute', createdBy: 'legal', createdAt: '', snapshots: [{ date: heldDate, urlHash: 'page-b' }] }
+        ])
+      });
+      const fetcher = new BackupFetcher(kv);
+
+      await (fetcher as unknown as Record<string, Function>).cleanupOldBackups.call(fetcher, minimalSiteConfig());
+
+      expect(await kv.get(`meta:test-site:${releasedDate}:page-a`)).toBeNull();
+      expect(await kv.get(`asset_manifest:test-site:${releasedDate}:page-a`)).toBeNull();
+      expect(await kv.get(`sitemap_delta:test-site:${releasedDate}`)).toBeNull();
+      expect(await kv.get(`asset_manifest:test-site:${heldDate}:page-b`)).not.toBeNull();
+      expect(await kv.get(`sitemap_delta:test-site:${heldDate}`)).not.toBeNull();
+    });
+    it('keeps the assets of a latest backup that outlives the retention horizon', async () => {
+      vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-01T02:00:00.000Z') });
+      vi.stubGlobal('fetch', vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        if (url === 'https://example.com/style.css') {
+          return Promise.resolve(new Response('h1 { color: red; }', { status: 200, headers: { 'Content-Type': 'text/css' } }));
+        }
+        return Promise.resolve(new Response('<html><head><link rel="stylesheet" href="/style.css"></head><body>a</body></html>', {
+          status: 200,
+          headers: { 'Content-Type': 'text/html' }
+        }));
+      }));
+      const kv = createMockKV();
+      const siteConfig = minimalSiteConfig({
+        sitemapUrl: undefined,
+        urls: ['https://example.com/a'],
+        retentionDays: 3,
+        respectRobots: false,
+        assetCapture: { enabled: true }
+      });
+      await new BackupFetcher(kv).performSiteBackup(siteConfig, { continueFromLast: false });
+      const [metaKey] = Array.from((await kv.list({ prefix: 'meta:test-site:' })).keys, (key) => key.name);
+      const urlHash = metaKey.split(':').pop()!;
+
+      // The page has left the site, so the latest pointer keeps its last backup past the horizon
+      vi.setSystemTime(new Date('2026-03-05T00:00:00.000Z'));
+      const fetcher = new BackupFetcher(kv);
+      await (fetcher as unknown as Record<string, Function>).cleanupOldBackups.call(fetcher, siteConfig);
+      expect(await kv.get(metaKey)).not.toBeNull();
+
+      vi.setSystemTime(new Date('2026-03-08T00:00:00.000Z'));
+      const store = new AssetStore(kv);
+      const manifest = await store.getManifest('test-site', '2026-03-01', urlHash);
+      expect(manifest?.assets['https://example.com/style.css']).toBeDefined();
+      expect(await store.getBlob('test-site', manifest!.assets['https://example.com/style.css'].hash)).toMatchObject({ contentType: 'text/css' });
+    });
   });
 
   describe('cache maintenance', () => {
@@ -489,14 +1117,14 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
       await saveUrlsCache(
         'test-site',
         date,
-        Array.from({ length: 2001 }, (_, i) => `https://example.com/page-${i}`)
+        Array.from({ length: 2001 }, (_, i) => ({ loc: `https://example.com/page-${i}` }))
       );
       expect(await kv.get(`urls_cache:test-site:${date}:chunk:1`)).not.toBeNull();
 
-      await saveUrlsCache('test-site', date, ['https://example.com/only']);
+      await saveUrlsCache('test-site', date, [{ loc: 'https://example.com/only' }]);
 
       expect(await kv.get(`urls_cache:test-site:${date}:chunk:1`)).toBeNull();
-      expect(await loadUrlsCache('test-site', date)).toEqual(['https://example.com/only']);
+      expect(await loadUrlsCache('test-site', date)).toEqual([{ loc: 'https://example.com/only' }]);
     });
 
     it('removes stale sitemap snapshot chunks when the monitored sitemap shrinks', async () => {
@@ -507,11 +1135,11 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
 
       await saveSitemapSnapshot(
         'test-site',
-        Array.from({ length: 2001 }, (_, i) => `https://example.com/page-${i}`)
+        Array.from({ length: 2001 }, (_, i) => ({ loc: `https://example.com/page-${i}` }))
       );
       expect(await kv.get('sitemap_snapshot:test-site:chunk:1')).not.toBeNull();
 
-      await saveSitemapSnapshot('test-site', ['https://example.com/only']);
+      await saveSitemapSnapshot('test-site', [{ loc: 'https://example.com/only' }]);
 
       expect(await kv.get('sitemap_snapshot:test-site:chunk:1')).toBeNull();
       expect(await loadSitemapSnapshotState('test-site')).toMatchObject({
@@ -573,4 +1201,136 @@ ${urls2.map((u) => `  <url><loc>${u}</loc></url>`).join('\n')}
       );
     });
   });
+  describe('payload storage', () => {
+    it('writes payloads to the R2 bucket while still reading and cleaning up legacy KV payloads', async () => {
+      const kv = createMockKV();
+      const bucket = new MemoryR2Bucket();
+      const fetcher = new BackupFetcher(kv, bucket.asBinding());
+      const internals = fetcher as unknown as Record<string, Function>;
+      const page = 'https://example.com/page';
+      const urlHash = await internals.getUrlHash.call(fetcher, page);
+      const today = formatDateOffset(0);
+      const yesterday = formatDateOffset(1);
+      const expired = formatDateOffset(14);
+
+      // Written to KV before the bucket was bound
+      const legacy = await encodeBackupContent('<html><body>old</body></html>');
+      const legacyMetadata = JSON.stringify({
+        url: page,
+        timestamp: `${yesterday}T02:00:00.000Z`,
+        hash: 'old',
+        normalizedHash: 'old',
+        contentEncoding: legacy.encoding
+      });
+      for (const date of [yesterday, expired]) {
+        await kv.put(`backup:test-site:${date}:${urlHash}`, legacy.storedContent);
+        await kv.put(`meta:test-site:${date}:${urlHash}`, legacyMetadata);
+      }
+      await kv.put(`latest:test-site:${urlHash}`, legacyMetadata);
+
+      expect(await internals.loadPreviousContent.call(fetcher, 'test-site', urlHash, legacyMetadata))
+        .toBe('<html><body>old</body></html>');
+
+      vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(
+        new Response('<html><body>new</body></html>', {
+          status: 200,
+          headers: new Headers({ 'Content-Type': 'text/html' })
+        })
+      )));
+
+      const result = await fetcher.performSiteBackup(
+        minimalSiteConfig({ sitemapUrl: undefined, urls: [page] }),
+        { continueFromLast: false }
+      );
+      expect(result.successfulBackups).toBe(1);
+
+      const contentHash = await internals.calculateHash.call(fetcher, '<html><body>new</body></html>');
+      const storageKey = `test-site/payloads/${urlHash}/${contentHash}.html.gz`;
+      const metadataRaw = await kv.get(`meta:test-site:${today}:${urlHash}`);
+      expect(JSON.parse(metadataRaw!)).toMatchObject({ storageBackend: 'r2', storageKey });
+      expect(await kv.get(`backup:test-site:${today}:${urlHash}`)).toBeNull();
+
+      const object = bucket.objects.get(storageKey)!;
+      expect(object.httpMetadata).toMatchObject({ contentEncoding: 'gzip' });
+      expect(new TextDecoder().decode(await gunzipBytes(object.body))).toBe('<html><body>new</body></html>');
+      expect(await internals.loadPreviousContent.call(fetcher, 'test-site', urlHash, metadataRaw))
+        .toBe('<html><body>new</body></html>');
+
+      // Retention cleanup finds dates through metadata, wherever the payload lives
+      expect(await kv.get(`backup:test-site:${expired}:${urlHash}`)).toBeNull();
+      expect(await kv.get(`meta:test-site:${expired}:${urlHash}`)).toBeNull();
+      expect(await kv.get(`backup:test-site:${yesterday}:${urlHash}`)).toBe(legacy.storedContent);
+    });
+  });
+
+  describe('execution budget', () => {
+    function stubPageFetch() {
+      const fetchSpy = vi.fn((input: string | Request | URL) => {
+        const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+        return Promise.resolve(
+          new Response(`<html><body>${url}</body></html>`, {
+            status: 200,
+            headers: new Headers({ 'Content-Type': 'text/html' })
+          })
+        );
+      });
+      vi.stubGlobal('fetch', fetchSpy);
+      return fetchSpy;
+    }
+
+    function fetchedUrls(fetchSpy: ReturnType<typeof stubPageFetch>): string[] {
+      return fetchSpy.mock.calls
+        .map((args) => args[0])
+        .map((input) => (typeof input === 'string' ? input : (input as Request).url ?? String(input)));
+    }
+
+    it('stops pulling URLs near the subrequest budget and resumes from the real offset', async () => {
+      const fetchSpy = stubPageFetch();
+      const urls = Array.from({ length: 20 }, (_, i) => `https://example.com/page${i + 1}`);
+      const kv = createMockKV();
+      const config = minimalSiteConfig({
+        sitemapUrl: undefined,
+        urls,
+        fetchOptions: { timeout: 10000, retries: 0, concurrency: 2 }
+      });
+
+      const first = await new BackupFetcher(kv).performSiteBackup(config, {
+        continueFromLast: true,
+        budget: { subrequests: 60 }
+      });
+
+      expect(first.processedInBatch).toBeGreaterThan(0);
+      expect(first.processedInBatch).toBeLessThan(urls.length);
+      expect(first.hasMore).toBe(true);
+      expect(first.nextOffset).toBe(first.processedInBatch);
+      expect(first.budget).toMatchObject({ subrequestLimit: 60, targetPercent: 80, stoppedByBudget: true });
+      expect(first.budget.percentUsed).toBeGreaterThan(0);
+      expect(JSON.parse((await kv.get('batch_progress:test-site')) as string).nextOffset).toBe(first.processedInBatch);
+
+      fetchSpy.mockClear();
+      const second = await new BackupFetcher(kv).performSiteBackup(config, {
+        continueFromLast: true,
+        budget: { subrequests: 60 }
+      });
+
+      expect(second.batchOffset).toBe(first.processedInBatch);
+      expect(fetchedUrls(fetchSpy)[0]).toBe(urls[first.processedInBatch]);
+    });
+
+    it('processes more than the old fixed batch size when the budget allows it', async () => {
+      stubPageFetch();
+      const urls = Array.from({ length: 40 }, (_, i) => `https://example.com/page${i + 1}`);
+      const fetcher = new BackupFetcher(createMockKV());
+
+      const result = await fetcher.performSiteBackup(
+        minimalSiteConfig({ sitemapUrl: undefined, urls }),
+        { continueFromLast: false, budget: { subrequests: 1000 } }
+      );
+
+      expect(result.processedInBatch).toBe(40);
+      expect(result.hasMore).toBe(false);
+      expect(result.budget.stoppedByBudget).toBe(false);
+      expect(result.budget.subrequests).toBeGreaterThanOrEqual(40);
+    });
+  });
 });
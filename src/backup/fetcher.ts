@@ -1,13 +1,40 @@
-import { SiteConfig, BackupResult, BackupMetadata } from '../types/site';
-import { FetchResult } from '../types/backup';
+import { SiteConfig, BackupResult, BackupMetadata, AssetCaptureConfig, CrawlStrategyConfig, SitemapDelta } from '../types/site';
+import { FetchResult, UrlEntry } from '../types/backup';
 import { ContentComparer } from '../diff/comparer';
-import { encodeBackupContent, readBackupContent } from '../runtime/content-storage';
-import { XMLParser } from 'fast-xml-parser';
+import { readBackupContent } from '../runtime/content-storage';
+import { PayloadStore, createPayloadStore } from '../runtime/payload-store';
+import { SharedPayloadStore } from '../runtime/shared-payloads';
+import {
+  AssetCaptureStats,
+  AssetManifest,
+  AssetRef,
+  AssetStore,
+  CapturedAsset,
+  DEFAULT_MAX_ASSETS_PER_PAGE,
+  DEFAULT_MAX_ASSET_BYTES,
+  extractAssetUrls,
+  hashAssetBytes
+} from './assets';
+import { BudgetUsage, ExecutionBudget, ExecutionBudgetLimits, meterKVNamespace, meterR2Bucket } from './budget';
+import { CrawlFrontier, CrawlLimits, CrawlState, DEFAULT_CRAWL_LIMITS, LinkFilter, extractLinks } from './crawler';
+import { HeldAssetPinner } from './hold-pinning';
+import { LegalHoldStore, findLegalHold, findLegalHoldForDate } from './legal-hold';
+import { DEFAULT_USER_AGENT, mergeRequestHeaders } from './request-headers';
+import { RetentionPlanner, getRetentionHorizonDays } from './retention';
+import { ParsedRobotsTxt, RobotsPolicy, parseRobotsTxt } from './robots';
+import { parseSitemapContent, readSitemapBody } from './sitemap';
+import { SitemapDeltaStore, diffSitemapSnapshots, isEmptySitemapChange, mergeSitemapChange } from './sitemap-delta';
+import { SiteAuthSession } from './site-auth';
+import { ManifestSnapshot, SnapshotManifestStore } from './snapshot-manifest';
 
 export interface BatchOptions {
-  batchSize?: number;      // Max URLs to process in this batch (default: 500, max recommended: 800)
+  batchSize?: number;      // Optional cap on URLs for this batch; the budget decides otherwise
   batchOffset?: number;    // Starting index for this batch
   continueFromLast?: boolean; // Continue from last saved progress
+  budget?: Partial<ExecutionBudgetLimits>; // Wall-clock and subrequest allowance for this run
+  requestHeaders?: Record<string, string>; // Site's resolved user agent, custom headers and cookies
+  auth?: SiteAuthSession; // Credentials for sites behind Basic, bearer or form-login auth
+  manifestSigningKey?: string; // HMAC key that signs the site's snapshot manifest entries
 }
 
 export interface BatchedBackupResult {
@@ -24,7 +51,23 @@ export interface BatchedBackupResult {
    * Pages fetched successfully but that failed to write to KV.
    */
   failedStores: number;
+  /**
+   * Pages the origin answered with `304 Not Modified`. These count towards
+   * `successfulBackups` but were not downloaded, hashed or stored.
+   */
+  notModifiedBackups: number;
+  /** URLs dropped from the URL list because the site's robots.txt disallows them. */
+  robotsSkippedUrls: string[];
+  /**
+   * Sitemap URLs counted as processed without a fetch because their `<lastmod>` predates
+   * their latest backup. Not included in `successfulBackups`.
+   */
+  lastmodSkippedBackups: number;
   changedUrls: string[];
+  /** URLs added to, removed from or returned to the sitemap, when this run refreshed the listener snapshot. */
+  sitemapDelta?: SitemapDelta;
+  /** Stylesheets, scripts and images captured with the pages, for sites with `assetCapture` enabled. */
+  assetCapture?: AssetCaptureStats;
   executionTime: number;
   errors: string[];
   results: BackupResult[];
@@ -38,19 +81,84 @@ export interface BatchedBackupResult {
     total: number;
     percentComplete: number;
   };
+  budget: BudgetUsage;
+}
+
+interface UrlBatchOutcome {
+  processed: number;
+  results: BackupResult[];
+  changedUrls: string[];
+  successfulBackups: number;
+  failedBackups: number;
+  storedBackups: number;
+  failedStores: number;
+  notModifiedBackups: number;
+  lastmodSkippedBackups: number;
+  errors: string[];
 }
 
-interface SitemapLocNode {
-  loc?: string;
+/** Batch progress for the sitemap/URL-list scan cycle, kept between cron invocations. */
+interface BatchProgress {
+  nextOffset: number;
+  totalUrls: number;
+  lastRunTime: string;
+  // Whether this cycle re-fetches every URL, ignoring <lastmod>. Missing on older records.
+  fullScan?: boolean;
 }
 
-interface SitemapDocument {
-  urlset?: {
-    url?: SitemapLocNode | SitemapLocNode[];
-  };
-  sitemapindex?: {
-    sitemap?: SitemapLocNode | SitemapLocNode[];
-  };
+interface FullScanState {
+  date: string;
+  completedAt: string;
+  totalUrls: number;
+  // When the last cycle that ignored <lastmod> finished
+  lastFullScanAt?: string;
+}
+
+/** URLs that appeared in, or dropped out of, a URL snapshot compared with the one it replaced. */
+export interface UrlSnapshotDiff {
+  added: string[];
+  removed: string[];
+  addedCount: number;
+  removedCount: number;
+}
+
+/** Discovery state of a site backed up by crawling, for the API and console. */
+export interface CrawlStatus {
+  // Crawl currently working through its frontier, if any
+  inProgress: {
+    startedAt: string;
+    updatedAt: string;
+    discovered: number;
+    fetched: number;
+    queued: number;
+  } | null;
+  // URL set of the last completed crawl, with its difference from the crawl before it
+  snapshot: {
+    updatedAt?: string;
+    totalUrls: number;
+    urls: string[];
+    diff?: UrlSnapshotDiff;
+  } | null;
+}
+
+interface UrlSnapshot {
+  urls: string[];
+  entries: UrlEntry[];
+  updatedAt?: string;
+  totalUrls: number;
+  diff?: UrlSnapshotDiff;
+}
+
+/** Validators from the last stored copy of a page, sent as a conditional GET. */
+interface ConditionalValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+interface LatestPointer {
+  urlHash: string;
+  raw: string | null;
+  validators?: ConditionalValidators;
 }
 
 type SuccessfulBackupResult = BackupResult & {
@@ -69,12 +177,28 @@ interface PreparedBackupWrite {
 
 export class BackupFetcher {
   private kv: KVNamespace;
-  // Cloudflare Workers have a 1000 subrequest limit per invocation
-  // Each URL requires: 1 fetch + ~4 KV operations (get latest, put content, put meta, put latest)
-  // Plus detect changes needs additional KV reads
-  // Testing showed 25 URLs works reliably; 30+ can hit limits
-  private static readonly DEFAULT_BATCH_SIZE = 25;
-  private static readonly MAX_BATCH_SIZE = 30; // Proven safe limit
+  private payloads: PayloadStore;
+  private sharedPayloads: SharedPayloadStore;
+  // Cloudflare Workers have a 1000 subrequest limit per invocation.
+  // Each URL requires: 1+ fetches + ~6 KV operations (get latest, previous content, puts),
+  // and pages vary widely in latency, so batches are sized by an ExecutionBudget rather
+  // than a fixed URL count: every fetch and KV operation is metered against it.
+  private budget: ExecutionBudget | null = null;
+  // Site-specific headers (WAF bypass, preview cookies, UA override) sent with every page and sitemap request
+  private requestHeaders: Record<string, string> = {};
+  private auth: SiteAuthSession | null = null;
+  private manifestSigningKey: string | undefined;
+  // Whether this run has sealed the site's earlier manifest dates yet
+  private manifestSealed = false;
+  // Per-run robots.txt state: policies by origin, URLs they excluded, and extra discovered sitemaps
+  private robotsPolicies = new Map<string, RobotsPolicy>();
+  private robotsSkippedUrls: string[] = [];
+  private discoveredSitemapUrls: string[] = [];
+  private sitemapDelta: SitemapDelta | null = null;
+  // Per-run asset capture: outcome by asset URL (null when it failed or was skipped), and counts
+  private capturedAssets = new Map<string, CapturedAsset | null>();
+  private assetStats: AssetCaptureStats | null = null;
+  private static readonly MAX_FETCH_CONCURRENCY = 5;
   private static readonly MAX_FETCH_REDIRECTS = 5;
 
   // Sitemap recursion guards to prevent cycles and runaway parsing
@@ -88,14 +212,42 @@ export class BackupFetcher {
   /**
    * For large sites, avoid a perpetual "catch-up crawl".
    * Instead, snapshot the sitemap and only process newly-added URLs going forward.
+   * Sites can override the threshold, or pick a fixed mode, with `crawlStrategy`.
    */
-  private static readonly SITEMAP_LISTENER_URL_THRESHOLD = 100; // enable when sitemap has > 100 URLs
+  private static readonly DEFAULT_LISTENER_URL_THRESHOLD = 100; // enable when sitemap has > 100 URLs
   private static readonly SITEMAP_SNAPSHOT_TTL = 30 * 24 * 3600; // 30d
   private static readonly SITEMAP_PENDING_TTL = 7 * 24 * 3600; // 7d
   private static readonly SITEMAP_LISTENER_REFRESH_INTERVAL_MS = 60 * 60 * 1000; // 1h
 
-  constructor(kv: KVNamespace) {
-    this.kv = kv;
+  // How often a scan ignores <lastmod> and re-fetches every URL, unless the site overrides it
+  private static readonly DEFAULT_FULL_SCAN_INTERVAL_DAYS = 7;
+
+  // robots.txt is re-fetched daily (RFC 9309 caps caching at 24h); the KV copy outlives
+  // that so it can stand in while the origin's robots.txt is erroring.
+  private static readonly ROBOTS_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+  private static readonly ROBOTS_CACHE_TTL = 7 * 24 * 3600; // 7d
+  private static readonly MAX_CRAWL_DELAY_SECONDS = 60;
+
+  // Link-following discovery for sites with neither a sitemap nor a URL list
+  private static readonly CRAWL_STATE_TTL = 7 * 24 * 3600; // 7d
+  private static readonly CRAWL_SNAPSHOT_TTL = 30 * 24 * 3600; // 30d
+  private static readonly MAX_CRAWL_DIFF_URLS = 1000;
+
+  // Budget held back for each asset: the fetch plus the ref, blob and manifest writes
+  private static readonly ASSET_SUBREQUEST_ESTIMATE = 4;
+  private static readonly ASSET_WALL_CLOCK_ESTIMATE_MS = 500;
+
+  // Retention cleanup reads a URL's two pointers, then for each pruned backup its metadata,
+  // payload reference and payload, and deletes or rewrites them along with its asset manifest
+  private static readonly RETENTION_POINTER_READS = 2;
+  private static readonly RETENTION_PRUNE_SUBREQUEST_ESTIMATE = 6;
+  // Refreshing a pointer-kept backup's manifest re-writes it and checks and re-writes a few blobs
+  private static readonly ASSET_REFRESH_SUBREQUEST_ESTIMATE = 12;
+
+  constructor(kv: KVNamespace, storage?: R2Bucket) {
+    this.kv = meterKVNamespace(kv, () => this.recordSubrequest());
+    this.payloads = createPayloadStore(this.kv, storage && meterR2Bucket(storage, () => this.recordSubrequest()));
+    this.sharedPayloads = new SharedPayloadStore(this.kv, this.payloads);
   }
 
   async performSiteBackup(
@@ -104,40 +256,56 @@ export class BackupFetcher {
   ): Promise<BatchedBackupResult> {
     const startTime = Date.now();
     const today = new Date().toISOString().split('T')[0];
+    const budget = this.beginRun(batchOptions, startTime);
+    siteConfig = await this.resolveSitemapSource(siteConfig);
     
     // Determine batch parameters
     let batchOffset = batchOptions?.batchOffset ?? 0;
-    const batchSize = Math.min(
-      batchOptions?.batchSize ?? BackupFetcher.DEFAULT_BATCH_SIZE,
-      BackupFetcher.MAX_BATCH_SIZE
-    );
+    const maxUrls = batchOptions?.batchSize ?? Number.POSITIVE_INFINITY;
 
-    // If large-site sitemap listener mode is enabled, bypass full-scan batching entirely.
-    if (siteConfig.sitemapUrl) {
+    // Nothing to enumerate the site from: discover its pages by following links from baseUrl.
+    if (!siteConfig.sitemapUrl && !siteConfig.urls?.length) {
+      return await this.performCrawlBackup(siteConfig, maxUrls, startTime, batchOptions?.continueFromLast ?? false);
+    }
+
+    // In listener mode (chosen by crawlStrategy, or by auto on a large sitemap), bypass
+    // full-scan batching entirely.
+    const strategy = this.getCrawlStrategy(siteConfig);
+    if (siteConfig.sitemapUrl && strategy.mode !== 'full') {
       const listenerEnabled = await this.isSitemapListenerEnabled(siteConfig.id);
-      if (listenerEnabled) {
-        return await this.performSitemapListenerBackup(siteConfig, batchSize, startTime);
+      if (strategy.mode !== 'auto' && !listenerEnabled) {
+        await this.enableSitemapListener(siteConfig.id);
+      }
+      if (listenerEnabled || strategy.mode !== 'auto') {
+        return await this.performSitemapListenerBackup(siteConfig, maxUrls, startTime);
       }
     }
 
     // If continueFromLast, load saved progress
     let hadSavedProgress = false;
+    let fullScan = true;
     if (batchOptions?.continueFromLast) {
       const progress = await this.loadBatchProgress(siteConfig.id);
       if (progress && progress.nextOffset !== null) {
         batchOffset = progress.nextOffset;
         hadSavedProgress = true;
+        fullScan = progress.fullScan ?? true;
       }
     }
 
+    // A new cycle decides once whether it re-fetches everything or may skip by <lastmod>.
+    const lastScan = hadSavedProgress ? null : await this.getFullScanState(siteConfig.id);
+    if (!hadSavedProgress) {
+      fullScan = this.isFullScanDue(siteConfig, lastScan);
+    }
+
     // If there is no saved progress and we're at the start of a cycle, avoid re-scanning
     // the same site repeatedly. We run frequently to complete large sites within a day.
     if (batchOptions?.continueFromLast && !hadSavedProgress && batchOffset === 0) {
-      const fullScan = await this.getFullScanState(siteConfig.id);
-      if (fullScan?.date === today) {
+      if (lastScan?.date === today) {
         // For sitemap-driven sites, only re-run if the sitemap changed.
         if (siteConfig.sitemapUrl) {
-          const changed = await this.hasSitemapChanged(siteConfig.id, siteConfig.sitemapUrl);
+          const changed = await this.hasSitemapChanged(siteConfig, siteConfig.sitemapUrl);
           if (!changed) {
             return this.buildNoopResult(startTime);
           }
@@ -148,21 +316,23 @@ export class BackupFetcher {
       }
     }
 
-    // Get all URLs: use cached list when continuing a batch (avoid re-parsing sitemap every run)
-    let allUrls: string[];
+    // Get all URLs: use cached list when continuing a batch (avoid re-parsing sitemap every run).
+    // Sitemap entries are ordered most recently modified first, and cached in that order so
+    // batch offsets stay stable for the rest of the cycle.
+    let allUrls: UrlEntry[];
     if (siteConfig.sitemapUrl && hadSavedProgress) {
       const cached = await this.loadUrlsCache(siteConfig.id, today);
       if (cached !== null) {
         allUrls = cached;
         console.log(`URL cache hit for ${siteConfig.name}: ${allUrls.length} URLs`);
       } else {
-        allUrls = await this.getUrlsToBackup(siteConfig);
+        allUrls = this.orderByLastmod(await this.getUrlsToBackup(siteConfig));
         if (allUrls.length > 0) {
           await this.saveUrlsCache(siteConfig.id, today, allUrls);
         }
       }
     } else {
-      allUrls = await this.getUrlsToBackup(siteConfig);
+      allUrls = this.orderByLastmod(await this.getUrlsToBackup(siteConfig));
       if (siteConfig.sitemapUrl && allUrls.length > 0) {
         await this.saveUrlsCache(siteConfig.id, today, allUrls);
       }
@@ -171,30 +341,25 @@ export class BackupFetcher {
 
     // If this is a large sitemap-driven site, switch to "listen to sitemap going forward" mode.
     // We snapshot the current sitemap URL set and DO NOT backfill the whole site.
-    if (siteConfig.sitemapUrl && totalUrls > BackupFetcher.SITEMAP_LISTENER_URL_THRESHOLD) {
+    if (siteConfig.sitemapUrl && strategy.mode === 'auto' && totalUrls > strategy.listenerThreshold) {
       await this.enableSitemapListener(siteConfig.id);
-      const canonicalUrls = this.buildCanonicalUrlList(allUrls);
-      await this.saveSitemapSnapshot(siteConfig.id, canonicalUrls);
+      const canonicalEntries = this.buildCanonicalUrlList(allUrls);
+      await this.saveSitemapSnapshot(siteConfig.id, canonicalEntries);
       // Clear any in-flight full-scan state so we stop "looping" through the whole site.
       await this.clearBatchProgress(siteConfig.id);
       await this.clearUrlsCache(siteConfig.id);
       return this.buildNoopResult(startTime);
     }
 
-    // Slice URLs for this batch
-    const batchUrls = allUrls.slice(batchOffset, batchOffset + batchSize);
-    const processedInBatch = batchUrls.length;
+    // Candidate URLs for this batch; the budget decides how many are actually processed
+    const batchUrls = allUrls.slice(batchOffset, batchOffset + maxUrls);
     
-    console.log(`Starting batch backup for ${siteConfig.name} - URLs ${batchOffset + 1} to ${batchOffset + processedInBatch} of ${totalUrls}`);
+    console.log(`Starting batch backup for ${siteConfig.name} - up to ${batchUrls.length} URLs from ${batchOffset + 1} of ${totalUrls}`);
 
     if (batchUrls.length === 0) {
       // No more URLs to process
       await this.clearBatchProgress(siteConfig.id);
-      await this.setFullScanState(siteConfig.id, {
-        date: today,
-        completedAt: new Date().toISOString(),
-        totalUrls
-      });
+      await this.completeScanCycle(siteConfig.id, totalUrls, fullScan);
       return {
         totalUrls,
         processedInBatch: 0,
@@ -202,52 +367,40 @@ export class BackupFetcher {
         failedBackups: 0,
         storedBackups: 0,
         failedStores: 0,
+        notModifiedBackups: 0,
+        robotsSkippedUrls: this.robotsSkippedUrls,
+        lastmodSkippedBackups: 0,
         changedUrls: [],
         executionTime: Date.now() - startTime,
         errors: [],
         results: [],
         batchOffset,
-        batchSize,
+        batchSize: 0,
         hasMore: false,
         nextOffset: null,
         progress: {
           completed: totalUrls,
           total: totalUrls,
           percentComplete: 100
-        }
+        },
+        budget: budget.getUsage()
       };
     }
 
-    const results = await this.fetchUrlsWithConcurrency(
-      batchUrls, 
-      siteConfig.fetchOptions,
-      siteConfig.changeThreshold?.ignorePatterns
-    );
-
-    const successfulResults = results.filter(r => r.success);
-    const failedResults = results.filter(r => !r.success);
-
-    const preparedWrites = await this.prepareBackupWrites(
-      siteConfig.id,
-      successfulResults,
-      siteConfig.changeThreshold?.ignorePatterns,
-      siteConfig.changeThreshold?.minChangeSize
-    );
-    const changedUrls = preparedWrites.filter((entry) => entry.changed).map((entry) => entry.result.url);
-    const storeStats = await this.storeBackups(siteConfig.id, preparedWrites);
+    if (!fullScan) {
+      console.log(`Skipping URLs unchanged since their last backup by <lastmod> for ${siteConfig.name}`);
+    }
+    const outcome = await this.processUrlsWithinBudget(siteConfig, batchUrls, !fullScan);
+    const processedInBatch = outcome.processed;
     
     // Only cleanup on first batch to avoid repeated cleanup
     if (batchOffset === 0) {
-      await this.cleanupOldBackups(siteConfig.id, siteConfig.retentionDays);
+      await this.cleanupOldBackups(siteConfig);
     }
 
     const executionTime = Date.now() - startTime;
-    const errors = [
-      ...failedResults.map(r => r.error || 'Unknown error'),
-      ...storeStats.errors
-    ];
 
-    // Calculate next batch info
+    // Calculate next batch info from what was actually processed
     const nextOffset = batchOffset + processedInBatch;
     const hasMore = nextOffset < totalUrls;
     const completed = Math.min(nextOffset, totalUrls);
@@ -258,40 +411,380 @@ export class BackupFetcher {
       await this.saveBatchProgress(siteConfig.id, {
         nextOffset,
         totalUrls,
-        lastRunTime: new Date().toISOString()
+        lastRunTime: new Date().toISOString(),
+        fullScan
       });
     } else {
       await this.clearBatchProgress(siteConfig.id);
-      await this.setFullScanState(siteConfig.id, {
-        date: today,
-        completedAt: new Date().toISOString(),
-        totalUrls
-      });
+      await this.completeScanCycle(siteConfig.id, totalUrls, fullScan);
     }
 
-    console.log(`Batch completed for ${siteConfig.name}: ${successfulResults.length}/${processedInBatch} successful, ${changedUrls.length} changed. Progress: ${percentComplete}%`);
+    const budgetUsage = budget.getUsage();
+    console.log(
+      `Batch completed for ${siteConfig.name}: ${outcome.successfulBackups}/${processedInBatch} successful, ` +
+      `${outcome.changedUrls.length} changed. Progress: ${percentComplete}%, budget ${budgetUsage.percentUsed}% used`
+    );
 
     return {
       totalUrls,
       processedInBatch,
-      successfulBackups: successfulResults.length,
-      failedBackups: failedResults.length,
-      storedBackups: storeStats.storedBackups,
-      failedStores: storeStats.failedStores,
-      changedUrls,
+      successfulBackups: outcome.successfulBackups,
+      failedBackups: outcome.failedBackups,
+      storedBackups: outcome.storedBackups,
+      failedStores: outcome.failedStores,
+      notModifiedBackups: outcome.notModifiedBackups,
+      robotsSkippedUrls: this.robotsSkippedUrls,
+      lastmodSkippedBackups: outcome.lastmodSkippedBackups,
+      changedUrls: outcome.changedUrls,
+      ...(this.assetStats && { assetCapture: this.assetStats }),
       executionTime,
-      errors,
-      results,
+      errors: outcome.errors,
+      results: outcome.results,
       batchOffset,
-      batchSize,
+      batchSize: processedInBatch,
       hasMore,
       nextOffset: hasMore ? nextOffset : null,
       progress: {
         completed,
         total: totalUrls,
         percentComplete
+      },
+      budget: budgetUsage
+    };
+  }
+
+  /**
+   * Drop the scan state that does not belong to the site's current `crawlStrategy`, so the
+   * next run starts cleanly in that mode. Listener snapshots are kept.
+   */
+  async applyCrawlStrategy(siteConfig: SiteConfig): Promise<void> {
+    const siteId = siteConfig.id;
+    await this.clearBatchProgress(siteId);
+    await this.clearUrlsCache(siteId);
+    await this.kv.delete(`sitemap_pending:${siteId}`);
+    await this.kv.delete(`sitemap_listener_cursor:${siteId}`);
+
+    const { mode } = this.getCrawlStrategy(siteConfig);
+    if (mode === 'listener' || mode === 'listener-rolling') {
+      await this.enableSitemapListener(siteId);
+    } else {
+      // auto decides again on its next full read of the sitemap
+      await this.kv.delete(`sitemap_listener:${siteId}`);
+    }
+  }
+
+  /**
+   * Re-read the sitemap into the listener snapshot and make it the new baseline: no delta is
+   * recorded and nothing is queued as new. Returns the snapshot size.
+   */
+  async rebuildSitemapSnapshot(siteConfig: SiteConfig, options?: BatchOptions): Promise<{ totalUrls: number }> {
+    this.beginRun(options, Date.now());
+    siteConfig = await this.resolveSitemapSource(siteConfig);
+    if (!siteConfig.sitemapUrl) {
+      throw new Error(`Site ${siteConfig.id} has no sitemap to snapshot`);
+    }
+
+    const canonicalEntries = this.buildCanonicalUrlList(await this.getUrlsToBackup(siteConfig));
+    await this.saveSitemapSnapshot(siteConfig.id, canonicalEntries);
+    await this.kv.delete(`sitemap_pending:${siteConfig.id}`);
+    await this.kv.delete(`sitemap_listener_cursor:${siteConfig.id}`);
+    console.log(`Rebuilt sitemap snapshot for ${siteConfig.name}: ${canonicalEntries.length} URLs`);
+
+    return { totalUrls: canonicalEntries.length };
+  }
+
+  private beginRun(options: BatchOptions | undefined, startTime: number): ExecutionBudget {
+    const budget = new ExecutionBudget(options?.budget, startTime);
+    this.budget = budget;
+    this.requestHeaders = options?.requestHeaders ?? {};
+    this.auth = options?.auth ?? null;
+    this.auth?.meterSubrequests(() => this.recordSubrequest());
+    this.manifestSigningKey = options?.manifestSigningKey;
+    this.manifestSealed = false;
+    this.robotsPolicies = new Map();
+    this.robotsSkippedUrls = [];
+    this.discoveredSitemapUrls = [];
+    this.sitemapDelta = null;
+    this.capturedAssets = new Map();
+    this.assetStats = null;
+    return budget;
+  }
+
+  /** Sites with neither a sitemap nor a URL list fall back to the sitemaps robots.txt advertises. */
+  private async resolveSitemapSource(siteConfig: SiteConfig): Promise<SiteConfig> {
+    if (siteConfig.sitemapUrl || siteConfig.urls?.length) {
+      return siteConfig;
+    }
+
+    const { sitemaps } = await this.getRobotsPolicy(siteConfig, siteConfig.baseUrl);
+    if (sitemaps.length === 0) {
+      return siteConfig;
+    }
+
+    console.log(`Discovered ${sitemaps.length} sitemap(s) for ${siteConfig.name} in robots.txt`);
+    this.discoveredSitemapUrls = sitemaps.slice(1);
+    return { ...siteConfig, sitemapUrl: sitemaps[0] };
+  }
+
+  /**
+   * Fetch, diff and store `urls` in order, one concurrency-sized chunk at a time, until the
+   * list is exhausted or the projected cost of the next chunk would push the run past the
+   * budget target. At least one chunk is always processed so a site can never stall.
+   * With `skipUnchanged`, entries whose `lastmod` predates their latest backup are counted
+   * as processed without being fetched.
+   */
+  private async processUrlsWithinBudget(
+    siteConfig: SiteConfig,
+    urls: UrlEntry[],
+    skipUnchanged = false
+  ): Promise<UrlBatchOutcome> {
+    const budget = this.budget ?? new ExecutionBudget();
+    const crawlDelayMs = await this.getCrawlDelayMs(siteConfig);
+    // A Crawl-delay means one request at a time, spaced by the delay.
+    const chunkSize = crawlDelayMs > 0
+      ? 1
+      : Math.max(1, Math.min(siteConfig.fetchOptions.concurrency, BackupFetcher.MAX_FETCH_CONCURRENCY));
+    const startSubrequests = budget.getSubrequestsUsed();
+    const startElapsedMs = budget.getElapsedMs();
+    const outcome: UrlBatchOutcome = {
+      processed: 0,
+      results: [],
+      changedUrls: [],
+      successfulBackups: 0,
+      failedBackups: 0,
+      storedBackups: 0,
+      failedStores: 0,
+      notModifiedBackups: 0,
+      lastmodSkippedBackups: 0,
+      errors: []
+    };
+    const today = new Date().toISOString().split('T')[0];
+    let fetchedAny = false;
+
+    while (outcome.processed < urls.length) {
+      const chunk = urls.slice(outcome.processed, outcome.processed + chunkSize);
+
+      if (outcome.processed > 0) {
+        const subrequestsPerUrl = (budget.getSubrequestsUsed() - startSubrequests) / outcome.processed;
+        const msPerUrl = (budget.getElapsedMs() - startElapsedMs) / outcome.processed;
+        if (!budget.canAfford(subrequestsPerUrl * chunk.length, msPerUrl * chunk.length)) {
+          budget.markStopped();
+          break;
+        }
+      }
+
+      const latestPointers = await this.loadLatestPointers(siteConfig, chunk.map((entry) => entry.loc));
+      const toFetch = skipUnchanged
+        ? chunk.filter((entry) => !this.isUnchangedSinceBackup(entry, latestPointers.get(entry.loc)?.raw ?? null, today, siteConfig.retentionDays))
+        : chunk;
+      outcome.lastmodSkippedBackups += chunk.length - toFetch.length;
+
+      if (toFetch.length === 0) {
+        outcome.processed += chunk.length;
+        continue;
+      }
+
+      if (fetchedAny && crawlDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, crawlDelayMs));
+      }
+      fetchedAny = true;
+
+      const results = await this.fetchUrlsWithConcurrency(
+        toFetch.map((entry) => entry.loc),
+        siteConfig.fetchOptions,
+        siteConfig.changeThreshold?.ignorePatterns,
+        latestPointers
+      );
+      const successfulResults = results.filter(r => r.success);
+      const failedResults = results.filter(r => !r.success);
+
+      const preparedWrites = await this.prepareBackupWrites(
+        siteConfig.id,
+        successfulResults,
+        latestPointers,
+        siteConfig.changeThreshold?.ignorePatterns,
+        siteConfig.changeThreshold?.minChangeSize
+      );
+      const writes = await this.withoutHeldBackups(siteConfig.id, preparedWrites);
+      const storeStats = await this.storeBackups(siteConfig.id, writes);
+      await this.captureAssets(siteConfig, writes);
+
+      outcome.processed += chunk.length;
+      outcome.results.push(...results);
+      outcome.changedUrls.push(...preparedWrites.filter((entry) => entry.changed).map((entry) => entry.result.url));
+      outcome.successfulBackups += successfulResults.length;
+      outcome.failedBackups += failedResults.length;
+      outcome.storedBackups += storeStats.storedBackups;
+      outcome.failedStores += storeStats.failedStores;
+      outcome.notModifiedBackups += successfulResults.filter((result) => result.notModified).length;
+      outcome.errors.push(...failedResults.map(r => r.error || 'Unknown error'), ...storeStats.errors);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Read the `latest:` pointer for each URL. Pointers carrying an ETag or Last-Modified
+   * become validators for a conditional GET, unless the stored copy is within a day of
+   * being removed by retention cleanup: those pages are re-downloaded so a fresh copy exists.
+   */
+  private async loadLatestPointers(siteConfig: SiteConfig, urls: string[]): Promise<Map<string, LatestPointer>> {
+    const today = new Date().toISOString().split('T')[0];
+    const entries = await Promise.all(urls.map(async (url): Promise<[string, LatestPointer]> => {
+      const urlHash = await this.getUrlHash(url);
+      const raw = await this.kv.get(`latest:${siteConfig.id}:${urlHash}`);
+      return [url, { urlHash, raw, validators: this.getConditionalValidators(raw, today, siteConfig.retentionDays) }];
+    }));
+
+    return new Map(entries);
+  }
+
+  private getConditionalValidators(raw: string | null, today: string, retentionDays: number): ConditionalValidators | undefined {
+    if (!raw) {
+      return undefined;
+    }
+
+    try {
+      const previous = JSON.parse(raw) as Partial<BackupMetadata>;
+      const storedDate = previous.timestamp?.split('T')[0];
+      if (!storedDate || (!previous.etag && !previous.lastModified)) {
+        return undefined;
+      }
+
+      const ageDays = (Date.parse(today) - Date.parse(storedDate)) / 86_400_000;
+      if (!(ageDays < retentionDays - 1)) {
+        return undefined;
+      }
+
+      return { etag: previous.etag, lastModified: previous.lastModified };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a sitemap entry's `lastmod` shows the page has not changed since its latest
+   * backup. A date-only `lastmod` covers the whole day, so it only counts once that day is
+   * over. Copies close to retention cleanup never count, so a fresh copy gets stored.
+   */
+  private isUnchangedSinceBackup(entry: UrlEntry, raw: string | null, today: string, retentionDays: number): boolean {
+    if (!entry.lastmod || !raw) {
+      return false;
+    }
+
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(entry.lastmod);
+    const lastmodTime = Date.parse(entry.lastmod) + (dateOnly ? 86_400_000 : 0);
+    if (!Number.isFinite(lastmodTime)) {
+      return false;
+    }
+
+    try {
+      const previous = JSON.parse(raw) as Partial<BackupMetadata>;
+      const storedTime = previous.timestamp ? Date.parse(previous.timestamp) : Number.NaN;
+      if (!Number.isFinite(storedTime)) {
+        return false;
       }
+
+      const ageDays = (Date.parse(today) - Date.parse(previous.timestamp!.split('T')[0])) / 86_400_000;
+      return ageDays < retentionDays - 1 && lastmodTime <= storedTime;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Sort entries most recently modified first; undated entries keep their order at the end. */
+  private orderByLastmod(entries: UrlEntry[]): UrlEntry[] {
+    const lastmodTime = (entry: UrlEntry) => {
+      const time = entry.lastmod ? Date.parse(entry.lastmod) : Number.NaN;
+      return Number.isFinite(time) ? time : Number.NEGATIVE_INFINITY;
     };
+
+    return entries
+      .map((entry, index) => ({ entry, index, time: lastmodTime(entry) }))
+      .sort((a, b) => (b.time - a.time) || (b.entry.priority ?? 0.5) - (a.entry.priority ?? 0.5) || a.index - b.index)
+      .map(({ entry }) => entry);
+  }
+
+  /** The robots.txt policy for `url`'s origin, loaded once per run. */
+  private async getRobotsPolicy(siteConfig: SiteConfig, url: string): Promise<RobotsPolicy> {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return RobotsPolicy.ALLOW_ALL;
+    }
+
+    const cached = this.robotsPolicies.get(origin);
+    if (cached) {
+      return cached;
+    }
+
+    const robots = await this.loadRobotsTxt(siteConfig, origin);
+    const policy = new RobotsPolicy(robots, this.requestHeaders['User-Agent'] ?? DEFAULT_USER_AGENT);
+    this.robotsPolicies.set(origin, policy);
+    return policy;
+  }
+
+  /**
+   * Read an origin's robots.txt from the KV cache (`robots:{siteId}:{origin}`), fetching it
+   * when the cached copy is over a day old. A 4xx means there are no rules. On a 5xx or
+   * network error the last cached copy is used, or no rules when there is none.
+   */
+  private async loadRobotsTxt(siteConfig: SiteConfig, origin: string): Promise<ParsedRobotsTxt> {
+    const key = `robots:${siteConfig.id}:${origin}`;
+    let cached: { fetchedAt: string; robots: ParsedRobotsTxt } | null = null;
+
+    try {
+      const raw = await this.kv.get(key);
+      cached = raw ? JSON.parse(raw) : null;
+    } catch {
+      cached = null;
+    }
+
+    if (cached && Date.now() - Date.parse(cached.fetchedAt) < BackupFetcher.ROBOTS_REFRESH_INTERVAL_MS) {
+      return cached.robots;
+    }
+
+    try {
+      const sameOrigin = origin === new URL(siteConfig.baseUrl).origin;
+      this.recordSubrequest();
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: {
+          'User-Agent': DEFAULT_USER_AGENT,
+          ...(sameOrigin ? this.requestHeaders : {})
+        },
+        signal: AbortSignal.timeout(10000)
+      });
+
+      if (response.status >= 500) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const robots = response.ok ? parseRobotsTxt(await response.text()) : { groups: [], sitemaps: [] };
+      await this.kv.put(key, JSON.stringify({ fetchedAt: new Date().toISOString(), robots }), {
+        expirationTtl: BackupFetcher.ROBOTS_CACHE_TTL
+      });
+      return robots;
+    } catch (error) {
+      console.warn(
+        `robots.txt for ${origin} is unavailable (${error instanceof Error ? error.message : String(error)}); ` +
+        (cached ? 'using the cached copy' : 'proceeding without rules')
+      );
+      return cached?.robots ?? { groups: [], sitemaps: [] };
+    }
+  }
+
+  private async getCrawlDelayMs(siteConfig: SiteConfig): Promise<number> {
+    if (siteConfig.respectRobots === false) {
+      return 0;
+    }
+
+    const { crawlDelaySeconds } = await this.getRobotsPolicy(siteConfig, siteConfig.baseUrl);
+    return Math.min(crawlDelaySeconds ?? 0, BackupFetcher.MAX_CRAWL_DELAY_SECONDS) * 1000;
+  }
+
+  private recordSubrequest(): void {
+    this.budget?.recordSubrequests();
   }
 
   private buildNoopResult(startTime: number): BatchedBackupResult {
@@ -302,7 +795,11 @@ export class BackupFetcher {
       failedBackups: 0,
       storedBackups: 0,
       failedStores: 0,
+      notModifiedBackups: 0,
+      robotsSkippedUrls: this.robotsSkippedUrls,
+      lastmodSkippedBackups: 0,
       changedUrls: [],
+      ...(this.sitemapDelta && { sitemapDelta: this.sitemapDelta }),
       executionTime: Date.now() - startTime,
       errors: [],
       results: [],
@@ -314,16 +811,17 @@ export class BackupFetcher {
         completed: 0,
         total: 0,
         percentComplete: 100
-      }
+      },
+      budget: (this.budget ?? new ExecutionBudget({}, startTime)).getUsage()
     };
   }
 
-  private async saveBatchProgress(siteId: string, progress: { nextOffset: number; totalUrls: number; lastRunTime: string }): Promise<void> {
+  private async saveBatchProgress(siteId: string, progress: BatchProgress): Promise<void> {
     const key = `batch_progress:${siteId}`;
     await this.kv.put(key, JSON.stringify(progress), { expirationTtl: 86400 }); // 24 hour TTL
   }
 
-  private async loadBatchProgress(siteId: string): Promise<{ nextOffset: number; totalUrls: number; lastRunTime: string } | null> {
+  private async loadBatchProgress(siteId: string): Promise<BatchProgress | null> {
     const key = `batch_progress:${siteId}`;
     const data = await this.kv.get(key);
     if (!data) return null;
@@ -356,13 +854,34 @@ export class BackupFetcher {
     }
   }
 
-  private buildCanonicalUrlList(urls: string[]): string[] {
-    const set = new Set<string>();
-    for (const u of urls) {
-      const canonical = this.canonicalizeForSitemapState(u);
-      if (canonical) set.add(canonical);
+  private getCrawlStrategy(siteConfig: SiteConfig): Required<CrawlStrategyConfig> {
+    return {
+      mode: siteConfig.crawlStrategy?.mode ?? 'auto',
+      listenerThreshold: siteConfig.crawlStrategy?.listenerThreshold ?? BackupFetcher.DEFAULT_LISTENER_URL_THRESHOLD,
+      recheckUrlsPerTick: siteConfig.crawlStrategy?.recheckUrlsPerTick ?? Number.POSITIVE_INFINITY
+    };
+  }
+
+  private buildCanonicalUrlList(entries: UrlEntry[]): UrlEntry[] {
+    const byLoc = new Map<string, UrlEntry>();
+    for (const entry of entries) {
+      const canonical = this.canonicalizeForSitemapState(entry.loc);
+      if (canonical) byLoc.set(canonical, { ...entry, loc: canonical });
     }
-    return Array.from(set).sort();
+    return Array.from(byLoc.values()).sort((a, b) => (a.loc < b.loc ? -1 : a.loc > b.loc ? 1 : 0));
+  }
+
+  /** URL cache and snapshot chunks store a bare string for entries without sitemap hints. */
+  private encodeUrlEntries(entries: UrlEntry[]): Array<string | UrlEntry> {
+    return entries.map((entry) =>
+      entry.lastmod === undefined && entry.changefreq === undefined && entry.priority === undefined
+        ? entry.loc
+        : entry
+    );
+  }
+
+  private decodeUrlEntries(items: Array<string | UrlEntry>): UrlEntry[] {
+    return items.map((item) => (typeof item === 'string' ? { loc: item } : item));
   }
 
   private async loadSitemapSnapshot(siteId: string): Promise<Set<string> | null> {
@@ -370,55 +889,81 @@ export class BackupFetcher {
     return snapshotState ? new Set(snapshotState.urls) : null;
   }
 
-  private async loadSitemapSnapshotState(siteId: string): Promise<{
-    urls: string[];
-    updatedAt?: string;
-    totalUrls: number;
-  } | null> {
-    const metaKey = `sitemap_snapshot:${siteId}`;
+  private async loadSitemapSnapshotState(siteId: string): Promise<UrlSnapshot | null> {
+    return this.loadUrlSnapshot('sitemap_snapshot', siteId);
+  }
+
+  private async saveSitemapSnapshot(siteId: string, canonicalEntries: UrlEntry[]): Promise<void> {
+    await this.saveUrlSnapshot('sitemap_snapshot', siteId, canonicalEntries, BackupFetcher.SITEMAP_SNAPSHOT_TTL);
+  }
+
+  private async clearSitemapSnapshot(siteId: string): Promise<void> {
+    await this.clearUrlSnapshot('sitemap_snapshot', siteId);
+  }
+
+  /** Read a chunked URL snapshot (`{prefix}:{siteId}` meta plus `:chunk:n` keys). */
+  private async loadUrlSnapshot(prefix: string, siteId: string): Promise<UrlSnapshot | null> {
+    const metaKey = `${prefix}:${siteId}`;
     const metaRaw = await this.kv.get(metaKey);
     if (!metaRaw) return null;
     try {
-      const meta = JSON.parse(metaRaw) as { chunkCount: number; updatedAt?: string; totalUrls?: number };
+      const meta = JSON.parse(metaRaw) as {
+        chunkCount: number;
+        updatedAt?: string;
+        totalUrls?: number;
+        diff?: UrlSnapshotDiff;
+      };
       const { chunkCount } = meta;
-      const urls: string[] = [];
+      const entries: UrlEntry[] = [];
       for (let i = 0; i < chunkCount; i++) {
-        const chunkRaw = await this.kv.get(`sitemap_snapshot:${siteId}:chunk:${i}`);
+        const chunkRaw = await this.kv.get(`${prefix}:${siteId}:chunk:${i}`);
         if (!chunkRaw) return null;
-        urls.push(...(JSON.parse(chunkRaw) as string[]));
+        entries.push(...this.decodeUrlEntries(JSON.parse(chunkRaw) as Array<string | UrlEntry>));
       }
       return {
-        urls,
+        urls: entries.map((entry) => entry.loc),
+        entries,
         updatedAt: meta.updatedAt,
-        totalUrls: meta.totalUrls ?? urls.length
+        totalUrls: meta.totalUrls ?? entries.length,
+        ...(meta.diff && { diff: meta.diff })
       };
     } catch {
       return null;
     }
   }
 
-  private async saveSitemapSnapshot(siteId: string, canonicalUrls: string[]): Promise<void> {
+  private async saveUrlSnapshot(
+    prefix: string,
+    siteId: string,
+    canonicalEntries: UrlEntry[],
+    ttl: number,
+    diff?: UrlSnapshotDiff
+  ): Promise<void> {
     const chunkSize = BackupFetcher.URL_CACHE_CHUNK_SIZE;
-    const ttl = BackupFetcher.SITEMAP_SNAPSHOT_TTL;
-    const chunkCount = Math.ceil(canonicalUrls.length / chunkSize);
-    const metaKey = `sitemap_snapshot:${siteId}`;
+    const chunkCount = Math.ceil(canonicalEntries.length / chunkSize);
     await this.kv.put(
-      metaKey,
-      JSON.stringify({ chunkCount, totalUrls: canonicalUrls.length, updatedAt: new Date().toISOString() }),
+      `${prefix}:${siteId}`,
+      JSON.stringify({
+        chunkCount,
+        totalUrls: canonicalEntries.length,
+        updatedAt: new Date().toISOString(),
+        ...(diff && { diff })
+      }),
       { expirationTtl: ttl }
     );
     for (let i = 0; i < chunkCount; i++) {
-      const chunk = canonicalUrls.slice(i * chunkSize, (i + 1) * chunkSize);
-      await this.kv.put(`sitemap_snapshot:${siteId}:chunk:${i}`, JSON.stringify(chunk), { expirationTtl: ttl });
+      const chunk = this.encodeUrlEntries(canonicalEntries.slice(i * chunkSize, (i + 1) * chunkSize));
+      await this.kv.put(`${prefix}:${siteId}:chunk:${i}`, JSON.stringify(chunk), { expirationTtl: ttl });
     }
-    await this.pruneChunkedKeys(`sitemap_snapshot:${siteId}:chunk:`, chunkCount);
+    await this.pruneChunkedKeys(`${prefix}:${siteId}:chunk:`, chunkCount);
   }
 
-  private async clearSitemapSnapshot(siteId: string): Promise<void> {
+  private async clearUrlSnapshot(prefix: string, siteId: string): Promise<void> {
+    await this.kv.delete(`${prefix}:${siteId}`);
     let cursor: string | undefined;
     do {
       const list = await this.kv.list({
-        prefix: `sitemap_snapshot:${siteId}`,
+        prefix: `${prefix}:${siteId}:`,
         limit: 1000,
         cursor
       }) as { keys: { name: string }[]; list_complete: boolean; cursor?: string };
@@ -453,15 +998,28 @@ export class BackupFetcher {
     await this.kv.put(key, JSON.stringify(unique), { expirationTtl: BackupFetcher.SITEMAP_PENDING_TTL });
   }
 
-  private async loadSitemapListenerCursor(siteId: string): Promise<number> {
+  /**
+   * The rolling re-check position, and whether the current pass is a full scan. Older
+   * records hold only the cursor as a bare number.
+   */
+  private async loadSitemapListenerCursor(siteId: string): Promise<{ cursor: number; fullScan?: boolean }> {
     const raw = await this.kv.get(`sitemap_listener_cursor:${siteId}`);
-    if (!raw) return 0;
-    const cursor = Number.parseInt(raw, 10);
-    return Number.isFinite(cursor) && cursor >= 0 ? cursor : 0;
+    if (!raw) return { cursor: 0 };
+    try {
+      const parsed = JSON.parse(raw) as number | { cursor?: number; fullScan?: boolean };
+      const state = typeof parsed === 'number' ? { cursor: parsed } : parsed;
+      const cursor = Number(state.cursor);
+      return {
+        cursor: Number.isInteger(cursor) && cursor >= 0 ? cursor : 0,
+        fullScan: typeof state.fullScan === 'boolean' ? state.fullScan : undefined
+      };
+    } catch {
+      return { cursor: 0 };
+    }
   }
 
-  private async saveSitemapListenerCursor(siteId: string, cursor: number): Promise<void> {
-    await this.kv.put(`sitemap_listener_cursor:${siteId}`, String(Math.max(0, cursor)), {
+  private async saveSitemapListenerCursor(siteId: string, cursor: number, fullScan: boolean): Promise<void> {
+    await this.kv.put(`sitemap_listener_cursor:${siteId}`, JSON.stringify({ cursor: Math.max(0, cursor), fullScan }), {
       expirationTtl: BackupFetcher.SITEMAP_SNAPSHOT_TTL
     });
   }
@@ -479,88 +1037,114 @@ export class BackupFetcher {
     return Date.now() - updatedAtTime >= BackupFetcher.SITEMAP_LISTENER_REFRESH_INTERVAL_MS;
   }
 
+  /**
+   * Re-read the sitemap into the listener snapshot. URLs that are new since the last
+   * snapshot, or whose `lastmod` moved forward, are returned as pending, newest first.
+   * Additions and removals are recorded as the day's sitemap delta.
+   */
   private async refreshSitemapListenerSnapshot(siteConfig: SiteConfig): Promise<{
-    snapshotUrls: string[];
+    snapshotEntries: UrlEntry[];
     newUrls: string[];
   }> {
     if (!siteConfig.sitemapUrl) {
-      return { snapshotUrls: [], newUrls: [] };
+      return { snapshotEntries: [], newUrls: [] };
     }
 
     const snapshotState = await this.loadSitemapSnapshotState(siteConfig.id);
-    const previousSnapshot = snapshotState ? new Set(snapshotState.urls) : null;
+    const previousSnapshot = snapshotState
+      ? new Map(snapshotState.entries.map((entry) => [entry.loc, entry.lastmod]))
+      : null;
     const allUrls = await this.getUrlsToBackup(siteConfig);
     const canonicalNow = this.buildCanonicalUrlList(allUrls);
 
     await this.saveSitemapSnapshot(siteConfig.id, canonicalNow);
 
     if (previousSnapshot === null) {
-      return { snapshotUrls: canonicalNow, newUrls: [] };
+      return { snapshotEntries: canonicalNow, newUrls: [] };
+    }
+
+    const deltaStore = new SitemapDeltaStore(this.kv);
+    const change = diffSitemapSnapshots(
+      previousSnapshot.keys(),
+      canonicalNow.map((entry) => entry.loc),
+      await deltaStore.loadRemovedUrls(siteConfig.id)
+    );
+    if (!isEmptySitemapChange(change)) {
+      const date = new Date().toISOString().split('T')[0];
+      // A held day's delta is kept with its backups
+      const held = findLegalHoldForDate(await new LegalHoldStore(this.kv).list(siteConfig.id), date);
+      await deltaStore.record(siteConfig.id, change, held ? null : siteConfig.retentionDays);
+      this.sitemapDelta = mergeSitemapChange(null, change, date);
+      console.log(
+        `Sitemap for ${siteConfig.name} changed: ${change.added.length} added, ` +
+        `${change.removed.length} removed, ${change.readded.length} re-added`
+      );
     }
 
+    const changed = canonicalNow.filter((entry) => {
+      if (!previousSnapshot.has(entry.loc)) {
+        return true;
+      }
+      const previousLastmod = previousSnapshot.get(entry.loc);
+      return Boolean(entry.lastmod && previousLastmod && Date.parse(entry.lastmod) > Date.parse(previousLastmod));
+    });
+
     return {
-      snapshotUrls: canonicalNow,
-      newUrls: canonicalNow.filter((url) => !previousSnapshot.has(url))
+      snapshotEntries: canonicalNow,
+      newUrls: this.orderByLastmod(changed).map((entry) => entry.loc)
     };
   }
 
   private async getSitemapListenerBatch(
-    siteId: string,
-    snapshotUrls: string[],
-    batchSize: number
-  ): Promise<{
-    batchUrls: string[];
-    hasMore: boolean;
-    completed: number;
-    nextCursor: number;
-    total: number;
-  }> {
-    if (snapshotUrls.length === 0) {
-      return {
-        batchUrls: [],
-        hasMore: false,
-        completed: 0,
-        nextCursor: 0,
-        total: 0
-      };
-    }
-
-    let cursor = await this.loadSitemapListenerCursor(siteId);
-    if (cursor >= snapshotUrls.length) {
+    siteConfig: SiteConfig,
+    snapshotEntries: UrlEntry[],
+    maxUrls: number
+  ): Promise<{ batchUrls: UrlEntry[]; cursor: number; fullScan: boolean }> {
+    const state = await this.loadSitemapListenerCursor(siteConfig.id);
+    let { cursor } = state;
+    if (cursor >= snapshotEntries.length) {
       cursor = 0;
     }
 
-    const batchUrls = snapshotUrls.slice(cursor, cursor + batchSize);
-    if (batchUrls.length === 0) {
-      await this.saveSitemapListenerCursor(siteId, 0);
-      return {
-        batchUrls: [],
-        hasMore: false,
-        completed: 0,
-        nextCursor: 0,
-        total: snapshotUrls.length
-      };
-    }
+    // Each pass over the snapshot decides once whether it may skip by <lastmod>.
+    const fullScan = cursor === 0 || state.fullScan === undefined
+      ? this.isFullScanDue(siteConfig, await this.getFullScanState(siteConfig.id))
+      : state.fullScan;
 
-    const nextCursorRaw = cursor + batchUrls.length;
-    const completed = Math.min(nextCursorRaw, snapshotUrls.length);
-    const wrapped = nextCursorRaw >= snapshotUrls.length;
+    return {
+      batchUrls: snapshotEntries.slice(cursor, cursor + maxUrls),
+      cursor,
+      fullScan
+    };
+  }
+
+  /** Move the rolling re-check cursor past the URLs actually processed, wrapping at the end. */
+  private async advanceSitemapListenerCursor(
+    siteId: string,
+    cursor: number,
+    processed: number,
+    total: number,
+    fullScan: boolean
+  ): Promise<{ hasMore: boolean; completed: number; nextCursor: number }> {
+    const nextCursorRaw = cursor + processed;
+    const wrapped = nextCursorRaw >= total;
     const nextCursor = wrapped ? 0 : nextCursorRaw;
 
-    await this.saveSitemapListenerCursor(siteId, nextCursor);
+    await this.saveSitemapListenerCursor(siteId, nextCursor, fullScan);
+    if (wrapped) {
+      await this.completeScanCycle(siteId, total, fullScan);
+    }
 
     return {
-      batchUrls,
-      hasMore: !wrapped && nextCursor < snapshotUrls.length,
-      completed: wrapped ? snapshotUrls.length : completed,
-      nextCursor,
-      total: snapshotUrls.length
+      hasMore: !wrapped,
+      completed: wrapped ? total : nextCursorRaw,
+      nextCursor
     };
   }
 
   private async performSitemapListenerBackup(
     siteConfig: SiteConfig,
-    batchSize: number,
+    maxUrls: number,
     startTime: number
   ): Promise<BatchedBackupResult> {
     if (!siteConfig.sitemapUrl) {
@@ -568,111 +1152,379 @@ export class BackupFetcher {
     }
 
     const siteId = siteConfig.id;
+    const strategy = this.getCrawlStrategy(siteConfig);
     let pending = await this.loadSitemapPending(siteId);
     let snapshotState = await this.loadSitemapSnapshotState(siteId);
-    let snapshotUrls = snapshotState?.urls ?? [];
+    let snapshotEntries = snapshotState?.entries ?? [];
 
     // Refresh sitemap state when backlog is clear and either the root sitemap changed
     // or the listener snapshot is stale. This catches nested sitemap updates eventually
     // even when a stable root index does not change.
     if (pending.length === 0) {
-      const rootChanged = await this.hasSitemapChanged(siteId, siteConfig.sitemapUrl);
+      const rootChanged = await this.hasSitemapChanged(siteConfig, siteConfig.sitemapUrl);
       const refreshDue = this.isSitemapListenerRefreshDue(snapshotState?.updatedAt);
 
-      if (rootChanged || refreshDue || snapshotUrls.length === 0) {
+      if (rootChanged || refreshDue || snapshotEntries.length === 0) {
         const refreshed = await this.refreshSitemapListenerSnapshot(siteConfig);
-        snapshotUrls = refreshed.snapshotUrls;
+        snapshotEntries = refreshed.snapshotEntries;
         pending = refreshed.newUrls;
         await this.saveSitemapPending(siteId, pending);
         snapshotState = await this.loadSitemapSnapshotState(siteId);
       }
     }
 
-    let batchUrls: string[] = [];
-    let pendingAfter: string[] = [];
-    let totalUrls = pending.length;
-    let completed = 0;
-    let hasMore = false;
-    let nextOffset: number | null = null;
-
-    if (pending.length > 0) {
-      batchUrls = pending.slice(0, batchSize);
-      pendingAfter = pending.slice(batchSize);
-      await this.saveSitemapPending(siteId, pendingAfter);
-
-      totalUrls = pending.length;
-      completed = batchUrls.length;
-      hasMore = pendingAfter.length > 0;
-      nextOffset = hasMore ? batchUrls.length : null;
-    } else if (snapshotUrls.length > 0) {
-      const listenerBatch = await this.getSitemapListenerBatch(siteId, snapshotUrls, batchSize);
+    const processingPending = pending.length > 0;
+    let batchUrls: UrlEntry[] = [];
+    let listenerCursor = 0;
+    let fullScan = true;
+
+    if (processingPending) {
+      batchUrls = pending.slice(0, maxUrls).map((loc) => ({ loc }));
+    } else if (snapshotEntries.length > 0 && strategy.mode !== 'listener') {
+      const listenerBatch = await this.getSitemapListenerBatch(
+        siteConfig,
+        snapshotEntries,
+        Math.min(maxUrls, strategy.recheckUrlsPerTick)
+      );
       batchUrls = listenerBatch.batchUrls;
-      totalUrls = listenerBatch.total;
-      completed = listenerBatch.completed;
-      hasMore = listenerBatch.hasMore;
-      nextOffset = listenerBatch.nextCursor;
+      listenerCursor = listenerBatch.cursor;
+      fullScan = listenerBatch.fullScan;
     }
 
     if (batchUrls.length === 0) {
       return this.buildNoopResult(startTime);
     }
 
-    const results = await this.fetchUrlsWithConcurrency(
-      batchUrls,
-      siteConfig.fetchOptions,
-      siteConfig.changeThreshold?.ignorePatterns
-    );
+    // Pending URLs are new or changed, so only the rolling re-check may skip by <lastmod>.
+    const outcome = await this.processUrlsWithinBudget(siteConfig, batchUrls, !processingPending && !fullScan);
+    const processedInBatch = outcome.processed;
 
-    const successfulResults = results.filter(r => r.success);
-    const failedResults = results.filter(r => !r.success);
+    let totalUrls: number;
+    let completed: number;
+    let hasMore: boolean;
+    let nextOffset: number | null;
 
-    const preparedWrites = await this.prepareBackupWrites(
-      siteConfig.id,
-      successfulResults,
-      siteConfig.changeThreshold?.ignorePatterns,
-      siteConfig.changeThreshold?.minChangeSize
-    );
-    const changedUrls = preparedWrites.filter((entry) => entry.changed).map((entry) => entry.result.url);
-    const storeStats = await this.storeBackups(siteConfig.id, preparedWrites);
+    if (processingPending) {
+      const pendingAfter = pending.slice(processedInBatch);
+      await this.saveSitemapPending(siteId, pendingAfter);
+
+      totalUrls = pending.length;
+      completed = processedInBatch;
+      hasMore = pendingAfter.length > 0;
+      nextOffset = hasMore ? processedInBatch : null;
+    } else {
+      const advanced = await this.advanceSitemapListenerCursor(
+        siteId,
+        listenerCursor,
+        processedInBatch,
+        snapshotEntries.length,
+        fullScan
+      );
+      totalUrls = snapshotEntries.length;
+      completed = advanced.completed;
+      hasMore = advanced.hasMore;
+      nextOffset = advanced.nextCursor;
+    }
 
     // Retention cleanup (only when we actually write backups)
-    if (successfulResults.length > 0) {
-      await this.cleanupOldBackups(siteConfig.id, siteConfig.retentionDays);
+    if (outcome.successfulBackups > 0) {
+      await this.cleanupOldBackups(siteConfig);
     }
 
     const executionTime = Date.now() - startTime;
-    const errors = [
-      ...failedResults.map(r => r.error || 'Unknown error'),
-      ...storeStats.errors
-    ];
-
-    const processedInBatch = batchUrls.length;
     const percentComplete = totalUrls > 0 ? Math.round((completed / totalUrls) * 100) : 100;
 
     return {
       totalUrls,
       processedInBatch,
-      successfulBackups: successfulResults.length,
-      failedBackups: failedResults.length,
-      storedBackups: storeStats.storedBackups,
-      failedStores: storeStats.failedStores,
-      changedUrls,
+      successfulBackups: outcome.successfulBackups,
+      failedBackups: outcome.failedBackups,
+      storedBackups: outcome.storedBackups,
+      failedStores: outcome.failedStores,
+      notModifiedBackups: outcome.notModifiedBackups,
+      robotsSkippedUrls: this.robotsSkippedUrls,
+      lastmodSkippedBackups: outcome.lastmodSkippedBackups,
+      changedUrls: outcome.changedUrls,
+      ...(this.sitemapDelta && { sitemapDelta: this.sitemapDelta }),
+      ...(this.assetStats && { assetCapture: this.assetStats }),
       executionTime,
-      errors,
-      results,
+      errors: outcome.errors,
+      results: outcome.results,
       batchOffset: 0,
-      batchSize,
+      batchSize: processedInBatch,
       hasMore,
       nextOffset,
       progress: {
         completed,
         total: totalUrls,
         percentComplete
+      },
+      budget: (this.budget ?? new ExecutionBudget({}, startTime)).getUsage()
+    };
+  }
+
+  /**
+   * Back up a site by crawling it: fetch the front of the frontier within the budget, queue
+   * the same-origin links found on those pages, and persist the frontier for the next tick.
+   * When the frontier empties, the fetched pages become the site's crawl snapshot.
+   */
+  private async performCrawlBackup(
+    siteConfig: SiteConfig,
+    maxUrls: number,
+    startTime: number,
+    continueFromLast: boolean
+  ): Promise<BatchedBackupResult> {
+    const siteId = siteConfig.id;
+    const limits = this.getCrawlLimits(siteConfig);
+    const isAllowed = await this.getCrawlLinkFilter(siteConfig);
+    const savedState = await this.loadCrawlState(siteId);
+
+    let frontier: CrawlFrontier;
+    if (savedState) {
+      frontier = CrawlFrontier.resume(siteConfig.baseUrl, limits, savedState);
+    } else {
+      // Like explicit URL lists, a completed crawl is not repeated the same day.
+      const lastScan = await this.getFullScanState(siteId);
+      if (continueFromLast && lastScan?.date === new Date().toISOString().split('T')[0]) {
+        return this.buildNoopResult(startTime);
+      }
+
+      frontier = CrawlFrontier.start(siteConfig.baseUrl, limits);
+      if (!isAllowed(frontier.queue[0].url)) {
+        frontier.take(1);
+      }
+      await this.cleanupOldBackups(siteConfig);
+    }
+
+    const completedBefore = frontier.discoveredCount - frontier.queue.length;
+    const budget = this.budget ?? new ExecutionBudget();
+    const startSubrequests = budget.getSubrequestsUsed();
+    const startElapsedMs = budget.getElapsedMs();
+    const outcome: UrlBatchOutcome = {
+      processed: 0,
+      results: [],
+      changedUrls: [],
+      successfulBackups: 0,
+      failedBackups: 0,
+      storedBackups: 0,
+      failedStores: 0,
+      notModifiedBackups: 0,
+      lastmodSkippedBackups: 0,
+      errors: []
+    };
+
+    // Links found on this tick's pages join the frontier straight away, so a tick keeps
+    // crawling deeper for as long as the budget allows.
+    while (!frontier.isComplete && outcome.processed < maxUrls) {
+      if (outcome.processed > 0) {
+        const subrequestsPerUrl = (budget.getSubrequestsUsed() - startSubrequests) / outcome.processed;
+        const msPerUrl = (budget.getElapsedMs() - startElapsedMs) / outcome.processed;
+        if (!budget.canAfford(subrequestsPerUrl, msPerUrl)) {
+          budget.markStopped();
+          break;
+        }
+      }
+
+      const batch = frontier.queue.slice(0, maxUrls - outcome.processed);
+      console.log(`Crawling ${siteConfig.name} - up to ${batch.length} of ${frontier.queue.length} queued URLs`);
+      const round = await this.processUrlsWithinBudget(siteConfig, batch.map((entry) => ({ loc: entry.url })));
+      const resultsByUrl = new Map(round.results.map((result) => [result.url, result]));
+
+      for (const entry of batch.slice(0, round.processed)) {
+        const result = resultsByUrl.get(entry.url);
+        if (!result?.success) {
+          continue;
+        }
+
+        frontier.recordPage(entry.url);
+        const html = await this.getCrawledPageHtml(siteId, result);
+        if (html !== null) {
+          frontier.addLinks(extractLinks(html, result.metadata?.finalUrl ?? entry.url), entry.depth, isAllowed);
+        }
+      }
+      frontier.take(round.processed);
+
+      outcome.processed += round.processed;
+      outcome.results.push(...round.results);
+      outcome.changedUrls.push(...round.changedUrls);
+      outcome.successfulBackups += round.successfulBackups;
+      outcome.failedBackups += round.failedBackups;
+      outcome.storedBackups += round.storedBackups;
+      outcome.failedStores += round.failedStores;
+      outcome.notModifiedBackups += round.notModifiedBackups;
+      outcome.errors.push(...round.errors);
+
+      if (round.processed < batch.length) {
+        break;
+      }
+    }
+
+    const state = frontier.toState();
+    if (frontier.isComplete) {
+      await this.saveCrawlSnapshot(siteId, state.pages);
+      await this.clearCrawlState(siteId);
+      await this.completeScanCycle(siteId, state.pages.length, true);
+    } else {
+      await this.saveCrawlState(siteId, state);
+    }
+
+    const totalUrls = frontier.discoveredCount;
+    const completed = totalUrls - frontier.queue.length;
+    const hasMore = !frontier.isComplete;
+    console.log(
+      `Crawl batch completed for ${siteConfig.name}: ${outcome.processed} fetched, ${totalUrls} discovered, ` +
+      `${frontier.queue.length} queued`
+    );
+
+    return {
+      totalUrls,
+      processedInBatch: outcome.processed,
+      successfulBackups: outcome.successfulBackups,
+      failedBackups: outcome.failedBackups,
+      storedBackups: outcome.storedBackups,
+      failedStores: outcome.failedStores,
+      notModifiedBackups: outcome.notModifiedBackups,
+      robotsSkippedUrls: this.robotsSkippedUrls,
+      lastmodSkippedBackups: 0,
+      changedUrls: outcome.changedUrls,
+      ...(this.assetStats && { assetCapture: this.assetStats }),
+      executionTime: Date.now() - startTime,
+      errors: outcome.errors,
+      results: outcome.results,
+      batchOffset: completedBefore,
+      batchSize: outcome.processed,
+      hasMore,
+      nextOffset: hasMore ? completed : null,
+      progress: {
+        completed,
+        total: totalUrls,
+        percentComplete: totalUrls > 0 ? Math.round((completed / totalUrls) * 100) : 100
+      },
+      budget: budget.getUsage()
+    };
+  }
+
+  private getCrawlLimits(siteConfig: SiteConfig): CrawlLimits {
+    return {
+      maxDepth: siteConfig.crawl?.maxDepth ?? DEFAULT_CRAWL_LIMITS.maxDepth,
+      maxPages: siteConfig.crawl?.maxPages ?? DEFAULT_CRAWL_LIMITS.maxPages
+    };
+  }
+
+  /** Exclude patterns and robots.txt, applied to each link before it is queued. */
+  private async getCrawlLinkFilter(siteConfig: SiteConfig): Promise<LinkFilter> {
+    const excludeRegexes = this.getExcludeRegexes(siteConfig);
+    const policy = siteConfig.respectRobots !== false
+      ? await this.getRobotsPolicy(siteConfig, siteConfig.baseUrl)
+      : null;
+
+    return (url) => {
+      if (excludeRegexes.some((regex) => regex.test(url))) {
+        return false;
       }
+      if (policy && !policy.isAllowed(url)) {
+        this.robotsSkippedUrls.push(url);
+        return false;
+      }
+      return true;
+    };
+  }
+
+  /** HTML of a page just backed up; a 304 means the stored copy is read back instead. */
+  private async getCrawledPageHtml(siteId: string, result: BackupResult): Promise<string | null> {
+    if (result.content !== undefined) {
+      return /html/i.test(result.metadata?.contentType ?? '') ? result.content : null;
+    }
+
+    if (!result.notModified) {
+      return null;
+    }
+
+    const urlHash = await this.getUrlHash(result.url);
+    const latestRaw = await this.kv.get(`latest:${siteId}:${urlHash}`);
+    let contentType: string | undefined;
+    try {
+      contentType = latestRaw ? (JSON.parse(latestRaw) as Partial<BackupMetadata>).contentType : undefined;
+    } catch {
+      return null;
+    }
+    if (!/html/i.test(contentType ?? '')) {
+      return null;
+    }
+
+    return await this.loadPreviousContent(siteId, urlHash, latestRaw);
+  }
+
+  private async loadCrawlState(siteId: string): Promise<CrawlState | null> {
+    const raw = await this.kv.get(`crawl_state:${siteId}`);
+    if (!raw) return null;
+    try {
+      const state = JSON.parse(raw) as CrawlState;
+      return Array.isArray(state.queue) && Array.isArray(state.seen) && Array.isArray(state.pages) ? state : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveCrawlState(siteId: string, state: CrawlState): Promise<void> {
+    await this.kv.put(`crawl_state:${siteId}`, JSON.stringify(state), { expirationTtl: BackupFetcher.CRAWL_STATE_TTL });
+  }
+
+  private async clearCrawlState(siteId: string): Promise<void> {
+    await this.kv.delete(`crawl_state:${siteId}`);
+  }
+
+  /** Store the pages of a finished crawl, with what changed since the previous crawl. */
+  private async saveCrawlSnapshot(siteId: string, pages: string[]): Promise<void> {
+    const canonicalEntries = this.buildCanonicalUrlList(pages.map((loc) => ({ loc })));
+    const previous = await this.loadUrlSnapshot('crawl_snapshot', siteId);
+    let diff: UrlSnapshotDiff | undefined;
+
+    if (previous) {
+      const previousUrls = new Set(previous.urls);
+      const currentUrls = new Set(canonicalEntries.map((entry) => entry.loc));
+      const added = canonicalEntries.map((entry) => entry.loc).filter((url) => !previousUrls.has(url));
+      const removed = previous.urls.filter((url) => !currentUrls.has(url));
+      diff = {
+        added: added.slice(0, BackupFetcher.MAX_CRAWL_DIFF_URLS),
+        removed: removed.slice(0, BackupFetcher.MAX_CRAWL_DIFF_URLS),
+        addedCount: added.length,
+        removedCount: removed.length
+      };
+    }
+
+    await this.saveUrlSnapshot('crawl_snapshot', siteId, canonicalEntries, BackupFetcher.CRAWL_SNAPSHOT_TTL, diff);
+  }
+
+  /** Frontier of the crawl in progress and the URL set of the last completed crawl. */
+  async getCrawlStatus(siteId: string): Promise<CrawlStatus> {
+    const [state, snapshot] = await Promise.all([
+      this.loadCrawlState(siteId),
+      this.loadUrlSnapshot('crawl_snapshot', siteId)
+    ]);
+
+    return {
+      inProgress: state
+        ? {
+            startedAt: state.startedAt,
+            updatedAt: state.updatedAt,
+            discovered: state.seen.length,
+            fetched: state.pages.length,
+            queued: state.queue.length
+          }
+        : null,
+      snapshot: snapshot
+        ? {
+            updatedAt: snapshot.updatedAt,
+            totalUrls: snapshot.totalUrls,
+            urls: snapshot.urls,
+            ...(snapshot.diff && { diff: snapshot.diff })
+          }
+        : null
     };
   }
 
-  private async loadUrlsCache(siteId: string, date: string): Promise<string[] | null> {
+  private async loadUrlsCache(siteId: string, date: string): Promise<UrlEntry[] | null> {
     const metaKey = `urls_cache:${siteId}:${date}`;
     const metaRaw = await this.kv.get(metaKey);
     if (!metaRaw) return null;
@@ -680,11 +1532,11 @@ export class BackupFetcher {
       const meta = JSON.parse(metaRaw) as { chunkCount: number; totalUrls: number };
       const { chunkCount } = meta;
       if (chunkCount <= 0) return [];
-      const chunks: string[][] = [];
+      const chunks: UrlEntry[][] = [];
       for (let i = 0; i < chunkCount; i++) {
         const chunkRaw = await this.kv.get(`urls_cache:${siteId}:${date}:chunk:${i}`);
         if (!chunkRaw) return null;
-        chunks.push(JSON.parse(chunkRaw) as string[]);
+        chunks.push(this.decodeUrlEntries(JSON.parse(chunkRaw) as Array<string | UrlEntry>));
       }
       return chunks.flat();
     } catch {
@@ -692,7 +1544,7 @@ export class BackupFetcher {
     }
   }
 
-  private async saveUrlsCache(siteId: string, date: string, urls: string[]): Promise<void> {
+  private async saveUrlsCache(siteId: string, date: string, urls: UrlEntry[]): Promise<void> {
     const chunkSize = BackupFetcher.URL_CACHE_CHUNK_SIZE;
     const ttl = BackupFetcher.URL_CACHE_TTL;
     const chunkCount = Math.ceil(urls.length / chunkSize);
@@ -703,7 +1555,7 @@ export class BackupFetcher {
       { expirationTtl: ttl }
     );
     for (let i = 0; i < chunkCount; i++) {
-      const chunk = urls.slice(i * chunkSize, (i + 1) * chunkSize);
+      const chunk = this.encodeUrlEntries(urls.slice(i * chunkSize, (i + 1) * chunkSize));
       await this.kv.put(`urls_cache:${siteId}:${date}:chunk:${i}`, JSON.stringify(chunk), { expirationTtl: ttl });
     }
     await this.pruneChunkedKeys(`urls_cache:${siteId}:${date}:chunk:`, chunkCount);
@@ -725,7 +1577,7 @@ export class BackupFetcher {
     } while (cursor);
   }
 
-  /** Clear batch progress, URL cache, and full-scan state for a site. Use to unstick a site. */
+  /** Clear batch progress, URL cache, full-scan and crawl state for a site. Use to unstick a site. */
   async resetSiteProgress(siteId: string): Promise<void> {
     await this.clearBatchProgress(siteId);
     await this.clearUrlsCache(siteId);
@@ -742,6 +1594,11 @@ export class BackupFetcher {
     } catch {
       // ignore
     }
+    try {
+      await this.clearCrawlState(siteId);
+    } catch {
+      // ignore
+    }
   }
 
   async getBatchProgress(siteId: string): Promise<{
@@ -749,7 +1606,7 @@ export class BackupFetcher {
     totalUrls: number;
     lastRunTime: string;
     hasMore: boolean;
-    mode?: 'batched' | 'listener';
+    mode?: 'batched' | 'listener' | 'crawl';
     pendingNewUrls?: number;
     monitoringPoolSize?: number;
     completed?: number;
@@ -768,10 +1625,24 @@ export class BackupFetcher {
       };
     }
 
+    const crawlState = await this.loadCrawlState(siteId);
+    if (crawlState) {
+      const completed = crawlState.seen.length - crawlState.queue.length;
+      return {
+        nextOffset: completed,
+        totalUrls: crawlState.seen.length,
+        lastRunTime: crawlState.updatedAt,
+        hasMore: crawlState.queue.length > 0,
+        mode: 'crawl',
+        completed,
+        percentComplete: crawlState.seen.length > 0 ? Math.round((completed / crawlState.seen.length) * 100) : 100
+      };
+    }
+
     const listenerEnabled = await this.isSitemapListenerEnabled(siteId);
     if (!listenerEnabled) return null;
 
-    const [pending, snapshotState, cursorRaw] = await Promise.all([
+    const [pending, snapshotState, { cursor: cursorRaw }] = await Promise.all([
       this.loadSitemapPending(siteId),
       this.loadSitemapSnapshotState(siteId),
       this.loadSitemapListenerCursor(siteId)
@@ -794,18 +1665,54 @@ export class BackupFetcher {
     };
   }
 
-  private async getUrlsToBackup(siteConfig: SiteConfig): Promise<string[]> {
-    let urls: string[];
+  private async getUrlsToBackup(siteConfig: SiteConfig): Promise<UrlEntry[]> {
+    let urls: UrlEntry[];
     
     if (siteConfig.urls && siteConfig.urls.length > 0) {
-      urls = siteConfig.urls;
+      urls = siteConfig.urls.map((loc) => ({ loc }));
     } else if (siteConfig.sitemapUrl) {
-      urls = await this.parseSitemap(siteConfig.id, siteConfig.sitemapUrl);
+      urls = await this.parseSitemap(siteConfig, siteConfig.sitemapUrl);
+      for (const sitemapUrl of this.discoveredSitemapUrls) {
+        urls = urls.concat(await this.parseSitemap(siteConfig, sitemapUrl));
+      }
+      urls = this.dedupeUrlEntries(urls);
     } else {
-      urls = [siteConfig.baseUrl];
+      urls = [{ loc: siteConfig.baseUrl }];
+    }
+
+    const excludeRegexes = this.getExcludeRegexes(siteConfig);
+    if (excludeRegexes.length > 0) {
+      const beforeCount = urls.length;
+      urls = urls.filter(entry => !excludeRegexes.some(regex => regex.test(entry.loc)));
+      const excludedCount = beforeCount - urls.length;
+      
+      if (excludedCount > 0) {
+        console.log(`Excluded ${excludedCount} URLs matching i18n/exclude patterns`);
+      }
+    }
+
+    if (siteConfig.respectRobots !== false) {
+      const allowed: UrlEntry[] = [];
+      for (const entry of urls) {
+        const policy = await this.getRobotsPolicy(siteConfig, entry.loc);
+        if (policy.isAllowed(entry.loc)) {
+          allowed.push(entry);
+        } else {
+          this.robotsSkippedUrls.push(entry.loc);
+        }
+      }
+
+      if (allowed.length < urls.length) {
+        console.log(`Skipped ${urls.length - allowed.length} URLs disallowed by robots.txt`);
+      }
+      urls = allowed;
     }
 
-    // Apply exclusion patterns (default: exclude common i18n paths)
+    return urls;
+  }
+
+  private getExcludeRegexes(siteConfig: SiteConfig): RegExp[] {
+    // Default: exclude common i18n paths
     const excludePatterns = siteConfig.excludePatterns ?? [
       '^.*/fr/.*$',   // French
       '^.*/en/.*$',   // English (if site has explicit /en/ paths)
@@ -820,26 +1727,26 @@ export class BackupFetcher {
       '^.*/ru/.*$',   // Russian
     ];
 
-    if (excludePatterns.length > 0) {
-      const excludeRegexes = excludePatterns.map(pattern => {
-        try {
-          return new RegExp(pattern, 'i');
-        } catch (e) {
-          console.error(`Invalid exclude pattern: ${pattern}`);
-          return null;
-        }
-      }).filter(Boolean) as RegExp[];
+    return excludePatterns.map(pattern => {
+      try {
+        return new RegExp(pattern, 'i');
+      } catch (e) {
+        console.error(`Invalid exclude pattern: ${pattern}`);
+        return null;
+      }
+    }).filter(Boolean) as RegExp[];
+  }
 
-      const beforeCount = urls.length;
-      urls = urls.filter(url => !excludeRegexes.some(regex => regex.test(url)));
-      const excludedCount = beforeCount - urls.length;
-      
-      if (excludedCount > 0) {
-        console.log(`Excluded ${excludedCount} URLs matching i18n/exclude patterns`);
+  /** Drop repeated locations, keeping the newest `lastmod` seen for each. */
+  private dedupeUrlEntries(entries: UrlEntry[]): UrlEntry[] {
+    const byLoc = new Map<string, UrlEntry>();
+    for (const entry of entries) {
+      const existing = byLoc.get(entry.loc);
+      if (!existing || (entry.lastmod && (!existing.lastmod || Date.parse(entry.lastmod) > Date.parse(existing.lastmod)))) {
+        byLoc.set(entry.loc, existing ? { ...existing, ...entry } : entry);
       }
     }
-
-    return urls;
+    return Array.from(byLoc.values());
   }
 
   /** Canonicalize sitemap URL for cycle detection (normalize and strip fragment). */
@@ -880,22 +1787,12 @@ export class BackupFetcher {
   }
 
   private async extractSitemapLocs(xmlText: string): Promise<string[]> {
-    const result = this.parseSitemapDocument(xmlText);
+    const result = parseSitemapContent(xmlText);
     if (!result) return [];
 
-    if (result.urlset?.url) {
-      return this.toSitemapArray(result.urlset.url)
-        .map((item) => item.loc)
-        .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0);
-    }
-
-    if (result.sitemapindex?.sitemap) {
-      return this.toSitemapArray(result.sitemapindex.sitemap)
-        .map((item) => item.loc)
-        .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0);
-    }
-
-    return [];
+    return result.format === 'sitemapindex'
+      ? result.sitemaps
+      : result.entries.map((entry) => entry.loc);
   }
 
   private async calculateSitemapSemanticHash(xmlText: string): Promise<{ semanticHash?: string; locCount: number }> {
@@ -914,11 +1811,11 @@ export class BackupFetcher {
   }
 
   private async parseSitemap(
-    siteId: string,
+    siteConfig: SiteConfig,
     sitemapUrl: string,
     visited: Set<string> = new Set(),
     depth: number = 0
-  ): Promise<string[]> {
+  ): Promise<UrlEntry[]> {
     const canonical = this.canonicalizeSitemapUrl(sitemapUrl);
     if (visited.has(canonical)) {
       console.warn(`Sitemap cycle detected, skipping: ${sitemapUrl}`);
@@ -936,63 +1833,53 @@ export class BackupFetcher {
 
     try {
       const parseStart = Date.now();
-      const response = await fetch(sitemapUrl, {
-        signal: AbortSignal.timeout(10000)
-      });
+      const response = await this.fetchSitemap(siteConfig, sitemapUrl);
 
       if (!response.ok) {
         throw new Error(`Sitemap fetch failed: ${response.status}`);
       }
 
-      const xmlText = await response.text();
+      const xmlText = await readSitemapBody(response);
       // Persist sitemap state for change detection (only for root sitemap).
       if (depth === 0) {
-        await this.recordSitemapState(siteId, response, xmlText);
+        await this.recordSitemapState(siteConfig.id, response, xmlText);
       }
-      const result = this.parseSitemapDocument(xmlText);
+      const result = parseSitemapContent(xmlText);
       if (!result) {
+        console.warn(`Unrecognized sitemap format at ${sitemapUrl}`);
         return [];
       }
 
-      if (result.urlset?.url) {
-        const locs = this.toSitemapArray(result.urlset.url)
-          .map((item) => item.loc)
-          .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0);
+      if (result.format !== 'sitemapindex') {
         if (depth === 0) {
-          console.log(`Sitemap parsed in ${Date.now() - parseStart}ms: ${locs.length} URLs from ${sitemapUrl}`);
+          console.log(`Sitemap (${result.format}) parsed in ${Date.now() - parseStart}ms: ${result.entries.length} URLs from ${sitemapUrl}`);
         }
-        return locs;
+        return result.entries;
       }
 
-      if (result.sitemapindex?.sitemap) {
-        const sitemaps = this.toSitemapArray(result.sitemapindex.sitemap);
-        const allUrls: string[] = [];
+      const allUrls: UrlEntry[] = [];
 
-        for (const sitemap of sitemaps) {
-          const loc = sitemap.loc;
-          if (!loc) continue;
-          try {
-            const subUrls = await this.parseSitemap(siteId, loc, visited, depth + 1);
-            allUrls.push(...subUrls);
-          } catch (error) {
-            console.error(`Failed to parse sub-sitemap ${loc}:`, error);
-          }
-        }
-
-        if (depth === 0) {
-          console.log(`Sitemap index parsed in ${Date.now() - parseStart}ms: ${allUrls.length} URLs from ${visited.size} sitemaps`);
+      for (const loc of result.sitemaps) {
+        try {
+          const subUrls = await this.parseSitemap(siteConfig, loc, visited, depth + 1);
+          allUrls.push(...subUrls);
+        } catch (error) {
+          console.error(`Failed to parse sub-sitemap ${loc}:`, error);
         }
-        return allUrls;
       }
 
-      return [];
+      if (depth === 0) {
+        console.log(`Sitemap index parsed in ${Date.now() - parseStart}ms: ${allUrls.length} URLs from ${visited.size} sitemaps`);
+      }
+      return allUrls;
     } catch (error) {
       console.error(`Failed to parse sitemap ${sitemapUrl}:`, error);
       return [];
     }
   }
 
-  private async hasSitemapChanged(siteId: string, sitemapUrl: string): Promise<boolean> {
+  private async hasSitemapChanged(siteConfig: SiteConfig, sitemapUrl: string): Promise<boolean> {
+    const siteId = siteConfig.id;
     try {
       const stateKey = `sitemap_state:${siteId}`;
       const existingRaw = await this.kv.get(stateKey);
@@ -1000,15 +1887,11 @@ export class BackupFetcher {
         ? JSON.parse(existingRaw) as { etag?: string; lastModified?: string; contentHash?: string; semanticHash?: string; locCount?: number }
         : {};
 
-      const headers: Record<string, string> = {};
-      if (existing.etag) headers['If-None-Match'] = existing.etag;
-      if (existing.lastModified) headers['If-Modified-Since'] = existing.lastModified;
+      const validators: Record<string, string> = {};
+      if (existing.etag) validators['If-None-Match'] = existing.etag;
+      if (existing.lastModified) validators['If-Modified-Since'] = existing.lastModified;
 
-      const response = await fetch(sitemapUrl, {
-        method: 'GET',
-        headers,
-        signal: AbortSignal.timeout(10000)
-      });
+      const response = await this.fetchSitemap(siteConfig, sitemapUrl, validators);
 
       if (response.status === 304) {
         return false;
@@ -1020,7 +1903,7 @@ export class BackupFetcher {
         return true;
       }
 
-      const xmlText = await response.text();
+      const xmlText = await readSitemapBody(response);
       const newHash = await this.calculateHash(xmlText);
       const { semanticHash: newSemanticHash } = await this.calculateSitemapSemanticHash(xmlText);
 
@@ -1051,6 +1934,43 @@ export class BackupFetcher {
     }
   }
 
+  /**
+   * Fetch a sitemap. A sitemap index or robots.txt can point anywhere, so the site's headers
+   * and credentials only go to the site's own origin, and redirects are followed by hand to
+   * keep them off hops to other origins.
+   */
+  private async fetchSitemap(
+    siteConfig: SiteConfig,
+    sitemapUrl: string,
+    validators: Record<string, string> = {}
+  ): Promise<Response> {
+    const siteOrigin = new URL(siteConfig.baseUrl).origin;
+    const siteHeaders = await this.getSiteHeaders();
+    let currentUrl = sitemapUrl;
+
+    for (let redirects = 0; ; redirects++) {
+      const sameOrigin = new URL(currentUrl).origin === siteOrigin;
+      this.recordSubrequest();
+      const response = await fetch(currentUrl, {
+        method: 'GET',
+        redirect: 'manual',
+        headers: { ...(sameOrigin ? siteHeaders : {}), ...validators },
+        signal: AbortSignal.timeout(10000)
+      });
+
+      const location = response.status !== 304 && this.isRedirectStatus(response.status)
+        ? response.headers.get('location')
+        : null;
+      if (!location) {
+        return response;
+      }
+      if (redirects >= BackupFetcher.MAX_FETCH_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${sitemapUrl}`);
+      }
+      currentUrl = new URL(location, currentUrl).href;
+    }
+  }
+
   private async recordSitemapState(siteId: string, response: Response, xmlText: string): Promise<void> {
     try {
       const etag = response.headers.get('etag') || undefined;
@@ -1071,7 +1991,7 @@ export class BackupFetcher {
     }
   }
 
-  private async getFullScanState(siteId: string): Promise<{ date: string; completedAt: string; totalUrls: number } | null> {
+  private async getFullScanState(siteId: string): Promise<FullScanState | null> {
     try {
       const raw = await this.kv.get(`full_scan:${siteId}`);
       if (!raw) return null;
@@ -1081,7 +2001,7 @@ export class BackupFetcher {
     }
   }
 
-  private async setFullScanState(siteId: string, state: { date: string; completedAt: string; totalUrls: number }): Promise<void> {
+  private async setFullScanState(siteId: string, state: FullScanState): Promise<void> {
     try {
       await this.kv.put(`full_scan:${siteId}`, JSON.stringify(state), { expirationTtl: 14 * 24 * 3600 });
     } catch {
@@ -1089,19 +2009,44 @@ export class BackupFetcher {
     }
   }
 
+  /** Record a finished pass over the site's URLs, and when it was a full scan. */
+  private async completeScanCycle(siteId: string, totalUrls: number, fullScan: boolean): Promise<void> {
+    const completedAt = new Date().toISOString();
+    const lastFullScanAt = fullScan ? completedAt : (await this.getFullScanState(siteId))?.lastFullScanAt;
+
+    await this.setFullScanState(siteId, {
+      date: completedAt.split('T')[0],
+      completedAt,
+      totalUrls,
+      ...(lastFullScanAt && { lastFullScanAt })
+    });
+  }
+
+  /** A pass ignores <lastmod> when no full scan has finished within the site's interval. */
+  private isFullScanDue(siteConfig: SiteConfig, state: FullScanState | null): boolean {
+    const lastFullScanTime = state?.lastFullScanAt ? Date.parse(state.lastFullScanAt) : Number.NaN;
+    if (!Number.isFinite(lastFullScanTime)) {
+      return true;
+    }
+
+    const intervalDays = siteConfig.fullScanIntervalDays ?? BackupFetcher.DEFAULT_FULL_SCAN_INTERVAL_DAYS;
+    return Date.now() - lastFullScanTime >= intervalDays * 86_400_000;
+  }
+
   private async fetchUrlsWithConcurrency(
     urls: string[], 
     options: SiteConfig['fetchOptions'],
-    ignorePatterns?: string[]
+    ignorePatterns?: string[],
+    latestPointers?: Map<string, LatestPointer>
   ): Promise<BackupResult[]> {
     const results: BackupResult[] = [];
-    // Limit concurrency to 5 to avoid subrequest exhaustion
-    const concurrency = Math.min(options.concurrency, 5);
+    // Limit concurrency to avoid subrequest exhaustion
+    const concurrency = Math.min(options.concurrency, BackupFetcher.MAX_FETCH_CONCURRENCY);
 
     for (let i = 0; i < urls.length; i += concurrency) {
       const batch = urls.slice(i, i + concurrency);
       const batchPromises = batch.map(url => 
-        this.fetchUrlWithRetries(url, options, ignorePatterns)
+        this.fetchUrlWithRetries(url, options, ignorePatterns, latestPointers?.get(url)?.validators)
           .catch(error => ({
             url,
             success: false,
@@ -1119,13 +2064,19 @@ export class BackupFetcher {
   private async fetchUrlWithRetries(
     url: string, 
     options: SiteConfig['fetchOptions'],
-    ignorePatterns?: string[]
+    ignorePatterns?: string[],
+    validators?: ConditionalValidators
   ): Promise<BackupResult> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= options.retries; attempt++) {
       try {
-        const fetchResult = await this.performFetch(url, options);
+        const fetchResult = await this.performFetch(url, options, validators);
+
+        if (fetchResult.status === 304) {
+          // The stored copy is still current: nothing to hash, diff or store.
+          return { url: fetchResult.url, success: true, notModified: true };
+        }
         
         const metadata: BackupMetadata = {
           url: fetchResult.url,
@@ -1136,6 +2087,7 @@ export class BackupFetcher {
           status: fetchResult.status,
           contentType: fetchResult.headers['content-type'] || 'unknown',
           etag: fetchResult.headers.etag,
+          lastModified: fetchResult.headers['last-modified'],
           size: fetchResult.content.length,
           fetchTime: fetchResult.fetchTime,
           redirectCount: fetchResult.redirectCount
@@ -1165,10 +2117,21 @@ export class BackupFetcher {
     };
   }
 
-  private async performFetch(url: string, options: SiteConfig['fetchOptions']): Promise<FetchResult> {
+  /** The site's own request headers plus any auth headers, for requests to the site's origin. */
+  private async getSiteHeaders(): Promise<Record<string, string>> {
+    return this.auth ? mergeRequestHeaders(this.requestHeaders, await this.auth.getHeaders()) : { ...this.requestHeaders };
+  }
+
+  private async performFetch(
+    url: string,
+    options: SiteConfig['fetchOptions'],
+    validators?: ConditionalValidators,
+    authRenewed: boolean = false
+  ): Promise<FetchResult> {
     const startTime = Date.now();
     let redirectCount = 0;
     let currentUrl = url;
+    let redirectedToLogin = false;
 
     const controller = new AbortController();
     let timeoutId: ReturnType<typeof setTimeout>;
@@ -1183,11 +2146,16 @@ export class BackupFetcher {
     }, options.timeout);
 
     try {
-      const requestHeaders = {
-        'User-Agent': 'MultiSiteBackup/1.0 (Cloudflare Worker)',
+      const siteHeaders = await this.getSiteHeaders();
+      const requestHeaders: Record<string, string> = {
+        'User-Agent': DEFAULT_USER_AGENT,
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        ...siteHeaders
       };
+      if (validators?.etag) requestHeaders['If-None-Match'] = validators.etag;
+      if (validators?.lastModified) requestHeaders['If-Modified-Since'] = validators.lastModified;
 
+      this.recordSubrequest();
       let response = await fetch(currentUrl, {
         method: 'GET',
         redirect: 'manual',
@@ -1195,19 +2163,32 @@ export class BackupFetcher {
         headers: requestHeaders
       });
 
-      while (this.isRedirectStatus(response.status)) {
+      while (response.status !== 304 && this.isRedirectStatus(response.status)) {
         const location = response.headers.get('location');
         if (!location) break;
         if (redirectCount >= BackupFetcher.MAX_FETCH_REDIRECTS) {
           throw new Error(`Too many redirects fetching ${url}`);
         }
 
-        currentUrl = new URL(location, currentUrl).href;
+        const nextUrl = new URL(location, currentUrl);
+        if (this.auth?.isLoginRedirect(nextUrl.href)) {
+          redirectedToLogin = true;
+          break;
+        }
+        if (nextUrl.origin !== new URL(url).origin) {
+          // Keep WAF tokens, cookies and credentials on the site's own origin.
+          for (const name of Object.keys(siteHeaders)) {
+            delete requestHeaders[name];
+          }
+          requestHeaders['User-Agent'] = DEFAULT_USER_AGENT;
+        }
+        currentUrl = nextUrl.href;
         redirectCount++;
 
         clearMyTimeout();
         timeoutId = setTimeout(() => controller.abort(), options.timeout);
 
+        this.recordSubrequest();
         response = await fetch(currentUrl, {
           method: 'GET',
           redirect: 'manual',
@@ -1216,16 +2197,24 @@ export class BackupFetcher {
         });
       }
 
+      if (this.auth && (response.status === 401 || redirectedToLogin)) {
+        clearMyTimeout();
+        if (!authRenewed && await this.auth.renew(siteHeaders)) {
+          return this.performFetch(url, options, validators, true);
+        }
+        throw new Error(`Authentication rejected for ${url} (${redirectedToLogin ? 'redirected to login' : 'HTTP 401'})`);
+      }
+
       const headers: Record<string, string> = {};
       response.headers.forEach((value, key) => {
         headers[key.toLowerCase()] = value;
       });
 
-      if (!response.ok) {
+      if (!response.ok && response.status !== 304) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const content = await response.text();
+      const content = response.status === 304 ? '' : await response.text();
       const fetchTime = Date.now() - startTime;
 
       clearMyTimeout();
@@ -1261,6 +2250,7 @@ export class BackupFetcher {
   private async prepareBackupWrites(
     siteId: string,
     results: BackupResult[],
+    latestPointers: Map<string, LatestPointer>,
     ignorePatterns?: string[],
     minChangeSize?: number
   ): Promise<PreparedBackupWrite[]> {
@@ -1269,8 +2259,9 @@ export class BackupFetcher {
     );
 
     return Promise.all(successfulResults.map(async (result) => {
-      const urlHash = await this.getUrlHash(result.url);
-      const previousLatest = await this.kv.get(`latest:${siteId}:${urlHash}`);
+      const pointer = latestPointers.get(result.url);
+      const urlHash = pointer?.urlHash ?? await this.getUrlHash(result.url);
+      const previousLatest = pointer ? pointer.raw : await this.kv.get(`latest:${siteId}:${urlHash}`);
       const previousContent = await this.loadPreviousContent(siteId, urlHash, previousLatest);
 
       return {
@@ -1299,27 +2290,48 @@ export class BackupFetcher {
     let storedBackups = 0;
     let failedStores = 0;
     const errors: string[] = [];
+    const manifest = new SnapshotManifestStore(this.kv);
+    const stored: ManifestSnapshot[] = [];
+
+    if (!this.manifestSealed && entries.length > 0) {
+      this.manifestSealed = true;
+      try {
+        await manifest.sealBefore(siteId, date, this.manifestSigningKey);
+      } catch (error) {
+        console.error(`Failed to seal the snapshot manifest for ${siteId}:`, error);
+      }
+    }
     
     for (const entry of entries) {
       const { result, urlHash, previousLatest } = entry;
-      const contentKey = `backup:${siteId}:${date}:${urlHash}`;
       const metadataKey = `meta:${siteId}:${date}:${urlHash}`;
       const latestKey = `latest:${siteId}:${urlHash}`;
       const prevLatestKey = `prev_latest:${siteId}:${urlHash}`;
       
       try {
-        const encodedContent = await encodeBackupContent(result.content);
+        // A second run on the same day overwrites that day's backup. Its payload is released,
+        // and prev_latest keeps pointing at the backup before it.
+        const replaced = this.parseSameDayBackup(previousLatest, date);
+        // The payload goes first so metadata never points at a payload that was not written
+        const payload = await this.sharedPayloads.store(
+          siteId,
+          date,
+          urlHash,
+          result.content,
+          result.metadata.hash,
+          replaced
+        );
         const metadataWithEncoding: BackupMetadata = {
           ...result.metadata,
-          contentEncoding: encodedContent.encoding
+          ...payload
         };
 
         await Promise.all([
-          this.kv.put(contentKey, encodedContent.storedContent),
           this.kv.put(metadataKey, JSON.stringify(metadataWithEncoding)),
           this.kv.put(latestKey, JSON.stringify(metadataWithEncoding)),
-          ...(previousLatest ? [this.kv.put(prevLatestKey, previousLatest)] : [])
+          ...(previousLatest && !replaced ? [this.kv.put(prevLatestKey, previousLatest)] : [])
         ]);
+        stored.push({ urlHash, contentHash: result.metadata.hash });
         storedBackups++;
       } catch (error) {
         failedStores++;
@@ -1328,9 +2340,292 @@ export class BackupFetcher {
       }
     }
 
+    try {
+      await manifest.record(siteId, date, stored);
+    } catch (error) {
+      console.error(`Failed to record backups in the snapshot manifest for ${siteId}:`, error);
+    }
+
     return { storedBackups, failedStores, errors };
   }
 
+  /**
+   * Drop the writes that would replace a same-day backup under a legal hold; held backups
+   * stay exactly as they were stored.
+   */
+  private async withoutHeldBackups(siteId: string, entries: PreparedBackupWrite[]): Promise<PreparedBackupWrite[]> {
+    const date = new Date().toISOString().split('T')[0];
+    if (!entries.some((entry) => this.parseSameDayBackup(entry.previousLatest, date))) {
+      return entries;
+    }
+
+    const holds = await new LegalHoldStore(this.kv).list(siteId);
+    return entries.filter((entry) => {
+      const hold = this.parseSameDayBackup(entry.previousLatest, date) && findLegalHold(holds, date, entry.urlHash);
+      if (hold) {
+        console.log(`Keeping ${entry.result.url} from earlier today: it is under legal hold ${hold.id}`);
+      }
+      return !hold;
+    });
+  }
+
+  private parseSameDayBackup(previousLatest: string | null, date: string): Partial<BackupMetadata> | null {
+    if (!previousLatest) {
+      return null;
+    }
+
+    try {
+      const previous = JSON.parse(previousLatest) as Partial<BackupMetadata>;
+      return previous.timestamp?.startsWith(date) ? previous : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getAssetCaptureConfig(siteConfig: SiteConfig): Required<AssetCaptureConfig> | null {
+    const config = siteConfig.assetCapture;
+    if (!config?.enabled) {
+      return null;
+    }
+
+    return {
+      enabled: true,
+      maxAssetsPerPage: config.maxAssetsPerPage ?? DEFAULT_MAX_ASSETS_PER_PAGE,
+      maxAssetBytes: config.maxAssetBytes ?? DEFAULT_MAX_ASSET_BYTES
+    };
+  }
+
+  /**
+   * Store the same-origin assets each HTML page references and record them in the page's
+   * manifest. Manifests expire a day after the longest retention tier ends; blobs are kept
+   * at least that long past their most recent reference. Cleanup pushes both back for
+   * backups a pointer keeps longer. Pages under a legal hold keep their manifest and blobs
+   * without an expiry.
+   */
+  private async captureAssets(siteConfig: SiteConfig, entries: PreparedBackupWrite[]): Promise<void> {
+    const config = this.getAssetCaptureConfig(siteConfig);
+    if (!config) {
+      return;
+    }
+
+    const stats = this.assetStats ??= { fetched: 0, stored: 0, reused: 0, failed: 0, skipped: 0 };
+    const budget = this.budget ?? new ExecutionBudget();
+    const store = new AssetStore(this.kv);
+    const date = new Date().toISOString().split('T')[0];
+    const manifestTtl = (getRetentionHorizonDays(siteConfig) + 1) * 86400;
+    const holds = await new LegalHoldStore(this.kv).list(siteConfig.id);
+    const pinner = new HeldAssetPinner(this.kv);
+
+    for (const { result, urlHash } of entries) {
+      if (!/html/i.test(result.metadata.contentType)) {
+        continue;
+      }
+
+      const pageUrl = result.metadata.finalUrl ?? result.url;
+      const origin = new URL(pageUrl).origin;
+      const assetUrls = extractAssetUrls(result.content, pageUrl)
+        .filter((url) => new URL(url).origin === origin)
+        .slice(0, config.maxAssetsPerPage);
+      const manifest: AssetManifest = { capturedAt: new Date().toISOString(), assets: {} };
+
+      for (const [index, assetUrl] of assetUrls.entries()) {
+        if (!this.capturedAssets.has(assetUrl) && !budget.canAfford(
+          BackupFetcher.ASSET_SUBREQUEST_ESTIMATE,
+          BackupFetcher.ASSET_WALL_CLOCK_ESTIMATE_MS
+        )) {
+          // The page itself is already stored; its remaining assets wait for a later backup.
+          stats.skipped += assetUrls.length - index;
+          break;
+        }
+
+        const asset = await this.captureAsset(siteConfig, config, store, assetUrl, manifestTtl, stats);
+        if (asset) {
+          manifest.assets[assetUrl] = asset;
+        }
+      }
+
+      if (Object.keys(manifest.assets).length > 0) {
+        const held = findLegalHold(holds, date, urlHash);
+        await store.putManifest(siteConfig.id, date, urlHash, manifest, held ? null : manifestTtl);
+        if (held) {
+          await pinner.pinBlobs(siteConfig.id, Object.values(manifest.assets).map((asset) => asset.hash));
+        }
+      }
+    }
+  }
+
+  private async captureAsset(
+    siteConfig: SiteConfig,
+    config: Required<AssetCaptureConfig>,
+    store: AssetStore,
+    assetUrl: string,
+    manifestTtl: number,
+    stats: AssetCaptureStats
+  ): Promise<CapturedAsset | null> {
+    const memo = this.capturedAssets.get(assetUrl);
+    if (memo !== undefined) {
+      if (memo) stats.reused++;
+      return memo;
+    }
+
+    const outcome = await this.captureAssetOnce(siteConfig, config, store, assetUrl, manifestTtl, stats);
+    this.capturedAssets.set(assetUrl, outcome);
+    return outcome;
+  }
+
+  private async captureAssetOnce(
+    siteConfig: SiteConfig,
+    config: Required<AssetCaptureConfig>,
+    store: AssetStore,
+    assetUrl: string,
+    manifestTtl: number,
+    stats: AssetCaptureStats
+  ): Promise<CapturedAsset | null> {
+    if (siteConfig.respectRobots !== false && !(await this.getRobotsPolicy(siteConfig, assetUrl)).isAllowed(assetUrl)) {
+      stats.skipped++;
+      return null;
+    }
+
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+    // A manifest written now must not outlive the blob it points at
+    const requiredExpiry = now.getTime() + manifestTtl * 1000;
+    const ref = await store.getRef(siteConfig.id, assetUrl);
+
+    if (ref && ref.fetchedAt.startsWith(today) && Date.parse(ref.blobExpiresAt) >= requiredExpiry) {
+      stats.reused++;
+      return { hash: ref.hash, contentType: ref.contentType, size: ref.size };
+    }
+
+    try {
+      let fetched = await this.fetchAsset(assetUrl, siteConfig.fetchOptions, config.maxAssetBytes, ref ?? undefined);
+      if (!fetched) {
+        stats.skipped++;
+        return null;
+      }
+      stats.fetched++;
+
+      let body = fetched.body;
+      let hash = body ? await hashAssetBytes(body) : ref?.hash;
+      const blobExpired = !ref || hash !== ref.hash || Date.parse(ref.blobExpiresAt) < requiredExpiry;
+
+      if (!body && ref && blobExpired) {
+        // 304 for a blob that needs re-storing: use the stored bytes, or download them again
+        body = (await store.getBlob(siteConfig.id, ref.hash))?.body ?? null;
+        if (!body) {
+          fetched = await this.fetchAsset(assetUrl, siteConfig.fetchOptions, config.maxAssetBytes);
+          body = fetched?.body ?? null;
+          hash = body ? await hashAssetBytes(body) : undefined;
+        }
+      }
+      if (!hash || !fetched) {
+        stats.skipped++;
+        return null;
+      }
+
+      const contentType = fetched.contentType ?? ref?.contentType ?? 'application/octet-stream';
+      const size = body?.length ?? ref?.size ?? 0;
+      const blobTtl = manifestTtl * 2;
+      let blobExpiresAt = ref?.blobExpiresAt ?? now.toISOString();
+
+      if (blobExpired && body) {
+        // A blob pinned for a legal hold stays pinned
+        const pinned = await store.isBlobPinned(siteConfig.id, hash);
+        await store.putBlob(siteConfig.id, hash, { contentType, body }, pinned ? null : blobTtl);
+        blobExpiresAt = new Date(now.getTime() + blobTtl * 1000).toISOString();
+        stats.stored++;
+      }
+
+      const nextRef: AssetRef = {
+        hash,
+        contentType,
+        size,
+        fetchedAt: now.toISOString(),
+        blobExpiresAt,
+        ...(fetched.etag && { etag: fetched.etag }),
+        ...(fetched.lastModified && { lastModified: fetched.lastModified })
+      };
+      const refTtl = Math.max(60, Math.floor((Date.parse(blobExpiresAt) - now.getTime()) / 1000));
+      await store.putRef(siteConfig.id, assetUrl, nextRef, refTtl);
+
+      return { hash, contentType, size };
+    } catch (error) {
+      stats.failed++;
+      console.error(`Failed to capture asset ${assetUrl}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Download an asset with the site's headers. Redirects are followed within the asset's
+   * origin only. Returns null when the asset is larger than `maxBytes`; `body` is null on a 304.
+   */
+  private async fetchAsset(
+    url: string,
+    options: SiteConfig['fetchOptions'],
+    maxBytes: number,
+    validators?: ConditionalValidators
+  ): Promise<{ body: Uint8Array | null; contentType?: string; etag?: string; lastModified?: string } | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+
+    try {
+      const requestHeaders: Record<string, string> = {
+        'User-Agent': DEFAULT_USER_AGENT,
+        'Accept': '*/*',
+        ...await this.getSiteHeaders()
+      };
+      if (validators?.etag) requestHeaders['If-None-Match'] = validators.etag;
+      if (validators?.lastModified) requestHeaders['If-Modified-Since'] = validators.lastModified;
+
+      let currentUrl = url;
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        this.recordSubrequest();
+        response = await fetch(currentUrl, {
+          method: 'GET',
+          redirect: 'manual',
+          signal: controller.signal,
+          headers: requestHeaders
+        });
+
+        const location = response.status !== 304 && this.isRedirectStatus(response.status)
+          ? response.headers.get('location')
+          : null;
+        if (!location) break;
+
+        const nextUrl = new URL(location, currentUrl);
+        if (nextUrl.origin !== new URL(url).origin || redirects >= BackupFetcher.MAX_FETCH_REDIRECTS) {
+          throw new Error(`Asset redirected to ${nextUrl.href}`);
+        }
+        currentUrl = nextUrl.href;
+      }
+
+      if (!response.ok && response.status !== 304) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const declaredLength = Number.parseInt(response.headers.get('content-length') ?? '', 10);
+      if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+        return null;
+      }
+
+      const body = response.status === 304 ? null : new Uint8Array(await response.arrayBuffer());
+      if (body && body.length > maxBytes) {
+        return null;
+      }
+
+      return {
+        body,
+        contentType: response.headers.get('content-type') ?? undefined,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   private isSuccessfulBackupResult(result: BackupResult): result is SuccessfulBackupResult {
     return result.success === true && typeof result.content === 'string' && result.metadata !== undefined;
   }
@@ -1352,7 +2647,7 @@ export class BackupFetcher {
         return null;
       }
 
-      return await readBackupContent(this.kv, siteId, previousDate, urlHash, previous);
+      return await readBackupContent(this.payloads, siteId, previousDate, urlHash, previous);
     } catch (error) {
       console.error(`Failed to load previous content for ${siteId}:${urlHash}:`, error);
       return null;
@@ -1398,22 +2693,6 @@ export class BackupFetcher {
     }
   }
 
-  private parseSitemapDocument(xmlText: string): SitemapDocument | null {
-    try {
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_'
-      });
-      return parser.parse(xmlText) as SitemapDocument;
-    } catch {
-      return null;
-    }
-  }
-
-  private toSitemapArray(value: SitemapLocNode | SitemapLocNode[]): SitemapLocNode[] {
-    return Array.isArray(value) ? value : [value];
-  }
-
   private async pruneChunkedKeys(prefix: string, keepCount: number): Promise<void> {
     let cursor: string | undefined;
 
@@ -1437,49 +2716,87 @@ export class BackupFetcher {
     } while (cursor);
   }
 
-  private async cleanupOldBackups(siteId: string, retentionDays: number): Promise<void> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-    const cutoffString = cutoffDate.toISOString().split('T')[0];
+  /**
+   * Prune what retention no longer keeps, URL by URL, while the run's budget allows. Backups
+   * left when it runs low are pruned by the next run's cleanup.
+   */
+  private async cleanupOldBackups(siteConfig: SiteConfig): Promise<void> {
+    const siteId = siteConfig.id;
+    const fits = (subrequests: number) => !this.budget || this.budget.canAfford(subrequests, 0);
 
     try {
-      let cursor: string | undefined;
-      let deletedCount = 0;
-
-      do {
-        const list = await this.kv.list({
-          prefix: `backup:${siteId}:`,
-          limit: 1000,
-          cursor
-        }) as { keys: { name: string }[]; list_complete: boolean; cursor?: string };
-
-        const keysToDelete: string[] = [];
-
-        for (const key of list.keys) {
-          const keyParts = key.name.split(':');
-          if (keyParts.length >= 4) {
-            const date = keyParts[2];
-            if (date < cutoffString) {
-              keysToDelete.push(key.name);
-              keysToDelete.push(key.name.replace('backup:', 'meta:'));
-            }
-          }
+      if (!fits(BackupFetcher.RETENTION_POINTER_READS + BackupFetcher.RETENTION_PRUNE_SUBREQUEST_ESTIMATE)) {
+        console.log(`Skipping retention cleanup for ${siteId}: the run's budget is used up`);
+        return;
+      }
+
+      const planner = new RetentionPlanner(this.kv);
+      const { candidates } = await planner.planWithoutPointers(siteConfig);
+      const assets = this.getAssetCaptureConfig(siteConfig) ? new AssetStore(this.kv) : null;
+      const manifestTtl = (getRetentionHorizonDays(siteConfig) + 1) * 86400;
+      const refreshedBlobs = new Set<string>();
+      const candidatesByUrl = new Map<string, string[]>();
+      for (const { date, urlHash } of candidates) {
+        candidatesByUrl.set(urlHash, [...candidatesByUrl.get(urlHash) ?? [], date]);
+      }
+
+      let pruned = 0;
+      let decided = 0;
+      pruning: for (const [urlHash, dates] of candidatesByUrl) {
+        if (!fits(BackupFetcher.RETENTION_POINTER_READS + BackupFetcher.RETENTION_PRUNE_SUBREQUEST_ESTIMATE)) {
+          break;
         }
 
-        for (const key of keysToDelete) {
-          await this.kv.delete(key);
+        const pointerDates = await planner.getPointerDates(siteId, urlHash);
+        for (const date of dates) {
+          if (!pointerDates.has(date)) {
+            if (!fits(BackupFetcher.RETENTION_PRUNE_SUBREQUEST_ESTIMATE)) {
+              break pruning;
+            }
+            const metadataKey = `meta:${siteId}:${date}:${urlHash}`;
+            await this.sharedPayloads.release(siteId, date, urlHash, await this.readMetadata(metadataKey));
+            await this.kv.delete(metadataKey);
+            // Kept without an expiry while the backup was held
+            await this.kv.delete(`asset_manifest:${siteId}:${date}:${urlHash}`);
+            pruned++;
+          } else if (assets) {
+            // Kept past the horizon its assets were stored for, so their expiry is pushed back
+            if (!fits(BackupFetcher.ASSET_REFRESH_SUBREQUEST_ESTIMATE)) {
+              break pruning;
+            }
+            await assets.refreshManifest(siteId, date, urlHash, manifestTtl, refreshedBlobs);
+          }
+          decided++;
         }
+      }
 
-        deletedCount += keysToDelete.length;
-        cursor = list.list_complete ? undefined : list.cursor;
-      } while (cursor);
+      const left = candidates.length - decided;
+      console.log(`Cleaned up ${pruned} old backups for ${siteId}${left > 0 ? `; ${left} left for the next run's budget` : ''}`);
 
-      console.log(`Cleaned up ${deletedCount} old backup entries for ${siteId}`);
+      // Deltas kept for a released hold go once they are older than their usual expiry
+      if (fits(BackupFetcher.RETENTION_PRUNE_SUBREQUEST_ESTIMATE)) {
+        const before = new Date(Date.now() - Math.max(1, siteConfig.retentionDays) * 86_400_000).toISOString().split('T')[0];
+        await new SitemapDeltaStore(this.kv).prune(siteId, before, await new LegalHoldStore(this.kv).list(siteId));
+      }
     } catch (error) {
       console.error(`Failed to cleanup old backups for ${siteId}:`, error);
     }
   }
 
+  private async readMetadata(metadataKey: string): Promise<Partial<BackupMetadata> | null> {
+    const raw = await this.kv.get(metadataKey);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(raw) as Partial<BackupMetadata>;
+    } catch {
+      // Unreadable metadata is cleaned up like a backup that predates shared payloads
+      return null;
+    }
+  }
+
   private async getUrlHash(url: string): Promise<string> {
     const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
     return Array.from(new Uint8Array(buffer))
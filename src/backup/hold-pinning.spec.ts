@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HeldAssetPinner } from './hold-pinning';
+import { LegalHoldStore } from './legal-hold';
+
+function createMockKV() {
+  const store = new Map<string, string>();
+  const ttls = new Map<string, number | undefined>();
+
+  const kv = {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string, options?: { expirationTtl?: number }) => {
+      store.set(key, value);
+      ttls.set(key, options?.expirationTtl);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      ttls.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string; cursor?: string; limit?: number }) => {
+      const names = Array.from(store.keys()).filter((name) => name.startsWith(opts?.prefix ?? '')).sort();
+      const start = Number(opts?.cursor ?? 0);
+      const end = start + (opts?.limit ?? 1000);
+      return Promise.resolve({
+        keys: names.slice(start, end).map((name) => ({ name })),
+        list_complete: end >= names.length,
+        cursor: String(end)
+      });
+    })
+  } as unknown as KVNamespace;
+
+  return { kv, store, ttls };
+}
+
+/** A backup with assets captured as a run would store them: everything expires. */
+function storeBackup(kv: KVNamespace, date: string, urlHash: string, blobHashes: string[]) {
+  const assets = Object.fromEntries(blobHashes.map((hash) => [
+    `https://example.com/${hash}.css`,
+    { hash, contentType: 'text/css', size: 1 }
+  ]));
+  return Promise.all([
+    kv.put(`meta:site:${date}:${urlHash}`, JSON.stringify({ url: `https://example.com/${urlHash}` })),
+    kv.put(`asset_manifest:site:${date}:${urlHash}`, JSON.stringify({ capturedAt: `${date}T00:00:00.000Z`, assets }), { expirationTtl: 86400 }),
+    ...blobHashes.map((hash) => kv.put(`asset_blob:site:${hash}`, JSON.stringify({ contentType: 'text/css', body: 'Lw==' }), { expirationTtl: 172800 })),
+    kv.put(`sitemap_delta:site:${date}`, JSON.stringify({ date, added: [], removed: [], readded: [] }), { expirationTtl: 86400 })
+  ]);
+}
+
+describe('HeldAssetPinner', () => {
+  it('pins the manifests, blobs and deltas of the backups a range hold covers, across ticks', async () => {
+    const { kv, store, ttls } = createMockKV();
+    await storeBackup(kv, '2026-03-01', 'aaaaaaaaaaaaaaaa', ['b1', 'b2']);
+    await storeBackup(kv, '2026-03-02', 'bbbbbbbbbbbbbbbb', ['b2', 'b3']);
+    await storeBackup(kv, '2026-03-03', 'cccccccccccccccc', ['b4']);
+    const hold = await new LegalHoldStore(kv).create('site', { reason: 'Dispute 42', createdBy: 'legal', from: '2026-03-01', to: '2026-03-02' });
+
+    const first = await new HeldAssetPinner(kv, { subrequests: 20 }).pinHold(hold);
+    expect(first).toMatchObject({ complete: false, pinnedBackups: 1 });
+    expect(store.has(`legal_hold_pin:site:${hold.id}`)).toBe(true);
+
+    const [second] = await new HeldAssetPinner(kv).runTick();
+    expect(second).toMatchObject({ holdId: hold.id, pinnedBackups: 2, complete: true });
+    expect(store.has(`legal_hold_pin:site:${hold.id}`)).toBe(false);
+
+    for (const key of [
+      'asset_manifest:site:2026-03-01:aaaaaaaaaaaaaaaa',
+      'asset_manifest:site:2026-03-02:bbbbbbbbbbbbbbbb',
+      'asset_blob:site:b1',
+      'asset_blob:site:b2',
+      'asset_blob:site:b3',
+      'sitemap_delta:site:2026-03-01',
+      'sitemap_delta:site:2026-03-02'
+    ]) {
+      expect(ttls.get(key), key).toBeUndefined();
+    }
+    expect(store.has('asset_blob_pin:site:b3')).toBe(true);
+    // Outside the hold's range
+    expect(ttls.get('asset_manifest:site:2026-03-03:cccccccccccccccc')).toBe(86400);
+    expect(ttls.get('asset_blob:site:b4')).toBe(172800);
+    expect(store.has('asset_blob_pin:site:b4')).toBe(false);
+  });
+
+  it('drops the progress of a hold released before it was pinned', async () => {
+    const { kv, store } = createMockKV();
+    await storeBackup(kv, '2026-03-01', 'aaaaaaaaaaaaaaaa', ['b1']);
+    const holds = new LegalHoldStore(kv);
+    const hold = await holds.create('site', {
+      reason: 'Dispute 42',
+      createdBy: 'legal',
+      snapshots: [{ date: '2026-03-01', urlHash: 'aaaaaaaaaaaaaaaa' }]
+    });
+    await new HeldAssetPinner(kv, { subrequests: 1 }).pinHold(hold);
+    await holds.release('site', hold.id, 'legal', 'Settled');
+
+    expect(await new HeldAssetPinner(kv).runTick()).toEqual([]);
+    expect(store.has(`legal_hold_pin:site:${hold.id}`)).toBe(false);
+    expect(store.has('asset_blob_pin:site:b1')).toBe(false);
+  });
+});
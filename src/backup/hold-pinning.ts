@@ -0,0 +1,226 @@
+import { KVListResult } from '../runtime/kv-types';
+import { AssetManifest, AssetStore } from './assets';
+import { ExecutionBudget, ExecutionBudgetLimits, meterKVNamespace } from './budget';
+import { LegalHold, LegalHoldStore, findLegalHold } from './legal-hold';
+
+// Reserved out of each cron tick for pinning, which runs after the backup jobs and the scrub
+export const HOLD_PIN_TICK_LIMITS: ExecutionBudgetLimits = { wallClockMs: 5_000, subrequests: 50 };
+// What creating a hold spends pinning before it answers; the cron ticks finish larger holds
+export const HOLD_PIN_REQUEST_LIMITS: ExecutionBudgetLimits = { wallClockMs: 15_000, subrequests: 400 };
+
+// Pinning a backup re-writes its manifest and its day's sitemap delta, and marks and re-writes a few blobs
+const PIN_SUBREQUEST_ESTIMATE = 10;
+const PIN_LIST_LIMIT = 100;
+
+/** `legal_hold_pin:{siteId}:{holdId}`: how far pinning the backups a new hold covers has got. */
+export interface HoldPinningState {
+  siteId: string;
+  holdId: string;
+  // Where the `meta:` listing resumes for date-range holds: the page's cursor and the last key pinned on it
+  listCursor: string | null;
+  lastKey: string | null;
+  pinnedBackups: number;
+  updatedAt: string;
+}
+
+function getStateKey(siteId: string, holdId: string): string {
+  return `legal_hold_pin:${siteId}:${holdId}`;
+}
+
+/** The longest `meta:` key prefix that still lists every backup dated from `from` to `to`. */
+function getRangePrefix(siteId: string, from?: string, to?: string): string {
+  let common = '';
+  if (from && to) {
+    while (common.length < from.length && from[common.length] === to[common.length]) {
+      common += from[common.length];
+    }
+  }
+  return `meta:${siteId}:${common}`;
+}
+
+/**
+ * Keeps what a held backup's previews need for as long as the backup: its asset manifest,
+ * the asset blobs the manifest names and the sitemap delta of its day are re-written
+ * without an expiry. A new hold pins the backups it already covers, in the request that
+ * creates it and then across cron ticks; backups stored under a hold are pinned as they
+ * are written. Pinned blobs may be shared with other backups, so they stay after the hold
+ * is released, until the site is deleted.
+ */
+export class HeldAssetPinner {
+  private kv: KVNamespace;
+  private budget: ExecutionBudget;
+  private pinnedBlobs = new Set<string>();
+  private pinnedDeltas = new Set<string>();
+
+  constructor(kv: KVNamespace, limits?: Partial<ExecutionBudgetLimits>) {
+    this.budget = new ExecutionBudget(limits);
+    this.kv = meterKVNamespace(kv, () => this.budget.recordSubrequests());
+  }
+
+  /** Continue pinning every hold that still has backups to pin, until the budget runs low. */
+  async runTick(): Promise<HoldPinningState[]> {
+    const states: HoldPinningState[] = [];
+    const holdsBySite = new Map<string, LegalHold[]>();
+    const list = await this.kv.list({ prefix: 'legal_hold_pin:' }) as KVListResult;
+
+    for (const key of list.keys) {
+      if (!this.budget.canAfford(PIN_SUBREQUEST_ESTIMATE * 2, 500)) {
+        this.budget.markStopped();
+        break;
+      }
+
+      const state = await this.getState(key.name);
+      if (!state) {
+        continue;
+      }
+      if (!holdsBySite.has(state.siteId)) {
+        holdsBySite.set(state.siteId, await new LegalHoldStore(this.kv).list(state.siteId));
+      }
+
+      const hold = holdsBySite.get(state.siteId)!.find((candidate) => candidate.id === state.holdId);
+      if (!hold) {
+        // Released before its backups were all pinned
+        await this.kv.delete(key.name);
+        continue;
+      }
+      states.push(await this.pinHold(hold, state));
+    }
+
+    return states;
+  }
+
+  /**
+   * Pin the backups `hold` covers, continuing from `current` or the stored progress. Returns
+   * the progress, which is kept for the next tick unless every backup was pinned.
+   */
+  async pinHold(hold: LegalHold, current?: HoldPinningState | null): Promise<HoldPinningState & { complete: boolean }> {
+    const stateKey = getStateKey(hold.siteId, hold.id);
+    const state = (current === undefined ? await this.getState(stateKey) : current) ?? {
+      siteId: hold.siteId,
+      holdId: hold.id,
+      listCursor: null,
+      lastKey: null,
+      pinnedBackups: 0,
+      updatedAt: new Date().toISOString()
+    };
+
+    const complete = hold.snapshots
+      ? await this.pinSnapshots(hold, state)
+      : await this.pinRange(hold, state);
+
+    state.updatedAt = new Date().toISOString();
+    if (complete) {
+      await this.kv.delete(stateKey);
+    } else {
+      await this.kv.put(stateKey, JSON.stringify(state));
+    }
+    return { ...state, complete };
+  }
+
+  /** Pin one backup's manifest, the blobs it names and its day's sitemap delta. */
+  async pinBackup(siteId: string, date: string, urlHash: string): Promise<void> {
+    const manifestKey = `asset_manifest:${siteId}:${date}:${urlHash}`;
+    const raw = await this.kv.get(manifestKey);
+    if (raw !== null) {
+      await this.kv.put(manifestKey, raw);
+      await this.pinBlobs(siteId, this.readBlobHashes(raw));
+    }
+    await this.pinDelta(siteId, date);
+  }
+
+  /** Keep blobs without an expiry; each is pinned once per pinner. */
+  async pinBlobs(siteId: string, hashes: Iterable<string>): Promise<void> {
+    const store = new AssetStore(this.kv);
+    for (const hash of hashes) {
+      const key = `${siteId}:${hash}`;
+      if (!this.pinnedBlobs.has(key)) {
+        await store.pinBlob(siteId, hash);
+        this.pinnedBlobs.add(key);
+      }
+    }
+  }
+
+  private async pinDelta(siteId: string, date: string): Promise<void> {
+    const key = `sitemap_delta:${siteId}:${date}`;
+    if (this.pinnedDeltas.has(key)) {
+      return;
+    }
+
+    const raw = await this.kv.get(key);
+    if (raw !== null) {
+      await this.kv.put(key, raw);
+    }
+    this.pinnedDeltas.add(key);
+  }
+
+  private async pinSnapshots(hold: LegalHold, state: HoldPinningState): Promise<boolean> {
+    const keys = (hold.snapshots ?? []).map(({ date, urlHash }) => `${date}:${urlHash}`).sort();
+    for (const key of keys) {
+      if (state.lastKey !== null && key <= state.lastKey) {
+        continue;
+      }
+      if (!this.budget.canAfford(PIN_SUBREQUEST_ESTIMATE, 200)) {
+        this.budget.markStopped();
+        return false;
+      }
+
+      const [date, urlHash] = key.split(':');
+      await this.pinBackup(hold.siteId, date, urlHash);
+      state.lastKey = key;
+      state.pinnedBackups++;
+    }
+    return true;
+  }
+
+  private async pinRange(hold: LegalHold, state: HoldPinningState): Promise<boolean> {
+    const sitePrefix = `meta:${hold.siteId}:`;
+    do {
+      const page = await this.kv.list({
+        prefix: getRangePrefix(hold.siteId, hold.from, hold.to),
+        cursor: state.listCursor ?? undefined,
+        limit: PIN_LIST_LIMIT
+      }) as KVListResult;
+
+      for (const { name } of page.keys) {
+        if (state.lastKey !== null && name <= state.lastKey) {
+          continue;
+        }
+        const [date, urlHash] = name.slice(sitePrefix.length).split(':');
+        if (findLegalHold([hold], date, urlHash)) {
+          if (!this.budget.canAfford(PIN_SUBREQUEST_ESTIMATE, 200)) {
+            this.budget.markStopped();
+            return false;
+          }
+          await this.pinBackup(hold.siteId, date, urlHash);
+          state.pinnedBackups++;
+        }
+        state.lastKey = name;
+      }
+      state.listCursor = page.list_complete ? null : page.cursor ?? null;
+      state.lastKey = null;
+    } while (state.listCursor);
+
+    return true;
+  }
+
+  private readBlobHashes(raw: string): string[] {
+    try {
+      return Object.values((JSON.parse(raw) as AssetManifest).assets ?? {}).map((asset) => asset.hash);
+    } catch {
+      return [];
+    }
+  }
+
+  private async getState(key: string): Promise<HoldPinningState | null> {
+    const raw = await this.kv.get(key);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(raw) as HoldPinningState;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SiteDataService } from '../runtime/site-data';
+import { SiteConfig } from '../types/site';
+import { LegalHoldError, LegalHoldStore, findLegalHold, validateLegalHoldRequest } from './legal-hold';
+import { RetentionPlanner } from './retention';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+const URL_HASH = '0123456789abcdef';
+
+describe('validateLegalHoldRequest', () => {
+  it('requires a reason and creator, and snapshots or a date range but not both', () => {
+    expect(validateLegalHoldRequest({ reason: 'Dispute 42', createdBy: 'legal@example.com', from: '2026-03-01' })).toEqual([]);
+    expect(validateLegalHoldRequest({
+      reason: ' ',
+      createdBy: 'legal@example.com',
+      snapshots: [{ date: '2026-03-01', urlHash: URL_HASH }],
+      to: '2026-03-02'
+    })).toEqual([
+      'reason is required (up to 2000 characters)',
+      'A hold lists snapshots or a date range, not both'
+    ]);
+  });
+});
+
+describe('LegalHoldStore', () => {
+  it('audits holds as they are created and released', async () => {
+    const kv = createMockKV();
+    const store = new LegalHoldStore(kv);
+
+    const hold = await store.create('site', {
+      reason: 'Dispute 42',
+      createdBy: 'legal@example.com',
+      snapshots: [{ date: '2026-03-01', urlHash: URL_HASH }]
+    });
+    expect(findLegalHold(await store.list('site'), '2026-03-01', URL_HASH)?.id).toBe(hold.id);
+    expect(findLegalHold(await store.list('site'), '2026-03-02', URL_HASH)).toBeUndefined();
+
+    expect(await store.release('site', 'unknown', 'legal@example.com', 'Settled')).toBeNull();
+    await store.release('site', hold.id, 'counsel@example.com', 'Settled');
+
+    expect(await store.list('site')).toEqual([]);
+    const audit = await store.listAudit('site');
+    expect(audit.map((entry) => [entry.action, entry.actor, entry.reason])).toEqual(expect.arrayContaining([
+      ['created', 'legal@example.com', 'Dispute 42'],
+      ['released', 'counsel@example.com', 'Settled']
+    ]));
+    expect(audit.every((entry) => entry.holds[0].id === hold.id)).toBe(true);
+  });
+
+  it('keeps held backups through retention and refuses to delete the site', async () => {
+    const kv = createMockKV({
+      'meta:site:2026-01-01:aaaa': '{}',
+      'meta:site:2026-01-02:aaaa': '{}',
+      'meta:site:2026-01-03:aaaa': '{}',
+      'latest:site:aaaa': JSON.stringify({ timestamp: '2026-01-03T02:00:00.000Z' })
+    });
+    await new LegalHoldStore(kv).create('site', { reason: 'Dispute 42', createdBy: 'legal@example.com', to: '2026-01-01' });
+
+    const plan = await new RetentionPlanner(kv).plan({ id: 'site', retentionDays: 7 } as SiteConfig, new Date('2026-10-19T00:00:00.000Z'));
+    expect(plan.kept).toEqual(expect.arrayContaining([{ date: '2026-01-01', urlHash: 'aaaa', rules: ['legal_hold'] }]));
+    expect(plan.pruned.map((snapshot) => snapshot.date)).toEqual(['2026-01-02']);
+
+    await expect(new SiteDataService(kv).deleteSiteData('site', 'ops@example.com')).rejects.toBeInstanceOf(LegalHoldError);
+    expect(kv.store.has('meta:site:2026-01-01:aaaa')).toBe(true);
+    expect(await new LegalHoldStore(kv).listAudit('site')).toContainEqual(
+      expect.objectContaining({ action: 'deletion_refused', actor: 'ops@example.com' })
+    );
+  });
+});
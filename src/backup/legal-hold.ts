@@ -0,0 +1,234 @@
+import { KVListResult } from '../runtime/kv-types';
+
+const MAX_REASON_LENGTH = 2000;
+const MAX_HELD_SNAPSHOTS = 1000;
+
+export interface HeldSnapshot {
+  date: string;
+  urlHash: string;
+}
+
+/**
+ * Backups that no cleanup, retention or site deletion may remove until the hold is released:
+ * the listed `snapshots`, or every backup of the site dated from `from` to `to` (inclusive;
+ * either end may be open, so neither holds the whole site).
+ */
+export interface LegalHold {
+  id: string;
+  siteId: string;
+  reason: string;
+  createdBy: string;
+  createdAt: string;
+  snapshots?: HeldSnapshot[];
+  from?: string;
+  to?: string;
+}
+
+export interface LegalHoldRequest {
+  reason: string;
+  createdBy: string;
+  snapshots?: HeldSnapshot[];
+  from?: string;
+  to?: string;
+}
+
+export type LegalHoldAuditAction = 'created' | 'released' | 'deletion_refused';
+
+/** `legal_hold_audit:{siteId}:{at}:{id}`, kept after the hold is released and the site deleted. */
+export interface LegalHoldAuditEntry {
+  id: string;
+  siteId: string;
+  action: LegalHoldAuditAction;
+  at: string;
+  actor: string;
+  reason: string;
+  // The hold as it was when the entry was recorded, or the holds a deletion ran into
+  holds: LegalHold[];
+}
+
+/** Thrown when a deletion would remove backups under a legal hold; nothing was deleted. */
+export class LegalHoldError extends Error {
+  readonly holds: LegalHold[];
+
+  constructor(message: string, holds: LegalHold[]) {
+    super(message);
+    this.name = 'LegalHoldError';
+    this.holds = holds;
+  }
+}
+
+function getHoldsKey(siteId: string): string {
+  return `legal_holds:${siteId}`;
+}
+
+function getAuditKey(siteId: string, at: string, id: string): string {
+  return `legal_hold_audit:${siteId}:${at}:${id}`;
+}
+
+function buildId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function isNonEmptyString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+export function validateLegalHoldRequest(request: Partial<LegalHoldRequest>): string[] {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(request.reason, MAX_REASON_LENGTH)) {
+    errors.push(`reason is required (up to ${MAX_REASON_LENGTH} characters)`);
+  }
+  if (!isNonEmptyString(request.createdBy, 200)) {
+    errors.push('createdBy is required (up to 200 characters)');
+  }
+
+  if (request.snapshots !== undefined) {
+    if (request.from !== undefined || request.to !== undefined) {
+      errors.push('A hold lists snapshots or a date range, not both');
+    }
+    if (!Array.isArray(request.snapshots) || request.snapshots.length === 0 || request.snapshots.length > MAX_HELD_SNAPSHOTS) {
+      errors.push(`snapshots must list between 1 and ${MAX_HELD_SNAPSHOTS} backups`);
+    } else if (request.snapshots.some((snapshot) => !isDate(snapshot?.date) || !/^[0-9a-f]{16}$/.test(String(snapshot?.urlHash)))) {
+      errors.push('Each snapshot needs a YYYY-MM-DD date and a 16-character urlHash');
+    }
+    return errors;
+  }
+
+  if ((request.from !== undefined && !isDate(request.from)) || (request.to !== undefined && !isDate(request.to))) {
+    errors.push('from and to must be YYYY-MM-DD');
+  } else if (request.from && request.to && request.from > request.to) {
+    errors.push('from must not be after to');
+  }
+
+  return errors;
+}
+
+/** The first of `holds` covering the backup of `urlHash` on `date`, if any. */
+export function findLegalHold(holds: LegalHold[], date: string, urlHash: string): LegalHold | undefined {
+  return holds.find((hold) => hold.snapshots
+    ? hold.snapshots.some((snapshot) => snapshot.date === date && snapshot.urlHash === urlHash)
+    : (!hold.from || date >= hold.from) && (!hold.to || date <= hold.to));
+}
+
+/** The first of `holds` covering any backup dated `date`, if any. */
+export function findLegalHoldForDate(holds: LegalHold[], date: string): LegalHold | undefined {
+  return holds.find((hold) => hold.snapshots
+    ? hold.snapshots.some((snapshot) => snapshot.date === date)
+    : (!hold.from || date >= hold.from) && (!hold.to || date <= hold.to));
+}
+
+/**
+ * Active legal holds per site, in `legal_holds:{siteId}`, and an append-only audit trail of
+ * their creation, release and the deletions they refused.
+ */
+export class LegalHoldStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async list(siteId: string): Promise<LegalHold[]> {
+    const raw = await this.kv.get(getHoldsKey(siteId));
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(raw) as LegalHold[];
+    } catch (error) {
+      // Unreadable holds must not read as "no holds", or deletions would go ahead
+      throw new Error(`Legal holds for ${siteId} are unreadable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /** Backups a request would hold that do not exist, for `snapshots` holds. */
+  async findMissingSnapshots(siteId: string, snapshots: HeldSnapshot[]): Promise<HeldSnapshot[]> {
+    const missing: HeldSnapshot[] = [];
+    for (const snapshot of snapshots) {
+      if (await this.kv.get(`meta:${siteId}:${snapshot.date}:${snapshot.urlHash}`) === null) {
+        missing.push(snapshot);
+      }
+    }
+    return missing;
+  }
+
+  async create(siteId: string, request: LegalHoldRequest): Promise<LegalHold> {
+    const hold: LegalHold = {
+      id: buildId(),
+      siteId,
+      reason: request.reason.trim(),
+      createdBy: request.createdBy.trim(),
+      createdAt: new Date().toISOString(),
+      ...(request.snapshots
+        ? { snapshots: request.snapshots.map(({ date, urlHash }) => ({ date, urlHash })) }
+        : { ...(request.from && { from: request.from }), ...(request.to && { to: request.to }) })
+    };
+
+    // The audit entry goes first, so no hold is ever active without one
+    await this.recordAudit(siteId, 'created', hold.createdBy, hold.reason, [hold]);
+    await this.kv.put(getHoldsKey(siteId), JSON.stringify([...await this.list(siteId), hold]));
+    return hold;
+  }
+
+  /** Release a hold; returns null when the site has no such hold. */
+  async release(siteId: string, holdId: string, releasedBy: string, reason: string): Promise<LegalHold | null> {
+    const holds = await this.list(siteId);
+    const hold = holds.find((candidate) => candidate.id === holdId);
+    if (!hold) {
+      return null;
+    }
+
+    await this.recordAudit(siteId, 'released', releasedBy, reason, [hold]);
+    await this.kv.put(getHoldsKey(siteId), JSON.stringify(holds.filter((candidate) => candidate.id !== holdId)));
+    return hold;
+  }
+
+  async recordAudit(
+    siteId: string,
+    action: LegalHoldAuditAction,
+    actor: string,
+    reason: string,
+    holds: LegalHold[]
+  ): Promise<LegalHoldAuditEntry> {
+    const entry: LegalHoldAuditEntry = { id: buildId(), siteId, action, at: new Date().toISOString(), actor, reason, holds };
+    await this.kv.put(getAuditKey(siteId, entry.at, entry.id), JSON.stringify(entry));
+    return entry;
+  }
+
+  /** The site's audit trail, newest first. */
+  async listAudit(siteId: string, limit: number = 100): Promise<LegalHoldAuditEntry[]> {
+    const entries: LegalHoldAuditEntry[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: `legal_hold_audit:${siteId}:`, limit: 1000, cursor }) as KVListResult;
+      for (const key of list.keys) {
+        const raw = await this.kv.get(key.name, 'text');
+        if (!raw) {
+          continue;
+        }
+
+        try {
+          entries.push(JSON.parse(raw) as LegalHoldAuditEntry);
+        } catch (error) {
+          console.error(`Failed to parse legal hold audit entry ${key.name}:`, error);
+        }
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return entries
+      .sort((left, right) => right.at.localeCompare(left.at))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SiteConfig } from '../types/site';
+import {
+  REDACTED_VALUE,
+  buildSiteRequestHeaders,
+  redactRequestOptions,
+  restoreRedactedRequestOptions,
+  validateRequestOptions
+} from './request-headers';
+
+const fetchOptions: SiteConfig['fetchOptions'] = {
+  timeout: 10000,
+  retries: 3,
+  concurrency: 5,
+  userAgent: 'Mozilla/5.0 (compatible; BackupBot)',
+  headers: { 'X-WAF-Bypass': { secret: 'SITE_SECRET_WAF_BYPASS_TOKEN' }, 'Accept-Language': 'en-CA' },
+  cookies: { preview: { secret: 'SITE_SECRET_PREVIEW_COOKIE' }, locale: 'en' }
+};
+
+describe('request headers', () => {
+  it('resolves secret references from bindings into headers and a cookie header', () => {
+    const headers = buildSiteRequestHeaders(fetchOptions, {
+      SITE_SECRET_WAF_BYPASS_TOKEN: 'waf-123',
+      SITE_SECRET_PREVIEW_COOKIE: 'draft-abc'
+    });
+
+    expect(headers).toEqual({
+      'X-WAF-Bypass': 'waf-123',
+      'Accept-Language': 'en-CA',
+      'User-Agent': 'Mozilla/5.0 (compatible; BackupBot)',
+      Cookie: 'preview=draft-abc; locale=en'
+    });
+  });
+
+  it('fails instead of sending a request without a configured secret', () => {
+    expect(() => buildSiteRequestHeaders(fetchOptions, { SITE_SECRET_PREVIEW_COOKIE: 'draft-abc' }))
+      .toThrow('Secret SITE_SECRET_WAF_BYPASS_TOKEN for header X-WAF-Bypass is not configured');
+  });
+
+  it('redacts literal values and restores them when the placeholder is saved back', () => {
+    const redacted = redactRequestOptions(fetchOptions);
+
+    expect(redacted.userAgent).toBe(REDACTED_VALUE);
+    expect(redacted.headers).toEqual({ 'X-WAF-Bypass': { secret: 'SITE_SECRET_WAF_BYPASS_TOKEN' }, 'Accept-Language': REDACTED_VALUE });
+    expect(redacted.cookies).toEqual({ preview: { secret: 'SITE_SECRET_PREVIEW_COOKIE' }, locale: REDACTED_VALUE });
+
+    const edited = { ...redacted, cookies: { ...redacted.cookies, locale: 'fr' } };
+    expect(restoreRedactedRequestOptions(edited, fetchOptions)).toEqual({
+      ...fetchOptions,
+      cookies: { preview: { secret: 'SITE_SECRET_PREVIEW_COOKIE' }, locale: 'fr' }
+    });
+  });
+
+  it('rejects reserved headers and malformed values', () => {
+    expect(validateRequestOptions({
+      ...fetchOptions,
+      headers: { Cookie: 'a=b', 'Bad Header': 'x', 'X-Token': { secret: 'not-a-binding' } },
+      userAgent: 'line\nbreak'
+    })).toEqual([
+      'Header Cookie cannot be set in fetchOptions.headers',
+      'Invalid header name: Bad Header',
+      'Secret name for header X-Token must be a binding name starting with SITE_SECRET_',
+      'Value for userAgent must be a single-line string or a { "secret": "NAME" } reference'
+    ]);
+  });
+
+  it('refuses references to the Worker\'s own secrets', () => {
+    const leaky: SiteConfig['fetchOptions'] = { ...fetchOptions, headers: { 'X-Token': { secret: 'ADMIN_API_TOKEN' } } };
+
+    expect(validateRequestOptions(leaky)).toEqual([
+      'Secret name for header X-Token must be a binding name starting with SITE_SECRET_'
+    ]);
+    // A config saved before the namespace existed is refused at run time as well
+    expect(() => buildSiteRequestHeaders(leaky, { ADMIN_API_TOKEN: 'admin-token', SITE_SECRET_PREVIEW_COOKIE: 'draft-abc' }))
+      .toThrow('Secret ADMIN_API_TOKEN for header X-Token is not a SITE_SECRET_ binding');
+  });
+});
@@ -0,0 +1,161 @@
+import { RequestValue, SiteConfig } from '../types/site';
+
+export const DEFAULT_USER_AGENT = 'MultiSiteBackup/1.0 (Cloudflare Worker)';
+export const REDACTED_VALUE = '[redacted]';
+
+// Set by the fetcher itself (or by dedicated fetchOptions fields), so sites cannot override them.
+const RESERVED_HEADERS = new Set(['cookie', 'user-agent', 'if-none-match', 'if-modified-since', 'host']);
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+// Site configs may only name bindings in this namespace, never the Worker's own secrets
+// (ADMIN_API_TOKEN, MANIFEST_SIGNING_KEY, ...), which would otherwise be sent to any origin.
+export const SITE_SECRET_PREFIX = 'SITE_SECRET_';
+const SECRET_NAME_PATTERN = /^SITE_SECRET_[A-Za-z0-9_]+$/;
+
+export function isSecretReference(value: RequestValue): value is { secret: string } {
+  return typeof value === 'object' && value !== null && typeof value.secret === 'string';
+}
+
+/** Worker bindings that may hold request secrets, looked up by name. */
+export type SecretBindings = Record<string, unknown>;
+
+export function resolveRequestValue(value: RequestValue, secrets: SecretBindings, label: string): string {
+  if (!isSecretReference(value)) {
+    return value;
+  }
+
+  if (!SECRET_NAME_PATTERN.test(value.secret)) {
+    throw new Error(`Secret ${value.secret} for ${label} is not a ${SITE_SECRET_PREFIX} binding`);
+  }
+
+  const resolved = secrets[value.secret];
+  if (typeof resolved !== 'string' || resolved.length === 0) {
+    throw new Error(`Secret ${value.secret} for ${label} is not configured`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve a site's user agent, custom headers and cookies into request headers. Secret
+ * references are read from the Worker's `SITE_SECRET_` bindings; a missing secret fails the
+ * run rather than sending the request without it.
+ */
+export function buildSiteRequestHeaders(
+  fetchOptions: SiteConfig['fetchOptions'],
+  secrets: SecretBindings
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(fetchOptions.headers ?? {})) {
+    headers[name] = resolveRequestValue(value, secrets, `header ${name}`);
+  }
+
+  if (fetchOptions.userAgent !== undefined) {
+    headers['User-Agent'] = resolveRequestValue(fetchOptions.userAgent, secrets, 'userAgent');
+  }
+
+  const cookies = Object.entries(fetchOptions.cookies ?? {})
+    .map(([name, value]) => `${name}=${resolveRequestValue(value, secrets, `cookie ${name}`)}`);
+  if (cookies.length > 0) {
+    headers['Cookie'] = cookies.join('; ');
+  }
+
+  return headers;
+}
+
+/** Combine header sets; `Cookie` values are joined rather than overwritten. */
+export function mergeRequestHeaders(...headerSets: Record<string, string>[]): Record<string, string> {
+  const merged: Record<string, string> = {};
+
+  for (const headers of headerSets) {
+    for (const [name, value] of Object.entries(headers)) {
+      merged[name] = name === 'Cookie' && merged.Cookie ? `${merged.Cookie}; ${value}` : value;
+    }
+  }
+
+  return merged;
+}
+
+export function validateRequestValue(value: RequestValue, label: string): string | null {
+  if (isSecretReference(value)) {
+    return SECRET_NAME_PATTERN.test(value.secret)
+      ? null
+      : `Secret name for ${label} must be a binding name starting with ${SITE_SECRET_PREFIX}`;
+  }
+
+  return typeof value !== 'string' || /[\r\n]/.test(value)
+    ? `Value for ${label} must be a single-line string or a { "secret": "NAME" } reference`
+    : null;
+}
+
+export function validateRequestOptions(fetchOptions: SiteConfig['fetchOptions']): string[] {
+  const errors: string[] = [];
+  const checkValue = (value: RequestValue, label: string) => {
+    const error = validateRequestValue(value, label);
+    if (error) {
+      errors.push(error);
+    }
+  };
+
+  for (const [name, value] of Object.entries(fetchOptions.headers ?? {})) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      errors.push(`Invalid header name: ${name}`);
+    } else if (RESERVED_HEADERS.has(name.toLowerCase())) {
+      errors.push(`Header ${name} cannot be set in fetchOptions.headers`);
+    }
+    checkValue(value, `header ${name}`);
+  }
+
+  for (const [name, value] of Object.entries(fetchOptions.cookies ?? {})) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      errors.push(`Invalid cookie name: ${name}`);
+    }
+    checkValue(value, `cookie ${name}`);
+  }
+
+  if (fetchOptions.userAgent !== undefined) {
+    checkValue(fetchOptions.userAgent, 'userAgent');
+  }
+
+  return errors;
+}
+
+export function redactValue(value: RequestValue): RequestValue {
+  return isSecretReference(value) ? value : REDACTED_VALUE;
+}
+
+function redactRecord(values?: Record<string, RequestValue>): Record<string, RequestValue> | undefined {
+  return values && Object.fromEntries(Object.entries(values).map(([name, value]) => [name, redactValue(value)]));
+}
+
+/** Replace literal header, cookie and user-agent values with a placeholder; secret references are only names and are kept. */
+export function redactRequestOptions(fetchOptions: SiteConfig['fetchOptions']): SiteConfig['fetchOptions'] {
+  return {
+    ...fetchOptions,
+    ...(fetchOptions.userAgent !== undefined && { userAgent: redactValue(fetchOptions.userAgent) }),
+    ...(fetchOptions.headers && { headers: redactRecord(fetchOptions.headers) }),
+    ...(fetchOptions.cookies && { cookies: redactRecord(fetchOptions.cookies) })
+  };
+}
+
+/**
+ * Put back values that a client submitted as the redaction placeholder, so a config read
+ * from the API can be edited and saved without re-entering every secret.
+ */
+export function restoreRedactedRequestOptions(
+  incoming: SiteConfig['fetchOptions'],
+  existing: SiteConfig['fetchOptions']
+): SiteConfig['fetchOptions'] {
+  const restoreRecord = (values?: Record<string, RequestValue>, previous?: Record<string, RequestValue>) =>
+    values && Object.fromEntries(Object.entries(values).map(([name, value]) => [
+      name,
+      value === REDACTED_VALUE && previous?.[name] !== undefined ? previous[name] : value
+    ]));
+
+  return {
+    ...incoming,
+    ...(incoming.userAgent === REDACTED_VALUE && existing.userAgent !== undefined && { userAgent: existing.userAgent }),
+    ...(incoming.headers && { headers: restoreRecord(incoming.headers, existing.headers) }),
+    ...(incoming.cookies && { cookies: restoreRecord(incoming.cookies, existing.cookies) })
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SiteConfig } from '../types/site';
+import { RetentionPlanner, evaluateRetention } from './retention';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace;
+}
+
+describe('evaluateRetention', () => {
+  it('keeps dailies, then the last backup of each week and month while their tier covers it', () => {
+    const snapshots = ['2026-10-10', '2026-09-30', '2026-09-27', '2026-09-26', '2020-01-31', '2019-05-31']
+      .map((date) => ({ date, urlHash: 'aaaa' }));
+    // Another URL's backups do not decide which of this URL's are last in a period
+    snapshots.push({ date: '2026-09-28', urlHash: 'bbbb' });
+
+    const { kept, pruned } = evaluateRetention(snapshots, 14, { weeks: 13, months: 84 }, '2026-10-19');
+
+    expect(kept).toEqual([
+      { date: '2026-10-10', urlHash: 'aaaa', rules: ['daily', 'weekly', 'monthly'] },
+      { date: '2026-09-30', urlHash: 'aaaa', rules: ['weekly', 'monthly'] },
+      { date: '2026-09-27', urlHash: 'aaaa', rules: ['weekly'] },
+      { date: '2020-01-31', urlHash: 'aaaa', rules: ['monthly'] },
+      { date: '2026-09-28', urlHash: 'bbbb', rules: ['weekly', 'monthly'] }
+    ]);
+    expect(pruned).toEqual([
+      {
+        date: '2026-09-26',
+        urlHash: 'aaaa',
+        reason: 'older than 14 days; not the last backup of its week; not the last backup of its month'
+      },
+      {
+        date: '2019-05-31',
+        urlHash: 'aaaa',
+        reason: 'older than 14 days; older than 13 weeks; older than 84 months'
+      }
+    ]);
+  });
+});
+
+describe('RetentionPlanner', () => {
+  it('never prunes the backups latest and prev_latest point to', async () => {
+    const kv = createMockKV({
+      'meta:site:2026-01-01:aaaa': '{}',
+      'meta:site:2026-01-02:aaaa': '{}',
+      'meta:site:2026-01-03:aaaa': '{}',
+      'meta:site:2026-01-01:bbbb': '{}',
+      'latest:site:aaaa': JSON.stringify({ timestamp: '2026-01-03T02:00:00.000Z' }),
+      'prev_latest:site:aaaa': JSON.stringify({ timestamp: '2026-01-02T02:00:00.000Z' })
+    });
+    const siteConfig = { id: 'site', retentionDays: 7 } as SiteConfig;
+
+    const plan = await new RetentionPlanner(kv).plan(siteConfig, new Date('2026-10-19T12:00:00.000Z'));
+
+    expect(plan.pruned.map(({ date, urlHash }) => `${date}:${urlHash}`)).toEqual(['2026-01-01:aaaa', '2026-01-01:bbbb']);
+    expect(plan.kept).toEqual([
+      { date: '2026-01-02', urlHash: 'aaaa', rules: ['prev_latest'] },
+      { date: '2026-01-03', urlHash: 'aaaa', rules: ['latest'] }
+    ]);
+  });
+});
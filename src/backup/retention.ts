@@ -0,0 +1,257 @@
+import { KVListResult } from '../runtime/kv-types';
+import { BackupMetadata, RetentionPolicy, SiteConfig } from '../types/site';
+import { LegalHoldStore, findLegalHold } from './legal-hold';
+
+export const MAX_RETENTION_WEEKS = 520;
+export const MAX_RETENTION_MONTHS = 1200;
+export const MAX_RETENTION_YEARS = 100;
+
+/** Why a backup is kept: a retention tier, a `latest:`/`prev_latest:` pointer to it, or a legal hold. */
+export type RetentionRule = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'latest' | 'prev_latest' | 'legal_hold';
+
+export interface RetentionSnapshot {
+  date: string;
+  urlHash: string;
+}
+
+export interface KeptSnapshot extends RetentionSnapshot {
+  rules: RetentionRule[];
+}
+
+export interface PrunedSnapshot extends RetentionSnapshot {
+  reason: string;
+}
+
+export interface RetentionPlan {
+  siteId: string;
+  today: string;
+  retentionDays: number;
+  policy: RetentionPolicy;
+  kept: KeptSnapshot[];
+  pruned: PrunedSnapshot[];
+}
+
+type PeriodTier = 'weekly' | 'monthly' | 'yearly';
+
+const PERIOD_NAMES: Record<PeriodTier, string> = { weekly: 'week', monthly: 'month', yearly: 'year' };
+
+function subtractDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day - days)).toISOString().split('T')[0];
+}
+
+/** The same day `months` earlier, clamped to the end of shorter months. */
+function subtractMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 - months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+function getPeriodKey(tier: PeriodTier, date: string): string {
+  if (tier === 'monthly') {
+    return date.slice(0, 7);
+  }
+  if (tier === 'yearly') {
+    return date.slice(0, 4);
+  }
+
+  // Weeks start on Monday, as in ISO 8601
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  return subtractDays(date, weekday);
+}
+
+function getPeriodCutoffs(policy: RetentionPolicy, today: string): Array<{ tier: PeriodTier; count: number; cutoff: string }> {
+  const cutoffs: Array<{ tier: PeriodTier; count: number; cutoff: string }> = [];
+  if (policy.weeks) {
+    cutoffs.push({ tier: 'weekly', count: policy.weeks, cutoff: subtractDays(today, policy.weeks * 7) });
+  }
+  if (policy.months) {
+    cutoffs.push({ tier: 'monthly', count: policy.months, cutoff: subtractMonths(today, policy.months) });
+  }
+  if (policy.years) {
+    cutoffs.push({ tier: 'yearly', count: policy.years, cutoff: subtractMonths(today, policy.years * 12) });
+  }
+  return cutoffs;
+}
+
+/**
+ * How many days back the longest tier of a site's retention reaches. Anything older is
+ * removed by the next cleanup unless a pointer or legal hold keeps it.
+ */
+export function getRetentionHorizonDays(siteConfig: Pick<SiteConfig, 'retentionDays' | 'retentionPolicy'>): number {
+  const policy = siteConfig.retentionPolicy ?? {};
+  return Math.max(
+    1,
+    siteConfig.retentionDays,
+    (policy.weeks ?? 0) * 7,
+    (policy.months ?? 0) * 31,
+    (policy.years ?? 0) * 366
+  );
+}
+
+/**
+ * Grandfather-father-son retention over backup dates, evaluated per URL. Every backup from
+ * the last `retentionDays` days is kept; older ones are kept when they are the last backup of
+ * their week, month or year for a URL and that tier of `policy` still covers them. Pointers
+ * are not considered here; see `RetentionPlanner`.
+ */
+export function evaluateRetention(
+  snapshots: RetentionSnapshot[],
+  retentionDays: number,
+  policy: RetentionPolicy,
+  today: string
+): { kept: KeptSnapshot[]; pruned: PrunedSnapshot[] } {
+  const dailyCutoff = subtractDays(today, retentionDays);
+  const periodCutoffs = getPeriodCutoffs(policy, today);
+
+  // The last backup date of each URL in each period
+  const periodEnds = new Map<string, string>();
+  for (const { date, urlHash } of snapshots) {
+    for (const { tier } of periodCutoffs) {
+      const key = `${tier}:${urlHash}:${getPeriodKey(tier, date)}`;
+      const current = periodEnds.get(key);
+      if (!current || current < date) {
+        periodEnds.set(key, date);
+      }
+    }
+  }
+
+  const kept: KeptSnapshot[] = [];
+  const pruned: PrunedSnapshot[] = [];
+  for (const snapshot of snapshots) {
+    const { date, urlHash } = snapshot;
+    const rules: RetentionRule[] = [];
+    const reasons: string[] = [];
+
+    if (date >= dailyCutoff) {
+      rules.push('daily');
+    } else {
+      reasons.push(`older than ${retentionDays} days`);
+    }
+
+    for (const { tier, count, cutoff } of periodCutoffs) {
+      const period = PERIOD_NAMES[tier];
+      if (periodEnds.get(`${tier}:${urlHash}:${getPeriodKey(tier, date)}`) !== date) {
+        reasons.push(`not the last backup of its ${period}`);
+      } else if (date < cutoff) {
+        reasons.push(`older than ${count} ${period}${count === 1 ? '' : 's'}`);
+      } else {
+        rules.push(tier);
+      }
+    }
+
+    if (rules.length > 0) {
+      kept.push({ ...snapshot, rules });
+    } else {
+      pruned.push({ ...snapshot, reason: reasons.join('; ') });
+    }
+  }
+
+  return { kept, pruned };
+}
+
+/**
+ * Works out which of a site's backups retention removes. Backups under a legal hold, and
+ * those a URL's `latest:` or `prev_latest:` pointer refers to, are always kept; the latter
+ * so cleanup never leaves a pointer dangling.
+ */
+export class RetentionPlanner {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async plan(siteConfig: SiteConfig, now: Date = new Date()): Promise<RetentionPlan> {
+    const { candidates, ...plan } = await this.planWithoutPointers(siteConfig, now);
+
+    const pointerDates = new Map<string, Map<string, RetentionRule>>();
+    for (const urlHash of new Set(candidates.map((snapshot) => snapshot.urlHash))) {
+      pointerDates.set(urlHash, await this.getPointerDates(siteConfig.id, urlHash));
+    }
+
+    for (const snapshot of candidates) {
+      const rule = pointerDates.get(snapshot.urlHash)?.get(snapshot.date);
+      if (rule) {
+        plan.kept.push({ date: snapshot.date, urlHash: snapshot.urlHash, rules: [rule] });
+      } else {
+        plan.pruned.push(snapshot);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * The plan before pointers are read: `candidates` are the backups retention and legal holds
+   * would prune, and `pruned` is empty. Cleanup reads each URL's pointers with
+   * `getPointerDates` just before pruning it, so a run short on budget can stop between URLs.
+   */
+  async planWithoutPointers(siteConfig: SiteConfig, now: Date = new Date()): Promise<RetentionPlan & { candidates: PrunedSnapshot[] }> {
+    const today = now.toISOString().split('T')[0];
+    const policy = siteConfig.retentionPolicy ?? {};
+    const snapshots = await this.listSnapshots(siteConfig.id);
+    const evaluated = evaluateRetention(snapshots, siteConfig.retentionDays, policy, today);
+    const holds = await new LegalHoldStore(this.kv).list(siteConfig.id);
+
+    const kept = evaluated.kept;
+    const candidates: PrunedSnapshot[] = [];
+    for (const snapshot of evaluated.pruned) {
+      if (findLegalHold(holds, snapshot.date, snapshot.urlHash)) {
+        kept.push({ date: snapshot.date, urlHash: snapshot.urlHash, rules: ['legal_hold'] });
+      } else {
+        candidates.push(snapshot);
+      }
+    }
+
+    return { siteId: siteConfig.id, today, retentionDays: siteConfig.retentionDays, policy, kept, pruned: [], candidates };
+  }
+
+  private async listSnapshots(siteId: string): Promise<RetentionSnapshot[]> {
+    const prefix = `meta:${siteId}:`;
+    const snapshots: RetentionSnapshot[] = [];
+    let cursor: string | undefined;
+
+    do {
+      // Metadata is listed rather than payloads, which may live outside KV or be shared
+      const list = await this.kv.list({ prefix, limit: 1000, cursor }) as KVListResult;
+      for (const key of list.keys) {
+        const [date, urlHash] = key.name.slice(prefix.length).split(':');
+        if (date && urlHash) {
+          snapshots.push({ date, urlHash });
+        }
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return snapshots;
+  }
+
+  /** The backup dates a URL's `latest:` and `prev_latest:` pointers refer to, with the rule that keeps each. */
+  async getPointerDates(siteId: string, urlHash: string): Promise<Map<string, RetentionRule>> {
+    const dates = new Map<string, RetentionRule>();
+    const [latest, previous] = await Promise.all([
+      this.kv.get(`latest:${siteId}:${urlHash}`),
+      this.kv.get(`prev_latest:${siteId}:${urlHash}`)
+    ]);
+
+    for (const [raw, rule] of [[previous, 'prev_latest'], [latest, 'latest']] as const) {
+      if (!raw) {
+        continue;
+      }
+      try {
+        const date = (JSON.parse(raw) as Partial<BackupMetadata>).timestamp?.split('T')[0];
+        if (date) {
+          dates.set(date, rule);
+        }
+      } catch (error) {
+        console.error(`Failed to parse ${rule} pointer for ${siteId}/${urlHash}:`, error);
+      }
+    }
+
+    return dates;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { RobotsPolicy, parseRobotsTxt } from './robots';
+
+const robotsTxt = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/press
+Crawl-delay: 2
+
+User-agent: MultiSiteBackup
+User-agent: OtherBot
+Disallow: /drafts
+Disallow: /*.pdf$
+Allow: /drafts/public
+Crawl-delay: 5
+
+Sitemap: https://example.com/sitemap.xml
+Sitemap: https://example.com/news-sitemap.xml
+`;
+
+describe('robots.txt', () => {
+  it('parses groups, shared user-agent lines and sitemap directives', () => {
+    const parsed = parseRobotsTxt(robotsTxt);
+
+    expect(parsed.groups).toHaveLength(2);
+    expect(parsed.groups[1].userAgents).toEqual(['multisitebackup', 'otherbot']);
+    expect(parsed.groups[1].crawlDelaySeconds).toBe(5);
+    expect(parsed.sitemaps).toEqual(['https://example.com/sitemap.xml', 'https://example.com/news-sitemap.xml']);
+  });
+
+  it('applies only the group naming the product token, with the longest match winning', () => {
+    const policy = new RobotsPolicy(parseRobotsTxt(robotsTxt), 'MultiSiteBackup/1.0 (Cloudflare Worker)');
+
+    expect(policy.crawlDelaySeconds).toBe(5);
+    expect(policy.isAllowed('https://example.com/private/page')).toBe(true);
+    expect(policy.isAllowed('https://example.com/drafts/post')).toBe(false);
+    expect(policy.isAllowed('https://example.com/drafts/public/post')).toBe(true);
+    expect(policy.isAllowed('https://example.com/files/report.pdf')).toBe(false);
+    expect(policy.isAllowed('https://example.com/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('falls back to the * group and lets Allow win a tie', () => {
+    const policy = new RobotsPolicy(parseRobotsTxt(`${robotsTxt}\nUser-agent: *\nAllow: /private/`), 'Mozilla/5.0');
+
+    expect(policy.crawlDelaySeconds).toBe(2);
+    expect(policy.isAllowed('https://example.com/private/page')).toBe(true);
+    expect(policy.isAllowed('https://example.com/drafts/post')).toBe(true);
+    expect(RobotsPolicy.ALLOW_ALL.isAllowed('https://example.com/anything')).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface ParsedRobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// RFC 9309 lets crawlers stop parsing after 500 KiB.
+export const MAX_ROBOTS_TXT_BYTES = 500 * 1024;
+
+/** Parse robots.txt into user-agent groups and `Sitemap:` directives. Unknown lines are ignored. */
+export function parseRobotsTxt(text: string): ParsedRobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.slice(0, MAX_ROBOTS_TXT_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group.
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        // An empty Disallow allows everything, which is already the default.
+        if (current && value) {
+          current.rules.push({ allow: field === 'allow', path: value });
+        }
+        break;
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = Number.parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelaySeconds = delay;
+        }
+        break;
+      }
+      case 'sitemap':
+        if (value) {
+          sitemaps.push(value);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+function matchesRulePath(rulePath: string, target: string): boolean {
+  const anchored = rulePath.endsWith('$');
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(target);
+}
+
+/**
+ * The rules from one robots.txt that apply to one user agent, following RFC 9309: the
+ * groups naming the agent's product token (or `*` when none do) are merged, the longest
+ * matching rule decides, and Allow wins a tie.
+ */
+export class RobotsPolicy {
+  static readonly ALLOW_ALL = new RobotsPolicy({ groups: [], sitemaps: [] }, '*');
+
+  private readonly rules: RobotsRule[];
+  readonly crawlDelaySeconds: number | undefined;
+  readonly sitemaps: string[];
+
+  constructor(robots: ParsedRobotsTxt, userAgent: string) {
+    const token = RobotsPolicy.getProductToken(userAgent);
+    const named = robots.groups.filter((group) => group.userAgents.includes(token));
+    const applicable = named.length > 0
+      ? named
+      : robots.groups.filter((group) => group.userAgents.includes('*'));
+    const delays = applicable
+      .map((group) => group.crawlDelaySeconds)
+      .filter((delay): delay is number => delay !== undefined);
+
+    this.rules = applicable.flatMap((group) => group.rules);
+    this.crawlDelaySeconds = delays.length > 0 ? Math.max(...delays) : undefined;
+    this.sitemaps = robots.sitemaps;
+  }
+
+  /** `MultiSiteBackup/1.0 (Cloudflare Worker)` -> `multisitebackup` */
+  static getProductToken(userAgent: string): string {
+    return (userAgent.trim().split(/[\s/]/)[0] || '*').toLowerCase();
+  }
+
+  isAllowed(url: string): boolean {
+    let target: string;
+    try {
+      const parsed = new URL(url);
+      target = parsed.pathname + parsed.search;
+    } catch {
+      return true;
+    }
+
+    if (target === '/robots.txt') {
+      return true;
+    }
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!matchesRulePath(rule.path, target)) {
+        continue;
+      }
+
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow && !best.allow)
+      ) {
+        best = rule;
+      }
+    }
+
+    return best?.allow ?? true;
+  }
+}
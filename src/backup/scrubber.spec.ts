@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { encodeBackupContent } from '../runtime/content-storage';
+import { createPayloadStore } from '../runtime/payload-store';
+import { SharedPayloadStore } from '../runtime/shared-payloads';
+import { LegalHoldError, LegalHoldStore } from './legal-hold';
+import { IntegrityScrubber, ScrubActionError, ScrubFinding } from './scrubber';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+async function sha256(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function storeShared(kv: KVNamespace, date: string, urlHash: string, content: string): Promise<string> {
+  const hash = await sha256(content);
+  const payload = await new SharedPayloadStore(kv, createPayloadStore(kv)).store('site', date, urlHash, content, hash);
+  await kv.put(`meta:site:${date}:${urlHash}`, JSON.stringify({ url: `https://example.com/${urlHash}`, hash, ...payload }));
+  return hash;
+}
+
+async function storeLegacy(kv: KVNamespace, date: string, urlHash: string, content: string, storedContent?: string) {
+  const encoded = await encodeBackupContent(content);
+  await kv.put(`backup:site:${date}:${urlHash}`, storedContent ?? encoded.storedContent);
+  await kv.put(`meta:site:${date}:${urlHash}`, JSON.stringify({
+    url: `https://example.com/${urlHash}`,
+    hash: await sha256(content),
+    contentEncoding: encoded.encoding
+  }));
+}
+
+function findingFor(findings: ScrubFinding[], kind: ScrubFinding['kind'], urlHash: string): ScrubFinding {
+  const finding = findings.find((candidate) => candidate.kind === kind && candidate.urlHash === urlHash);
+  expect(finding, `${kind} for ${urlHash}`).toBeDefined();
+  return finding!;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('IntegrityScrubber', () => {
+  it('finds damaged backups and orphans in both directions, then repairs or quarantines them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-03-10T00:00:00.000Z') });
+    const kv = createMockKV();
+    const aaaa = await storeShared(kv, '2026-03-01', 'aaaa', '<p>a</p>');
+    await storeShared(kv, '2026-03-02', 'aaaa', '<p>a</p>');
+    await storeLegacy(kv, '2026-03-01', 'bbbb', '<p>b</p>', (await encodeBackupContent('<p>edited</p>')).storedContent);
+    await storeLegacy(kv, '2026-03-01', 'cccc', '<p>c</p>', 'not gzip');
+    const dddd = await storeShared(kv, '2026-03-01', 'dddd', '<p>d</p>');
+    kv.store.delete(`payload:site:dddd:${dddd}`);
+    const eeee = await storeShared(kv, '2026-03-01', 'eeee', '<p>e</p>');
+    kv.store.delete(`payload_ref:site:eeee:${eeee}`);
+    const aaaaRef = JSON.parse(kv.store.get(`payload_ref:site:aaaa:${aaaa}`)!);
+    kv.store.set(`payload_ref:site:aaaa:${aaaa}`, JSON.stringify({ ...aaaaRef, dates: ['2026-02-28', ...aaaaRef.dates] }));
+    kv.store.set('payload:site:ffff:0123', 'stray');
+    kv.store.set('backup:site:2026-03-01:gggg', 'stray');
+
+    const scrubber = new IntegrityScrubber(kv);
+    const first = await scrubber.scrubSite('site');
+    expect(first.passCompleted).toBe(true);
+
+    const findings = await scrubber.listFindings('site');
+    expect(findings.map(({ kind, key }) => `${kind} ${key}`).sort()).toEqual([
+      `dangling_reference payload_ref:site:aaaa:${aaaa}`,
+      'hash_mismatch meta:site:2026-03-01:bbbb',
+      'missing_payload meta:site:2026-03-01:dddd',
+      'missing_reference meta:site:2026-03-01:eeee',
+      'orphaned_payload backup:site:2026-03-01:gggg',
+      `orphaned_payload payload:site:eeee:${eeee}`,
+      'orphaned_payload payload:site:ffff:0123',
+      'undecodable_payload meta:site:2026-03-01:cccc'
+    ]);
+    expect(first.state.openFindings).toBe(8);
+
+    await scrubber.repair('site', findingFor(findings, 'missing_reference', 'eeee').id, 'ops');
+    expect(JSON.parse(kv.store.get(`payload_ref:site:eeee:${eeee}`)!).dates).toEqual(['2026-03-01']);
+    await scrubber.repair('site', findingFor(findings, 'dangling_reference', 'aaaa').id, 'ops');
+    expect(JSON.parse(kv.store.get(`payload_ref:site:aaaa:${aaaa}`)!).dates).toEqual(['2026-03-01', '2026-03-02']);
+    const stray = findings.find((finding) => finding.key === 'payload:site:ffff:0123')!;
+    expect(await scrubber.repair('site', stray.id, 'ops')).toMatchObject({ status: 'repaired', resolvedBy: 'ops' });
+    expect(kv.store.has('payload:site:ffff:0123')).toBe(false);
+
+    const quarantined = await scrubber.quarantine('site', findingFor(findings, 'hash_mismatch', 'bbbb').id, 'ops');
+    expect(kv.store.has('meta:site:2026-03-01:bbbb')).toBe(false);
+    expect(kv.store.has('backup:site:2026-03-01:bbbb')).toBe(false);
+    expect(JSON.parse(kv.store.get(quarantined!.quarantineKey!)!).payload).toBe((await encodeBackupContent('<p>edited</p>')).storedContent);
+
+    await expect(scrubber.repair('site', findingFor(findings, 'undecodable_payload', 'cccc').id, 'ops')).rejects.toBeInstanceOf(ScrubActionError);
+    await new LegalHoldStore(kv).create('site', { reason: 'Dispute 42', createdBy: 'legal', snapshots: [{ date: '2026-03-01', urlHash: 'dddd' }] });
+    await expect(scrubber.quarantine('site', findingFor(findings, 'missing_payload', 'dddd').id, 'ops')).rejects.toBeInstanceOf(LegalHoldError);
+    expect(await scrubber.repair('site', 'unknown', 'ops')).toBeNull();
+
+    // The next pass drops the orphan the reference repair resolved and keeps what is still wrong
+    vi.setSystemTime(new Date('2026-03-11T00:00:00.000Z'));
+    const nextTick = new IntegrityScrubber(kv);
+    const second = await nextTick.scrubSite('site');
+    expect(second.state.openFindings).toBe(3);
+    expect((await nextTick.listFindings('site', 'open')).map((finding) => finding.kind).sort()).toEqual([
+      'missing_payload',
+      'orphaned_payload',
+      'undecodable_payload'
+    ]);
+  });
+
+  it('refuses to quarantine a backup the latest or previous pointer still points at', async () => {
+    const kv = createMockKV();
+    await storeLegacy(kv, '2026-03-01', 'aaaa', '<p>a</p>', (await encodeBackupContent('<p>edited</p>')).storedContent);
+    kv.store.set('latest:site:aaaa', JSON.stringify({ timestamp: '2026-03-01T02:00:00.000Z' }));
+
+    const scrubber = new IntegrityScrubber(kv);
+    await scrubber.scrubSite('site');
+    const finding = findingFor(await scrubber.listFindings('site'), 'hash_mismatch', 'aaaa');
+
+    await expect(scrubber.quarantine('site', finding.id, 'ops')).rejects.toThrow("aaaa on 2026-03-01 is its URL's latest pointer");
+    expect(kv.store.has('meta:site:2026-03-01:aaaa')).toBe(true);
+    expect(Array.from(kv.store.keys()).some((key) => key.startsWith('quarantine:'))).toBe(false);
+
+    // Once two newer backups have moved both pointers on, it can go
+    kv.store.set('prev_latest:site:aaaa', JSON.stringify({ timestamp: '2026-03-02T02:00:00.000Z' }));
+    kv.store.set('latest:site:aaaa', JSON.stringify({ timestamp: '2026-03-03T02:00:00.000Z' }));
+    expect(await scrubber.quarantine('site', finding.id, 'ops')).toMatchObject({ status: 'quarantined' });
+    expect(kv.store.has('meta:site:2026-03-01:aaaa')).toBe(false);
+  });
+
+  it('refuses to quarantine an orphaned payload a later backup of the same content refers to', async () => {
+    const kv = createMockKV();
+    const hash = await sha256('<p>h</p>');
+    kv.store.set(`payload:site:hhhh:${hash}`, '<p>h</p>');
+
+    const scrubber = new IntegrityScrubber(kv);
+    await scrubber.scrubSite('site');
+    const finding = (await scrubber.listFindings('site')).find((candidate) => candidate.kind === 'orphaned_payload')!;
+    expect(finding.key).toBe(`payload:site:hhhh:${hash}`);
+
+    await storeShared(kv, '2026-03-02', 'hhhh', '<p>h</p>');
+    await expect(scrubber.quarantine('site', finding.id, 'ops')).rejects.toThrow('is referenced again');
+    expect(kv.store.has(`payload:site:hhhh:${hash}`)).toBe(true);
+    expect(Array.from(kv.store.keys()).some((key) => key.startsWith('quarantine:'))).toBe(false);
+  });
+
+  it('resumes a pass across ticks and waits a day before the next one', async () => {
+    const kv = createMockKV();
+    for (const urlHash of ['aaaa', 'bbbb', 'cccc']) {
+      await storeLegacy(kv, '2026-03-01', urlHash, `<p>${urlHash}</p>`);
+    }
+
+    const [first] = await new IntegrityScrubber(kv, undefined, { subrequests: 20 }).runTick(['site']);
+    expect(first.passCompleted).toBe(false);
+    expect(first.state.phase).not.toBe('metadata');
+
+    const [second] = await new IntegrityScrubber(kv).runTick(['site']);
+    // Three backups and their three payloads, each checked once
+    expect(second).toMatchObject({ passCompleted: true, findings: 0, state: { checkedKeys: 6, phase: 'complete' } });
+
+    expect(await new IntegrityScrubber(kv).runTick(['site'])).toEqual([]);
+  });
+});
@@ -0,0 +1,698 @@
+import { decodeBackupContentStrict } from '../runtime/content-storage';
+import { KVListResult } from '../runtime/kv-types';
+import { PayloadStore, createPayloadStore, getLegacyKvPayloadKey } from '../runtime/payload-store';
+import { PayloadRefRecord, SharedPayloadStore, getPayloadRefKey } from '../runtime/shared-payloads';
+import { BackupMetadata } from '../types/site';
+import { ExecutionBudget, ExecutionBudgetLimits, meterKVNamespace, meterR2Bucket } from './budget';
+import { LegalHoldError, LegalHoldStore, findLegalHold } from './legal-hold';
+import { RetentionPlanner } from './retention';
+
+// A site's next pass starts this long after its previous one started
+export const SCRUB_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Reserved out of each cron tick for the scrubber, which runs after the backup jobs; passes resume on the next tick
+export const SCRUB_TICK_LIMITS: ExecutionBudgetLimits = { wallClockMs: 10_000, subrequests: 100 };
+
+// Checking a backup reads its metadata, payload and payload references, and may write a finding
+const SCRUB_SUBREQUEST_ESTIMATE = 5;
+const SCRUB_LIST_LIMIT = 100;
+// The site the last tick worked on, where the next tick starts
+const SCRUB_CURSOR_KEY = 'scrub_cursor';
+
+export type ScrubFindingKind =
+  | 'unreadable_metadata'  // the `meta:` entry is not valid JSON
+  | 'missing_payload'      // the payload the metadata points at is not stored
+  | 'undecodable_payload'  // the payload does not decode with its content encoding
+  | 'hash_mismatch'        // the decoded payload does not hash to `metadata.hash`
+  | 'missing_reference'    // the backup uses a shared payload whose reference list does not name its date
+  | 'dangling_reference'   // a reference list names a date whose backup does not use the payload
+  | 'orphaned_payload';    // a payload no backup or reference list points at
+
+export type ScrubFindingStatus = 'open' | 'repaired' | 'quarantined';
+
+/** `scrub_finding:{siteId}:{id}`; the id is stable, so a problem seen again updates one finding. */
+export interface ScrubFinding {
+  id: string;
+  siteId: string;
+  kind: ScrubFindingKind;
+  // The KV key the finding is about, or the R2 object key when `storage` is r2
+  key: string;
+  storage: 'kv' | 'r2';
+  date?: string;
+  urlHash?: string;
+  detail: string;
+  status: ScrubFindingStatus;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  // Where a quarantined backup or payload was moved
+  quarantineKey?: string;
+}
+
+type ObservedFinding = Pick<ScrubFinding, 'kind' | 'key' | 'storage' | 'detail' | 'date' | 'urlHash'>;
+
+export type ScrubPhase = 'metadata' | 'references' | 'kv_payloads' | 'legacy_payloads' | 'r2_payloads' | 'findings';
+
+const SCRUB_PHASES: ScrubPhase[] = ['metadata', 'references', 'kv_payloads', 'legacy_payloads', 'r2_payloads', 'findings'];
+
+/** `scrub_state:{siteId}`: how far the site's current pass has got. */
+export interface ScrubState {
+  siteId: string;
+  passStartedAt: string;
+  phase: ScrubPhase | 'complete';
+  // Where the phase's listing resumes: the page's cursor and the last key checked on it
+  listCursor: string | null;
+  lastKey: string | null;
+  checkedKeys: number;
+  // Open findings still seen, counted once the pass reaches its findings phase
+  openFindings: number;
+  lastCompletedAt: string | null;
+  updatedAt: string;
+}
+
+export interface ScrubRunResult {
+  siteId: string;
+  state: ScrubState;
+  // Findings recorded or seen again in this run
+  findings: number;
+  passCompleted: boolean;
+}
+
+/** Thrown when a finding cannot be repaired or quarantined as asked; nothing was changed. */
+export class ScrubActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScrubActionError';
+  }
+}
+
+function getStateKey(siteId: string): string {
+  return `scrub_state:${siteId}`;
+}
+
+function getFindingKey(siteId: string, id: string): string {
+  return `scrub_finding:${siteId}:${id}`;
+}
+
+function getQuarantineKey(siteId: string, id: string): string {
+  return `quarantine:${siteId}:${id}`;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The payload hash `raw` metadata points at: null when it has none, undefined when unreadable. */
+function readPayloadHash(raw: string): string | null | undefined {
+  try {
+    return (JSON.parse(raw) as Partial<BackupMetadata>).payloadHash ?? null;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks a site's stored backups a few at a time, across cron ticks: every `meta:` entry has
+ * a payload that decodes and hashes to `metadata.hash`, payload reference lists and the
+ * backups using them agree, and no payload in KV or R2 is left without a backup. Problems
+ * are recorded as findings, which an operator repairs or quarantines.
+ */
+export class IntegrityScrubber {
+  private kv: KVNamespace;
+  private storage?: R2Bucket;
+  private payloads: PayloadStore;
+  private shared: SharedPayloadStore;
+  private budget: ExecutionBudget;
+  private findingsSeen = 0;
+
+  constructor(kv: KVNamespace, storage?: R2Bucket, limits?: Partial<ExecutionBudgetLimits>) {
+    this.budget = new ExecutionBudget(limits);
+    this.kv = meterKVNamespace(kv, () => this.budget.recordSubrequests());
+    this.storage = storage && meterR2Bucket(storage, () => this.budget.recordSubrequests());
+    this.payloads = createPayloadStore(this.kv, this.storage);
+    this.shared = new SharedPayloadStore(this.kv, this.payloads);
+  }
+
+  /**
+   * Scrub due sites until the budget runs low, starting with the one the last tick stopped
+   * in. A site is due when it has never been scrubbed, its pass is unfinished, or its last
+   * pass started `SCRUB_INTERVAL_MS` ago.
+   */
+  async runTick(siteIds: string[], now: Date = new Date()): Promise<ScrubRunResult[]> {
+    const results: ScrubRunResult[] = [];
+    const start = Math.max(siteIds.indexOf(await this.kv.get(SCRUB_CURSOR_KEY) ?? ''), 0);
+    const ordered = [...siteIds.slice(start), ...siteIds.slice(0, start)];
+
+    for (const siteId of ordered) {
+      if (!this.budget.canAfford(SCRUB_SUBREQUEST_ESTIMATE * 2, 500)) {
+        this.budget.markStopped();
+        break;
+      }
+
+      const state = await this.getState(siteId);
+      if (state?.phase === 'complete' && now.getTime() - Date.parse(state.passStartedAt) < SCRUB_INTERVAL_MS) {
+        continue;
+      }
+
+      await this.kv.put(SCRUB_CURSOR_KEY, siteId);
+      const result = await this.scrubSite(siteId, state);
+      results.push(result);
+      if (!result.passCompleted) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /** Continue the site's pass, or start a new one if the last finished, until it ends or the budget runs low. */
+  async scrubSite(siteId: string, current?: ScrubState | null): Promise<ScrubRunResult> {
+    let state = current === undefined ? await this.getState(siteId) : current;
+    if (!state || state.phase === 'complete') {
+      const now = new Date().toISOString();
+      state = {
+        siteId,
+        passStartedAt: now,
+        phase: SCRUB_PHASES[0],
+        listCursor: null,
+        lastKey: null,
+        checkedKeys: 0,
+        openFindings: 0,
+        lastCompletedAt: state?.lastCompletedAt ?? null,
+        updatedAt: now
+      };
+    }
+
+    const findingsBefore = this.findingsSeen;
+    const pass = state;
+    while (pass.phase !== 'complete') {
+      const phase: ScrubPhase = pass.phase;
+      const finished = await this.scanPhase(pass, phase);
+      if (!finished) {
+        break;
+      }
+
+      const next = SCRUB_PHASES[SCRUB_PHASES.indexOf(phase) + 1];
+      pass.phase = next ?? 'complete';
+      pass.listCursor = null;
+      pass.lastKey = null;
+      if (!next) {
+        pass.lastCompletedAt = new Date().toISOString();
+      }
+    }
+
+    pass.updatedAt = new Date().toISOString();
+    await this.kv.put(getStateKey(siteId), JSON.stringify(pass));
+    return {
+      siteId,
+      state: pass,
+      findings: this.findingsSeen - findingsBefore,
+      passCompleted: pass.phase === 'complete'
+    };
+  }
+
+  async getState(siteId: string): Promise<ScrubState | null> {
+    const raw = await this.kv.get(getStateKey(siteId));
+    return raw ? JSON.parse(raw) as ScrubState : null;
+  }
+
+  async getFinding(siteId: string, id: string): Promise<ScrubFinding | null> {
+    const raw = await this.kv.get(getFindingKey(siteId, id));
+    return raw ? JSON.parse(raw) as ScrubFinding : null;
+  }
+
+  /** The site's findings, most recently seen first, optionally only those with `status`. */
+  async listFindings(siteId: string, status?: ScrubFindingStatus): Promise<ScrubFinding[]> {
+    const findings: ScrubFinding[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: `scrub_finding:${siteId}:`, limit: 1000, cursor }) as KVListResult;
+      for (const key of list.keys) {
+        const raw = await this.kv.get(key.name);
+        if (!raw) {
+          continue;
+        }
+
+        try {
+          const finding = JSON.parse(raw) as ScrubFinding;
+          if (!status || finding.status === status) {
+            findings.push(finding);
+          }
+        } catch (error) {
+          console.error(`Failed to parse scrub finding ${key.name}:`, error);
+        }
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return findings.sort((left, right) => right.lastSeenAt.localeCompare(left.lastSeenAt));
+  }
+
+  /**
+   * Fix an open finding in place: add or drop the payload reference, delete the orphaned
+   * payload, or point a legacy backup whose own copy is damaged at an intact shared copy of
+   * the same content. Returns null when the site has no such finding.
+   */
+  async repair(siteId: string, findingId: string, requestedBy: string): Promise<ScrubFinding | null> {
+    const finding = await this.getOpenFinding(siteId, findingId);
+    if (!finding) {
+      return null;
+    }
+
+    switch (finding.kind) {
+      case 'missing_reference':
+        await this.restoreReference(finding);
+        break;
+      case 'dangling_reference':
+        await this.dropReference(finding);
+        break;
+      case 'orphaned_payload':
+        if (await this.isOrphanedPayload(siteId, finding.storage, finding.key)) {
+          await (finding.storage === 'r2' ? this.storage?.delete(finding.key) : this.kv.delete(finding.key));
+        }
+        break;
+      case 'missing_payload':
+      case 'undecodable_payload':
+      case 'hash_mismatch':
+        await this.relinkIntactCopy(finding);
+        break;
+      case 'unreadable_metadata':
+        throw new ScrubActionError('Unreadable metadata cannot be repaired; quarantine the backup instead');
+    }
+
+    return this.resolve(finding, 'repaired', requestedBy);
+  }
+
+  /**
+   * Move a damaged backup or orphaned payload out of service into
+   * `quarantine:{siteId}:{findingId}` (R2 payloads to `{siteId}/quarantine/{findingId}`),
+   * keeping its bytes for inspection. Backups under a legal hold are refused with a
+   * `LegalHoldError`; backups a `latest:` or `prev_latest:` pointer still points at, and
+   * payloads a backup refers to again, with a `ScrubActionError`. Returns null when the site
+   * has no such finding.
+   */
+  async quarantine(siteId: string, findingId: string, requestedBy: string): Promise<ScrubFinding | null> {
+    const finding = await this.getOpenFinding(siteId, findingId);
+    if (!finding) {
+      return null;
+    }
+    if (finding.kind === 'missing_reference' || finding.kind === 'dangling_reference') {
+      throw new ScrubActionError('Payload reference findings are repaired, not quarantined');
+    }
+
+    const quarantineKey = getQuarantineKey(siteId, finding.id);
+    const quarantinedAt = new Date().toISOString();
+
+    if (finding.kind === 'orphaned_payload') {
+      // Payload keys are content-addressed, so a later backup of the same content may use it again
+      if (!(await this.isOrphanedPayload(siteId, finding.storage, finding.key))) {
+        throw new ScrubActionError(`${finding.key} is referenced again since the scrub found it; repair the finding to close it`);
+      }
+      if (finding.storage === 'r2') {
+        const objectKey = `${siteId}/quarantine/${finding.id}`;
+        const object = await this.storage?.get(finding.key);
+        if (object) {
+          await this.storage?.put(objectKey, await object.arrayBuffer(), { httpMetadata: object.httpMetadata });
+        }
+        await this.kv.put(quarantineKey, JSON.stringify({ finding, quarantinedAt, quarantinedBy: requestedBy, objectKey }));
+        await this.storage?.delete(finding.key);
+      } else {
+        const payload = await this.kv.get(finding.key);
+        await this.kv.put(quarantineKey, JSON.stringify({ finding, quarantinedAt, quarantinedBy: requestedBy, payload }));
+        await this.kv.delete(finding.key);
+      }
+      return this.resolve(finding, 'quarantined', requestedBy, quarantineKey);
+    }
+
+    const date = finding.date ?? '';
+    const urlHash = finding.urlHash ?? '';
+    const hold = findLegalHold(await new LegalHoldStore(this.kv).list(siteId), date, urlHash);
+    if (hold) {
+      throw new LegalHoldError(`The backup of ${urlHash} on ${date} is under a legal hold`, [hold]);
+    }
+    // `latest:` and `prev_latest:` must not point at a backup that is gone
+    const pointer = (await new RetentionPlanner(this.kv).getPointerDates(siteId, urlHash)).get(date);
+    if (pointer) {
+      throw new ScrubActionError(
+        `The backup of ${urlHash} on ${date} is its URL's ${pointer} pointer; quarantine it once newer backups replace it`
+      );
+    }
+
+    const metadataRaw = await this.kv.get(finding.key);
+    let metadata: BackupMetadata | null = null;
+    try {
+      metadata = metadataRaw ? JSON.parse(metadataRaw) as BackupMetadata : null;
+    } catch {
+      // kept as the raw string
+    }
+
+    let payload: string | null = null;
+    try {
+      payload = await this.payloads.get(siteId, date, urlHash, metadata);
+    } catch (error) {
+      console.error(`Failed to read the payload of ${finding.key} for quarantine:`, error);
+    }
+
+    // The copy goes first, so nothing is removed without one
+    await this.kv.put(quarantineKey, JSON.stringify({
+      finding,
+      quarantinedAt,
+      quarantinedBy: requestedBy,
+      metadata: metadataRaw,
+      payload
+    }));
+    await this.shared.release(siteId, date, urlHash, metadata);
+    await this.kv.delete(finding.key);
+
+    return this.resolve(finding, 'quarantined', requestedBy, quarantineKey);
+  }
+
+  private async scanPhase(state: ScrubState, phase: ScrubPhase): Promise<boolean> {
+    const siteId = state.siteId;
+    switch (phase) {
+      case 'metadata':
+        return this.scanKeys(state, 'kv', `meta:${siteId}:`, (key) => this.checkMetadata(siteId, key));
+      case 'references':
+        return this.scanKeys(state, 'kv', `payload_ref:${siteId}:`, (key) => this.checkReferences(siteId, key));
+      case 'kv_payloads':
+        return this.scanKeys(state, 'kv', `payload:${siteId}:`, (key) => this.checkPayload(siteId, 'kv', key));
+      case 'legacy_payloads':
+        return this.scanKeys(state, 'kv', `backup:${siteId}:`, (key) => this.checkPayload(siteId, 'kv', key));
+      case 'r2_payloads':
+        return !this.storage || this.scanKeys(state, 'r2', `${siteId}/payloads/`, (key) => this.checkPayload(siteId, 'r2', key));
+      case 'findings':
+        return this.scanKeys(state, 'kv', `scrub_finding:${siteId}:`, (key) => this.settleFinding(state, key));
+    }
+  }
+
+  /** Run `check` on each listed key after the state's position; false when the budget ran out first. */
+  private async scanKeys(
+    state: ScrubState,
+    source: 'kv' | 'r2',
+    prefix: string,
+    check: (key: string) => Promise<void>
+  ): Promise<boolean> {
+    do {
+      const page = await this.listPage(source, prefix, state.listCursor ?? undefined);
+      for (const key of page.keys) {
+        if (state.lastKey !== null && key <= state.lastKey) {
+          continue;
+        }
+        if (!this.budget.canAfford(SCRUB_SUBREQUEST_ESTIMATE, 200)) {
+          this.budget.markStopped();
+          return false;
+        }
+
+        await check(key);
+        state.lastKey = key;
+        state.checkedKeys++;
+      }
+      state.listCursor = page.cursor;
+      state.lastKey = null;
+    } while (state.listCursor);
+
+    return true;
+  }
+
+  private async listPage(source: 'kv' | 'r2', prefix: string, cursor?: string): Promise<{ keys: string[]; cursor: string | null }> {
+    if (source === 'r2' && this.storage) {
+      const list = await this.storage.list({ prefix, cursor, limit: SCRUB_LIST_LIMIT });
+      return { keys: list.objects.map((object) => object.key), cursor: list.truncated ? list.cursor : null };
+    }
+
+    const list = await this.kv.list({ prefix, cursor, limit: SCRUB_LIST_LIMIT }) as KVListResult;
+    return { keys: list.keys.map((key) => key.name), cursor: list.list_complete ? null : list.cursor ?? null };
+  }
+
+  private async checkMetadata(siteId: string, key: string): Promise<void> {
+    const [date, urlHash] = key.slice(`meta:${siteId}:`.length).split(':');
+    const raw = await this.kv.get(key);
+    if (raw === null) {
+      return;
+    }
+
+    let metadata: BackupMetadata;
+    try {
+      metadata = JSON.parse(raw) as BackupMetadata;
+    } catch (error) {
+      await this.recordFinding(siteId, {
+        kind: 'unreadable_metadata', key, storage: 'kv', date, urlHash, detail: `Metadata is not valid JSON: ${describeError(error)}`
+      });
+      return;
+    }
+
+    if (metadata.payloadHash) {
+      const record = await this.shared.getReference(siteId, urlHash, metadata.payloadHash);
+      if (!record?.dates.includes(date)) {
+        await this.recordFinding(siteId, {
+          kind: 'missing_reference',
+          key,
+          storage: 'kv',
+          date,
+          urlHash,
+          detail: record
+            ? `${getPayloadRefKey(siteId, urlHash, metadata.payloadHash)} does not list ${date}`
+            : `${getPayloadRefKey(siteId, urlHash, metadata.payloadHash)} is missing, so the payload could be deleted while in use`
+        });
+      }
+    }
+
+    const problem = await this.inspectPayload(siteId, date, urlHash, metadata);
+    if (problem) {
+      await this.recordFinding(siteId, { ...problem, key, storage: 'kv', date, urlHash });
+    }
+  }
+
+  private async checkReferences(siteId: string, key: string): Promise<void> {
+    const [urlHash, contentHash] = key.slice(`payload_ref:${siteId}:`.length).split(':');
+    const record = await this.shared.getReference(siteId, urlHash, contentHash);
+
+    for (const date of record?.dates ?? []) {
+      const raw = await this.kv.get(`meta:${siteId}:${date}:${urlHash}`);
+      // Unreadable metadata is a finding of its own
+      const payloadHash = raw === null ? null : readPayloadHash(raw);
+      if (payloadHash !== undefined && payloadHash !== contentHash) {
+        await this.recordFinding(siteId, {
+          kind: 'dangling_reference',
+          key,
+          storage: 'kv',
+          date,
+          urlHash,
+          detail: raw === null
+            ? `Lists ${date}, which has no backup, so the payload is never released`
+            : `Lists ${date}, whose backup uses another payload`
+        });
+      }
+    }
+  }
+
+  private async checkPayload(siteId: string, storage: 'kv' | 'r2', key: string): Promise<void> {
+    if (await this.isOrphanedPayload(siteId, storage, key)) {
+      await this.recordFinding(siteId, {
+        kind: 'orphaned_payload', key, storage, detail: 'No backup or payload reference points at this payload'
+      });
+    }
+  }
+
+  /** Whether nothing refers to a stored payload; payloads whose owner is unreadable are not orphans. */
+  private async isOrphanedPayload(siteId: string, storage: 'kv' | 'r2', key: string): Promise<boolean> {
+    if (key.startsWith(`backup:${siteId}:`)) {
+      const [date, urlHash] = key.slice(`backup:${siteId}:`.length).split(':');
+      const raw = await this.kv.get(`meta:${siteId}:${date}:${urlHash}`);
+      if (raw === null) {
+        return true;
+      }
+      try {
+        // Backups with a storage key read their payload from there, not this per-date copy
+        return Boolean((JSON.parse(raw) as Partial<BackupMetadata>).storageKey);
+      } catch {
+        return false;
+      }
+    }
+
+    const [urlHash, contentHash] = storage === 'r2'
+      ? key.slice(`${siteId}/payloads/`.length).replace(/\.html(?:\.gz)?$/, '').split('/')
+      : key.slice(`payload:${siteId}:`.length).split(':');
+    const raw = await this.kv.get(getPayloadRefKey(siteId, urlHash, contentHash));
+    if (raw === null) {
+      return true;
+    }
+    try {
+      return (JSON.parse(raw) as PayloadRefRecord).storageKey !== key;
+    } catch {
+      return false;
+    }
+  }
+
+  /** What is wrong with a backup's payload, or null when it decodes and hashes to `metadata.hash`. */
+  private async inspectPayload(
+    siteId: string,
+    date: string,
+    urlHash: string,
+    metadata: BackupMetadata
+  ): Promise<Pick<ScrubFinding, 'kind' | 'detail'> | null> {
+    const location = metadata.storageKey ?? getLegacyKvPayloadKey(siteId, date, urlHash);
+    let stored: string | null;
+    try {
+      stored = await this.payloads.get(siteId, date, urlHash, metadata);
+    } catch (error) {
+      return { kind: 'missing_payload', detail: `${location} could not be read: ${describeError(error)}` };
+    }
+    if (stored === null) {
+      return { kind: 'missing_payload', detail: `${location} is not stored` };
+    }
+
+    let content: string;
+    try {
+      content = await decodeBackupContentStrict(stored, metadata.contentEncoding);
+    } catch (error) {
+      return { kind: 'undecodable_payload', detail: `${location} does not decode as ${metadata.contentEncoding}: ${describeError(error)}` };
+    }
+
+    if (metadata.hash && await this.sha256(content) !== metadata.hash) {
+      return { kind: 'hash_mismatch', detail: `${location} does not hash to ${metadata.hash}` };
+    }
+    return null;
+  }
+
+  /** Drop open findings this pass did not see again, since their problem is gone, and count the rest. */
+  private async settleFinding(state: ScrubState, key: string): Promise<void> {
+    const raw = await this.kv.get(key);
+    if (!raw) {
+      return;
+    }
+
+    const finding = JSON.parse(raw) as ScrubFinding;
+    if (finding.status !== 'open') {
+      return;
+    }
+    if (finding.lastSeenAt < state.passStartedAt) {
+      await this.kv.delete(key);
+    } else {
+      state.openFindings++;
+    }
+  }
+
+  private async recordFinding(siteId: string, observed: ObservedFinding): Promise<void> {
+    const id = (await this.sha256(`${observed.kind}|${observed.key}|${observed.date ?? ''}`)).slice(0, 16);
+    const existing = await this.getFinding(siteId, id);
+    const now = new Date().toISOString();
+    const finding: ScrubFinding = {
+      ...observed,
+      id,
+      siteId,
+      status: 'open',
+      firstSeenAt: existing?.status === 'open' ? existing.firstSeenAt : now,
+      lastSeenAt: now
+    };
+
+    await this.kv.put(getFindingKey(siteId, id), JSON.stringify(finding));
+    this.findingsSeen++;
+  }
+
+  private async getOpenFinding(siteId: string, id: string): Promise<ScrubFinding | null> {
+    const finding = await this.getFinding(siteId, id);
+    if (finding && finding.status !== 'open') {
+      throw new ScrubActionError(`Finding ${id} is already ${finding.status}`);
+    }
+    return finding;
+  }
+
+  private async resolve(
+    finding: ScrubFinding,
+    status: ScrubFindingStatus,
+    resolvedBy: string,
+    quarantineKey?: string
+  ): Promise<ScrubFinding> {
+    const resolved: ScrubFinding = {
+      ...finding,
+      status,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy,
+      ...(quarantineKey && { quarantineKey })
+    };
+    await this.kv.put(getFindingKey(finding.siteId, finding.id), JSON.stringify(resolved));
+    return resolved;
+  }
+
+  private async readFindingMetadata(finding: ScrubFinding): Promise<BackupMetadata | null> {
+    const raw = await this.kv.get(`meta:${finding.siteId}:${finding.date}:${finding.urlHash}`);
+    return raw ? JSON.parse(raw) as BackupMetadata : null;
+  }
+
+  private async restoreReference(finding: ScrubFinding): Promise<void> {
+    const { siteId, date = '', urlHash = '' } = finding;
+    const metadata = await this.readFindingMetadata(finding);
+    if (!metadata?.payloadHash) {
+      return;
+    }
+    if (!metadata.storageBackend || !metadata.storageKey || !metadata.contentEncoding
+      || await this.payloads.get(siteId, date, urlHash, metadata) === null) {
+      throw new ScrubActionError('The payload is missing as well; quarantine the backup instead');
+    }
+
+    await this.shared.addReference(siteId, date, urlHash, {
+      payloadHash: metadata.payloadHash,
+      storageBackend: metadata.storageBackend,
+      storageKey: metadata.storageKey,
+      contentEncoding: metadata.contentEncoding
+    });
+  }
+
+  private async dropReference(finding: ScrubFinding): Promise<void> {
+    const { siteId, date = '', urlHash = '' } = finding;
+    const contentHash = finding.key.split(':').pop() ?? '';
+    const raw = await this.kv.get(`meta:${siteId}:${date}:${urlHash}`);
+    const payloadHash = raw === null ? null : readPayloadHash(raw);
+    // The backup may have been fixed, or become unreadable, since the finding was recorded
+    if (payloadHash === undefined || payloadHash === contentHash) {
+      return;
+    }
+
+    await this.shared.release(siteId, date, urlHash, { payloadHash: contentHash });
+  }
+
+  /**
+   * Point a backup whose own copy predates shared payloads, and is damaged, at the shared
+   * payload with the same content, after checking that copy. The damaged copy is left for
+   * the next pass to report as orphaned.
+   */
+  private async relinkIntactCopy(finding: ScrubFinding): Promise<void> {
+    const { siteId, date = '', urlHash = '' } = finding;
+    const metadata = await this.readFindingMetadata(finding);
+    const record = metadata && !metadata.payloadHash && metadata.hash
+      ? await this.shared.getReference(siteId, urlHash, metadata.hash)
+      : null;
+    if (!metadata || !record) {
+      throw new ScrubActionError('No intact copy of this backup is stored; quarantine it instead');
+    }
+
+    const relinked: BackupMetadata = {
+      ...metadata,
+      payloadHash: metadata.hash,
+      storageBackend: record.storageBackend,
+      storageKey: record.storageKey,
+      contentEncoding: record.contentEncoding
+    };
+    if (await this.inspectPayload(siteId, date, urlHash, relinked)) {
+      throw new ScrubActionError('No intact copy of this backup is stored; quarantine it instead');
+    }
+
+    await this.shared.addReference(siteId, date, urlHash, {
+      payloadHash: metadata.hash,
+      storageBackend: record.storageBackend,
+      storageKey: record.storageKey,
+      contentEncoding: record.contentEncoding
+    });
+    await this.kv.put(finding.key, JSON.stringify(relinked));
+  }
+
+  private async sha256(content: string): Promise<string> {
+    const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(buffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
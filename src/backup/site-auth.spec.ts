@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { toPublicSiteConfig } from '../sites/public-config';
+import { SiteConfig } from '../types/site';
+import { BackupFetcher } from './fetcher';
+import { createSiteAuthSession, restoreRedactedSiteAuth } from './site-auth';
+
+function createMockKV(initial: Record<string, string> = {}) {
+  const store = new Map<string, string>(Object.entries(initial));
+  const ttls = new Map<string, number | undefined>();
+
+  const kv = {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string, options?: { expirationTtl?: number }) => {
+      store.set(key, value);
+      ttls.set(key, options?.expirationTtl);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn(() => Promise.resolve({ keys: [], list_complete: true }))
+  } as unknown as KVNamespace;
+
+  return { kv, store, ttls };
+}
+
+function createSite(overrides: Partial<SiteConfig> = {}): SiteConfig {
+  return {
+    id: 'members',
+    name: 'Members',
+    baseUrl: 'https://example.com',
+    urls: ['https://example.com/account'],
+    retentionDays: 7,
+    schedule: '0 2 * * *',
+    fetchOptions: { timeout: 10000, retries: 0, concurrency: 1 },
+    changeThreshold: {},
+    auth: {
+      type: 'form',
+      loginUrl: 'https://example.com/login',
+      username: 'monitor',
+      password: { secret: 'SITE_SECRET_MEMBERS_PASSWORD' },
+      sessionCookie: 'sid'
+    },
+    ...overrides
+  };
+}
+
+/** Origin that accepts only the newest session and sends everything else to /login. */
+function stubMembersOrigin() {
+  let sessions = 0;
+  const logins: string[] = [];
+
+  const fetchSpy = vi.fn((input: string | Request | URL, init?: { method?: string; body?: string; headers?: Record<string, string> }) => {
+    const url = typeof input === 'string' ? input : (input as Request).url ?? String(input);
+
+    if (url === 'https://example.com/login' && init?.method === 'POST') {
+      logins.push(init.body ?? '');
+      sessions++;
+      return Promise.resolve(new Response(null, {
+        status: 302,
+        headers: { location: '/account', 'set-cookie': `sid=s${sessions}; Path=/; Max-Age=1800; HttpOnly` }
+      }));
+    }
+
+    if (init?.headers?.Cookie === `sid=s${sessions}`) {
+      return Promise.resolve(new Response('<html><body>account</body></html>', { status: 200 }));
+    }
+
+    return Promise.resolve(new Response(null, { status: 302, headers: { location: '/login?next=%2Faccount' } }));
+  });
+  vi.stubGlobal('fetch', fetchSpy);
+
+  return { fetchSpy, logins };
+}
+
+describe('site auth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('logs in with the form, caches the session cookie with its TTL and reuses it', async () => {
+    const { logins } = stubMembersOrigin();
+    const { kv, store, ttls } = createMockKV();
+    const site = createSite();
+    const secrets = { SITE_SECRET_MEMBERS_PASSWORD: 'hunter2' };
+
+    const first = await new BackupFetcher(kv).performSiteBackup(site, {
+      auth: createSiteAuthSession(kv, site, secrets)
+    });
+
+    expect(first.successfulBackups).toBe(1);
+    expect(logins).toEqual(['username=monitor&password=hunter2']);
+    expect(JSON.parse(store.get('auth_session:members') as string)).toMatchObject({ cookie: 'sid=s1' });
+    expect(ttls.get('auth_session:members')).toBe(1800);
+
+    await new BackupFetcher(kv).performSiteBackup(site, { auth: createSiteAuthSession(kv, site, secrets) });
+    expect(logins).toHaveLength(1);
+  });
+
+  it('logs in again when the cached session is redirected to the login page', async () => {
+    const { fetchSpy, logins } = stubMembersOrigin();
+    const stale = JSON.stringify({ cookie: 'sid=stale', expiresAt: '2999-01-01T00:00:00.000Z' });
+    const { kv, store } = createMockKV({ 'auth_session:members': stale });
+    const site = createSite();
+
+    const result = await new BackupFetcher(kv).performSiteBackup(site, {
+      auth: createSiteAuthSession(kv, site, { SITE_SECRET_MEMBERS_PASSWORD: 'hunter2' })
+    });
+
+    expect(result.successfulBackups).toBe(1);
+    expect(logins).toHaveLength(1);
+    expect(JSON.parse(store.get('auth_session:members') as string).cookie).toBe('sid=s1');
+    // The login and the session's KV reads and writes are counted with the page requests
+    const kvOperations = ['get', 'put', 'delete', 'list']
+      .reduce((total, method) => total + vi.mocked(kv[method as keyof KVNamespace] as () => unknown).mock.calls.length, 0);
+    expect(result.budget.subrequests).toBe(fetchSpy.mock.calls.length + kvOperations);
+  });
+
+  it('sends Basic credentials and reports a rejected login without retrying', async () => {
+    const fetchSpy = vi.fn((_input: string, init?: { headers?: Record<string, string> }) =>
+      Promise.resolve(new Response(null, { status: init?.headers?.Authorization === 'Basic dXNlcjpww6Rzcw==' ? 401 : 500 }))
+    );
+    vi.stubGlobal('fetch', fetchSpy);
+    const { kv } = createMockKV();
+    const site = createSite({ auth: { type: 'basic', username: 'user', password: 'päss' }, respectRobots: false });
+
+    const result = await new BackupFetcher(kv).performSiteBackup(site, { auth: createSiteAuthSession(kv, site, {}) });
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(result.errors).toEqual(['Authentication rejected for https://example.com/account (HTTP 401)']);
+  });
+
+  it('never exposes credentials in the public config and keeps them when the placeholder is saved back', () => {
+    const site = createSite({ auth: { type: 'bearer', token: 'staging-token' } });
+    const publicConfig = toPublicSiteConfig(site);
+
+    expect(JSON.stringify(publicConfig)).not.toContain('staging-token');
+    expect(publicConfig.auth).toEqual({ type: 'bearer', token: '[redacted]' });
+    expect(restoreRedactedSiteAuth(publicConfig.auth!, site.auth)).toEqual(site.auth);
+    expect(toPublicSiteConfig(createSite()).auth).toMatchObject({
+      username: '[redacted]',
+      password: { secret: 'SITE_SECRET_MEMBERS_PASSWORD' }
+    });
+  });
+});
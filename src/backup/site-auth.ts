@@ -0,0 +1,368 @@
+import { FormLoginAuthConfig, RequestValue, SiteAuthConfig, SiteConfig } from '../types/site';
+import { meterKVNamespace } from './budget';
+import {
+  DEFAULT_USER_AGENT,
+  REDACTED_VALUE,
+  SecretBindings,
+  redactValue,
+  resolveRequestValue,
+  validateRequestValue
+} from './request-headers';
+
+/**
+ * Supplies credentials for a site's requests. The fetcher asks for headers before each
+ * request, and calls `renew` when the origin answers 401 or redirects to the login page.
+ */
+export interface SiteAuthSession {
+  getHeaders(): Promise<Record<string, string>>;
+  isLoginRedirect(url: string): boolean;
+  /** Re-authenticate after `rejected` headers were refused. Returns false when retrying cannot help. */
+  renew(rejected: Record<string, string>): Promise<boolean>;
+  /** Report the session's own fetches and KV operations to the run's budget. */
+  meterSubrequests(onSubrequest: () => void): void;
+}
+
+interface StoredSession {
+  cookie: string;
+  expiresAt: string;
+}
+
+const FIELD_NAME_PATTERN = /^[A-Za-z0-9_.:[\]-]+$/;
+
+function buildSessionKey(siteId: string): string {
+  return `auth_session:${siteId}`;
+}
+
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+function encodeBase64(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
+
+function readSetCookieHeaders(headers: Headers): string[] {
+  const withSetCookie = headers as Headers & { getSetCookie?: () => string[] };
+  if (typeof withSetCookie.getSetCookie === 'function') {
+    return withSetCookie.getSetCookie();
+  }
+
+  // Split a folded header on commas that start a new cookie, not the ones inside Expires dates.
+  const combined = headers.get('set-cookie');
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/) : [];
+}
+
+function parseSetCookie(raw: string, now: number): { name: string; pair: string; ttlSeconds?: number } | null {
+  const [pair, ...attributes] = raw.split(';').map((part) => part.trim());
+  const separator = pair.indexOf('=');
+  if (separator <= 0) {
+    return null;
+  }
+
+  let ttlSeconds: number | undefined;
+  for (const attribute of attributes) {
+    const [name, value = ''] = attribute.split('=', 2);
+    if (name.toLowerCase() === 'max-age' && /^-?\d+$/.test(value)) {
+      ttlSeconds = Number.parseInt(value, 10);
+    } else if (name.toLowerCase() === 'expires' && ttlSeconds === undefined) {
+      const expiresAt = Date.parse(value);
+      if (Number.isFinite(expiresAt)) {
+        ttlSeconds = Math.floor((expiresAt - now) / 1000);
+      }
+    }
+  }
+
+  return { name: pair.slice(0, separator), pair, ttlSeconds };
+}
+
+class StaticAuthSession implements SiteAuthSession {
+  private readonly headers: Record<string, string>;
+
+  constructor(headers: Record<string, string>) {
+    this.headers = headers;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return this.headers;
+  }
+
+  isLoginRedirect(): boolean {
+    return false;
+  }
+
+  async renew(): Promise<boolean> {
+    return false;
+  }
+
+  meterSubrequests(): void {
+    // Static credentials cost no requests of their own
+  }
+}
+
+/**
+ * Logs in by POSTing the configured form and reuses the session cookie it sets. The cookie
+ * is cached in KV (`auth_session:{siteId}`) until it expires, so later runs and overlapping
+ * ticks share one session instead of logging in on every invocation.
+ */
+export class FormLoginSession implements SiteAuthSession {
+  static readonly DEFAULT_SESSION_TTL_SECONDS = 3600;
+  // KV rejects an expirationTtl below 60 seconds
+  static readonly MIN_SESSION_TTL_SECONDS = 60;
+
+  private readonly kv: KVNamespace;
+  private readonly siteId: string;
+  private readonly auth: FormLoginAuthConfig;
+  private readonly secrets: SecretBindings;
+  private readonly baseHeaders: Record<string, string>;
+  private cookie: string | null = null;
+  private pendingLogin: Promise<string> | null = null;
+  private onSubrequest: () => void = () => undefined;
+
+  constructor(
+    kv: KVNamespace,
+    siteId: string,
+    auth: FormLoginAuthConfig,
+    secrets: SecretBindings,
+    baseHeaders: Record<string, string> = {}
+  ) {
+    this.kv = meterKVNamespace(kv, () => this.onSubrequest());
+    this.siteId = siteId;
+    this.auth = auth;
+    this.secrets = secrets;
+    this.baseHeaders = baseHeaders;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { Cookie: await this.getCookie() };
+  }
+
+  isLoginRedirect(url: string): boolean {
+    const target = new URL(url);
+    if (this.auth.loginPathPattern) {
+      return new RegExp(this.auth.loginPathPattern).test(target.pathname + target.search);
+    }
+
+    const login = new URL(this.auth.loginUrl);
+    return target.origin === login.origin && target.pathname === login.pathname;
+  }
+
+  meterSubrequests(onSubrequest: () => void): void {
+    this.onSubrequest = onSubrequest;
+  }
+
+  async renew(rejected: Record<string, string>): Promise<boolean> {
+    // Another request already replaced the session this one was sent with.
+    if (this.cookie && rejected.Cookie !== undefined && !rejected.Cookie.includes(this.cookie)) {
+      return true;
+    }
+
+    this.cookie = null;
+    await this.kv.delete(buildSessionKey(this.siteId));
+    await this.logIn();
+    return true;
+  }
+
+  private async getCookie(): Promise<string> {
+    if (this.cookie) {
+      return this.cookie;
+    }
+
+    const raw = await this.kv.get(buildSessionKey(this.siteId));
+    if (raw) {
+      try {
+        const stored = JSON.parse(raw) as StoredSession;
+        if (new Date(stored.expiresAt).getTime() > Date.now()) {
+          this.cookie = stored.cookie;
+          return stored.cookie;
+        }
+      } catch (error) {
+        console.error(`Failed to parse cached session for ${this.siteId}:`, error);
+      }
+    }
+
+    return this.logIn();
+  }
+
+  private logIn(): Promise<string> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.performLogin().finally(() => {
+        this.pendingLogin = null;
+      });
+    }
+
+    return this.pendingLogin;
+  }
+
+  private async performLogin(): Promise<string> {
+    const now = Date.now();
+    const form = new URLSearchParams({
+      ...this.auth.extraFields,
+      [this.auth.usernameField ?? 'username']: resolveRequestValue(this.auth.username, this.secrets, 'auth.username'),
+      [this.auth.passwordField ?? 'password']: resolveRequestValue(this.auth.password, this.secrets, 'auth.password')
+    });
+
+    this.onSubrequest();
+    const response = await fetch(this.auth.loginUrl, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: {
+        'User-Agent': DEFAULT_USER_AGENT,
+        ...this.baseHeaders,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form.toString(),
+      signal: AbortSignal.timeout(10000)
+    });
+
+    // Only the status is reported: the response may echo the submitted credentials.
+    if (response.status >= 400) {
+      throw new Error(`Form login for ${this.siteId} failed with HTTP ${response.status}`);
+    }
+
+    const cookies = readSetCookieHeaders(response.headers)
+      .map((raw) => parseSetCookie(raw, now))
+      .filter((cookie): cookie is NonNullable<typeof cookie> => cookie !== null && (cookie.ttlSeconds ?? 1) > 0);
+
+    if (cookies.length === 0 || (this.auth.sessionCookie && !cookies.some((cookie) => cookie.name === this.auth.sessionCookie))) {
+      throw new Error(`Form login for ${this.siteId} did not set ${this.auth.sessionCookie ?? 'a session cookie'}`);
+    }
+
+    const cookieTtls = cookies.map((cookie) => cookie.ttlSeconds).filter((ttl): ttl is number => ttl !== undefined);
+    const ttlSeconds = Math.max(
+      FormLoginSession.MIN_SESSION_TTL_SECONDS,
+      cookieTtls.length > 0
+        ? Math.min(...cookieTtls)
+        : this.auth.sessionTtlSeconds ?? FormLoginSession.DEFAULT_SESSION_TTL_SECONDS
+    );
+    const cookie = cookies.map((entry) => entry.pair).join('; ');
+    const stored: StoredSession = { cookie, expiresAt: new Date(now + ttlSeconds * 1000).toISOString() };
+
+    await this.kv.put(buildSessionKey(this.siteId), JSON.stringify(stored), { expirationTtl: ttlSeconds });
+    this.cookie = cookie;
+    return cookie;
+  }
+}
+
+/** Build the auth session for a site, or undefined when it needs none. */
+export function createSiteAuthSession(
+  kv: KVNamespace,
+  siteConfig: SiteConfig,
+  secrets: SecretBindings,
+  baseHeaders: Record<string, string> = {}
+): SiteAuthSession | undefined {
+  const auth = siteConfig.auth;
+
+  switch (auth?.type) {
+    case 'basic': {
+      const username = resolveRequestValue(auth.username, secrets, 'auth.username');
+      const password = resolveRequestValue(auth.password, secrets, 'auth.password');
+      return new StaticAuthSession({ Authorization: `Basic ${encodeBase64(`${username}:${password}`)}` });
+    }
+    case 'bearer':
+      return new StaticAuthSession({ Authorization: `Bearer ${resolveRequestValue(auth.token, secrets, 'auth.token')}` });
+    case 'form':
+      return new FormLoginSession(kv, siteConfig.id, auth, secrets, baseHeaders);
+    default:
+      return undefined;
+  }
+}
+
+export function validateSiteAuth(auth: SiteAuthConfig, baseUrl: string): string[] {
+  const errors: string[] = [];
+  const checkValue = (value: RequestValue | undefined, label: string) => {
+    const error = value === undefined ? `${label} is required` : validateRequestValue(value, label);
+    if (error) {
+      errors.push(error);
+    }
+  };
+
+  switch (auth.type) {
+    case 'basic':
+      checkValue(auth.username, 'auth.username');
+      checkValue(auth.password, 'auth.password');
+      break;
+    case 'bearer':
+      checkValue(auth.token, 'auth.token');
+      break;
+    case 'form': {
+      checkValue(auth.username, 'auth.username');
+      checkValue(auth.password, 'auth.password');
+
+      try {
+        const loginUrl = new URL(auth.loginUrl);
+        if (!['http:', 'https:'].includes(loginUrl.protocol)) {
+          errors.push('auth.loginUrl must be a valid HTTP/HTTPS URL');
+        } else if (loginUrl.origin !== getOrigin(baseUrl)) {
+          errors.push('auth.loginUrl must be on the same origin as baseUrl');
+        }
+      } catch {
+        errors.push('auth.loginUrl must be a valid HTTP/HTTPS URL');
+      }
+
+      for (const field of [auth.usernameField, auth.passwordField, ...Object.keys(auth.extraFields ?? {})]) {
+        if (field !== undefined && !FIELD_NAME_PATTERN.test(field)) {
+          errors.push(`Invalid login form field name: ${field}`);
+        }
+      }
+
+      if (auth.loginPathPattern !== undefined) {
+        try {
+          new RegExp(auth.loginPathPattern);
+        } catch {
+          errors.push(`Invalid auth.loginPathPattern: ${auth.loginPathPattern}`);
+        }
+      }
+
+      if (
+        auth.sessionTtlSeconds !== undefined &&
+        (!Number.isInteger(auth.sessionTtlSeconds) ||
+          auth.sessionTtlSeconds < FormLoginSession.MIN_SESSION_TTL_SECONDS ||
+          auth.sessionTtlSeconds > 30 * 24 * 3600)
+      ) {
+        errors.push(`auth.sessionTtlSeconds must be between ${FormLoginSession.MIN_SESSION_TTL_SECONDS} and 2592000`);
+      }
+      break;
+    }
+    default:
+      errors.push('auth.type must be one of basic, bearer or form');
+  }
+
+  return errors;
+}
+
+/** The auth block with literal credentials replaced by the redaction placeholder. */
+export function redactSiteAuth(auth: SiteAuthConfig): SiteAuthConfig {
+  switch (auth.type) {
+    case 'bearer':
+      return { ...auth, token: redactValue(auth.token) };
+    default:
+      return { ...auth, username: redactValue(auth.username), password: redactValue(auth.password) };
+  }
+}
+
+/** Restore credentials a client submitted as the redaction placeholder from the stored auth block. */
+export function restoreRedactedSiteAuth(incoming: SiteAuthConfig, existing?: SiteAuthConfig): SiteAuthConfig {
+  if (!existing || existing.type !== incoming.type) {
+    return incoming;
+  }
+
+  const restore = (value: RequestValue, previous: RequestValue) => value === REDACTED_VALUE ? previous : value;
+
+  if (incoming.type === 'bearer' && existing.type === 'bearer') {
+    return { ...incoming, token: restore(incoming.token, existing.token) };
+  }
+
+  if (incoming.type !== 'bearer' && existing.type !== 'bearer') {
+    return {
+      ...incoming,
+      username: restore(incoming.username, existing.username),
+      password: restore(incoming.password, existing.password)
+    };
+  }
+
+  return incoming;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SitemapDeltaStore, diffSitemapSnapshots, mergeSitemapChange } from './sitemap-delta';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace;
+}
+
+describe('diffSitemapSnapshots', () => {
+  it('splits new URLs into added and re-added and lists removals', () => {
+    expect(diffSitemapSnapshots(
+      ['https://example.com/a', 'https://example.com/b'],
+      ['https://example.com/a', 'https://example.com/c', 'https://example.com/old'],
+      new Set(['https://example.com/old'])
+    )).toEqual({
+      added: ['https://example.com/c'],
+      removed: ['https://example.com/b'],
+      readded: ['https://example.com/old']
+    });
+  });
+});
+
+describe('mergeSitemapChange', () => {
+  it('keeps the latest event for each URL within a day', () => {
+    const morning = mergeSitemapChange(null, {
+      added: ['https://example.com/a'],
+      removed: ['https://example.com/b'],
+      readded: []
+    }, '2026-03-05');
+
+    const evening = mergeSitemapChange(morning, {
+      added: [],
+      removed: ['https://example.com/a'],
+      readded: ['https://example.com/b']
+    }, '2026-03-05');
+
+    expect(evening).toMatchObject({
+      date: '2026-03-05',
+      added: [],
+      removed: ['https://example.com/a'],
+      readded: ['https://example.com/b']
+    });
+    expect(evening.truncated).toBeUndefined();
+  });
+});
+
+describe('SitemapDeltaStore', () => {
+  it('stores deltas per day, lists them newest first and remembers removed URLs', async () => {
+    const kv = createMockKV();
+    const store = new SitemapDeltaStore(kv);
+
+    await store.record('site', { added: [], removed: ['https://example.com/gone'], readded: [] }, 7, new Date('2026-03-04T10:00:00Z'));
+    await store.record('site', { added: [], removed: [], readded: ['https://example.com/gone'] }, 7, new Date('2026-03-05T10:00:00Z'));
+
+    expect((await store.list('site', 30)).map((delta) => delta.date)).toEqual(['2026-03-05', '2026-03-04']);
+    expect((await store.list('site', 1)).map((delta) => delta.date)).toEqual(['2026-03-05']);
+    expect(await store.loadRemovedUrls('site')).toEqual(new Set());
+    expect(kv.put).toHaveBeenCalledWith('sitemap_delta:site:2026-03-04', expect.any(String), { expirationTtl: 7 * 86400 });
+  });
+});
@@ -0,0 +1,193 @@
+import { KVListResult } from '../runtime/kv-types';
+import { SitemapDelta } from '../types/site';
+import { LegalHold, findLegalHoldForDate } from './legal-hold';
+
+/** URLs that entered or left the sitemap between two listener snapshots. */
+export interface SitemapChange {
+  added: string[];
+  removed: string[];
+  // Added URLs that had been removed from the sitemap earlier
+  readded: string[];
+}
+
+// Keeps a day's record bounded when a sitemap is replaced wholesale.
+const MAX_DELTA_URLS_PER_LIST = 5000;
+// Removed URLs are remembered this long so a return can be reported as re-added.
+const REMOVED_URL_TTL = 90 * 24 * 3600; // 90d
+const MAX_REMOVED_URLS = 100_000;
+
+export function isEmptySitemapChange(change: SitemapChange): boolean {
+  return change.added.length === 0 && change.removed.length === 0 && change.readded.length === 0;
+}
+
+/**
+ * Compare two snapshot URL sets. URLs new to `current` count as re-added when they appear
+ * in `previouslyRemoved`.
+ */
+export function diffSitemapSnapshots(
+  previous: Iterable<string>,
+  current: Iterable<string>,
+  previouslyRemoved: ReadonlySet<string> = new Set()
+): SitemapChange {
+  const previousUrls = new Set(previous);
+  const currentUrls = new Set(current);
+  const change: SitemapChange = { added: [], removed: [], readded: [] };
+
+  for (const url of currentUrls) {
+    if (!previousUrls.has(url)) {
+      (previouslyRemoved.has(url) ? change.readded : change.added).push(url);
+    }
+  }
+  for (const url of previousUrls) {
+    if (!currentUrls.has(url)) {
+      change.removed.push(url);
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Fold a refresh's change into the record for its day. A URL keeps only its latest event,
+ * so one removed and re-added within the day is listed once, as re-added.
+ */
+export function mergeSitemapChange(
+  existing: SitemapDelta | null,
+  change: SitemapChange,
+  date: string,
+  now: Date = new Date()
+): SitemapDelta {
+  const events = new Map<string, keyof SitemapChange>();
+  for (const kind of ['added', 'removed', 'readded'] as const) {
+    for (const url of existing?.[kind] ?? []) events.set(url, kind);
+  }
+  for (const kind of ['added', 'removed', 'readded'] as const) {
+    for (const url of change[kind]) {
+      events.delete(url);
+      events.set(url, kind);
+    }
+  }
+
+  const merged: SitemapChange = { added: [], removed: [], readded: [] };
+  for (const [url, kind] of events) {
+    merged[kind].push(url);
+  }
+
+  const truncated = Boolean(existing?.truncated) ||
+    merged.added.length > MAX_DELTA_URLS_PER_LIST ||
+    merged.removed.length > MAX_DELTA_URLS_PER_LIST ||
+    merged.readded.length > MAX_DELTA_URLS_PER_LIST;
+
+  return {
+    date,
+    added: merged.added.slice(0, MAX_DELTA_URLS_PER_LIST),
+    removed: merged.removed.slice(0, MAX_DELTA_URLS_PER_LIST),
+    readded: merged.readded.slice(0, MAX_DELTA_URLS_PER_LIST),
+    ...(truncated && { truncated }),
+    updatedAt: now.toISOString()
+  };
+}
+
+/**
+ * Per-day sitemap deltas (`sitemap_delta:{siteId}:{date}`) and the URLs removed from a
+ * site's sitemap (`sitemap_removed:{siteId}`), which re-additions are detected against.
+ */
+export class SitemapDeltaStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async loadRemovedUrls(siteId: string): Promise<Set<string>> {
+    const raw = await this.kv.get(`sitemap_removed:${siteId}`);
+    if (!raw) return new Set();
+    try {
+      const parsed = JSON.parse(raw);
+      return new Set(Array.isArray(parsed) ? parsed.filter((url) => typeof url === 'string') : []);
+    } catch {
+      return new Set();
+    }
+  }
+
+  /**
+   * Store a refresh's change: fold it into today's delta and update the removed-URL list.
+   * Deltas expire with the site's backups; a null `retentionDays` keeps the day's delta for
+   * a legal hold, until retention cleanup removes it after the hold is released.
+   */
+  async record(
+    siteId: string,
+    change: SitemapChange,
+    retentionDays: number | null,
+    now: Date = new Date()
+  ): Promise<SitemapDelta> {
+    const date = now.toISOString().split('T')[0];
+    const delta = mergeSitemapChange(await this.get(siteId, date), change, date, now);
+    await this.kv.put(
+      `sitemap_delta:${siteId}:${date}`,
+      JSON.stringify(delta),
+      retentionDays === null ? undefined : { expirationTtl: Math.max(1, retentionDays) * 86400 }
+    );
+
+    if (change.removed.length > 0 || change.readded.length > 0) {
+      const removedUrls = await this.loadRemovedUrls(siteId);
+      for (const url of change.readded) removedUrls.delete(url);
+      for (const url of change.removed) removedUrls.add(url);
+      // Oldest removals are forgotten first
+      const bounded = Array.from(removedUrls).slice(-MAX_REMOVED_URLS);
+      await this.kv.put(`sitemap_removed:${siteId}`, JSON.stringify(bounded), { expirationTtl: REMOVED_URL_TTL });
+    }
+
+    return delta;
+  }
+
+  async get(siteId: string, date: string): Promise<SitemapDelta | null> {
+    const raw = await this.kv.get(`sitemap_delta:${siteId}:${date}`);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as SitemapDelta;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Stored deltas, newest day first. */
+  async list(siteId: string, limit: number): Promise<SitemapDelta[]> {
+    const prefix = `sitemap_delta:${siteId}:`;
+    const dates: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix, cursor }) as KVListResult;
+      dates.push(...page.keys.map((key) => key.name.slice(prefix.length)));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const deltas = await Promise.all(
+      dates.sort().reverse().slice(0, limit).map((date) => this.get(siteId, date))
+    );
+    return deltas.filter((delta): delta is SitemapDelta => delta !== null);
+  }
+
+  /**
+   * Delete deltas dated before `before` that no legal hold covers: the ones kept for a hold
+   * that has since been released. Returns how many were deleted.
+   */
+  async prune(siteId: string, before: string, holds: LegalHold[]): Promise<number> {
+    const prefix = `sitemap_delta:${siteId}:`;
+    let deleted = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix, cursor }) as KVListResult;
+      for (const { name } of page.keys) {
+        const date = name.slice(prefix.length);
+        if (date < before && !findLegalHoldForDate(holds, date)) {
+          await this.kv.delete(name);
+          deleted++;
+        }
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return deleted;
+  }
+}
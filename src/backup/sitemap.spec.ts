@@ -0,0 +1,56 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { parseSitemapContent, readSitemapBody } from './sitemap';
+
+describe('sitemap formats', () => {
+  it('reads RSS 2.0 and Atom feeds as page entries dated by the feed', () => {
+    const rss = parseSitemapContent(`<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>News</title>
+  <item><link>https://example.com/news/1</link><pubDate>Tue, 03 Mar 2026 10:00:00 GMT</pubDate></item>
+  <item><link>https://example.com/news/2</link></item>
+</channel></rss>`);
+    const atom = parseSitemapContent(`<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <link rel="edit" href="https://example.com/api/posts/1"/>
+    <link href="https://example.com/posts/1"/>
+    <updated>2026-03-04T08:30:00Z</updated>
+  </entry>
+</feed>`);
+
+    expect(rss).toEqual({
+      format: 'rss',
+      entries: [
+        { loc: 'https://example.com/news/1', lastmod: '2026-03-03T10:00:00.000Z' },
+        { loc: 'https://example.com/news/2', lastmod: undefined }
+      ],
+      sitemaps: []
+    });
+    expect(atom?.entries).toEqual([{ loc: 'https://example.com/posts/1', lastmod: '2026-03-04T08:30:00.000Z' }]);
+  });
+
+  it('reads plain-text sitemaps and rejects content that is not a sitemap', () => {
+    expect(parseSitemapContent('\uFEFFhttps://example.com/a\r\n\r\nhttps://example.com/b\n')?.entries).toEqual([
+      { loc: 'https://example.com/a' },
+      { loc: 'https://example.com/b' }
+    ]);
+    expect(parseSitemapContent('Service unavailable, try again later')).toBeNull();
+    expect(parseSitemapContent('<!DOCTYPE html><html><body>Not found</body></html>')).toBeNull();
+  });
+
+  it('inflates gzipped bodies by sniffing the content rather than the extension', async () => {
+    const xml = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/pages.txt</loc></sitemap>
+</sitemapindex>`;
+    const response = new Response(gzipSync(xml), { headers: { 'Content-Type': 'application/octet-stream' } });
+
+    const body = await readSitemapBody(response);
+
+    expect(body).toBe(xml);
+    expect(parseSitemapContent(body)).toEqual({
+      format: 'sitemapindex',
+      entries: [],
+      sitemaps: ['https://example.com/pages.txt']
+    });
+  });
+});
@@ -1,6 +1,186 @@
 import { XMLParser } from 'fast-xml-parser';
 import { UrlEntry, SitemapParseResult } from '../types/backup';
 
+export type SitemapFormat = 'urlset' | 'sitemapindex' | 'rss' | 'atom' | 'text';
+
+export interface ParsedSitemapDocument {
+  format: SitemapFormat;
+  /** Page entries; empty for a sitemap index. */
+  entries: UrlEntry[];
+  /** Child sitemap locations; only set for a sitemap index. */
+  sitemaps: string[];
+}
+
+// sitemaps.org limits an uncompressed sitemap to 50 MB; anything larger is refused
+// rather than inflated into memory.
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function readText(value: unknown): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const text = String(value).trim();
+    return text || undefined;
+  }
+
+  // Elements with attributes parse to objects holding their text under `#text`.
+  if (value && typeof value === 'object' && '#text' in value) {
+    return readText((value as Record<string, unknown>)['#text']);
+  }
+
+  return undefined;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : value;
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw new Error(`Sitemap exceeds ${MAX_SITEMAP_BYTES} bytes when decompressed`);
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
+
+/**
+ * Read a sitemap response body as text. Bodies that start with the gzip magic bytes are
+ * inflated, whatever the URL extension or content type says: servers label `.xml.gz` files
+ * inconsistently, and a body already decoded via Content-Encoding arrives as plain text.
+ */
+export async function readSitemapBody(response: Response): Promise<string> {
+  let bytes: Uint8Array = new Uint8Array(await response.arrayBuffer());
+  if (isGzip(bytes)) {
+    bytes = await gunzip(bytes);
+  }
+  if (bytes.byteLength > MAX_SITEMAP_BYTES) {
+    throw new Error(`Sitemap exceeds ${MAX_SITEMAP_BYTES} bytes`);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function parseXmlSitemap(xmlText: string): ParsedSitemapDocument | null {
+  let document: Record<string, any>;
+  try {
+    document = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' }).parse(xmlText);
+  } catch {
+    return null;
+  }
+
+  if (document.urlset) {
+    const entries = toArray<Record<string, unknown>>(document.urlset.url)
+      .map((entry): UrlEntry | null => {
+        const loc = readText(entry.loc);
+        if (!loc) {
+          return null;
+        }
+        const priority = readText(entry.priority);
+        return {
+          loc,
+          lastmod: readText(entry.lastmod),
+          changefreq: readText(entry.changefreq),
+          priority: priority !== undefined ? Number.parseFloat(priority) : undefined
+        };
+      })
+      .filter((entry): entry is UrlEntry => entry !== null);
+    return { format: 'urlset', entries, sitemaps: [] };
+  }
+
+  if (document.sitemapindex) {
+    const sitemaps = toArray<Record<string, unknown>>(document.sitemapindex.sitemap)
+      .map((entry) => readText(entry.loc))
+      .filter((loc): loc is string => loc !== undefined);
+    return { format: 'sitemapindex', entries: [], sitemaps };
+  }
+
+  // RSS 2.0: each item's <link>, dated by <pubDate>.
+  if (document.rss) {
+    const entries = toArray<Record<string, unknown>>(document.rss.channel?.item)
+      .map((item): UrlEntry | null => {
+        const loc = readText(item.link);
+        return loc ? { loc, lastmod: toIsoDate(readText(item.pubDate)) } : null;
+      })
+      .filter((entry): entry is UrlEntry => entry !== null);
+    return { format: 'rss', entries, sitemaps: [] };
+  }
+
+  // Atom 0.3/1.0: each entry's alternate <link href>, dated by <updated> (or <modified> in 0.3).
+  if (document.feed) {
+    const entries = toArray<Record<string, unknown>>(document.feed.entry)
+      .map((entry): UrlEntry | null => {
+        const links = toArray<Record<string, unknown>>(entry.link as Record<string, unknown> | undefined);
+        const link = links.find((candidate) => (candidate['@_rel'] ?? 'alternate') === 'alternate') ?? links[0];
+        const loc = readText(link?.['@_href']);
+        return loc ? { loc, lastmod: toIsoDate(readText(entry.updated ?? entry.modified)) } : null;
+      })
+      .filter((entry): entry is UrlEntry => entry !== null);
+    return { format: 'atom', entries, sitemaps: [] };
+  }
+
+  return null;
+}
+
+/**
+ * Parse any sitemap format sitemaps.org allows: an XML urlset or sitemap index, an RSS 2.0
+ * or Atom feed, or a plain-text file with one URL per line. The format is sniffed from the
+ * content. Returns null for content that is none of these, such as an HTML error page.
+ */
+export function parseSitemapContent(text: string): ParsedSitemapDocument | null {
+  const content = text.replace(/^\uFEFF/, '').trim();
+
+  if (content.startsWith('<')) {
+    return parseXmlSitemap(content);
+  }
+
+  const lines = content.split(/\r\n|\r|\n/).map((line) => line.trim()).filter(Boolean);
+  const entries = lines.filter(isHttpUrl).map((loc) => ({ loc }));
+  if (lines.length > 0 && entries.length === 0) {
+    return null;
+  }
+
+  return { format: 'text', entries, sitemaps: [] };
+}
+
 export class SitemapParser {
   static async parseSitemap(sitemapUrl: string): Promise<SitemapParseResult> {
     try {
@@ -19,139 +199,73 @@ export class SitemapParser {
         };
       }
 
-      const contentType = response.headers.get('content-type') || '';
-      if (!contentType.includes('xml')) {
-        return {
-          urls: [],
-          error: `Invalid content type: ${contentType}`
-        };
-      }
-
-      const xmlText = await response.text();
-      
-      if (!xmlText.trim().startsWith('<?xml') && !xmlText.trim().startsWith('<urlset') && !xmlText.trim().startsWith('<sitemapindex')) {
+      const document = parseSitemapContent(await readSitemapBody(response));
+      if (!document) {
         return {
           urls: [],
-          error: 'Invalid XML format'
+          error: 'Unrecognized sitemap format'
         };
       }
 
-      const lastModified = response.headers.get('last-modified');
-
-      if (xmlText.includes('<sitemapindex')) {
-        return await this.parseSitemapIndex(xmlText, sitemapUrl);
-      } else {
-        return this.parseUrlSet(xmlText);
+      if (document.format === 'sitemapindex') {
+        return await this.parseSitemapIndex(document.sitemaps);
       }
 
-    } catch (error) {
-      return {
-        urls: [],
-        error: `Sitemap parsing error: ${error instanceof Error ? error.message : String(error)}`
-      };
-    }
-  }
-
-  private static parseUrlSet(xmlText: string): SitemapParseResult {
-    try {
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_',
-        textNodeName: '_text'
-      });
-
-      const result = parser.parse(xmlText);
-      
-      if (!result.urlset || !result.urlset.url) {
+      if (document.entries.length === 0) {
         return {
           urls: [],
           error: 'No URLs found in sitemap'
         };
       }
 
-      const urlEntries = Array.isArray(result.urlset.url) 
-        ? result.urlset.url 
-        : [result.urlset.url];
-
-      const urls: UrlEntry[] = urlEntries
-        .filter((entry: any) => entry.loc)
-        .map((entry: any) => ({
-          loc: entry.loc.trim(),
-          lastmod: entry.lastmod,
-          changefreq: entry.changefreq,
-          priority: entry.priority ? parseFloat(entry.priority) : undefined
-        }));
-
       return {
-        urls,
-        lastModified: undefined
+        urls: document.entries,
+        lastModified: response.headers.get('last-modified') || undefined
       };
 
     } catch (error) {
       return {
         urls: [],
-        error: `URL set parsing error: ${error instanceof Error ? error.message : String(error)}`
+        error: `Sitemap parsing error: ${error instanceof Error ? error.message : String(error)}`
       };
     }
   }
 
-  private static async parseSitemapIndex(xmlText: string, baseUrl: string): Promise<SitemapParseResult> {
-    try {
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_',
-        textNodeName: '_text'
-      });
+  private static async parseSitemapIndex(sitemapUrls: string[]): Promise<SitemapParseResult> {
+    if (sitemapUrls.length === 0) {
+      return {
+        urls: [],
+        error: 'No sitemaps found in sitemap index'
+      };
+    }
 
-      const result = parser.parse(xmlText);
-      
-      if (!result.sitemapindex || !result.sitemapindex.sitemap) {
-        return {
-          urls: [],
-          error: 'No sitemaps found in sitemap index'
-        };
-      }
+    const allUrls: UrlEntry[] = [];
+    const errors: string[] = [];
 
-      const sitemapEntries = Array.isArray(result.sitemapindex.sitemap) 
-        ? result.sitemapindex.sitemap 
-        : [result.sitemapindex.sitemap];
-
-      const allUrls: UrlEntry[] = [];
-      const errors: string[] = [];
-
-      for (const sitemapEntry of sitemapEntries) {
-        if (sitemapEntry.loc) {
-          try {
-            const subSitemapResult = await this.parseSitemap(sitemapEntry.loc);
-            if (subSitemapResult.error) {
-              errors.push(`Failed to parse ${sitemapEntry.loc}: ${subSitemapResult.error}`);
-            } else {
-              allUrls.push(...subSitemapResult.urls);
-            }
-          } catch (error) {
-            errors.push(`Error processing ${sitemapEntry.loc}: ${error instanceof Error ? error.message : String(error)}`);
-          }
+    for (const sitemapUrl of sitemapUrls) {
+      try {
+        const subSitemapResult = await this.parseSitemap(sitemapUrl);
+        if (subSitemapResult.error) {
+          errors.push(`Failed to parse ${sitemapUrl}: ${subSitemapResult.error}`);
+        } else {
+          allUrls.push(...subSitemapResult.urls);
         }
+      } catch (error) {
+        errors.push(`Error processing ${sitemapUrl}: ${error instanceof Error ? error.message : String(error)}`);
       }
+    }
 
-      if (errors.length > 0 && allUrls.length === 0) {
-        return {
-          urls: [],
-          error: `All sub-sitemaps failed: ${errors.join('; ')}`
-        };
-      }
-
-      return {
-        urls: allUrls,
-        error: errors.length > 0 ? `Partial success: ${errors.join('; ')}` : undefined
-      };
-
-    } catch (error) {
+    if (errors.length > 0 && allUrls.length === 0) {
       return {
         urls: [],
-        error: `Sitemap index parsing error: ${error instanceof Error ? error.message : String(error)}`
+        error: `All sub-sitemaps failed: ${errors.join('; ')}`
       };
     }
+
+    return {
+      urls: allUrls,
+      error: errors.length > 0 ? `Partial success: ${errors.join('; ')}` : undefined
+    };
   }
 
   static async getAllUrlsFromSitemaps(sitemapUrl: string, maxDepth: number = 3): Promise<string[]> {
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ManifestVerifier, SnapshotManifestStore } from './snapshot-manifest';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+async function sha256(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function storeBackup(kv: KVNamespace, date: string, urlHash: string, content: string): Promise<string> {
+  const hash = await sha256(content);
+  await kv.put(`meta:site:${date}:${urlHash}`, JSON.stringify({ url: `https://example.com/${urlHash}`, hash }));
+  await kv.put(`backup:site:${date}:${urlHash}`, content);
+  await new SnapshotManifestStore(kv).record('site', date, [{ urlHash, contentHash: hash }]);
+  return hash;
+}
+
+describe('SnapshotManifestStore', () => {
+  it('seals earlier dates into a signed chain and verification reports tampering', async () => {
+    const kv = createMockKV();
+    const manifest = new SnapshotManifestStore(kv);
+    await storeBackup(kv, '2026-10-17', 'aaaa', '<p>one</p>');
+    await storeBackup(kv, '2026-10-18', 'aaaa', '<p>two</p>');
+    await storeBackup(kv, '2026-10-19', 'aaaa', '<p>three</p>');
+
+    const sealed = await manifest.sealBefore('site', '2026-10-19', 'secret');
+    expect(sealed.map((entry) => [entry.sequence, entry.date])).toEqual([[0, '2026-10-17'], [1, '2026-10-18']]);
+    expect(sealed[1].previousHash).toBe(sealed[0].entryHash);
+    expect(await manifest.listPendingDates('site')).toEqual(['2026-10-19']);
+
+    const clean = await new ManifestVerifier(kv).verify('site', 'secret');
+    expect(clean).toMatchObject({ checkedEntries: 2, checkedSnapshots: 2, mismatches: [], unsealedDates: ['2026-10-19'] });
+
+    kv.store.set('backup:site:2026-10-17:aaaa', '<p>edited</p>');
+    const rewritten = { ...sealed[1], snapshots: [{ urlHash: 'aaaa', contentHash: await sha256('<p>other</p>') }] };
+    kv.store.set('snapshot_manifest:site:0000000001', JSON.stringify(rewritten));
+
+    const report = await new ManifestVerifier(kv).verify('site', 'wrong-key');
+    expect(report.mismatches.map(({ kind, sequence }) => [kind, sequence])).toEqual([
+      ['signature', 0],
+      ['content', 0],
+      ['entry_hash', 1],
+      ['signature', 1],
+      ['metadata', 1],
+      ['content', 1]
+    ]);
+  });
+
+  it('reports signatures stripped from entries sealed after signing was enabled', async () => {
+    const kv = createMockKV();
+    const manifest = new SnapshotManifestStore(kv);
+    await storeBackup(kv, '2026-10-16', 'aaaa', '<p>one</p>');
+    await manifest.sealBefore('site', '2026-10-17');
+    await storeBackup(kv, '2026-10-17', 'aaaa', '<p>two</p>');
+    await storeBackup(kv, '2026-10-18', 'aaaa', '<p>three</p>');
+    await manifest.sealBefore('site', '2026-10-19', 'secret');
+    expect(await manifest.getHead('site')).toMatchObject({ sequence: 2, signedFromSequence: 1 });
+
+    const strip = async (sequence: number) => {
+      const entry = await manifest.getEntry('site', sequence);
+      kv.store.set(`snapshot_manifest:site:${String(sequence).padStart(10, '0')}`, JSON.stringify({ ...entry, signature: null }));
+    };
+
+    // An unsigned entry after a signed one shows even with the head's record removed
+    await strip(2);
+    const head = JSON.parse(kv.store.get('snapshot_manifest_head:site')!);
+    kv.store.set('snapshot_manifest_head:site', JSON.stringify({ ...head, signedFromSequence: undefined }));
+    const withoutHead = await new ManifestVerifier(kv).verify('site', undefined, '2:0');
+    expect(withoutHead.mismatches.map(({ kind, sequence }) => [kind, sequence])).toEqual([['signature', 2]]);
+
+    // With every signature stripped, the head still says where signing started; no key is needed to spot it
+    kv.store.set('snapshot_manifest_head:site', JSON.stringify(head));
+    await strip(1);
+    const report = await new ManifestVerifier(kv).verify('site');
+    expect(report.unsignedEntries).toBe(1);
+    expect(report.mismatches.map(({ kind, sequence }) => [kind, sequence])).toEqual([['signature', 1], ['signature', 2]]);
+  });
+
+  it('resumes verification from the cursor when the budget runs out', async () => {
+    const kv = createMockKV();
+    for (const urlHash of ['aaaa', 'bbbb', 'cccc']) {
+      await storeBackup(kv, '2026-10-18', urlHash, `<p>${urlHash}</p>`);
+    }
+    await new SnapshotManifestStore(kv).sealBefore('site', '2026-10-19');
+
+    const first = await new ManifestVerifier(kv, undefined, { subrequests: 9 }).verify('site');
+    expect(first.nextCursor).toBe('0:1');
+    expect(first).toMatchObject({ checkedSnapshots: 1, unsignedEntries: 1, signaturesChecked: false });
+
+    const rest = await new ManifestVerifier(kv).verify('site', undefined, first.nextCursor ?? undefined);
+    expect(rest).toMatchObject({ checkedEntries: 0, checkedSnapshots: 2, mismatches: [], nextCursor: null });
+  });
+});
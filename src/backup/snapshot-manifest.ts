@@ -0,0 +1,415 @@
+import { readBackupContent } from '../runtime/content-storage';
+import { KVListResult } from '../runtime/kv-types';
+import { PayloadStore, createPayloadStore } from '../runtime/payload-store';
+import { BackupMetadata } from '../types/site';
+import { ExecutionBudget, ExecutionBudgetLimits, meterKVNamespace, meterR2Bucket } from './budget';
+
+// previousHash of a site's first entry
+export const MANIFEST_GENESIS_HASH = '0'.repeat(64);
+
+// Verifying one snapshot reads its metadata and payload; a payload ref read leaves headroom
+const VERIFY_SUBREQUEST_ESTIMATE = 3;
+
+export interface ManifestSnapshot {
+  urlHash: string;
+  // SHA-256 of the page as fetched, as in `BackupMetadata.hash`
+  contentHash: string;
+}
+
+/**
+ * One sealed backup date of a site. `entryHash` is the SHA-256 of the entry's canonical form
+ * (see `getEntryHashInput`), which includes `previousHash`, so changing or removing any entry
+ * breaks every entry after it. `signature` is the HMAC-SHA256 of `entryHash` under the
+ * manifest signing key, or null when none was configured at sealing time.
+ */
+export interface ManifestEntry {
+  siteId: string;
+  sequence: number;
+  date: string;
+  sealedAt: string;
+  // Sorted by urlHash
+  snapshots: ManifestSnapshot[];
+  previousHash: string;
+  entryHash: string;
+  signature: string | null;
+  // Backups an archive import added for the date, sealed apart from the runs' own backups
+  backfilled?: true;
+}
+
+export interface ManifestHead {
+  sequence: number;
+  date: string;
+  entryHash: string;
+  // The first entry sealed with a signing key; every entry from it on must be signed
+  signedFromSequence?: number;
+}
+
+export type ManifestMismatchKind = 'entry_hash' | 'chain' | 'signature' | 'metadata' | 'content';
+
+export interface ManifestMismatch {
+  kind: ManifestMismatchKind;
+  sequence: number;
+  date: string;
+  urlHash?: string;
+  detail: string;
+}
+
+export interface ManifestVerificationReport {
+  siteId: string;
+  // Entries whose hash, link and signature were checked in this pass
+  checkedEntries: number;
+  checkedSnapshots: number;
+  // Sealed backups that no longer exist, normally because retention removed them
+  missingSnapshots: Array<{ date: string; urlHash: string }>;
+  // Entries sealed before a signing key was configured; unsigned entries sealed after are
+  // reported as `signature` mismatches
+  unsignedEntries: number;
+  // Checked entries holding imported backups rather than backups the runs stored
+  backfilledEntries: number;
+  signaturesChecked: boolean;
+  mismatches: ManifestMismatch[];
+  // Backup dates recorded (or imported) but not sealed yet; the next run after the date seals them
+  unsealedDates: string[];
+  // Pass as `cursor` to continue when the budget ran out, or null when the chain is done
+  nextCursor: string | null;
+}
+
+function getEntryKey(siteId: string, sequence: number): string {
+  return `snapshot_manifest:${siteId}:${String(sequence).padStart(10, '0')}`;
+}
+
+function getHeadKey(siteId: string): string {
+  return `snapshot_manifest_head:${siteId}`;
+}
+
+function getPendingKey(siteId: string, date: string, backfilled: boolean = false): string {
+  return `${backfilled ? 'snapshot_manifest_backfill' : 'snapshot_manifest_pending'}:${siteId}:${date}`;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * The exact bytes `entryHash` is computed over: a JSON array in a fixed field order, ending
+ * in `"backfilled"` for backfilled entries so the flag cannot be changed unnoticed.
+ */
+export function getEntryHashInput(entry: Omit<ManifestEntry, 'entryHash' | 'signature'>): string {
+  return JSON.stringify([
+    entry.siteId,
+    entry.sequence,
+    entry.date,
+    entry.sealedAt,
+    entry.previousHash,
+    entry.snapshots.map((snapshot) => [snapshot.urlHash, snapshot.contentHash]),
+    ...(entry.backfilled ? ['backfilled'] : [])
+  ]);
+}
+
+async function sha256(input: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+}
+
+async function signEntryHash(entryHash: string, signingKey: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(signingKey),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(entryHash)));
+}
+
+/**
+ * A per-site, append-only hash chain over backup dates. Stored backups are recorded against
+ * their date as they are written, and a date is sealed into the chain by the first run on a
+ * later date, so an entry never changes once written. Imported backups are recorded apart
+ * and sealed by the same run as backfilled entries, after the chain's newer dates.
+ */
+export class SnapshotManifestStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Record backups stored for `date`, or imported for it when `backfilled`; a later backup of
+   * the same URL that day replaces the earlier one.
+   */
+  async record(siteId: string, date: string, snapshots: ManifestSnapshot[], backfilled: boolean = false): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    const key = getPendingKey(siteId, date, backfilled);
+    const pending = await this.getPending(key);
+    for (const { urlHash, contentHash } of snapshots) {
+      pending[urlHash] = contentHash;
+    }
+    await this.kv.put(key, JSON.stringify(pending));
+  }
+
+  /**
+   * Seal every recorded date before `today`, oldest first, then the imported ones, and return
+   * the new entries.
+   */
+  async sealBefore(siteId: string, today: string, signingKey?: string): Promise<ManifestEntry[]> {
+    const dates = [
+      ...(await this.listPendingDates(siteId)).map((date) => ({ date, backfilled: false })),
+      ...(await this.listBackfillDates(siteId)).map((date) => ({ date, backfilled: true }))
+    ].filter(({ date }) => date < today);
+    const sealed: ManifestEntry[] = [];
+
+    for (const { date, backfilled } of dates) {
+      const key = getPendingKey(siteId, date, backfilled);
+      const pending = await this.getPending(key);
+      const head = await this.getHead(siteId);
+      const unsigned = {
+        siteId,
+        sequence: head ? head.sequence + 1 : 0,
+        date,
+        sealedAt: new Date().toISOString(),
+        snapshots: Object.keys(pending).sort().map((urlHash) => ({ urlHash, contentHash: pending[urlHash] })),
+        previousHash: head?.entryHash ?? MANIFEST_GENESIS_HASH,
+        ...(backfilled && { backfilled: true as const })
+      };
+      const entryHash = await sha256(getEntryHashInput(unsigned));
+      const entry: ManifestEntry = {
+        ...unsigned,
+        entryHash,
+        signature: signingKey ? await signEntryHash(entryHash, signingKey) : null
+      };
+
+      const signedFromSequence = head?.signedFromSequence ?? (signingKey ? entry.sequence : undefined);
+      if (!signingKey && signedFromSequence !== undefined) {
+        console.warn(`Sealing ${siteId} ${date} unsigned, although its manifest has been signed since entry ${signedFromSequence}`);
+      }
+
+      // The entry goes before the head, so the head never points past the chain
+      await this.kv.put(getEntryKey(siteId, entry.sequence), JSON.stringify(entry));
+      await this.kv.put(getHeadKey(siteId), JSON.stringify({
+        sequence: entry.sequence,
+        date,
+        entryHash,
+        ...(signedFromSequence !== undefined && { signedFromSequence })
+      } satisfies ManifestHead));
+      await this.kv.delete(key);
+      sealed.push(entry);
+    }
+
+    return sealed;
+  }
+
+  async getHead(siteId: string): Promise<ManifestHead | null> {
+    const raw = await this.kv.get(getHeadKey(siteId));
+    return raw ? JSON.parse(raw) as ManifestHead : null;
+  }
+
+  async getEntry(siteId: string, sequence: number): Promise<ManifestEntry | null> {
+    const raw = await this.kv.get(getEntryKey(siteId, sequence));
+    return raw ? JSON.parse(raw) as ManifestEntry : null;
+  }
+
+  /** Up to `limit` entries from `fromSequence` on, oldest first. */
+  async listEntries(siteId: string, fromSequence: number = 0, limit: number = 30): Promise<ManifestEntry[]> {
+    const head = await this.getHead(siteId);
+    const entries: ManifestEntry[] = [];
+    if (!head) {
+      return entries;
+    }
+
+    for (let sequence = fromSequence; sequence <= head.sequence && entries.length < limit; sequence++) {
+      const entry = await this.getEntry(siteId, sequence);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  async listPendingDates(siteId: string): Promise<string[]> {
+    return this.listDates(`snapshot_manifest_pending:${siteId}:`);
+  }
+
+  /** Dates with imported backups waiting to be sealed. */
+  async listBackfillDates(siteId: string): Promise<string[]> {
+    return this.listDates(`snapshot_manifest_backfill:${siteId}:`);
+  }
+
+  /** Dates with recorded or imported backups waiting to be sealed. */
+  async listUnsealedDates(siteId: string): Promise<string[]> {
+    return Array.from(new Set([...await this.listPendingDates(siteId), ...await this.listBackfillDates(siteId)])).sort();
+  }
+
+  private async listDates(prefix: string): Promise<string[]> {
+    const dates: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix, limit: 1000, cursor }) as KVListResult;
+      dates.push(...list.keys.map((key) => key.name.slice(prefix.length)));
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return dates.sort();
+  }
+
+  private async getPending(key: string): Promise<Record<string, string>> {
+    const raw = await this.kv.get(key);
+    return raw ? JSON.parse(raw) as Record<string, string> : {};
+  }
+}
+
+/**
+ * Walks a site's manifest chain, checking each entry's hash, its link to the previous entry
+ * and its signature, and recomputes the SHA-256 of every sealed backup still stored. Large
+ * sites are verified over several requests within the request's budget.
+ */
+export class ManifestVerifier {
+  private kv: KVNamespace;
+  private storage?: R2Bucket;
+  private budget: ExecutionBudget;
+
+  constructor(kv: KVNamespace, storage?: R2Bucket, limits?: Partial<ExecutionBudgetLimits>) {
+    this.budget = new ExecutionBudget(limits);
+    this.kv = meterKVNamespace(kv, () => this.budget.recordSubrequests());
+    this.storage = storage && meterR2Bucket(storage, () => this.budget.recordSubrequests());
+  }
+
+  /**
+   * Verify from `cursor` (`{sequence}:{snapshotIndex}`, as returned in `nextCursor`) or the
+   * start of the chain. Signatures are checked only when `signingKey` is given, but an
+   * unsigned entry sealed once signing was enabled (from the head's `signedFromSequence`,
+   * or after any signed entry) is a mismatch either way: stripping signatures is tampering.
+   */
+  async verify(siteId: string, signingKey?: string, cursor?: string): Promise<ManifestVerificationReport> {
+    const manifest = new SnapshotManifestStore(this.kv);
+    const payloads = createPayloadStore(this.kv, this.storage);
+    const [startSequence, startIndex] = (cursor ?? '0:0').split(':').map((part) => Number.parseInt(part, 10) || 0);
+    const report: ManifestVerificationReport = {
+      siteId,
+      checkedEntries: 0,
+      checkedSnapshots: 0,
+      missingSnapshots: [],
+      unsignedEntries: 0,
+      backfilledEntries: 0,
+      signaturesChecked: Boolean(signingKey),
+      mismatches: [],
+      unsealedDates: await manifest.listUnsealedDates(siteId),
+      nextCursor: null
+    };
+
+    const head = await manifest.getHead(siteId);
+    if (!head) {
+      return report;
+    }
+
+    const previous = startSequence === 0 ? null : await manifest.getEntry(siteId, startSequence - 1);
+    let previousHash = startSequence === 0 ? MANIFEST_GENESIS_HASH : previous?.entryHash ?? null;
+    let signedFrom = head.signedFromSequence ?? Infinity;
+    if (previous?.signature) {
+      signedFrom = Math.min(signedFrom, previous.sequence);
+    }
+
+    for (let sequence = startSequence; sequence <= head.sequence; sequence++) {
+      const entry = await manifest.getEntry(siteId, sequence);
+      if (!entry) {
+        report.mismatches.push({ kind: 'chain', sequence, date: '', detail: 'Entry is missing from the chain' });
+        previousHash = null;
+        continue;
+      }
+
+      const snapshotIndex = sequence === startSequence ? startIndex : 0;
+      if (snapshotIndex === 0) {
+        await this.verifyEntry(entry, previousHash, signedFrom, signingKey, report);
+        if (sequence === head.sequence && entry.entryHash !== head.entryHash) {
+          report.mismatches.push({ kind: 'chain', sequence, date: entry.date, detail: 'Head does not match the last entry' });
+        }
+      }
+      previousHash = entry.entryHash;
+      if (entry.signature) {
+        signedFrom = Math.min(signedFrom, sequence);
+      }
+
+      for (let index = snapshotIndex; index < entry.snapshots.length; index++) {
+        if (!this.budget.canAfford(VERIFY_SUBREQUEST_ESTIMATE, 100)) {
+          this.budget.markStopped();
+          report.nextCursor = `${sequence}:${index}`;
+          return report;
+        }
+        await this.verifySnapshot(payloads, entry, entry.snapshots[index], report);
+      }
+    }
+
+    return report;
+  }
+
+  private async verifyEntry(
+    entry: ManifestEntry,
+    previousHash: string | null,
+    signedFrom: number,
+    signingKey: string | undefined,
+    report: ManifestVerificationReport
+  ): Promise<void> {
+    const { sequence, date } = entry;
+    report.checkedEntries++;
+    if (entry.backfilled) {
+      report.backfilledEntries++;
+    }
+
+    if (await sha256(getEntryHashInput(entry)) !== entry.entryHash) {
+      report.mismatches.push({ kind: 'entry_hash', sequence, date, detail: 'Entry contents do not match its entryHash' });
+    }
+    if (previousHash !== null && entry.previousHash !== previousHash) {
+      report.mismatches.push({ kind: 'chain', sequence, date, detail: 'previousHash does not match the previous entry' });
+    }
+
+    if (!entry.signature && sequence >= signedFrom) {
+      report.mismatches.push({ kind: 'signature', sequence, date, detail: 'Entry is unsigned, but was sealed after signing was enabled' });
+    } else if (!entry.signature) {
+      report.unsignedEntries++;
+    } else if (signingKey && await signEntryHash(entry.entryHash, signingKey) !== entry.signature) {
+      report.mismatches.push({ kind: 'signature', sequence, date, detail: 'Signature does not match the signing key' });
+    }
+  }
+
+  private async verifySnapshot(
+    payloads: PayloadStore,
+    entry: ManifestEntry,
+    snapshot: ManifestSnapshot,
+    report: ManifestVerificationReport
+  ): Promise<void> {
+    const { sequence, date } = entry;
+    const { urlHash, contentHash } = snapshot;
+    report.checkedSnapshots++;
+
+    const raw = await this.kv.get(`meta:${entry.siteId}:${date}:${urlHash}`);
+    if (!raw) {
+      report.missingSnapshots.push({ date, urlHash });
+      return;
+    }
+
+    const metadata = JSON.parse(raw) as BackupMetadata;
+    if (metadata.hash !== contentHash) {
+      report.mismatches.push({ kind: 'metadata', sequence, date, urlHash, detail: 'Metadata hash differs from the sealed hash' });
+    }
+
+    let content: string | null;
+    try {
+      content = await readBackupContent(payloads, entry.siteId, date, urlHash, metadata);
+    } catch (error) {
+      report.mismatches.push({ kind: 'content', sequence, date, urlHash, detail: `Payload is unreadable: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    if (content === null) {
+      report.mismatches.push({ kind: 'content', sequence, date, urlHash, detail: 'Payload is missing' });
+    } else if (await sha256(content) !== contentHash) {
+      report.mismatches.push({ kind: 'content', sequence, date, urlHash, detail: 'Stored payload does not hash to the sealed hash' });
+    }
+  }
+}
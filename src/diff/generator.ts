@@ -1,16 +1,19 @@
 import { DetailedDiff, DiffGenerationOptions, DiffCacheEntry } from '../types/diff';
 import { BackupMetadata } from '../types/site';
 import { readBackupContent } from '../runtime/content-storage';
+import { PayloadStore, createPayloadStore } from '../runtime/payload-store';
 import { ContentComparer } from './comparer';
 
 export class DiffGenerator {
   private kv: KVNamespace;
+  private payloads: PayloadStore;
   private static readonly CACHE_TTL = 3600000; // 1 hour
   private static readonly MAX_DIFF_SIZE = 102400; // 100KB
   private static readonly PROGRESSIVE_LOAD_THRESHOLD = 100000; // 100KB
 
-  constructor(kv: KVNamespace) {
+  constructor(kv: KVNamespace, storage?: R2Bucket) {
     this.kv = kv;
+    this.payloads = createPayloadStore(kv, storage);
   }
 
   async generateDiff(
@@ -195,8 +198,8 @@ export class DiffGenerator {
       const data1 = JSON.parse(metadata1) as BackupMetadata;
       const data2 = JSON.parse(metadata2) as BackupMetadata;
       const [content1, content2] = await Promise.all([
-        readBackupContent(this.kv, siteId, date1, urlHash, data1),
-        readBackupContent(this.kv, siteId, date2, urlHash, data2)
+        readBackupContent(this.payloads, siteId, date1, urlHash, data1),
+        readBackupContent(this.payloads, siteId, date2, urlHash, data2)
       ]);
 
       if (!content1 || !content2) {
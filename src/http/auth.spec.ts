@@ -49,4 +49,11 @@ describe('requireApiAuth', () => {
     expect(response?.status).toBe(401);
     expect(response?.headers.get('WWW-Authenticate')).toBe('Bearer');
   });
+
+  it('serves captured assets by content hash without a token', () => {
+    const hash = 'a'.repeat(64);
+
+    expect(requireApiAuth(new Request(`https://example.workers.dev/assets/my-site/${hash}`), { ADMIN_API_TOKEN: 'top-secret' })).toBeNull();
+    expect(requireApiAuth(new Request('https://example.workers.dev/assets/my-site/not-a-hash'), { ADMIN_API_TOKEN: 'top-secret' })?.status).toBe(401);
+  });
 });
@@ -4,6 +4,9 @@ export interface ApiAuthEnv {
 
 const LOCAL_DEV_HOSTS = new Set(['localhost', '127.0.0.1']);
 const PUBLIC_PATHS = new Set(['/', '/app', '/diff/viewer', '/backup/viewer']);
+// Captured page assets are addressed by the SHA-256 of their bytes. The sandboxed preview
+// iframe loads them as subresources, which cannot carry the API token.
+const PUBLIC_ASSET_PATH = /^\/assets\/[a-zA-Z0-9_-]+\/[0-9a-f]{64}$/;
 
 function jsonResponse(body: Record<string, string>, status: number, extraHeaders?: Record<string, string>): Response {
   return new Response(JSON.stringify(body), {
@@ -27,7 +30,7 @@ function getProvidedToken(request: Request): string | null {
 export function requireApiAuth(request: Request, env: ApiAuthEnv): Response | null {
   const requestUrl = new URL(request.url);
 
-  if (PUBLIC_PATHS.has(requestUrl.pathname)) {
+  if (PUBLIC_PATHS.has(requestUrl.pathname) || PUBLIC_ASSET_PATH.test(requestUrl.pathname)) {
     return null;
   }
 
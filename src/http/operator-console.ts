@@ -44,6 +44,8 @@ export function serveOperatorConsole(): Response {
     .badge.ok { background: rgba(34, 197, 94, 0.16); color: #86efac; }
     .badge.warn { background: rgba(245, 158, 11, 0.15); color: #fcd34d; }
     .badge.bad { background: rgba(239, 68, 68, 0.14); color: #fca5a5; }
+    .badge.hold { background: rgba(168, 85, 247, 0.18); color: #d8b4fe; }
+    .run-card.held { border-color: rgba(168, 85, 247, 0.55); }
     .actions { display: flex; flex-wrap: wrap; gap: 10px; margin-top: 12px; }
     .editor-grid { display: grid; grid-template-columns: 1fr; gap: 12px; }
     .inline-grid { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 10px; }
@@ -112,6 +114,30 @@ export function serveOperatorConsole(): Response {
             <div id="runList" class="run-list"></div>
           </div>
         </section>
+
+        <section class="panel">
+          <div class="panel-header">
+            <div>
+              <h2>Discovered URLs</h2>
+              <div class="muted">Pages found by crawling the selected site, for sites without a sitemap or URL list.</div>
+            </div>
+          </div>
+          <div class="panel-body">
+            <div id="crawlList" class="run-list"></div>
+          </div>
+        </section>
+
+        <section class="panel">
+          <div class="panel-header">
+            <div>
+              <h2>Legal Holds</h2>
+              <div class="muted">Snapshots of the selected site that retention and deletion must keep, and the hold audit trail.</div>
+            </div>
+          </div>
+          <div class="panel-body">
+            <div id="holdList" class="run-list"></div>
+          </div>
+        </section>
       </div>
 
       <div class="stack">
@@ -146,7 +172,7 @@ export function serveOperatorConsole(): Response {
               <button id="resetBackupBtn">Reset Progress</button>
               <button id="openExplorerBtn">Open Explorer</button>
             </div>
-            <div class="muted small" id="editorHint">The editor accepts the same JSON shape as the API. Sensitive webhook values are omitted when loading existing sites.</div>
+            <div class="muted small" id="editorHint">The editor accepts the same JSON shape as the API. Literal header, cookie and user-agent values load as [redacted] and are kept unchanged on save; prefer { &quot;secret&quot;: &quot;SITE_SECRET_NAME&quot; } references to Worker secrets.</div>
           </div>
         </section>
 
@@ -253,6 +279,18 @@ export function serveOperatorConsole(): Response {
       return (ms / 1000).toFixed(ms >= 10000 ? 0 : 1) + 's';
     }
 
+    function formatNextRun(site) {
+      if (!site.nextRunAt) {
+        return 'No upcoming run';
+      }
+
+      return 'Next: ' + new Date(site.nextRunAt).toLocaleString(undefined, {
+        timeZone: site.timezone || 'UTC',
+        dateStyle: 'medium',
+        timeStyle: 'short'
+      });
+    }
+
     function formatRunBadge(run) {
       switch (run.status) {
         case 'success': return '<span class="badge ok">Success</span>';
@@ -260,6 +298,7 @@ export function serveOperatorConsole(): Response {
         case 'failed': return '<span class="badge bad">Failed</span>';
         case 'running': return '<span class="badge warn">Running</span>';
         case 'noop': return '<span class="badge">No-op</span>';
+        case 'deferred': return '<span class="badge warn">Deferred</span>';
         default: return '<span class="badge">' + escapeHtml(run.status) + '</span>';
       }
     }
@@ -295,12 +334,16 @@ export function serveOperatorConsole(): Response {
                 '<div class="site-name">' + escapeHtml(site.name) + '</div>' +
                 '<div class="muted">' + escapeHtml(site.baseUrl) + '</div>' +
               '</div>' +
-              '<div class="muted">' + escapeHtml(site.schedule) + '</div>' +
+              '<div class="muted" style="text-align:right;">' +
+                escapeHtml(site.schedule + ' ' + (site.timezone || 'UTC')) +
+                '<br>' + escapeHtml(formatNextRun(site)) +
+              '</div>' +
             '</div>' +
             '<div class="badge-row">' +
               healthBadge +
               latestRunBadge +
               progressBadge +
+              (site.legalHolds ? '<span class="badge hold">' + escapeHtml(String(site.legalHolds)) + ' legal hold' + (site.legalHolds === 1 ? '' : 's') + '</span>' : '') +
               '<span class="badge">' + escapeHtml(String(site.metrics.totalBackups || 0)) + ' backups</span>' +
               '<span class="badge">' + escapeHtml(String(site.metrics.failedBackups || 0)) + ' failures</span>' +
             '</div>' +
@@ -340,6 +383,10 @@ export function serveOperatorConsole(): Response {
             '<div class="badge-row">' +
               '<span class="badge">' + escapeHtml(String(run.changedUrlCount || 0)) + ' changed</span>' +
               '<span class="badge">' + escapeHtml(String(run.processedUrls || 0)) + ' processed</span>' +
+              (run.notModifiedBackups ? '<span class="badge">' + escapeHtml(String(run.notModifiedBackups)) + ' not modified</span>' : '') +
+              (run.lastmodSkippedBackups ? '<span class="badge">' + escapeHtml(String(run.lastmodSkippedBackups)) + ' skipped by lastmod</span>' : '') +
+              (run.sitemapChanges ? '<span class="badge warn">sitemap ' + escapeHtml(String(run.sitemapChanges.added)) + ' added, ' + escapeHtml(String(run.sitemapChanges.removed)) + ' removed, ' + escapeHtml(String(run.sitemapChanges.readded)) + ' re-added</span>' : '') +
+              (run.robotsSkippedCount ? '<span class="badge" title="' + escapeHtml((run.robotsSkippedUrls || []).join('\\n')) + '">' + escapeHtml(String(run.robotsSkippedCount)) + ' blocked by robots.txt</span>' : '') +
               '<span class="badge">' + escapeHtml(formatDuration(run.executionTimeMs || 0)) + '</span>' +
             '</div>' +
             '<div class="muted" style="margin-top:10px;">' + escapeHtml(run.summary || '') + '</div>' +
@@ -349,11 +396,120 @@ export function serveOperatorConsole(): Response {
       }).join('');
     }
 
+    function renderCrawlStatus(status) {
+      const container = document.getElementById('crawlList');
+      if (!status || (!status.inProgress && !status.snapshot)) {
+        container.innerHTML = '<div class="run-card"><div class="muted">No crawl recorded for this site.</div></div>';
+        return;
+      }
+
+      let html = '';
+      if (status.inProgress) {
+        html +=
+          '<div class="run-card">' +
+            '<div class="run-title">Crawl in progress</div>' +
+            '<div class="muted">Started ' + escapeHtml(new Date(status.inProgress.startedAt).toLocaleString()) + '</div>' +
+            '<div class="badge-row">' +
+              '<span class="badge">' + escapeHtml(String(status.inProgress.discovered)) + ' discovered</span>' +
+              '<span class="badge">' + escapeHtml(String(status.inProgress.fetched)) + ' fetched</span>' +
+              '<span class="badge warn">' + escapeHtml(String(status.inProgress.queued)) + ' queued</span>' +
+            '</div>' +
+          '</div>';
+      }
+
+      if (status.snapshot) {
+        const diff = status.snapshot.diff;
+        html +=
+          '<div class="run-card">' +
+            '<div class="run-title">Last completed crawl</div>' +
+            '<div class="muted">' + escapeHtml(status.snapshot.updatedAt ? new Date(status.snapshot.updatedAt).toLocaleString() : '') + '</div>' +
+            '<div class="badge-row">' +
+              '<span class="badge">' + escapeHtml(String(status.snapshot.totalUrls)) + ' URLs</span>' +
+              (diff ? '<span class="badge ok" title="' + escapeHtml(diff.added.join('\n')) + '">' + escapeHtml(String(diff.addedCount)) + ' added</span>' : '') +
+              (diff ? '<span class="badge bad" title="' + escapeHtml(diff.removed.join('\n')) + '">' + escapeHtml(String(diff.removedCount)) + ' removed</span>' : '') +
+            '</div>' +
+          '</div>' +
+          status.snapshot.urls.map(function(url) {
+            return '<div class="muted small">' + escapeHtml(url) + '</div>';
+          }).join('');
+      }
+
+      container.innerHTML = html;
+    }
+
+    function formatHoldScope(hold) {
+      if (hold.snapshots) {
+        return hold.snapshots.length + ' snapshot' + (hold.snapshots.length === 1 ? '' : 's');
+      }
+      if (!hold.from && !hold.to) {
+        return 'Every backup of the site';
+      }
+      return 'Backups dated ' + (hold.from || 'any time') + ' to ' + (hold.to || 'any time');
+    }
+
+    function renderLegalHolds(holds, audit) {
+      const container = document.getElementById('holdList');
+      if (!holds || holds.length === 0) {
+        container.innerHTML = '<div class="run-card"><div class="muted">No active legal holds for this site.</div></div>';
+      } else {
+        container.innerHTML = holds.map(function(hold) {
+          return (
+            '<div class="run-card held">' +
+              '<div class="run-top">' +
+                '<div>' +
+                  '<div class="run-title">' + escapeHtml(hold.reason) + '</div>' +
+                  '<div class="muted">' + escapeHtml(hold.createdBy) + ' • ' + escapeHtml(new Date(hold.createdAt).toLocaleString()) + '</div>' +
+                '</div>' +
+                '<span class="badge hold">Legal hold</span>' +
+              '</div>' +
+              '<div class="muted" style="margin-top:10px;">' + escapeHtml(formatHoldScope(hold)) + '</div>' +
+              (hold.snapshots || []).map(function(snapshot) {
+                return '<div class="muted small">' + escapeHtml(snapshot.date + ' • ' + snapshot.urlHash) + '</div>';
+              }).join('') +
+              '<div class="muted small" style="margin-top:6px;">' + escapeHtml(hold.id) + '</div>' +
+            '</div>'
+          );
+        }).join('');
+      }
+
+      container.innerHTML += (audit || []).map(function(entry) {
+        return (
+          '<div class="muted small">' +
+            escapeHtml(new Date(entry.at).toLocaleString() + ' • ' + entry.action.replace('_', ' ') + ' by ' + entry.actor + ': ' + entry.reason) +
+          '</div>'
+        );
+      }).join('');
+    }
+
+    async function loadLegalHolds() {
+      if (!selectedSiteId) {
+        renderLegalHolds([], []);
+        return;
+      }
+
+      const siteId = encodeURIComponent(selectedSiteId);
+      const [holds, audit] = await Promise.all([
+        fetchJson('/api/sites/' + siteId + '/holds'),
+        fetchJson('/api/sites/' + siteId + '/holds/audit?limit=10')
+      ]);
+      renderLegalHolds(holds, audit);
+    }
+
+    async function loadCrawlStatus() {
+      renderCrawlStatus(selectedSiteId ? await fetchJson('/api/sites/crawl?siteId=' + encodeURIComponent(selectedSiteId)) : null);
+    }
+
     function selectSite(siteId) {
       selectedSiteId = siteId;
       document.getElementById('selectedSiteId').value = siteId;
       renderSites();
       loadSelectedSite();
+      loadCrawlStatus().catch(function(error) {
+        showFlash(error.message, 'error');
+      });
+      loadLegalHolds().catch(function(error) {
+        showFlash(error.message, 'error');
+      });
       syncExplorer();
       updateUrlParams();
     }
@@ -384,6 +540,7 @@ export function serveOperatorConsole(): Response {
           sitemapUrl: 'https://example.com/sitemap.xml',
           retentionDays: 7,
           schedule: '0 2 * * *',
+          timezone: 'UTC',
           fetchOptions: { timeout: 10000, retries: 3, concurrency: 5 },
           changeThreshold: { minChangeSize: 0, ignorePatterns: [] }
         }, null, 2);
@@ -478,7 +635,7 @@ export function serveOperatorConsole(): Response {
     }
 
     async function refreshAll() {
-      await Promise.all([loadOverview(), loadRecentRuns()]);
+      await Promise.all([loadOverview(), loadRecentRuns(), loadCrawlStatus(), loadLegalHolds()]);
     }
 
     function updateUrlParams() {
@@ -523,6 +680,8 @@ export function serveOperatorConsole(): Response {
       selectedSiteId = '';
       document.getElementById('selectedSiteId').value = '';
       loadSelectedSite();
+      renderCrawlStatus(null);
+      renderLegalHolds([], []);
       renderSites();
       syncExplorer();
       updateUrlParams();
@@ -1,24 +1,64 @@
+import {
+  ARCHIVE_IMPORT_MAX_BYTES,
+  ArchiveFormat,
+  ArchiveImporter,
+  ArchiveReadResult,
+  detectArchiveFormat,
+  readArchivePages
+} from './archive/import';
+import {
+  PointInTimeSnapshot,
+  SNAPSHOT_ZIP_PAGE_LIMIT,
+  createSnapshotZipStream,
+  getSnapshotZipFilename,
+  listPointInTimeCandidates,
+  parsePointInTime,
+  resolvePointInTimeSnapshot
+} from './archive/point-in-time';
+import { WARC_EXPORT_PAGE_LIMIT, createWarcExportStream, getWarcExportFilename, listWarcExportPage } from './archive/warc-export';
+import { AssetStore, rewriteAssetUrls } from './backup/assets';
+import { meterKVNamespace } from './backup/budget';
 import { BackupFetcher } from './backup/fetcher';
+import { HOLD_PIN_REQUEST_LIMITS, HOLD_PIN_TICK_LIMITS, HeldAssetPinner } from './backup/hold-pinning';
+import { LegalHoldError, LegalHoldRequest, LegalHoldStore, findLegalHold, validateLegalHoldRequest } from './backup/legal-hold';
+import { buildSiteRequestHeaders, restoreRedactedRequestOptions } from './backup/request-headers';
+import { RetentionPlanner, RetentionRule } from './backup/retention';
+import { IntegrityScrubber, SCRUB_TICK_LIMITS, ScrubActionError, ScrubFindingStatus } from './backup/scrubber';
+import { ManifestVerifier, SnapshotManifestStore } from './backup/snapshot-manifest';
+import { SitemapDeltaStore } from './backup/sitemap-delta';
+import { createSiteAuthSession, restoreRedactedSiteAuth } from './backup/site-auth';
 import { requireApiAuth } from './http/auth';
 import { serveOperatorConsole } from './http/operator-console';
 import { SiteManager } from './sites/manager';
 import { SlackNotifier } from './slack/notifier';
-import { matchesCronExpression } from './scheduler/cron';
-import { toPublicSiteConfig } from './sites/public-config';
+import { nextOccurrences } from './scheduler/cron';
+import { SchedulerDispatcher } from './scheduler/dispatcher';
+import { TickPlanner } from './scheduler/planner';
+import { JobQueue } from './scheduler/queue';
+import { ScheduleStateStore, findDueOccurrence, getCatchUpWindowMinutes } from './scheduler/schedule-state';
+import { DEFAULT_TIME_ZONE } from './scheduler/timezone';
+import { redactSiteCredentials, toPublicSiteConfig } from './sites/public-config';
 import { SiteRegistry } from './sites/registry';
-import { SiteConfig, SiteBackupResult } from './types/site';
+import { CrawlStrategyConfig, SiteConfig, SiteBackupResult } from './types/site';
 import { DiffGenerator } from './diff/generator';
 import { ContentComparer } from './diff/comparer';
-import { readBackupContent } from './runtime/content-storage';
+import { SizeLimitError, collectStream, readBackupContent } from './runtime/content-storage';
+import { createPayloadStore } from './runtime/payload-store';
 import { executeSiteBackupRun } from './runtime/site-execution';
 import { SiteDataService } from './runtime/site-data';
 import { RunStore } from './runtime/run-store';
 
 export interface Env {
   BACKUP_KV: KVNamespace;
+  // Optional R2 bucket for backup payloads; without it they are stored in KV
+  BACKUP_STORAGE?: R2Bucket;
   ADMIN_API_TOKEN?: string;
   DEFAULT_SLACK_WEBHOOK?: string;
   PUBLIC_BASE_URL?: string;
+  // HMAC key that signs snapshot manifest entries; entries are unsigned without it
+  MANIFEST_SIGNING_KEY?: string;
+  // Secret bindings referenced by site fetchOptions ({ "secret": "NAME" })
+  [binding: string]: unknown;
 }
 
 function jsonResponse(body: unknown, status: number = 200): Response {
@@ -32,59 +72,89 @@ export default {
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
     console.log(`Scheduled event triggered: ${event.cron}`);
     
-    const siteManager = new SiteManager(env.BACKUP_KV);
-    const slackNotifier = new SlackNotifier(env.BACKUP_KV, env.DEFAULT_SLACK_WEBHOOK, env.PUBLIC_BASE_URL);
+    const tickStartedAt = Date.now();
+    let configReads = 0;
+    const siteManager = new SiteManager(meterKVNamespace(env.BACKUP_KV, () => configReads++));
+    const slackNotifier = new SlackNotifier(env.BACKUP_KV, env.DEFAULT_SLACK_WEBHOOK, env.PUBLIC_BASE_URL, env.BACKUP_STORAGE);
 
     try {
-      // Get all configured sites and back them up
       const sites = await siteManager.getAllSiteConfigs();
-      const now = new Date();
-      const dueSites = sites.filter((site) => matchesCronExpression(site.schedule, now));
-      console.log(`Processing ${dueSites.length} scheduled site(s) out of ${sites.length} configured...`);
+      // The jobs share what is left of the tick once the config reads, the scrub and pinning are counted
+      const dispatcher = new SchedulerDispatcher(env, undefined, TickPlanner.reserveFromDefault(
+        { wallClockMs: Date.now() - tickStartedAt, subrequests: configReads },
+        SCRUB_TICK_LIMITS,
+        HOLD_PIN_TICK_LIMITS
+      ));
+
+      // Queue due sites, then run every job this tick can lease (including retries)
+      const { enqueued, dispatched } = await dispatcher.runTick(sites, new Date());
+      console.log(
+        `Queued ${enqueued.length} scheduled job(s), handled ${dispatched.length} job(s) for ${sites.length} configured site(s)`
+      );
+
+      // Integrity scrubbing gets the small budget reserved for it after the backup jobs, every tick
+      try {
+        const scrubbed = await new IntegrityScrubber(env.BACKUP_KV, env.BACKUP_STORAGE, SCRUB_TICK_LIMITS)
+          .runTick(sites.map((site) => site.id));
+        for (const { siteId, state, findings } of scrubbed) {
+          console.log(`Integrity scrub of ${siteId}: ${state.phase}, ${state.checkedKeys} key(s) checked this pass, ${findings} finding(s)`);
+        }
+      } catch (scrubError) {
+        console.error('Integrity scrub failed:', scrubError);
+      }
+
+      try {
+        for (const pinning of await new HeldAssetPinner(env.BACKUP_KV, HOLD_PIN_TICK_LIMITS).runTick()) {
+          console.log(`Legal hold ${pinning.holdId} on ${pinning.siteId}: ${pinning.pinnedBackups} backup(s) pinned`);
+        }
+      } catch (pinError) {
+        console.error('Pinning held backups failed:', pinError);
+      }
 
-      if (dueSites.length === 0) {
+      if (dispatched.length === 0) {
         return;
       }
 
       let successful = 0;
       let failed = 0;
       const summaryResults: Array<{ siteConfig: SiteConfig; backupResult: SiteBackupResult }> = [];
-      
-      for (const site of dueSites) {
-        try {
-          console.log(`Backing up: ${site.name} (${site.id})`);
-
-          const execution = await executeSiteBackupRun(env, site, {
-            trigger: 'scheduled',
-            continueFromLast: true,
-            batchSize: 30
-          });
 
-          if (execution.runRecord.status === 'failed' || execution.runRecord.status === 'partial') {
-            failed++;
-          } else {
-            successful++;
-          }
+      for (const { job, siteConfig, execution, error, outcome } of dispatched) {
+        if (outcome === 'deferred') {
+          continue;
+        }
 
+        if (execution && siteConfig) {
           summaryResults.push({
-            siteConfig: site,
+            siteConfig,
             backupResult: execution.siteBackupResult
           });
 
           console.log(
-            `${site.name}: ${execution.runRecord.processedUrls}/${execution.siteBackupResult.totalUrls} URLs processed, ` +
+            `${siteConfig.name}: ${execution.runRecord.processedUrls}/${execution.siteBackupResult.totalUrls} URLs processed, ` +
             `${execution.siteBackupResult.changedUrls.length} changes, status ${execution.runRecord.status}`
           );
-        } catch (error) {
-          console.error(`Backup failed for ${site.id}:`, error);
+        }
+
+        if (error || execution?.runRecord.status === 'partial') {
           failed++;
+        } else {
+          successful++;
+        }
+
+        if (error) {
+          console.error(`Backup job ${job.jobId} failed (${outcome}): ${error}`);
+        }
+
+        if (outcome === 'dead' && siteConfig) {
           await slackNotifier.sendErrorNotification(
-            site,
-            `Backup failed: ${error instanceof Error ? error.message : String(error)}`
+            siteConfig,
+            `Scheduled backup gave up after ${job.attempts} attempt(s): ${error}`,
+            { jobId: job.jobId, occurrenceAt: job.occurrenceAt }
           );
         }
       }
-      
+
       console.log(`Backup complete: ${successful} sites successful, ${failed} failed`);
 
       if (summaryResults.length > 1) {
@@ -115,7 +185,7 @@ export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const siteManager = new SiteManager(env.BACKUP_KV);
-    const slackNotifier = new SlackNotifier(env.BACKUP_KV, env.DEFAULT_SLACK_WEBHOOK, env.PUBLIC_BASE_URL);
+    const slackNotifier = new SlackNotifier(env.BACKUP_KV, env.DEFAULT_SLACK_WEBHOOK, env.PUBLIC_BASE_URL, env.BACKUP_STORAGE);
     const siteRegistry = new SiteRegistry(env.BACKUP_KV);
     const authError = requireApiAuth(request, env);
 
@@ -135,7 +205,7 @@ export default {
           return await handlePutRequest(request, url, siteManager);
         
         case 'DELETE':
-          return await handleDeleteRequest(url, env.BACKUP_KV);
+          return await handleDeleteRequest(url, env.BACKUP_KV, env.BACKUP_STORAGE);
         
         default:
           return new Response('Method not allowed', { status: 405 });
@@ -171,7 +241,7 @@ async function handleGetRequest(
       if (siteId) {
         const siteConfig = await siteManager.getSiteConfig(siteId);
         return siteConfig 
-          ? jsonResponse(url.searchParams.get('includeSecrets') === '1' ? siteConfig : toPublicSiteConfig(siteConfig))
+          ? jsonResponse(url.searchParams.get('includeSecrets') === '1' ? redactSiteCredentials(siteConfig) : toPublicSiteConfig(siteConfig))
           : new Response('Site not found', { status: 404 });
       } else {
         const allSites = await siteManager.getAllSiteConfigs();
@@ -206,7 +276,13 @@ async function handleGetRequest(
         return new Response('siteId parameter required', { status: 400 });
       }
       return await handleGetSiteDates(siteId, env.BACKUP_KV);
-    
+
+    case '/api/sites/crawl':
+      if (!siteId) {
+        return new Response('siteId parameter required', { status: 400 });
+      }
+      return jsonResponse(await new BackupFetcher(env.BACKUP_KV).getCrawlStatus(siteId));
+
     case '/api/status':
       return jsonResponse(await buildSchedulerStatus(siteManager, env.BACKUP_KV));
     
@@ -223,14 +299,100 @@ async function handleGetRequest(
     default:
       // Preview endpoint: /api/sites/{siteId}/preview/{date}/{urlHash}
       if (path.startsWith('/api/sites/') && path.includes('/preview/')) {
-        return await handlePreviewRequest(path, env.BACKUP_KV);
+        return await handlePreviewRequest(path, url.origin, env.BACKUP_KV, env.BACKUP_STORAGE);
+      }
+      // Captured asset endpoint: /assets/{siteId}/{sha256}
+      if (path.match(/^\/assets\/[^/]+\/[0-9a-f]{64}$/)) {
+        const match = path.match(/^\/assets\/([^/]+)\/([0-9a-f]{64})$/);
+        if (match) {
+          return await handleAssetRequest(match[1], match[2], env.BACKUP_KV);
+        }
       }
       // URL history endpoint must be checked first (it contains both /diff/ and /url/)
       if (path.startsWith('/api/sites/') && path.includes('/diff/') && path.includes('/url/')) {
-        return await handleUrlHistoryRequest(path, env.BACKUP_KV);
+        return await handleUrlHistoryRequest(path, env.BACKUP_KV, env.BACKUP_STORAGE);
       }
       if (path.startsWith('/api/sites/') && path.includes('/diff/')) {
-        return await handleDiffRequest(path, env.BACKUP_KV);
+        return await handleDiffRequest(path, env.BACKUP_KV, env.BACKUP_STORAGE);
+      }
+      // Sitemap delta endpoint: /api/sites/{siteId}/sitemap/changes
+      if (path.match(/^\/api\/sites\/[^/]+\/sitemap\/changes$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/sitemap\/changes$/);
+        if (match) {
+          return await handleSitemapChanges(match[1], url, env.BACKUP_KV);
+        }
+      }
+      // WARC export endpoint: /api/sites/{siteId}/export/warc
+      if (path.match(/^\/api\/sites\/[^/]+\/export\/warc$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/export\/warc$/);
+        if (match) {
+          return await handleWarcExport(match[1], url, siteManager, env.BACKUP_KV, env.BACKUP_STORAGE);
+        }
+      }
+      // Point-in-time reconstruction endpoint: /api/sites/{siteId}/snapshot
+      if (path.match(/^\/api\/sites\/[^/]+\/snapshot$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/snapshot$/);
+        if (match) {
+          return await handlePointInTimeSnapshot(match[1], url, env.BACKUP_KV);
+        }
+      }
+      // Point-in-time zip download endpoint: /api/sites/{siteId}/snapshot/zip
+      if (path.match(/^\/api\/sites\/[^/]+\/snapshot\/zip$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/snapshot\/zip$/);
+        if (match) {
+          return await handleSnapshotZip(match[1], url, siteManager, env.BACKUP_KV, env.BACKUP_STORAGE);
+        }
+      }
+      // Legal holds endpoint: /api/sites/{siteId}/holds
+      if (path.match(/^\/api\/sites\/[^/]+\/holds$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/holds$/);
+        if (match) {
+          return jsonResponse(await new LegalHoldStore(env.BACKUP_KV).list(match[1]));
+        }
+      }
+      // Legal hold audit trail endpoint: /api/sites/{siteId}/holds/audit
+      if (path.match(/^\/api\/sites\/[^/]+\/holds\/audit$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/holds\/audit$/);
+        if (match) {
+          const limit = Math.min(Number.parseInt(url.searchParams.get('limit') || '100', 10) || 100, 1000);
+          return jsonResponse(await new LegalHoldStore(env.BACKUP_KV).listAudit(match[1], limit));
+        }
+      }
+      // Snapshot manifest endpoint: /api/sites/{siteId}/manifest
+      if (path.match(/^\/api\/sites\/[^/]+\/manifest$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/manifest$/);
+        if (match) {
+          return await handleSnapshotManifest(match[1], url, env.BACKUP_KV);
+        }
+      }
+      // Snapshot manifest verification endpoint: /api/sites/{siteId}/manifest/verify
+      if (path.match(/^\/api\/sites\/[^/]+\/manifest\/verify$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/manifest\/verify$/);
+        if (match) {
+          const signingKey = typeof env.MANIFEST_SIGNING_KEY === 'string' ? env.MANIFEST_SIGNING_KEY : undefined;
+          const cursor = url.searchParams.get('cursor') || undefined;
+          return jsonResponse(await new ManifestVerifier(env.BACKUP_KV, env.BACKUP_STORAGE).verify(match[1], signingKey, cursor));
+        }
+      }
+      // Integrity scrub endpoint: /api/sites/{siteId}/scrub
+      if (path.match(/^\/api\/sites\/[^/]+\/scrub$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/scrub$/);
+        if (match) {
+          const scrubber = new IntegrityScrubber(env.BACKUP_KV, env.BACKUP_STORAGE);
+          const status = url.searchParams.get('status') as ScrubFindingStatus | null;
+          return jsonResponse({
+            siteId: match[1],
+            state: await scrubber.getState(match[1]),
+            findings: await scrubber.listFindings(match[1], status ?? undefined)
+          });
+        }
+      }
+      // Retention dry run endpoint: /api/sites/{siteId}/retention/preview
+      if (path.match(/^\/api\/sites\/[^/]+\/retention\/preview$/)) {
+        const match = path.match(/^\/api\/sites\/([^/]+)\/retention\/preview$/);
+        if (match) {
+          return await handleRetentionPreview(match[1], siteManager, env.BACKUP_KV);
+        }
       }
       // Backup URLs list endpoint: /api/sites/{siteId}/urls
       if (path.match(/^\/api\/sites\/[^/]+\/urls$/)) {
@@ -250,7 +412,7 @@ async function handleGetRequest(
       if (path.match(/^\/api\/sites\/[^/]+\/backup\/\d{4}-\d{2}-\d{2}\/[^/]+\/source$/)) {
         const match = path.match(/^\/api\/sites\/([^/]+)\/backup\/(\d{4}-\d{2}-\d{2})\/([^/]+)\/source$/);
         if (match) {
-          return await handleBackupSource(match[1], match[2], match[3], env.BACKUP_KV);
+          return await handleBackupSource(match[1], match[2], match[3], env.BACKUP_KV, env.BACKUP_STORAGE);
         }
       }
       return new Response('Not found', { status: 404 });
@@ -334,6 +496,13 @@ async function handlePostRequest(
       
       return jsonResponse(progress || { hasMore: false, message: 'No batch in progress' });
 
+    case '/api/backup/strategy':
+      return await handleCrawlStrategyRequest(
+        await request.json() as { siteId: string; crawlStrategy?: CrawlStrategyConfig; rebuildSnapshot?: boolean },
+        siteManager,
+        env
+      );
+
     case '/api/backup/reset':
       const resetBody = await request.json() as { siteId: string };
       const resetSiteConfig = await siteManager.getSiteConfig(resetBody.siteId);
@@ -344,8 +513,35 @@ async function handlePostRequest(
       await resetFetcher.resetSiteProgress(resetBody.siteId);
       return jsonResponse({ success: true, message: 'Batch progress and URL cache cleared for site' });
     
-    default:
+    default: {
+      // Archive import endpoint: /api/sites/{siteId}/import
+      const importMatch = path.match(/^\/api\/sites\/([^/]+)\/import$/);
+      if (importMatch) {
+        return await handleArchiveImport(request, importMatch[1], url, siteManager, env.BACKUP_KV, env.BACKUP_STORAGE);
+      }
+      // Legal hold endpoints: /api/sites/{siteId}/holds and /api/sites/{siteId}/holds/{holdId}/release
+      const holdMatch = path.match(/^\/api\/sites\/([^/]+)\/holds$/);
+      if (holdMatch) {
+        return await handleCreateLegalHold(request, holdMatch[1], siteManager, env.BACKUP_KV);
+      }
+      const releaseMatch = path.match(/^\/api\/sites\/([^/]+)\/holds\/([^/]+)\/release$/);
+      if (releaseMatch) {
+        return await handleReleaseLegalHold(request, releaseMatch[1], releaseMatch[2], env.BACKUP_KV);
+      }
+      // Integrity scrub endpoints: /api/sites/{siteId}/scrub/run and /api/sites/{siteId}/scrub/findings/{id}/{action}
+      const scrubRunMatch = path.match(/^\/api\/sites\/([^/]+)\/scrub\/run$/);
+      if (scrubRunMatch) {
+        if (!await siteManager.getSiteConfig(scrubRunMatch[1])) {
+          return jsonResponse({ error: 'Site not found' }, 404);
+        }
+        return jsonResponse(await new IntegrityScrubber(env.BACKUP_KV, env.BACKUP_STORAGE).scrubSite(scrubRunMatch[1]));
+      }
+      const scrubActionMatch = path.match(/^\/api\/sites\/([^/]+)\/scrub\/findings\/([^/]+)\/(repair|quarantine)$/);
+      if (scrubActionMatch) {
+        return await handleScrubFindingAction(request, scrubActionMatch[1], scrubActionMatch[2], scrubActionMatch[3], env);
+      }
       return new Response('Not found', { status: 404 });
+    }
   }
 }
 
@@ -365,7 +561,14 @@ async function handlePutRequest(
     return new Response('Site not found', { status: 404 });
   }
   
-  const body = await request.json() as SiteConfig;
+  const submitted = await request.json() as SiteConfig;
+  const body: SiteConfig = {
+    ...submitted,
+    ...(submitted.fetchOptions && {
+      fetchOptions: restoreRedactedRequestOptions(submitted.fetchOptions, existingSite.fetchOptions)
+    }),
+    ...(submitted.auth && { auth: restoreRedactedSiteAuth(submitted.auth, existingSite.auth) })
+  };
   const validationResult = await siteManager.validateSiteConfig(body);
   
   if (!validationResult.valid) {
@@ -383,7 +586,8 @@ async function handlePutRequest(
 
 async function handleDeleteRequest(
   url: URL,
-  kv: KVNamespace
+  kv: KVNamespace,
+  storage?: R2Bucket
 ): Promise<Response> {
   const siteId = url.searchParams.get('siteId');
   
@@ -391,9 +595,86 @@ async function handleDeleteRequest(
     return new Response('siteId parameter required', { status: 400 });
   }
   
-  const siteDataService = new SiteDataService(kv);
-  const deletedKeys = await siteDataService.deleteSiteData(siteId);
-  return jsonResponse({ success: true, deletedKeys });
+  const siteDataService = new SiteDataService(kv, storage);
+  try {
+    const deletedKeys = await siteDataService.deleteSiteData(siteId, url.searchParams.get('requestedBy') || undefined);
+    return jsonResponse({ success: true, deletedKeys });
+  } catch (error) {
+    if (error instanceof LegalHoldError) {
+      return jsonResponse({ error: error.message, holds: error.holds }, 409);
+    }
+    throw error;
+  }
+}
+
+async function handleCreateLegalHold(
+  request: Request,
+  siteId: string,
+  siteManager: SiteManager,
+  kv: KVNamespace
+): Promise<Response> {
+  if (!await siteManager.getSiteConfig(siteId)) {
+    return jsonResponse({ error: 'Site not found' }, 404);
+  }
+
+  const body = await request.json() as Partial<LegalHoldRequest>;
+  const errors = validateLegalHoldRequest(body);
+  if (errors.length > 0) {
+    return jsonResponse({ error: 'Invalid legal hold', details: errors }, 400);
+  }
+
+  const holdStore = new LegalHoldStore(kv);
+  const missing = body.snapshots ? await holdStore.findMissingSnapshots(siteId, body.snapshots) : [];
+  if (missing.length > 0) {
+    return jsonResponse({ error: 'Some snapshots do not exist', missing }, 400);
+  }
+
+  const hold = await holdStore.create(siteId, body as LegalHoldRequest);
+  // Pin the held backups' assets and deltas now; what the request's budget leaves, the cron ticks finish
+  const pinning = await new HeldAssetPinner(kv, HOLD_PIN_REQUEST_LIMITS).pinHold(hold);
+  console.log(`Legal hold ${hold.id} pinned ${pinning.pinnedBackups} backup(s)${pinning.complete ? '' : ', continuing on the next ticks'}`);
+  return jsonResponse(hold, 201);
+}
+
+async function handleReleaseLegalHold(request: Request, siteId: string, holdId: string, kv: KVNamespace): Promise<Response> {
+  const body = await request.json() as { releasedBy?: string; reason?: string };
+  if (!body.releasedBy?.trim() || !body.reason?.trim()) {
+    return jsonResponse({ error: 'releasedBy and reason are required to release a legal hold' }, 400);
+  }
+
+  const released = await new LegalHoldStore(kv).release(siteId, holdId, body.releasedBy.trim(), body.reason.trim());
+  return released
+    ? jsonResponse({ success: true, released })
+    : jsonResponse({ error: 'Legal hold not found' }, 404);
+}
+
+async function handleScrubFindingAction(
+  request: Request,
+  siteId: string,
+  findingId: string,
+  action: string,
+  env: Env
+): Promise<Response> {
+  const body = await request.json().catch(() => ({})) as { requestedBy?: string };
+  const requestedBy = body.requestedBy?.trim() || 'api';
+  const scrubber = new IntegrityScrubber(env.BACKUP_KV, env.BACKUP_STORAGE);
+
+  try {
+    const finding = action === 'repair'
+      ? await scrubber.repair(siteId, findingId, requestedBy)
+      : await scrubber.quarantine(siteId, findingId, requestedBy);
+    return finding
+      ? jsonResponse({ success: true, finding })
+      : jsonResponse({ error: 'Finding not found' }, 404);
+  } catch (error) {
+    if (error instanceof LegalHoldError) {
+      return jsonResponse({ error: error.message, holds: error.holds }, 409);
+    }
+    if (error instanceof ScrubActionError) {
+      return jsonResponse({ error: error.message }, 409);
+    }
+    throw error;
+  }
 }
 
 async function buildSitesOverview(
@@ -404,13 +685,17 @@ async function buildSitesOverview(
   const sites = await siteManager.getAllSiteConfigs();
   const runStore = new RunStore(kv);
   const fetcher = new BackupFetcher(kv);
+  const now = new Date();
+
+  const legalHolds = new LegalHoldStore(kv);
 
   return Promise.all(sites.map(async (site) => {
-    const [health, metrics, latestRun, progress] = await Promise.all([
+    const [health, metrics, latestRun, progress, holds] = await Promise.all([
       siteRegistry.validateSiteHealth(site.id),
       siteRegistry.getSiteMetrics(site.id, 7),
       runStore.getLatestRun(site.id),
-      fetcher.getBatchProgress(site.id)
+      fetcher.getBatchProgress(site.id),
+      legalHolds.list(site.id)
     ]);
 
     return {
@@ -419,6 +704,8 @@ async function buildSitesOverview(
       metrics,
       latestRun,
       progress,
+      legalHolds: holds.length,
+      nextRunAt: nextOccurrences(site.schedule, now, 1, site.timezone)[0]?.toISOString() ?? null,
       latestSummary: latestRun?.summary || null
     };
   }));
@@ -440,24 +727,40 @@ async function buildSchedulerStatus(siteManager: SiteManager, kv: KVNamespace):
   const now = new Date();
   const runStore = new RunStore(kv);
 
-  const dueSites = sites.filter((site) => matchesCronExpression(site.schedule, now));
-  const latestRuns = await Promise.all(sites.map((site) => runStore.getLatestRun(site.id)));
+  const scheduleState = new ScheduleStateStore(kv);
+  const jobQueue = new JobQueue(kv);
+  const [lastScheduled, latestRuns, jobs] = await Promise.all([
+    Promise.all(sites.map((site) => scheduleState.getLastScheduledAt(site.id))),
+    Promise.all(sites.map((site) => runStore.getLatestRun(site.id))),
+    jobQueue.getQueueStatus()
+  ]);
+  const dueSites = sites.filter((site, index) => findDueOccurrence(site, now, lastScheduled[index]) !== null);
 
   return {
     totalSites: sites.length,
     dueSites: dueSites.map((site) => site.id),
     schedules: [...new Set(sites.map((site) => site.schedule))].sort(),
+    nextRuns: sites.map((site, index) => ({
+      siteId: site.id,
+      schedule: site.schedule,
+      timezone: site.timezone ?? DEFAULT_TIME_ZONE,
+      lastScheduledAt: lastScheduled[index]?.toISOString() ?? null,
+      catchUpWindowMinutes: getCatchUpWindowMinutes(site),
+      nextRunAt: nextOccurrences(site.schedule, now, 1, site.timezone)[0]?.toISOString() ?? null
+    })),
+    jobs,
     latestRuns: latestRuns.filter((run): run is NonNullable<typeof run> => run !== null)
   };
 }
 
 async function handleGetSiteDates(siteId: string, kv: KVNamespace): Promise<Response> {
   try {
-    const list = await kv.list({ prefix: `backup:${siteId}:` });
+    // Payloads may live outside KV, so dates come from the metadata keys
+    const list = await kv.list({ prefix: `meta:${siteId}:` });
     const dates = new Set<string>();
     
     for (const key of list.keys) {
-      const regex = new RegExp(`backup:${siteId}:(\\d{4}-\\d{2}-\\d{2})`);
+      const regex = new RegExp(`meta:${siteId}:(\\d{4}-\\d{2}-\\d{2})`);
       const match = key.name.match(regex);
       if (match) {
         dates.add(match[1]);
@@ -477,7 +780,318 @@ async function handleGetSiteDates(siteId: string, kv: KVNamespace): Promise<Resp
   }
 }
 
-async function handleDiffRequest(path: string, kv: KVNamespace): Promise<Response> {
+/**
+ * Switch a site's crawl strategy and/or rebuild its listener snapshot from the sitemap.
+ * Switching drops the scan state of the previous mode; the snapshot is kept unless rebuilt.
+ */
+async function handleCrawlStrategyRequest(
+  body: { siteId: string; crawlStrategy?: CrawlStrategyConfig; rebuildSnapshot?: boolean },
+  siteManager: SiteManager,
+  env: Env
+): Promise<Response> {
+  let siteConfig = await siteManager.getSiteConfig(body.siteId);
+  if (!siteConfig) {
+    return new Response('Site not found', { status: 404 });
+  }
+
+  if (!body.crawlStrategy && !body.rebuildSnapshot) {
+    return jsonResponse({ error: 'crawlStrategy or rebuildSnapshot is required' }, 400);
+  }
+
+  const fetcher = new BackupFetcher(env.BACKUP_KV);
+  if (body.crawlStrategy) {
+    siteConfig = { ...siteConfig, crawlStrategy: body.crawlStrategy };
+    const validationResult = await siteManager.validateSiteConfig(siteConfig);
+    if (!validationResult.valid) {
+      return jsonResponse({ error: 'Invalid configuration', details: validationResult.errors }, 400);
+    }
+    if (!await siteManager.saveSiteConfig(siteConfig)) {
+      return new Response('Failed to save site configuration', { status: 500 });
+    }
+    await fetcher.applyCrawlStrategy(siteConfig);
+  }
+
+  let snapshot: { totalUrls: number } | undefined;
+  if (body.rebuildSnapshot) {
+    const requestHeaders = buildSiteRequestHeaders(siteConfig.fetchOptions, env);
+    snapshot = await fetcher.rebuildSitemapSnapshot(siteConfig, {
+      requestHeaders,
+      auth: createSiteAuthSession(env.BACKUP_KV, siteConfig, env, requestHeaders)
+    });
+  }
+
+  return jsonResponse({
+    success: true,
+    siteId: siteConfig.id,
+    crawlStrategy: siteConfig.crawlStrategy ?? { mode: 'auto' },
+    ...(snapshot && { snapshot })
+  });
+}
+
+/**
+ * Sitemap additions, removals and re-additions recorded by listener mode. `date` selects a
+ * single day; otherwise the most recent `limit` days (default 30) are returned, newest first.
+ */
+async function handleSitemapChanges(siteId: string, requestUrl: URL, kv: KVNamespace): Promise<Response> {
+  const store = new SitemapDeltaStore(kv);
+  const date = requestUrl.searchParams.get('date');
+
+  if (date) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return jsonResponse({ error: 'date must be YYYY-MM-DD' }, 400);
+    }
+    const delta = await store.get(siteId, date);
+    return delta ? jsonResponse(delta) : jsonResponse({ error: 'No sitemap changes recorded for that date' }, 404);
+  }
+
+  const limit = Math.min(Math.max(parseInt(requestUrl.searchParams.get('limit') || '30', 10) || 30, 1), 365);
+  return jsonResponse({ siteId, changes: await store.list(siteId, limit) });
+}
+
+/**
+ * Import a WARC or zip upload (the raw request body) as historical backups. Large archives
+ * stop within the request's budget; re-send the same file with `?offset=` set to the
+ * returned `nextOffset` to continue. The whole archive is read into memory, so uploads over
+ * `ARCHIVE_IMPORT_MAX_BYTES`, or that decompress to more than its expanded limit, get a 413.
+ */
+async function handleArchiveImport(
+  request: Request,
+  siteId: string,
+  requestUrl: URL,
+  siteManager: SiteManager,
+  kv: KVNamespace,
+  storage?: R2Bucket
+): Promise<Response> {
+  const siteConfig = await siteManager.getSiteConfig(siteId);
+  if (!siteConfig) {
+    return jsonResponse({ error: 'Site not found' }, 404);
+  }
+
+  const formatParam = requestUrl.searchParams.get('format');
+  if (formatParam && formatParam !== 'warc' && formatParam !== 'zip') {
+    return jsonResponse({ error: 'format must be warc or zip' }, 400);
+  }
+  const offset = Number.parseInt(requestUrl.searchParams.get('offset') ?? '0', 10);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return jsonResponse({ error: 'offset must be a non-negative integer' }, 400);
+  }
+
+  const tooLarge = (limitBytes: number) => jsonResponse({
+    error: `Archive is larger than ${limitBytes} bytes; split it and import the parts separately`
+  }, 413);
+  if (Number.parseInt(request.headers.get('Content-Length') ?? '0', 10) > ARCHIVE_IMPORT_MAX_BYTES) {
+    return tooLarge(ARCHIVE_IMPORT_MAX_BYTES);
+  }
+
+  let bytes: Uint8Array;
+  try {
+    // Content-Length can be absent, so the body is still read no further than the limit
+    bytes = request.body ? await collectStream(request.body, ARCHIVE_IMPORT_MAX_BYTES) : new Uint8Array();
+  } catch (error) {
+    if (error instanceof SizeLimitError) {
+      return tooLarge(error.limitBytes);
+    }
+    throw error;
+  }
+
+  const format = (formatParam as ArchiveFormat | null) ?? detectArchiveFormat(bytes);
+  if (!format) {
+    return jsonResponse({ error: 'Unrecognised archive: expected a WARC, .warc.gz or zip file' }, 400);
+  }
+
+  let archive: ArchiveReadResult;
+  try {
+    archive = await readArchivePages(bytes, new URL(siteConfig.baseUrl).origin, format);
+  } catch (error) {
+    if (error instanceof SizeLimitError) {
+      return tooLarge(error.limitBytes);
+    }
+    return jsonResponse({ error: `Failed to read archive: ${error instanceof Error ? error.message : String(error)}` }, 400);
+  }
+
+  const result = await new ArchiveImporter(kv, storage).importPages(siteConfig, archive, offset);
+  return jsonResponse({ siteId, ...result });
+}
+
+/**
+ * A page of a site's backups as a `.warc.gz`. Each backup costs a metadata and a payload
+ * read, so a response holds at most `limit` of them; when more remain, a `Link: rel="next"`
+ * header gives the URL of the next page.
+ */
+async function handleWarcExport(
+  siteId: string,
+  requestUrl: URL,
+  siteManager: SiteManager,
+  kv: KVNamespace,
+  storage?: R2Bucket
+): Promise<Response> {
+  const from = requestUrl.searchParams.get('from') ?? undefined;
+  const to = requestUrl.searchParams.get('to') ?? undefined;
+  if ((from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) || (to && !/^\d{4}-\d{2}-\d{2}$/.test(to))) {
+    return jsonResponse({ error: 'from and to must be YYYY-MM-DD' }, 400);
+  }
+  if (from && to && from > to) {
+    return jsonResponse({ error: 'from must not be after to' }, 400);
+  }
+  const after = requestUrl.searchParams.get('after');
+  if (after !== null && !/^\d{4}-\d{2}-\d{2}:[^:]+$/.test(after)) {
+    return jsonResponse({ error: 'after must be {date}:{urlHash} from a previous page' }, 400);
+  }
+  const limit = Math.min(
+    Number.parseInt(requestUrl.searchParams.get('limit') || String(WARC_EXPORT_PAGE_LIMIT), 10) || WARC_EXPORT_PAGE_LIMIT,
+    WARC_EXPORT_PAGE_LIMIT
+  );
+
+  const siteConfig = await siteManager.getSiteConfig(siteId);
+  if (!siteConfig) {
+    return jsonResponse({ error: 'Site not found' }, 404);
+  }
+
+  // Secret-backed user agents are not resolved for an export
+  const userAgent = typeof siteConfig.fetchOptions.userAgent === 'string' ? siteConfig.fetchOptions.userAgent : undefined;
+  const range = { from, to };
+  const page = await listWarcExportPage(kv, siteId, range, Math.max(limit, 1), after === null ? undefined : {
+    after,
+    cursor: requestUrl.searchParams.get('cursor') || undefined
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/gzip',
+    'Content-Disposition': `attachment; filename="${getWarcExportFilename(siteId, range, after ?? undefined)}"`
+  };
+  if (page.next) {
+    const nextUrl = new URL(requestUrl);
+    nextUrl.searchParams.set('after', page.next.after);
+    if (page.next.cursor) {
+      nextUrl.searchParams.set('cursor', page.next.cursor);
+    } else {
+      nextUrl.searchParams.delete('cursor');
+    }
+    headers.Link = `<${nextUrl.pathname}${nextUrl.search}>; rel="next"`;
+  }
+
+  return new Response(createWarcExportStream(kv, siteId, range, page.keys, userAgent, storage), { headers });
+}
+
+/**
+ * The most recent backup of every URL at or before `at` (default now), a page of URLs at a
+ * time in urlHash order, since each URL costs a metadata read or two.
+ */
+async function handlePointInTimeSnapshot(siteId: string, requestUrl: URL, kv: KVNamespace): Promise<Response> {
+  const at = parsePointInTime(requestUrl.searchParams.get('at') || new Date().toISOString());
+  if (!at) {
+    return jsonResponse({ error: 'at must be an ISO timestamp or YYYY-MM-DD' }, 400);
+  }
+  const offset = Math.max(Number.parseInt(requestUrl.searchParams.get('offset') || '0', 10) || 0, 0);
+  const limit = Math.min(Number.parseInt(requestUrl.searchParams.get('limit') || '200', 10) || 200, 500);
+
+  const candidates = await listPointInTimeCandidates(kv, siteId, at);
+  const pages: Array<Omit<PointInTimeSnapshot, 'metadata'>> = [];
+  for (const candidate of candidates.slice(offset, offset + limit)) {
+    const snapshot = await resolvePointInTimeSnapshot(kv, siteId, candidate, at);
+    if (snapshot) {
+      const { metadata: _metadata, ...page } = snapshot;
+      pages.push(page);
+    }
+  }
+
+  return jsonResponse({
+    siteId,
+    at: at.toISOString(),
+    totalUrls: candidates.length,
+    pages,
+    nextOffset: offset + limit < candidates.length ? offset + limit : null
+  });
+}
+
+/**
+ * The point-in-time site as a zip, `limit` URLs a response (at most
+ * `SNAPSHOT_ZIP_PAGE_LIMIT`) in the JSON endpoint's urlHash order. When more remain, a
+ * `Link: rel="next"` header gives the request for the next part.
+ */
+async function handleSnapshotZip(
+  siteId: string,
+  requestUrl: URL,
+  siteManager: SiteManager,
+  kv: KVNamespace,
+  storage?: R2Bucket
+): Promise<Response> {
+  const at = parsePointInTime(requestUrl.searchParams.get('at') || new Date().toISOString());
+  if (!at) {
+    return jsonResponse({ error: 'at must be an ISO timestamp or YYYY-MM-DD' }, 400);
+  }
+  if (!await siteManager.getSiteConfig(siteId)) {
+    return jsonResponse({ error: 'Site not found' }, 404);
+  }
+  const offset = Math.max(Number.parseInt(requestUrl.searchParams.get('offset') || '0', 10) || 0, 0);
+  const limit = Math.min(
+    Number.parseInt(requestUrl.searchParams.get('limit') || String(SNAPSHOT_ZIP_PAGE_LIMIT), 10) || SNAPSHOT_ZIP_PAGE_LIMIT,
+    SNAPSHOT_ZIP_PAGE_LIMIT
+  );
+
+  const candidates = await listPointInTimeCandidates(kv, siteId, at);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/zip',
+    'Content-Disposition': `attachment; filename="${getSnapshotZipFilename(siteId, at, offset)}"`
+  };
+  if (offset + limit < candidates.length) {
+    const nextUrl = new URL(requestUrl);
+    nextUrl.searchParams.set('offset', String(offset + limit));
+    headers.Link = `<${nextUrl.pathname}${nextUrl.search}>; rel="next"`;
+  }
+
+  return new Response(createSnapshotZipStream(kv, siteId, at, candidates.slice(offset, offset + limit), storage), { headers });
+}
+
+/** What the next retention cleanup would prune, and why, without deleting anything. */
+async function handleRetentionPreview(siteId: string, siteManager: SiteManager, kv: KVNamespace): Promise<Response> {
+  const siteConfig = await siteManager.getSiteConfig(siteId);
+  if (!siteConfig) {
+    return jsonResponse({ error: 'Site not found' }, 404);
+  }
+
+  const plan = await new RetentionPlanner(kv).plan(siteConfig);
+  const keptByRule: Partial<Record<RetentionRule, number>> = {};
+  for (const { rules } of plan.kept) {
+    for (const rule of rules) {
+      keptByRule[rule] = (keptByRule[rule] ?? 0) + 1;
+    }
+  }
+
+  // Large sites can have more prunable backups than a response should list
+  const listLimit = 1000;
+  return jsonResponse({
+    siteId,
+    dryRun: true,
+    today: plan.today,
+    retentionDays: plan.retentionDays,
+    retentionPolicy: plan.policy,
+    keptCount: plan.kept.length,
+    keptByRule,
+    prunedCount: plan.pruned.length,
+    pruned: plan.pruned.slice(0, listLimit),
+    truncated: plan.pruned.length > listLimit
+  });
+}
+
+async function handleSnapshotManifest(siteId: string, url: URL, kv: KVNamespace): Promise<Response> {
+  const manifest = new SnapshotManifestStore(kv);
+  const from = Math.max(Number.parseInt(url.searchParams.get('from') || '0', 10) || 0, 0);
+  const limit = Math.min(Number.parseInt(url.searchParams.get('limit') || '30', 10) || 30, 100);
+
+  const entries = await manifest.listEntries(siteId, from, limit);
+  const last = entries[entries.length - 1];
+  const head = await manifest.getHead(siteId);
+  return jsonResponse({
+    siteId,
+    head,
+    entries,
+    unsealedDates: await manifest.listUnsealedDates(siteId),
+    nextFrom: last && head && last.sequence < head.sequence ? last.sequence + 1 : null
+  });
+}
+
+async function handleDiffRequest(path: string, kv: KVNamespace, storage?: R2Bucket): Promise<Response> {
   const match = path.match(/\/api\/sites\/([^/]+)\/diff\/(\d{4}-\d{2}-\d{2})/);
   if (!match) {
     return new Response('Invalid diff request', { status: 400 });
@@ -492,7 +1106,7 @@ async function handleDiffRequest(path: string, kv: KVNamespace): Promise<Respons
       return new Response('Site not found', { status: 404 });
     }
 
-    const list = await kv.list({ prefix: `backup:${siteId}:${date}:` });
+    const list = await kv.list({ prefix: `meta:${siteId}:${date}:` });
     const urls: Array<{
       url: string;
       urlHash: string;
@@ -501,7 +1115,7 @@ async function handleDiffRequest(path: string, kv: KVNamespace): Promise<Respons
       structureChanges: number;
     }> = [];
     
-    const urlRegex = new RegExp(`backup:${siteId}:${date}:([a-f0-9]+)`);
+    const urlRegex = new RegExp(`meta:${siteId}:${date}:([a-f0-9]+)`);
     for (const key of list.keys) {
       const urlMatch = key.name.match(urlRegex);
       if (urlMatch) {
@@ -525,7 +1139,8 @@ async function handleDiffRequest(path: string, kv: KVNamespace): Promise<Respons
       }
     }
 
-    const diffGenerator = new DiffGenerator(kv);
+    const diffGenerator = new DiffGenerator(kv, storage);
+    const payloads = createPayloadStore(kv, storage);
     const previousDate = await getPreviousDate(siteId, date, kv);
 
     for (const urlData of urls.slice(0, 10)) {
@@ -541,11 +1156,8 @@ async function handleDiffRequest(path: string, kv: KVNamespace): Promise<Respons
 
             if (currMetaData) {
               const currData = JSON.parse(currMetaData);
-              const backupPrevKey = `backup:${siteId}:${previousDate}:${urlData.urlHash}`;
-              const backupCurrKey = `backup:${siteId}:${date}:${urlData.urlHash}`;
-              
-              const prevBackupContent = await readBackupContent(kv, siteId, previousDate, urlData.urlHash, prevData);
-              const currBackupContent = await readBackupContent(kv, siteId, date, urlData.urlHash, currData);
+              const prevBackupContent = await readBackupContent(payloads, siteId, previousDate, urlData.urlHash, prevData);
+              const currBackupContent = await readBackupContent(payloads, siteId, date, urlData.urlHash, currData);
               
               if (prevBackupContent && currBackupContent) {
                 const diff = await diffGenerator.generateDiff(
@@ -592,7 +1204,7 @@ async function handleDiffRequest(path: string, kv: KVNamespace): Promise<Respons
   }
 }
 
-async function handleUrlHistoryRequest(path: string, kv: KVNamespace): Promise<Response> {
+async function handleUrlHistoryRequest(path: string, kv: KVNamespace, storage?: R2Bucket): Promise<Response> {
   const match = path.match(/\/api\/sites\/([^/]+)\/diff\/(\d{4}-\d{2}-\d{2})\/url\/([a-f0-9]+)/);
   if (!match) {
     return new Response('Invalid URL history request', { status: 400 });
@@ -630,14 +1242,15 @@ async function handleUrlHistoryRequest(path: string, kv: KVNamespace): Promise<R
 
     const prevData = JSON.parse(previousMetaData);
     
-    const prevBackupContent = await readBackupContent(kv, siteId, previousDate, urlHash, prevData);
-    const currBackupContent = await readBackupContent(kv, siteId, date, urlHash, currData);
+    const payloads = createPayloadStore(kv, storage);
+    const prevBackupContent = await readBackupContent(payloads, siteId, previousDate, urlHash, prevData);
+    const currBackupContent = await readBackupContent(payloads, siteId, date, urlHash, currData);
 
     if (!prevBackupContent || !currBackupContent) {
       return new Response('Backup content not found', { status: 404 });
     }
 
-    const diffGenerator = new DiffGenerator(kv);
+    const diffGenerator = new DiffGenerator(kv, storage);
     const diff = await diffGenerator.generateDiff(
       siteId,
       date,
@@ -671,7 +1284,7 @@ async function handleUrlHistoryRequest(path: string, kv: KVNamespace): Promise<R
   }
 }
 
-async function handlePreviewRequest(path: string, kv: KVNamespace): Promise<Response> {
+async function handlePreviewRequest(path: string, origin: string, kv: KVNamespace, storage?: R2Bucket): Promise<Response> {
   try {
     // Path format: /api/sites/{siteId}/preview/{date}/{urlHash}
     const match = path.match(/\/api\/sites\/([^/]+)\/preview\/([^/]+)\/([^/]+)/);
@@ -683,14 +1296,21 @@ async function handlePreviewRequest(path: string, kv: KVNamespace): Promise<Resp
     const metaKey = `meta:${siteId}:${date}:${urlHash}`;
     const metadataRaw = await kv.get(metaKey, 'text');
     const metadata = metadataRaw ? JSON.parse(metadataRaw) : null;
-    const content = await readBackupContent(kv, siteId, date, urlHash, metadata);
+    const content = await readBackupContent(createPayloadStore(kv, storage), siteId, date, urlHash, metadata);
 
     if (!content) {
       return new Response('Backup not found', { status: 404 });
     }
 
+    // Serve captured stylesheets, scripts and images from storage instead of the live site
+    const assetManifest = await new AssetStore(kv).getManifest(siteId, date, urlHash);
+    const pageUrl = metadata?.finalUrl ?? metadata?.url;
+    const html = assetManifest && pageUrl
+      ? rewriteAssetUrls(content, pageUrl, assetManifest, `${origin}/assets/${siteId}`)
+      : content;
+
     // Return the HTML content directly for iframe preview
-    return new Response(content, {
+    return new Response(html, {
       headers: { 
         'Content-Type': 'text/html; charset=utf-8',
         'X-Frame-Options': 'SAMEORIGIN'
@@ -702,6 +1322,24 @@ async function handlePreviewRequest(path: string, kv: KVNamespace): Promise<Resp
   }
 }
 
+async function handleAssetRequest(siteId: string, hash: string, kv: KVNamespace): Promise<Response> {
+  const asset = await new AssetStore(kv).getBlob(siteId, hash);
+  if (!asset) {
+    return new Response('Asset not found', { status: 404 });
+  }
+
+  return new Response(asset.body, {
+    headers: {
+      'Content-Type': asset.contentType,
+      // Content-addressed, so a hash always names the same bytes
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      // Captured scripts and SVGs must never run on this origin when opened directly
+      'Content-Security-Policy': 'sandbox'
+    }
+  });
+}
+
 // Handler for listing all backed up URLs for a site with pagination, search, and sorting
 async function handleListBackedUpUrls(siteId: string, requestUrl: URL, kv: KVNamespace): Promise<Response> {
   try {
@@ -824,6 +1462,7 @@ async function handleBackupHistory(siteId: string, urlHash: string, kv: KVNamesp
   try {
     // List all metadata entries for this site
     const list = await kv.list({ prefix: `meta:${siteId}:` });
+    const holds = await new LegalHoldStore(kv).list(siteId);
     const history: Array<{
       date: string;
       timestamp: string;
@@ -831,6 +1470,7 @@ async function handleBackupHistory(siteId: string, urlHash: string, kv: KVNamesp
       size: number;
       hash: string;
       contentType: string;
+      legalHold?: { id: string; reason: string };
     }> = [];
 
     for (const key of list.keys) {
@@ -843,13 +1483,15 @@ async function handleBackupHistory(siteId: string, urlHash: string, kv: KVNamesp
         if (metaData) {
           try {
             const metadata = JSON.parse(metaData);
+            const hold = findLegalHold(holds, date, urlHash);
             history.push({
               date,
               timestamp: metadata.timestamp,
               status: metadata.status,
               size: metadata.size,
               hash: metadata.hash,
-              contentType: metadata.contentType || 'text/html'
+              contentType: metadata.contentType || 'text/html',
+              ...(hold && { legalHold: { id: hold.id, reason: hold.reason } })
             });
           } catch (error) {
             console.error(`Failed to parse metadata for ${key.name}:`, error);
@@ -875,12 +1517,12 @@ async function handleBackupHistory(siteId: string, urlHash: string, kv: KVNamesp
 }
 
 // Handler for getting raw HTML source of a backup
-async function handleBackupSource(siteId: string, date: string, urlHash: string, kv: KVNamespace): Promise<Response> {
+async function handleBackupSource(siteId: string, date: string, urlHash: string, kv: KVNamespace, storage?: R2Bucket): Promise<Response> {
   try {
     const metaKey = `meta:${siteId}:${date}:${urlHash}`;
     const metadataRaw = await kv.get(metaKey, 'text');
     const metadata = metadataRaw ? JSON.parse(metadataRaw) : null;
-    const content = await readBackupContent(kv, siteId, date, urlHash, metadata);
+    const content = await readBackupContent(createPayloadStore(kv, storage), siteId, date, urlHash, metadata);
 
     if (!content) {
       return new Response('Backup not found', { status: 404 });
@@ -899,11 +1541,11 @@ async function handleBackupSource(siteId: string, date: string, urlHash: string,
 }
 
 async function getPreviousDate(siteId: string, currentDate: string, kv: KVNamespace): Promise<string | null> {
-  const list = await kv.list({ prefix: `backup:${siteId}:` });
+  const list = await kv.list({ prefix: `meta:${siteId}:` });
   const dates = new Set<string>();
 
   for (const key of list.keys) {
-    const match = key.name.match(/backup:[^:]+:(\d{4}-\d{2}-\d{2})/);
+    const match = key.name.match(/meta:[^:]+:(\d{4}-\d{2}-\d{2})/);
     if (match) {
       dates.add(match[1]);
     }
@@ -2298,7 +2940,7 @@ async function serveBackupViewer(kv: KVNamespace): Promise<Response> {
 
         const dateSelect = document.getElementById('dateSelect');
         dateSelect.innerHTML = backupHistory.map((h, i) => {
-          const label = h.date + (i === 0 ? ' (latest)' : '');
+          const label = h.date + (i === 0 ? ' (latest)' : '') + (h.legalHold ? ' (legal hold)' : '');
           return '<option value="' + h.date + '">' + label + '</option>';
         }).join('');
 
@@ -1,4 +1,5 @@
 import { BackupMetadata } from '../types/site';
+import { PayloadStore } from './payload-store';
 
 export const IDENTITY_CONTENT_ENCODING = 'identity';
 export const GZIP_BASE64_CONTENT_ENCODING = 'gzip-base64';
@@ -11,7 +12,7 @@ function isStoredContentEncoding(value: unknown): value is StoredContentEncoding
   return value === IDENTITY_CONTENT_ENCODING || value === GZIP_BASE64_CONTENT_ENCODING;
 }
 
-function bytesToBase64(bytes: Uint8Array): string {
+export function bytesToBase64(bytes: Uint8Array): string {
   let binary = '';
   for (const byte of bytes) {
     binary += String.fromCharCode(byte);
@@ -20,7 +21,7 @@ function bytesToBase64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-function base64ToBytes(value: string): Uint8Array {
+export function base64ToBytes(value: string): Uint8Array {
   const binary = atob(value);
   const bytes = new Uint8Array(binary.length);
 
@@ -31,7 +32,19 @@ function base64ToBytes(value: string): Uint8Array {
   return bytes;
 }
 
-async function collectStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+/** Thrown when a stream or decompressed data is larger than the caller allows. */
+export class SizeLimitError extends Error {
+  readonly limitBytes: number;
+
+  constructor(limitBytes: number) {
+    super(`Data is larger than ${limitBytes} bytes`);
+    this.name = 'SizeLimitError';
+    this.limitBytes = limitBytes;
+  }
+}
+
+/** Read a stream into one array, giving up with a `SizeLimitError` once it passes `maxBytes`. */
+export async function collectStream(stream: ReadableStream<Uint8Array>, maxBytes: number = Infinity): Promise<Uint8Array> {
   const reader = stream.getReader();
   const chunks: Uint8Array[] = [];
   let totalLength = 0;
@@ -47,6 +60,10 @@ async function collectStream(stream: ReadableStream<Uint8Array>): Promise<Uint8A
         chunks.push(value);
         totalLength += value.length;
       }
+      if (totalLength > maxBytes) {
+        await reader.cancel();
+        throw new SizeLimitError(maxBytes);
+      }
     }
   } finally {
     reader.releaseLock();
@@ -63,32 +80,46 @@ async function collectStream(stream: ReadableStream<Uint8Array>): Promise<Uint8A
   return combined;
 }
 
-async function gzipCompress(content: string): Promise<string> {
+export async function gzipBytes(bytes: Uint8Array): Promise<Uint8Array> {
   const stream = new CompressionStream('gzip');
   const writer = stream.writable.getWriter();
+  // Read while writing, so large inputs do not stall on the readable side's backpressure
+  const writing = writer.write(bytes).finally(() => writer.close());
+  const output = await collectStream(stream.readable);
+  await writing;
 
-  try {
-    await writer.write(new TextEncoder().encode(content));
-  } finally {
-    await writer.close();
-  }
-
-  const compressed = await collectStream(stream.readable);
-  return bytesToBase64(compressed);
+  return output;
 }
 
-async function gzipDecompress(encoded: string): Promise<string> {
-  const stream = new DecompressionStream('gzip');
+/**
+ * Decompress `bytes`, throwing a `SizeLimitError` rather than holding more than `maxBytes`
+ * of output in memory.
+ */
+export async function decompressBytes(
+  bytes: Uint8Array,
+  format: 'gzip' | 'deflate-raw',
+  maxBytes: number = Infinity
+): Promise<Uint8Array> {
+  const stream = new DecompressionStream(format);
   const writer = stream.writable.getWriter();
+  const writing = writer.write(bytes).finally(() => writer.close());
+  // Awaited together, so corrupt input rejects once instead of leaving the write's rejection unhandled
+  const [output] = await Promise.all([collectStream(stream.readable, maxBytes), writing]);
 
-  try {
-    await writer.write(base64ToBytes(encoded));
-  } finally {
-    await writer.close();
-  }
+  return output;
+}
+
+/** Decompress gzip data. Concatenated members, as in a `.warc.gz`, decompress as one stream. */
+export async function gunzipBytes(bytes: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+  return decompressBytes(bytes, 'gzip', maxBytes);
+}
+
+async function gzipCompress(content: string): Promise<string> {
+  return bytesToBase64(await gzipBytes(new TextEncoder().encode(content)));
+}
 
-  const decompressed = await collectStream(stream.readable);
-  return new TextDecoder().decode(decompressed);
+async function gzipDecompress(encoded: string): Promise<string> {
+  return new TextDecoder().decode(await gunzipBytes(base64ToBytes(encoded)));
 }
 
 export async function encodeBackupContent(content: string): Promise<{
@@ -109,7 +140,11 @@ export async function encodeBackupContent(content: string): Promise<{
   }
 }
 
-export async function decodeBackupContent(
+/**
+ * Decode a stored payload, throwing when it cannot be decoded. Readers that would rather
+ * show something use `decodeBackupContent`, which falls back to the stored string.
+ */
+export async function decodeBackupContentStrict(
   storedContent: string,
   encoding?: string
 ): Promise<string> {
@@ -118,20 +153,22 @@ export async function decodeBackupContent(
   }
 
   if (!isStoredContentEncoding(encoding)) {
+    throw new Error(`Unknown content encoding ${encoding}`);
+  }
+
+  return await gzipDecompress(storedContent);
+}
+
+export async function decodeBackupContent(
+  storedContent: string,
+  encoding?: string
+): Promise<string> {
+  if (encoding && !isStoredContentEncoding(encoding)) {
     return storedContent;
   }
 
   try {
-    switch (encoding) {
-      case GZIP_BASE64_CONTENT_ENCODING:
-        return await gzipDecompress(storedContent);
-      case IDENTITY_CONTENT_ENCODING:
-        return storedContent;
-      default: {
-        const exhaustiveCheck: never = encoding;
-        return exhaustiveCheck;
-      }
-    }
+    return await decodeBackupContentStrict(storedContent, encoding);
   } catch (error) {
     console.error(`Failed to decode backup content with encoding ${encoding}:`, error);
     return storedContent;
@@ -139,14 +176,13 @@ export async function decodeBackupContent(
 }
 
 export async function readBackupContent(
-  kv: KVNamespace,
+  payloads: PayloadStore,
   siteId: string,
   date: string,
   urlHash: string,
   metadata?: Partial<BackupMetadata> | null
 ): Promise<string | null> {
-  const contentKey = `backup:${siteId}:${date}:${urlHash}`;
-  const storedContent = await kv.get(contentKey, 'text');
+  const storedContent = await payloads.get(siteId, date, urlHash, metadata);
 
   if (storedContent === null) {
     return null;
@@ -0,0 +1,98 @@
+interface MemoryR2Object {
+  body: Uint8Array;
+  httpMetadata: Record<string, unknown>;
+  uploaded: Date;
+}
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+function toBytes(value: string | ArrayBuffer | ArrayBufferView | null): Uint8Array {
+  if (value === null) {
+    return new Uint8Array();
+  }
+  if (typeof value === 'string') {
+    return new TextEncoder().encode(value);
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value.slice(0));
+  }
+
+  return new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+}
+
+/**
+ * An R2 bucket held in memory, covering the calls the payload store makes: `head`, `get`,
+ * `put`, `delete` and prefix `list` with cursors. Stands in for `BACKUP_STORAGE` in tests.
+ */
+export class MemoryR2Bucket {
+  readonly objects = new Map<string, MemoryR2Object>();
+
+  private describe(key: string, object: MemoryR2Object) {
+    return {
+      key,
+      size: object.body.length,
+      uploaded: object.uploaded,
+      httpMetadata: object.httpMetadata
+    };
+  }
+
+  async head(key: string) {
+    const object = this.objects.get(key);
+    return object ? this.describe(key, object) : null;
+  }
+
+  async get(key: string) {
+    const object = this.objects.get(key);
+    if (!object) {
+      return null;
+    }
+
+    const body = object.body.slice();
+    return {
+      ...this.describe(key, object),
+      arrayBuffer: async () => body.buffer,
+      text: async () => new TextDecoder().decode(body)
+    };
+  }
+
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView | null,
+    options?: { httpMetadata?: Record<string, unknown> }
+  ) {
+    const object: MemoryR2Object = {
+      body: toBytes(value),
+      httpMetadata: options?.httpMetadata ?? {},
+      uploaded: new Date()
+    };
+    this.objects.set(key, object);
+    return this.describe(key, object);
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.objects.delete(key);
+    }
+  }
+
+  async list(options?: { prefix?: string; cursor?: string; limit?: number }) {
+    const keys = Array.from(this.objects.keys())
+      .filter((key) => key.startsWith(options?.prefix ?? ''))
+      .sort();
+    const start = options?.cursor ? Number.parseInt(options.cursor, 10) : 0;
+    const end = start + (options?.limit ?? DEFAULT_LIST_LIMIT);
+    const truncated = end < keys.length;
+
+    return {
+      objects: keys.slice(start, end).map((key) => this.describe(key, this.objects.get(key)!)),
+      truncated,
+      cursor: truncated ? String(end) : undefined,
+      delimitedPrefixes: []
+    };
+  }
+
+  /** This bucket, typed as the binding it stands in for. */
+  asBinding(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
@@ -0,0 +1,177 @@
+import { BackupMetadata, StorageBackend } from '../types/site';
+import { KVListResult } from './kv-types';
+import { GZIP_BASE64_CONTENT_ENCODING, StoredContentEncoding, base64ToBytes, bytesToBase64 } from './content-storage';
+
+/** Where a payload was written, recorded in the backup's metadata. */
+export interface PayloadPointer {
+  storageBackend: StorageBackend;
+  storageKey: string;
+}
+
+/**
+ * Storage for backup payloads (the page bodies), separate from the metadata and pointers
+ * that stay in KV. Payloads are keyed by URL and content hash and handled in their stored
+ * encoding; see `encodeBackupContent`. Sharing them between backups is `SharedPayloadStore`'s job.
+ */
+export interface PayloadStore {
+  readonly backend: StorageBackend;
+  put(siteId: string, urlHash: string, contentHash: string, storedContent: string, encoding: StoredContentEncoding): Promise<PayloadPointer>;
+  /** The stored payload of a backup, or null when it is missing. */
+  get(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<string | null>;
+  /** Delete the payload `metadata` points at, or the backup's per-date payload if it predates pointers. */
+  delete(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<void>;
+  /** Delete every payload of a site and return how many were removed. */
+  deleteSite(siteId: string): Promise<number>;
+}
+
+export function getKvPayloadKey(siteId: string, urlHash: string, contentHash: string): string {
+  return `payload:${siteId}:${urlHash}:${contentHash}`;
+}
+
+/** Where payloads were kept before they were shared: one copy per backup. */
+export function getLegacyKvPayloadKey(siteId: string, date: string, urlHash: string): string {
+  return `backup:${siteId}:${date}:${urlHash}`;
+}
+
+/** Object key for a payload in R2: gzipped payloads are stored as real `.html.gz` objects. */
+export function getR2PayloadKey(siteId: string, urlHash: string, contentHash: string, encoding: StoredContentEncoding): string {
+  return `${siteId}/payloads/${urlHash}/${contentHash}.${encoding === GZIP_BASE64_CONTENT_ENCODING ? 'html.gz' : 'html'}`;
+}
+
+async function deleteKvPrefix(kv: KVNamespace, prefix: string): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  do {
+    const list = await kv.list({ prefix, limit: 1000, cursor }) as KVListResult;
+    for (const key of list.keys) {
+      await kv.delete(key.name);
+      deleted++;
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return deleted;
+}
+
+/**
+ * Payloads in KV under `payload:{siteId}:{urlHash}:{contentHash}`. Backups written before
+ * payloads were shared have no `storageKey` and are read from `backup:{siteId}:{date}:{urlHash}`.
+ */
+export class KvPayloadStore implements PayloadStore {
+  readonly backend = 'kv' as const;
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async put(siteId: string, urlHash: string, contentHash: string, storedContent: string): Promise<PayloadPointer> {
+    const storageKey = getKvPayloadKey(siteId, urlHash, contentHash);
+    await this.kv.put(storageKey, storedContent);
+    return { storageBackend: 'kv', storageKey };
+  }
+
+  async get(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<string | null> {
+    if (metadata?.storageBackend === 'r2') {
+      console.warn(`Backup ${siteId}/${date}/${urlHash} is stored in R2, but no BACKUP_STORAGE binding is configured`);
+      return null;
+    }
+
+    return this.kv.get(metadata?.storageKey ?? getLegacyKvPayloadKey(siteId, date, urlHash), 'text');
+  }
+
+  async delete(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<void> {
+    if (metadata?.storageBackend === 'r2') {
+      return;
+    }
+
+    await this.kv.delete(metadata?.storageKey ?? getLegacyKvPayloadKey(siteId, date, urlHash));
+  }
+
+  async deleteSite(siteId: string): Promise<number> {
+    return await deleteKvPrefix(this.kv, `payload:${siteId}:`) + await deleteKvPrefix(this.kv, `backup:${siteId}:`);
+  }
+}
+
+/**
+ * Payloads in an R2 bucket under `{siteId}/payloads/{urlHash}/{contentHash}.html.gz`. Entries
+ * whose metadata has no `storageBackend: "r2"` were written before the bucket was configured
+ * and are read from KV; deleting a site clears both places.
+ */
+export class R2PayloadStore implements PayloadStore {
+  readonly backend = 'r2' as const;
+  private bucket: R2Bucket;
+  private legacy: KvPayloadStore;
+
+  constructor(bucket: R2Bucket, kv: KVNamespace) {
+    this.bucket = bucket;
+    this.legacy = new KvPayloadStore(kv);
+  }
+
+  async put(
+    siteId: string,
+    urlHash: string,
+    contentHash: string,
+    storedContent: string,
+    encoding: StoredContentEncoding
+  ): Promise<PayloadPointer> {
+    const storageKey = getR2PayloadKey(siteId, urlHash, contentHash, encoding);
+
+    if (encoding === GZIP_BASE64_CONTENT_ENCODING) {
+      await this.bucket.put(storageKey, base64ToBytes(storedContent), {
+        httpMetadata: { contentType: 'text/html; charset=utf-8', contentEncoding: 'gzip' }
+      });
+    } else {
+      await this.bucket.put(storageKey, storedContent, {
+        httpMetadata: { contentType: 'text/html; charset=utf-8' }
+      });
+    }
+
+    return { storageBackend: 'r2', storageKey };
+  }
+
+  async get(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<string | null> {
+    if (metadata?.storageBackend !== 'r2' || !metadata.storageKey) {
+      return this.legacy.get(siteId, date, urlHash, metadata);
+    }
+
+    const object = await this.bucket.get(metadata.storageKey);
+    if (!object) {
+      return null;
+    }
+
+    return (metadata.contentEncoding ?? GZIP_BASE64_CONTENT_ENCODING) === GZIP_BASE64_CONTENT_ENCODING
+      ? bytesToBase64(new Uint8Array(await object.arrayBuffer()))
+      : object.text();
+  }
+
+  async delete(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<void> {
+    if (metadata?.storageBackend !== 'r2' || !metadata.storageKey) {
+      return this.legacy.delete(siteId, date, urlHash, metadata);
+    }
+
+    await this.bucket.delete(metadata.storageKey);
+  }
+
+  async deleteSite(siteId: string): Promise<number> {
+    let deleted = await this.legacy.deleteSite(siteId);
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.bucket.list({ prefix: `${siteId}/`, cursor });
+      if (list.objects.length > 0) {
+        await this.bucket.delete(list.objects.map((object) => object.key));
+        deleted += list.objects.length;
+      }
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+
+    return deleted;
+  }
+}
+
+/** The payload store for this deployment: R2 when a `BACKUP_STORAGE` bucket is bound, KV otherwise. */
+export function createPayloadStore(kv: KVNamespace, bucket?: R2Bucket): PayloadStore {
+  return bucket ? new R2PayloadStore(bucket, kv) : new KvPayloadStore(kv);
+}
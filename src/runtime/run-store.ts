@@ -1,8 +1,9 @@
+import { BudgetUsage } from '../backup/budget';
 import { SiteConfig } from '../types/site';
 import { KVListResult } from './kv-types';
 
 export type SiteRunTrigger = 'scheduled' | 'manual';
-export type SiteRunStatus = 'running' | 'success' | 'partial' | 'failed' | 'noop';
+export type SiteRunStatus = 'running' | 'success' | 'partial' | 'failed' | 'noop' | 'deferred';
 
 export interface SiteRunNotification {
   attempted: boolean;
@@ -13,11 +14,28 @@ export interface SiteRunNotification {
   deliveredAt?: string;
 }
 
+export interface SiteRunSchedule {
+  occurrenceAt: string;
+  missedOccurrences: number;
+  catchUp: boolean;
+  jobId?: string;
+  attempt?: number;
+  /** Earlier ticks that deferred this occurrence for lack of budget. */
+  deferrals?: number;
+}
+
+export interface SiteRunDeferral {
+  reason: string;
+  detail: string;
+}
+
 export interface SiteRunRecord {
   runId: string;
   siteId: string;
   siteName: string;
   trigger: SiteRunTrigger;
+  /** The schedule occurrence a scheduled run was started for. */
+  schedule?: SiteRunSchedule;
   status: SiteRunStatus;
   startedAt: string;
   finishedAt?: string;
@@ -28,14 +46,30 @@ export interface SiteRunRecord {
   failedBackups: number;
   storedBackups: number;
   failedStores: number;
+  /** URLs the origin answered with 304 Not Modified; absent on runs recorded before conditional GETs. */
+  notModifiedBackups?: number;
+  /** URLs robots.txt kept out of the run (first 100 only); see `robotsSkippedCount` for the total. */
+  robotsSkippedUrls?: string[];
+  robotsSkippedCount?: number;
+  lastmodSkippedBackups?: number;
   changedUrls: string[];
   changedUrlCount: number;
+  /** URL counts of the sitemap delta this run detected; see `/api/sites/{id}/sitemap/changes` for the URLs. */
+  sitemapChanges?: {
+    added: number;
+    removed: number;
+    readded: number;
+  };
   hasMore: boolean;
   progress?: {
     completed: number;
     total: number;
     percentComplete: number;
   };
+  /** How much of the run's wall-clock and subrequest budget was used. */
+  budget?: BudgetUsage;
+  /** Why the tick planner did not run this site (status `deferred`). */
+  deferral?: SiteRunDeferral;
   errors: string[];
   summary: string;
   notification?: SiteRunNotification;
@@ -68,13 +102,14 @@ export class RunStore {
     this.kv = kv;
   }
 
-  async startRun(siteConfig: SiteConfig, trigger: SiteRunTrigger): Promise<SiteRunRecord> {
+  async startRun(siteConfig: SiteConfig, trigger: SiteRunTrigger, schedule?: SiteRunSchedule): Promise<SiteRunRecord> {
     const startedAt = new Date().toISOString();
     const record: SiteRunRecord = {
       runId: buildRunId(),
       siteId: siteConfig.id,
       siteName: siteConfig.name,
       trigger,
+      ...(schedule && { schedule }),
       status: 'running',
       startedAt,
       totalUrls: 0,
@@ -83,11 +118,51 @@ export class RunStore {
       failedBackups: 0,
       storedBackups: 0,
       failedStores: 0,
+      notModifiedBackups: 0,
       changedUrls: [],
       changedUrlCount: 0,
       hasMore: false,
       errors: [],
-      summary: trigger === 'manual' ? 'Manual run started.' : 'Scheduled run started.'
+      summary: trigger === 'manual'
+        ? 'Manual run started.'
+        : schedule?.catchUp
+          ? `Catch-up run started for ${schedule.occurrenceAt}.`
+          : 'Scheduled run started.'
+    };
+
+    await this.persistRecord(record);
+    return record;
+  }
+
+  /** Record that a scheduled run was pushed to a later tick without doing any work. */
+  async recordDeferredRun(
+    siteConfig: SiteConfig,
+    deferral: SiteRunDeferral,
+    schedule?: SiteRunSchedule
+  ): Promise<SiteRunRecord> {
+    const now = new Date().toISOString();
+    const record: SiteRunRecord = {
+      runId: buildRunId(),
+      siteId: siteConfig.id,
+      siteName: siteConfig.name,
+      trigger: 'scheduled',
+      ...(schedule && { schedule }),
+      status: 'deferred',
+      startedAt: now,
+      finishedAt: now,
+      totalUrls: 0,
+      processedUrls: 0,
+      successfulBackups: 0,
+      failedBackups: 0,
+      storedBackups: 0,
+      failedStores: 0,
+      notModifiedBackups: 0,
+      changedUrls: [],
+      changedUrlCount: 0,
+      hasMore: true,
+      deferral,
+      errors: [],
+      summary: `Deferred: ${deferral.detail}.`
     };
 
     await this.persistRecord(record);
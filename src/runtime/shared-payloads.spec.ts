@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BackupMetadata } from '../types/site';
+import { readBackupContent } from './content-storage';
+import { KvPayloadStore } from './payload-store';
+import { SharedPayloadStore } from './shared-payloads';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    })
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+function keysWithPrefix(kv: { store: Map<string, string> }, prefix: string): string[] {
+  return Array.from(kv.store.keys()).filter((key) => key.startsWith(prefix)).sort();
+}
+
+describe('SharedPayloadStore', () => {
+  it('stores unchanged content once and deletes it with its last reference', async () => {
+    const kv = createMockKV();
+    const payloads = new KvPayloadStore(kv);
+    const shared = new SharedPayloadStore(kv, payloads);
+
+    const first = await shared.store('site', '2026-03-01', 'aaaa', '<p>Same</p>', 'hash-same');
+    const second = await shared.store('site', '2026-03-02', 'aaaa', '<p>Same</p>', 'hash-same');
+    // The same date again is a no-op
+    await shared.store('site', '2026-03-02', 'aaaa', '<p>Same</p>', 'hash-same', second);
+
+    expect(second).toEqual(first);
+    expect(first).toMatchObject({ payloadHash: 'hash-same', storageBackend: 'kv', storageKey: 'payload:site:aaaa:hash-same' });
+    expect(keysWithPrefix(kv, 'payload:')).toEqual(['payload:site:aaaa:hash-same']);
+    expect((kv.put as ReturnType<typeof vi.fn>).mock.calls.filter(([key]) => key.startsWith('payload:'))).toHaveLength(1);
+    expect(JSON.parse(kv.store.get('payload_ref:site:aaaa:hash-same')!).dates).toEqual(['2026-03-01', '2026-03-02']);
+    expect(await readBackupContent(payloads, 'site', '2026-03-01', 'aaaa', second)).toBe('<p>Same</p>');
+
+    await shared.release('site', '2026-03-01', 'aaaa', first);
+    expect(await readBackupContent(payloads, 'site', '2026-03-02', 'aaaa', second)).toBe('<p>Same</p>');
+
+    await shared.release('site', '2026-03-02', 'aaaa', second);
+    expect(keysWithPrefix(kv, 'payload')).toEqual([]);
+  });
+
+  it('releases the payload a same-day backup replaces, including per-date payloads from before sharing', async () => {
+    const kv = createMockKV({ 'backup:site:2026-03-01:aaaa': '<p>Legacy</p>' });
+    const shared = new SharedPayloadStore(kv, new KvPayloadStore(kv));
+    const legacy: Partial<BackupMetadata> = { timestamp: '2026-03-01T02:00:00.000Z', contentEncoding: 'identity' };
+
+    const morning = await shared.store('site', '2026-03-01', 'aaaa', '<p>Morning</p>', 'hash-morning', legacy);
+    expect(kv.store.has('backup:site:2026-03-01:aaaa')).toBe(false);
+
+    // Still referenced by another date, so only this date's reference goes
+    await shared.store('site', '2026-03-02', 'aaaa', '<p>Morning</p>', 'hash-morning');
+    await shared.store('site', '2026-03-01', 'aaaa', '<p>Evening</p>', 'hash-evening', morning);
+
+    expect(JSON.parse(kv.store.get('payload_ref:site:aaaa:hash-morning')!).dates).toEqual(['2026-03-02']);
+    expect(keysWithPrefix(kv, 'payload:')).toEqual(['payload:site:aaaa:hash-evening', 'payload:site:aaaa:hash-morning']);
+  });
+});
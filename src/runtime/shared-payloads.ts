@@ -0,0 +1,142 @@
+import { BackupMetadata } from '../types/site';
+import { StoredContentEncoding, encodeBackupContent } from './content-storage';
+import { PayloadPointer, PayloadStore } from './payload-store';
+
+/** The payload fields a backup's metadata takes from `SharedPayloadStore.store`. */
+export interface SharedPayload extends PayloadPointer {
+  payloadHash: string;
+  contentEncoding: StoredContentEncoding;
+}
+
+/** `payload_ref:{siteId}:{urlHash}:{contentHash}`: where a payload lives and who uses it. */
+export interface PayloadRefRecord extends PayloadPointer {
+  contentEncoding: StoredContentEncoding;
+  // Backup dates whose metadata points at the payload
+  dates: string[];
+}
+
+export function getPayloadRefKey(siteId: string, urlHash: string, contentHash: string): string {
+  return `payload_ref:${siteId}:${urlHash}:${contentHash}`;
+}
+
+/**
+ * Backup payloads stored once per URL and content hash, so a page that has not changed since
+ * its last backup costs a reference instead of another copy. References are the backup dates
+ * that use a payload, so recording or releasing one twice is harmless, and the payload is
+ * deleted with its last reference. Payloads are not shared across URLs, which keeps every
+ * reference list within the retention window.
+ */
+export class SharedPayloadStore {
+  private kv: KVNamespace;
+  private payloads: PayloadStore;
+
+  constructor(kv: KVNamespace, payloads: PayloadStore) {
+    this.kv = kv;
+    this.payloads = payloads;
+  }
+
+  /**
+   * Store `content` (whose SHA-256 is `contentHash`) for the backup of `urlHash` on `date`, or
+   * reference the copy already stored. `replaced` is the metadata this backup overwrites, if
+   * there is one for the same date; its payload is released.
+   */
+  async store(
+    siteId: string,
+    date: string,
+    urlHash: string,
+    content: string,
+    contentHash: string,
+    replaced?: Partial<BackupMetadata> | null
+  ): Promise<SharedPayload> {
+    if (replaced && replaced.payloadHash !== contentHash) {
+      await this.release(siteId, date, urlHash, replaced);
+    }
+
+    const refKey = getPayloadRefKey(siteId, urlHash, contentHash);
+    const record = await this.getRecord(refKey);
+    if (record) {
+      if (!record.dates.includes(date)) {
+        record.dates.push(date);
+        await this.kv.put(refKey, JSON.stringify(record));
+      }
+
+      return {
+        payloadHash: contentHash,
+        contentEncoding: record.contentEncoding,
+        storageBackend: record.storageBackend,
+        storageKey: record.storageKey
+      };
+    }
+
+    const encoded = await encodeBackupContent(content);
+    const pointer = await this.payloads.put(siteId, urlHash, contentHash, encoded.storedContent, encoded.encoding);
+    const created: PayloadRefRecord = { ...pointer, contentEncoding: encoded.encoding, dates: [date] };
+    await this.kv.put(refKey, JSON.stringify(created));
+
+    return { ...pointer, payloadHash: contentHash, contentEncoding: encoded.encoding };
+  }
+
+  /**
+   * Drop the backup of `urlHash` on `date` from its payload's references, deleting the payload
+   * when no other backup uses it. Backups written before payloads were shared own theirs.
+   */
+  async release(siteId: string, date: string, urlHash: string, metadata?: Partial<BackupMetadata> | null): Promise<void> {
+    if (!metadata?.payloadHash) {
+      await this.payloads.delete(siteId, date, urlHash, metadata);
+      return;
+    }
+
+    const refKey = getPayloadRefKey(siteId, urlHash, metadata.payloadHash);
+    const record = await this.getRecord(refKey);
+    if (!record) {
+      return;
+    }
+
+    const dates = record.dates.filter((referencedDate) => referencedDate !== date);
+    if (dates.length > 0) {
+      if (dates.length !== record.dates.length) {
+        await this.kv.put(refKey, JSON.stringify({ ...record, dates }));
+      }
+      return;
+    }
+
+    await this.payloads.delete(siteId, date, urlHash, record);
+    await this.kv.delete(refKey);
+  }
+
+  /** The references of the payload of `urlHash` with `contentHash`, or null when there are none. */
+  async getReference(siteId: string, urlHash: string, contentHash: string): Promise<PayloadRefRecord | null> {
+    return this.getRecord(getPayloadRefKey(siteId, urlHash, contentHash));
+  }
+
+  /**
+   * Record that the backup of `urlHash` on `date` uses an already stored `payload`, creating
+   * its reference list if that was lost.
+   */
+  async addReference(siteId: string, date: string, urlHash: string, payload: SharedPayload): Promise<void> {
+    const refKey = getPayloadRefKey(siteId, urlHash, payload.payloadHash);
+    const record = await this.getRecord(refKey) ?? {
+      storageBackend: payload.storageBackend,
+      storageKey: payload.storageKey,
+      contentEncoding: payload.contentEncoding,
+      dates: []
+    };
+    if (!record.dates.includes(date)) {
+      await this.kv.put(refKey, JSON.stringify({ ...record, dates: [...record.dates, date] }));
+    }
+  }
+
+  private async getRecord(refKey: string): Promise<PayloadRefRecord | null> {
+    const raw = await this.kv.get(refKey);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(raw) as PayloadRefRecord;
+    } catch (error) {
+      console.error(`Failed to parse payload references ${refKey}:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SiteDataService } from './site-data';
+
+function createMockKV(initial: Record<string, string> = {}): KVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>(Object.entries(initial));
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+    list: vi.fn((opts?: { prefix?: string }) =>
+      Promise.resolve({
+        keys: Array.from(store.keys())
+          .filter((name) => name.startsWith(opts?.prefix ?? ''))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true
+      })
+    )
+  } as unknown as KVNamespace & { store: Map<string, string> };
+}
+
+function siteKeys(siteId: string): Record<string, string> {
+  return {
+    [`site_config:${siteId}`]: '{}',
+    [`sitemap_snapshot:${siteId}`]: JSON.stringify({ chunkCount: 1, totalUrls: 1 }),
+    [`sitemap_snapshot:${siteId}:chunk:0`]: '[]',
+    [`crawl_snapshot:${siteId}`]: JSON.stringify({ chunkCount: 1, totalUrls: 1 }),
+    [`crawl_snapshot:${siteId}:chunk:0`]: '[]',
+    [`meta:${siteId}:2026-03-01:aaaa`]: '{}',
+    [`backup:${siteId}:2026-03-01:aaaa`]: '<p>Page</p>'
+  };
+}
+
+describe('SiteDataService', () => {
+  it('deletes only the site whose id is given, not sites whose ids start with it', async () => {
+    const kv = createMockKV({
+      'sites:list': JSON.stringify(['shop', 'shop-eu']),
+      ...siteKeys('shop'),
+      ...siteKeys('shop-eu')
+    });
+
+    await new SiteDataService(kv).deleteSiteData('shop');
+
+    expect(Array.from(kv.store.keys()).filter((key) => key.includes(':shop:') || key.endsWith(':shop'))).toEqual([]);
+    expect(Array.from(kv.store.keys()).filter((key) => key !== 'sites:list').sort()).toEqual(Object.keys(siteKeys('shop-eu')).sort());
+    expect(JSON.parse(kv.store.get('sites:list')!)).toEqual(['shop-eu']);
+  });
+});
@@ -1,4 +1,7 @@
+import { LegalHoldError, LegalHoldStore } from '../backup/legal-hold';
 import { KVListResult } from './kv-types';
+import { PayloadStore, createPayloadStore } from './payload-store';
+
 async function listKeysWithPrefix(kv: KVNamespace, prefix: string): Promise<string[]> {
   const keys: string[] = [];
   let cursor: string | undefined;
@@ -33,12 +36,28 @@ async function deleteKeys(kv: KVNamespace, keys: string[]): Promise<number> {
 
 export class SiteDataService {
   private kv: KVNamespace;
+  private payloads: PayloadStore;
 
-  constructor(kv: KVNamespace) {
+  constructor(kv: KVNamespace, storage?: R2Bucket) {
     this.kv = kv;
+    this.payloads = createPayloadStore(kv, storage);
   }
 
-  async deleteSiteData(siteId: string): Promise<number> {
+  /**
+   * Delete everything stored for a site except its legal hold audit trail. Throws a
+   * `LegalHoldError`, deleting nothing, while the site has active legal holds.
+   */
+  async deleteSiteData(siteId: string, requestedBy: string = 'api'): Promise<number> {
+    const legalHolds = new LegalHoldStore(this.kv);
+    const holds = await legalHolds.list(siteId);
+    if (holds.length > 0) {
+      await legalHolds.recordAudit(siteId, 'deletion_refused', requestedBy, 'Site deletion requested', holds);
+      throw new LegalHoldError(
+        `Site ${siteId} has ${holds.length} active legal hold${holds.length === 1 ? '' : 's'}; release ${holds.length === 1 ? 'it' : 'them'} before deleting the site`,
+        holds
+      );
+    }
+
     const exactKeys = [
       `site_config:${siteId}`,
       `batch_progress:${siteId}`,
@@ -46,19 +65,41 @@ export class SiteDataService {
       `sitemap_listener:${siteId}`,
       `sitemap_pending:${siteId}`,
       `sitemap_listener_cursor:${siteId}`,
-      `run:latest:${siteId}`
+      `sitemap_snapshot:${siteId}`,
+      `crawl_snapshot:${siteId}`,
+      `crawl_state:${siteId}`,
+      `sitemap_removed:${siteId}`,
+      `run:latest:${siteId}`,
+      `schedule_state:${siteId}`,
+      `auth_session:${siteId}`,
+      `legal_holds:${siteId}`,
+      `snapshot_manifest_head:${siteId}`,
+      `scrub_state:${siteId}`
     ];
 
     const prefixKeys = await Promise.all([
-      listKeysWithPrefix(this.kv, `backup:${siteId}:`),
       listKeysWithPrefix(this.kv, `meta:${siteId}:`),
+      listKeysWithPrefix(this.kv, `payload_ref:${siteId}:`),
       listKeysWithPrefix(this.kv, `latest:${siteId}:`),
       listKeysWithPrefix(this.kv, `prev_latest:${siteId}:`),
       listKeysWithPrefix(this.kv, `stats:${siteId}:`),
       listKeysWithPrefix(this.kv, `urls_cache:${siteId}:`),
-      listKeysWithPrefix(this.kv, `sitemap_snapshot:${siteId}`),
+      listKeysWithPrefix(this.kv, `sitemap_snapshot:${siteId}:`),
+      listKeysWithPrefix(this.kv, `crawl_snapshot:${siteId}:`),
+      listKeysWithPrefix(this.kv, `sitemap_delta:${siteId}:`),
+      listKeysWithPrefix(this.kv, `asset_manifest:${siteId}:`),
+      listKeysWithPrefix(this.kv, `asset_ref:${siteId}:`),
+      listKeysWithPrefix(this.kv, `asset_blob:${siteId}:`),
+      listKeysWithPrefix(this.kv, `asset_blob_pin:${siteId}:`),
       listKeysWithPrefix(this.kv, `diff:${siteId}:`),
-      listKeysWithPrefix(this.kv, `run_site:${siteId}:`)
+      listKeysWithPrefix(this.kv, `run_site:${siteId}:`),
+      listKeysWithPrefix(this.kv, `scheduler_job:${siteId}:`),
+      listKeysWithPrefix(this.kv, `robots:${siteId}:`),
+      listKeysWithPrefix(this.kv, `snapshot_manifest:${siteId}:`),
+      listKeysWithPrefix(this.kv, `snapshot_manifest_pending:${siteId}:`),
+      listKeysWithPrefix(this.kv, `snapshot_manifest_backfill:${siteId}:`),
+      listKeysWithPrefix(this.kv, `scrub_finding:${siteId}:`),
+      listKeysWithPrefix(this.kv, `quarantine:${siteId}:`)
     ]);
     const globalRunKeys = (await listKeysWithPrefix(this.kv, 'run_log:'))
       .filter((key) => key.includes(`:${siteId}:`));
@@ -82,6 +123,7 @@ export class SiteDataService {
       }
     }
 
-    return deleteKeys(this.kv, allKeys);
+    const deletedPayloads = await this.payloads.deleteSite(siteId);
+    return deletedPayloads + await deleteKeys(this.kv, allKeys);
   }
 }
@@ -1,19 +1,33 @@
+import { BudgetUsage, ExecutionBudgetLimits } from '../backup/budget';
 import { BackupFetcher } from '../backup/fetcher';
+import { buildSiteRequestHeaders } from '../backup/request-headers';
+import { createSiteAuthSession } from '../backup/site-auth';
 import { SlackNotifier, SlackDeliveryResult } from '../slack/notifier';
 import { SiteBackupResult, SiteConfig } from '../types/site';
-import { RunStore, SiteRunRecord, SiteRunTrigger, SiteRunStatus } from './run-store';
+import { RunStore, SiteRunRecord, SiteRunSchedule, SiteRunTrigger, SiteRunStatus } from './run-store';
 
-interface ExecutionEnv {
+export interface ExecutionEnv {
   BACKUP_KV: KVNamespace;
+  // Optional R2 bucket for backup payloads; without it they are stored in KV
+  BACKUP_STORAGE?: R2Bucket;
   DEFAULT_SLACK_WEBHOOK?: string;
   PUBLIC_BASE_URL?: string;
+  // HMAC key that signs snapshot manifest entries; entries are unsigned without it
+  MANIFEST_SIGNING_KEY?: string;
+  // Secret bindings referenced by site fetchOptions ({ "secret": "NAME" })
+  [binding: string]: unknown;
 }
 
+// Keeps run records small when robots.txt blocks a large part of a site.
+const MAX_RECORDED_SKIPPED_URLS = 100;
+
 interface ExecuteSiteBackupRunOptions {
   trigger: SiteRunTrigger;
+  schedule?: SiteRunSchedule;
   batchSize?: number;
   batchOffset?: number;
   continueFromLast?: boolean;
+  budget?: Partial<ExecutionBudgetLimits>;
 }
 
 export interface ExecuteSiteBackupRunResult {
@@ -22,7 +36,7 @@ export interface ExecuteSiteBackupRunResult {
   notification: SlackDeliveryResult;
 }
 
-function summarizeRun(status: SiteRunStatus, result: SiteBackupResult, hasMore: boolean): string {
+function summarizeRun(status: SiteRunStatus, result: SiteBackupResult, hasMore: boolean, budget: BudgetUsage): string {
   if (status === 'noop') {
     return 'No backup work was required for this run.';
   }
@@ -32,6 +46,23 @@ function summarizeRun(status: SiteRunStatus, result: SiteBackupResult, hasMore:
     `${result.changedUrls.length} changed`
   ];
 
+  if (result.notModifiedBackups > 0) {
+    fragments.push(`${result.notModifiedBackups} not modified`);
+  }
+
+  if (result.lastmodSkippedBackups > 0) {
+    fragments.push(`${result.lastmodSkippedBackups} skipped by lastmod`);
+  }
+
+  if (result.robotsSkippedUrls.length > 0) {
+    fragments.push(`${result.robotsSkippedUrls.length} blocked by robots.txt`);
+  }
+
+  if (result.sitemapDelta) {
+    const { added, removed, readded } = result.sitemapDelta;
+    fragments.push(`sitemap ${added.length} added, ${removed.length} removed, ${readded.length} re-added`);
+  }
+
   if (result.failedBackups > 0) {
     fragments.push(`${result.failedBackups} failed`);
   }
@@ -41,7 +72,9 @@ function summarizeRun(status: SiteRunStatus, result: SiteBackupResult, hasMore:
   }
 
   if (hasMore) {
-    fragments.push('more batches pending');
+    fragments.push(budget.stoppedByBudget
+      ? `more batches pending (stopped at ${budget.percentUsed}% of budget)`
+      : 'more batches pending');
   }
 
   return fragments.join(', ') + '.';
@@ -50,7 +83,7 @@ function summarizeRun(status: SiteRunStatus, result: SiteBackupResult, hasMore:
 function mapRunStatus(result: SiteBackupResult, hasMore: boolean): SiteRunStatus {
   const processedUrls = result.successfulBackups + result.failedBackups;
 
-  if (processedUrls === 0 && result.changedUrls.length === 0 && !hasMore) {
+  if (processedUrls === 0 && result.changedUrls.length === 0 && !result.sitemapDelta && !hasMore) {
     return 'noop';
   }
 
@@ -67,15 +100,20 @@ export async function executeSiteBackupRun(
   options: ExecuteSiteBackupRunOptions
 ): Promise<ExecuteSiteBackupRunResult> {
   const runStore = new RunStore(env.BACKUP_KV);
-  const fetcher = new BackupFetcher(env.BACKUP_KV);
-  const slackNotifier = new SlackNotifier(env.BACKUP_KV, env.DEFAULT_SLACK_WEBHOOK, env.PUBLIC_BASE_URL);
-  const runRecord = await runStore.startRun(siteConfig, options.trigger);
+  const fetcher = new BackupFetcher(env.BACKUP_KV, env.BACKUP_STORAGE);
+  const slackNotifier = new SlackNotifier(env.BACKUP_KV, env.DEFAULT_SLACK_WEBHOOK, env.PUBLIC_BASE_URL, env.BACKUP_STORAGE);
+  const runRecord = await runStore.startRun(siteConfig, options.trigger, options.schedule);
 
   try {
+    const requestHeaders = buildSiteRequestHeaders(siteConfig.fetchOptions, env);
     const backupResult = await fetcher.performSiteBackup(siteConfig, {
       batchSize: options.batchSize,
       batchOffset: options.batchOffset,
-      continueFromLast: options.continueFromLast
+      continueFromLast: options.continueFromLast,
+      budget: options.budget,
+      requestHeaders,
+      auth: createSiteAuthSession(env.BACKUP_KV, siteConfig, env, requestHeaders),
+      manifestSigningKey: typeof env.MANIFEST_SIGNING_KEY === 'string' ? env.MANIFEST_SIGNING_KEY : undefined
     });
 
     const siteBackupResult: SiteBackupResult = {
@@ -86,7 +124,11 @@ export async function executeSiteBackupRun(
       failedBackups: backupResult.failedBackups,
       storedBackups: backupResult.storedBackups,
       failedStores: backupResult.failedStores,
+      notModifiedBackups: backupResult.notModifiedBackups,
+      robotsSkippedUrls: backupResult.robotsSkippedUrls,
+      lastmodSkippedBackups: backupResult.lastmodSkippedBackups,
       changedUrls: backupResult.changedUrls,
+      ...(backupResult.sitemapDelta && { sitemapDelta: backupResult.sitemapDelta }),
       executionTime: backupResult.executionTime,
       errors: backupResult.errors,
       results: backupResult.results
@@ -98,7 +140,7 @@ export async function executeSiteBackupRun(
       channel: 'change'
     };
 
-    if (backupResult.changedUrls.length > 0) {
+    if (backupResult.changedUrls.length > 0 || backupResult.sitemapDelta) {
       notification = await slackNotifier.sendChangeNotificationWithDetails(siteConfig, siteBackupResult);
     }
 
@@ -114,10 +156,22 @@ export async function executeSiteBackupRun(
       failedBackups: siteBackupResult.failedBackups,
       storedBackups: siteBackupResult.storedBackups,
       failedStores: siteBackupResult.failedStores,
+      notModifiedBackups: siteBackupResult.notModifiedBackups,
+      robotsSkippedUrls: siteBackupResult.robotsSkippedUrls.slice(0, MAX_RECORDED_SKIPPED_URLS),
+      robotsSkippedCount: siteBackupResult.robotsSkippedUrls.length,
+      lastmodSkippedBackups: siteBackupResult.lastmodSkippedBackups,
       changedUrls: siteBackupResult.changedUrls,
       changedUrlCount: siteBackupResult.changedUrls.length,
+      ...(siteBackupResult.sitemapDelta && {
+        sitemapChanges: {
+          added: siteBackupResult.sitemapDelta.added.length,
+          removed: siteBackupResult.sitemapDelta.removed.length,
+          readded: siteBackupResult.sitemapDelta.readded.length
+        }
+      }),
       hasMore: backupResult.hasMore,
       progress: backupResult.progress,
+      budget: backupResult.budget,
       errors: siteBackupResult.errors,
       notification: {
         attempted: notification.attempted,
@@ -127,7 +181,7 @@ export async function executeSiteBackupRun(
         message: notification.message,
         deliveredAt: notification.deliveredAt
       },
-      summary: summarizeRun(status, siteBackupResult, backupResult.hasMore)
+      summary: summarizeRun(status, siteBackupResult, backupResult.hasMore, backupResult.budget)
     };
 
     await runStore.saveRun(completedRecord);
@@ -155,6 +209,9 @@ export async function executeSiteBackupRun(
       failedBackups: 0,
       storedBackups: 0,
       failedStores: 0,
+      notModifiedBackups: 0,
+      robotsSkippedUrls: [],
+      lastmodSkippedBackups: 0,
       changedUrls: [],
       changedUrlCount: 0,
       hasMore: false,
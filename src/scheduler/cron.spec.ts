@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { matchesCronExpression } from './cron';
+import { isValidCronExpression, matchesCronExpression, nextOccurrences } from './cron';
 
 describe('matchesCronExpression', () => {
   it('matches exact daily schedules in UTC', () => {
@@ -19,4 +19,133 @@ describe('matchesCronExpression', () => {
   it('returns false for invalid expressions', () => {
     expect(matchesCronExpression('not-a-cron', new Date('2026-03-05T02:00:00.000Z'))).toBe(false);
   });
+
+  it('matches ranges, lists and stepped ranges', () => {
+    // 2026-03-05 is a Thursday.
+    const weekdayMorning = new Date('2026-03-05T09:30:00.000Z');
+    const weekdayEvening = new Date('2026-03-05T18:00:00.000Z');
+
+    expect(matchesCronExpression('30 9-17 * * 1-5', weekdayMorning)).toBe(true);
+    expect(matchesCronExpression('0 9-17 * * 1-5', weekdayEvening)).toBe(false);
+    expect(matchesCronExpression('0,30 * * * *', weekdayMorning)).toBe(true);
+    expect(matchesCronExpression('10-40/10 * * * *', weekdayMorning)).toBe(true);
+    expect(matchesCronExpression('15-45/20 * * * *', weekdayMorning)).toBe(false);
+  });
+
+  it('matches month and weekday names case-insensitively', () => {
+    const thursday = new Date('2026-03-05T02:00:00.000Z');
+
+    expect(matchesCronExpression('0 2 * * THU', thursday)).toBe(true);
+    expect(matchesCronExpression('0 2 * * mon', thursday)).toBe(false);
+    expect(matchesCronExpression('0 2 * MAR MON-FRI', thursday)).toBe(true);
+    expect(matchesCronExpression('0 2 * jan-feb *', thursday)).toBe(false);
+  });
+
+  it('treats 7 as Sunday', () => {
+    const sunday = new Date('2026-03-08T00:00:00.000Z');
+
+    expect(matchesCronExpression('0 0 * * 7', sunday)).toBe(true);
+    expect(matchesCronExpression('0 0 * * 0', sunday)).toBe(true);
+  });
+
+  it('ORs day-of-month and day-of-week when both are restricted', () => {
+    const firstOfMonth = new Date('2026-04-01T00:00:00.000Z'); // Wednesday
+    const monday = new Date('2026-04-06T00:00:00.000Z');
+    const tuesday = new Date('2026-04-07T00:00:00.000Z');
+
+    expect(matchesCronExpression('0 0 1 * MON', firstOfMonth)).toBe(true);
+    expect(matchesCronExpression('0 0 1 * MON', monday)).toBe(true);
+    expect(matchesCronExpression('0 0 1 * MON', tuesday)).toBe(false);
+    expect(matchesCronExpression('0 0 */2 * *', monday)).toBe(false);
+  });
+});
+
+describe('isValidCronExpression', () => {
+  it('rejects out-of-range values, reversed ranges and malformed steps', () => {
+    expect(isValidCronExpression('0 9-17 * * 1-5')).toBe(true);
+    expect(isValidCronExpression('5/15 * * * *')).toBe(true);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 24 * * *')).toBe(false);
+    expect(isValidCronExpression('0 0 0 * *')).toBe(false);
+    expect(isValidCronExpression('0 17-9 * * *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 0 * * FUNDAY')).toBe(false);
+    expect(isValidCronExpression('0,,5 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 0 * *')).toBe(false);
+  });
+});
+
+describe('nextOccurrences', () => {
+  it('returns the next matching instants strictly after the start time', () => {
+    const from = new Date('2026-03-05T09:00:00.000Z');
+
+    expect(nextOccurrences('0,30 9 * * *', from, 3).map((date) => date.toISOString())).toEqual([
+      '2026-03-05T09:30:00.000Z',
+      '2026-03-06T09:00:00.000Z',
+      '2026-03-06T09:30:00.000Z'
+    ]);
+  });
+
+  it('skips to matching weekdays and months', () => {
+    const from = new Date('2026-03-05T12:00:00.000Z');
+
+    expect(nextOccurrences('0 2 * * MON', from, 2).map((date) => date.toISOString())).toEqual([
+      '2026-03-09T02:00:00.000Z',
+      '2026-03-16T02:00:00.000Z'
+    ]);
+    expect(nextOccurrences('0 0 29 FEB *', from, 1).map((date) => date.toISOString())).toEqual([
+      '2028-02-29T00:00:00.000Z'
+    ]);
+  });
+
+  it('returns nothing for invalid or impossible schedules', () => {
+    const from = new Date('2026-03-05T12:00:00.000Z');
+
+    expect(nextOccurrences('bogus', from, 1)).toEqual([]);
+    expect(nextOccurrences('0 0 30 2 *', from, 1)).toEqual([]);
+  });
+});
+
+describe('time zone schedules', () => {
+  // America/Toronto: DST starts 2026-03-08 02:00 EST and ends 2026-11-01 02:00 EDT.
+  const zone = 'America/Toronto';
+
+  it('evaluates fields as wall-clock time in the site zone', () => {
+    expect(matchesCronExpression('0 9 * * *', new Date('2026-03-05T14:00:00.000Z'), zone)).toBe(true);
+    expect(matchesCronExpression('0 9 * * *', new Date('2026-03-05T09:00:00.000Z'), zone)).toBe(false);
+    // Monday 02:00 UTC is still Sunday evening in Toronto.
+    expect(matchesCronExpression('0 22 * * SUN', new Date('2026-03-09T02:00:00.000Z'), zone)).toBe(true);
+  });
+
+  it('runs times skipped by a spring-forward gap once, just after the gap', () => {
+    const from = new Date('2026-03-07T12:00:00.000Z');
+
+    expect(nextOccurrences('30 2 * * *', from, 2, zone).map((date) => date.toISOString())).toEqual([
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z'
+    ]);
+    expect(matchesCronExpression('30 2 * * *', new Date('2026-03-08T07:30:00.000Z'), zone)).toBe(true);
+    expect(nextOccurrences('0 2,3 * * *', from, 2, zone).map((date) => date.toISOString())).toEqual([
+      '2026-03-08T07:00:00.000Z',
+      '2026-03-09T06:00:00.000Z'
+    ]);
+  });
+
+  it('runs times repeated by a fall-back overlap only at the first occurrence', () => {
+    const from = new Date('2026-10-31T12:00:00.000Z');
+
+    expect(nextOccurrences('30 1 * * *', from, 2, zone).map((date) => date.toISOString())).toEqual([
+      '2026-11-01T05:30:00.000Z',
+      '2026-11-02T06:30:00.000Z'
+    ]);
+    expect(matchesCronExpression('30 1 * * *', new Date('2026-11-01T05:30:00.000Z'), zone)).toBe(true);
+    expect(matchesCronExpression('30 1 * * *', new Date('2026-11-01T06:30:00.000Z'), zone)).toBe(false);
+  });
+
+  it('treats UTC and an omitted zone identically', () => {
+    const runAt = new Date('2026-03-05T02:00:00.000Z');
+
+    expect(matchesCronExpression('0 2 * * *', runAt, 'UTC')).toBe(true);
+    expect(nextOccurrences('0 2 * * *', runAt, 1, 'UTC')).toEqual(nextOccurrences('0 2 * * *', runAt, 1));
+  });
 });
@@ -1,30 +1,281 @@
-function matchesCronField(field: string, value: number): boolean {
-  if (field === '*') {
-    return true;
+import { DEFAULT_TIME_ZONE, fromWallClockMs, getZonedDateTime, zonedWallClockToUtc } from './timezone';
+
+interface CronFieldSpec {
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+export interface ParsedCronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /**
+   * Standard cron semantics: when both day-of-month and day-of-week are restricted
+   * (neither starts with `*`), a day matches if EITHER field matches.
+   */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface CronDateFields {
+  minute: number;
+  hour: number;
+  dayOfMonth: number;
+  month: number;
+  dayOfWeek: number;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12
+};
+
+const DAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6
+};
+
+const MINUTE_FIELD: CronFieldSpec = { min: 0, max: 59 };
+const HOUR_FIELD: CronFieldSpec = { min: 0, max: 23 };
+const DAY_OF_MONTH_FIELD: CronFieldSpec = { min: 1, max: 31 };
+const MONTH_FIELD: CronFieldSpec = { min: 1, max: 12, names: MONTH_NAMES };
+// 7 is accepted as an alias for Sunday and folded onto 0 after parsing.
+const DAY_OF_WEEK_FIELD: CronFieldSpec = { min: 0, max: 7, names: DAY_NAMES };
+
+// Long enough to reach the next Feb 29 from any starting point.
+const MAX_SEARCH_DAYS = 8 * 366;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function parseCronValue(token: string, spec: CronFieldSpec): number | null {
+  if (/^\d+$/.test(token)) {
+    const value = Number.parseInt(token, 10);
+    return value >= spec.min && value <= spec.max ? value : null;
   }
 
-  if (field.startsWith('*/')) {
-    const step = Number.parseInt(field.slice(2), 10);
-    return Number.isInteger(step) && step > 0 && value % step === 0;
+  const named = spec.names?.[token.toUpperCase()];
+  return named === undefined ? null : named;
+}
+
+function parseCronField(field: string, spec: CronFieldSpec): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (part.length === 0) {
+      return null;
+    }
+
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      return null;
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart)) {
+        return null;
+      }
+      step = Number.parseInt(stepPart, 10);
+      if (step <= 0) {
+        return null;
+      }
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [startToken, endToken, ...extra] = rangePart.split('-');
+      const rangeStart = parseCronValue(startToken, spec);
+      const rangeEnd = parseCronValue(endToken, spec);
+      if (extra.length > 0 || rangeStart === null || rangeEnd === null || rangeStart > rangeEnd) {
+        return null;
+      }
+      start = rangeStart;
+      end = rangeEnd;
+    } else {
+      const value = parseCronValue(rangePart, spec);
+      if (value === null) {
+        return null;
+      }
+      start = value;
+      // `5/15` means "every 15 starting at 5" through the end of the field.
+      end = stepPart !== undefined ? spec.max : value;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
   }
 
-  const exactValue = Number.parseInt(field, 10);
-  return Number.isInteger(exactValue) && exactValue === value;
+  return values;
 }
 
-export function matchesCronExpression(cronExpression: string, date: Date): boolean {
+function toSortedArray(values: Set<number>): number[] {
+  return Array.from(values).sort((left, right) => left - right);
+}
+
+export function parseCronExpression(cronExpression: string): ParsedCronExpression | null {
+  if (typeof cronExpression !== 'string') {
+    return null;
+  }
+
   const parts = cronExpression.trim().split(/\s+/);
   if (parts.length !== 5) {
-    return false;
+    return null;
   }
 
   const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = parts;
+  const minutes = parseCronField(minuteField, MINUTE_FIELD);
+  const hours = parseCronField(hourField, HOUR_FIELD);
+  const daysOfMonth = parseCronField(dayOfMonthField, DAY_OF_MONTH_FIELD);
+  const months = parseCronField(monthField, MONTH_FIELD);
+  const daysOfWeek = parseCronField(dayOfWeekField, DAY_OF_WEEK_FIELD);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
 
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: toSortedArray(minutes),
+    hours: toSortedArray(hours),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !dayOfMonthField.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeekField.startsWith('*')
+  };
+}
+
+export function isValidCronExpression(cronExpression: string): boolean {
+  return parseCronExpression(cronExpression) !== null;
+}
+
+function matchesCronDay(parsed: ParsedCronExpression, dayOfMonth: number, month: number, dayOfWeek: number): boolean {
+  if (!parsed.months.has(month)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = parsed.daysOfMonth.has(dayOfMonth);
+  const dayOfWeekMatches = parsed.daysOfWeek.has(dayOfWeek);
+
+  if (parsed.dayOfMonthRestricted && parsed.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+export function matchesCronFields(parsed: ParsedCronExpression, fields: CronDateFields): boolean {
   return (
-    matchesCronField(minuteField, date.getUTCMinutes()) &&
-    matchesCronField(hourField, date.getUTCHours()) &&
-    matchesCronField(dayOfMonthField, date.getUTCDate()) &&
-    matchesCronField(monthField, date.getUTCMonth() + 1) &&
-    matchesCronField(dayOfWeekField, date.getUTCDay())
+    parsed.minutes.includes(fields.minute) &&
+    parsed.hours.includes(fields.hour) &&
+    matchesCronDay(parsed, fields.dayOfMonth, fields.month, fields.dayOfWeek)
   );
 }
+
+function getUtcCronFields(date: Date): CronDateFields {
+  return {
+    minute: date.getUTCMinutes(),
+    hour: date.getUTCHours(),
+    dayOfMonth: date.getUTCDate(),
+    month: date.getUTCMonth() + 1,
+    dayOfWeek: date.getUTCDay()
+  };
+}
+
+/**
+ * All instants on one local calendar day (given as its wall-clock midnight) at which the
+ * schedule fires, sorted ascending. DST gaps and overlaps follow `zonedWallClockToUtc`,
+ * so a skipped wall time fires once just after the gap and a repeated one fires only once.
+ */
+function occurrencesOnLocalDay(parsed: ParsedCronExpression, dayWallMs: number, timeZone?: string): number[] {
+  const day = new Date(dayWallMs);
+  if (!matchesCronDay(parsed, day.getUTCDate(), day.getUTCMonth() + 1, day.getUTCDay())) {
+    return [];
+  }
+
+  const offsetAtStart = dayWallMs - zonedWallClockToUtc(fromWallClockMs(dayWallMs), timeZone);
+  const offsetAtEnd = dayWallMs + DAY_MS - zonedWallClockToUtc(fromWallClockMs(dayWallMs + DAY_MS), timeZone);
+  const instants = new Set<number>();
+
+  for (const hour of parsed.hours) {
+    for (const minute of parsed.minutes) {
+      const wallMs = dayWallMs + (hour * 60 + minute) * MINUTE_MS;
+      instants.add(
+        offsetAtStart === offsetAtEnd
+          ? wallMs - offsetAtStart
+          : zonedWallClockToUtc(fromWallClockMs(wallMs), timeZone)
+      );
+    }
+  }
+
+  return Array.from(instants).sort((left, right) => left - right);
+}
+
+function startOfLocalDay(instantMs: number, timeZone?: string): number {
+  const local = getZonedDateTime(instantMs, timeZone);
+  return Date.UTC(local.year, local.month - 1, local.day);
+}
+
+/**
+ * Whether the schedule fires during the minute containing `date`. Without a time zone the
+ * expression is evaluated in UTC; otherwise fields are read as wall-clock time in the IANA zone.
+ */
+export function matchesCronExpression(cronExpression: string, date: Date, timeZone?: string): boolean {
+  const parsed = parseCronExpression(cronExpression);
+  if (!parsed) {
+    return false;
+  }
+
+  if (!timeZone || timeZone === DEFAULT_TIME_ZONE) {
+    return matchesCronFields(parsed, getUtcCronFields(date));
+  }
+
+  const minuteStart = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  const dayWallMs = startOfLocalDay(minuteStart, timeZone);
+
+  // A wall time shifted forward out of a DST gap can land on the following local day.
+  return [dayWallMs - DAY_MS, dayWallMs].some((wallMs) =>
+    occurrencesOnLocalDay(parsed, wallMs, timeZone).includes(minuteStart)
+  );
+}
+
+/**
+ * Return the next `count` instants strictly after `from` that match the expression,
+ * evaluated in `timeZone` (UTC when omitted).
+ * Returns an empty array for invalid expressions or schedules that never fire
+ * (for example `0 0 30 2 *`).
+ */
+export function nextOccurrences(cronExpression: string, from: Date, count: number, timeZone?: string): Date[] {
+  const parsed = parseCronExpression(cronExpression);
+  if (!parsed || count <= 0 || Number.isNaN(from.getTime())) {
+    return [];
+  }
+
+  const occurrences: Date[] = [];
+  const fromTime = from.getTime();
+  const startOfDay = startOfLocalDay(fromTime, timeZone) - DAY_MS;
+
+  for (let dayIndex = 0; dayIndex < MAX_SEARCH_DAYS && occurrences.length < count; dayIndex++) {
+    for (const candidate of occurrencesOnLocalDay(parsed, startOfDay + dayIndex * DAY_MS, timeZone)) {
+      if (candidate > fromTime) {
+        occurrences.push(new Date(candidate));
+        if (occurrences.length >= count) {
+          return occurrences;
+        }
+      }
+    }
+  }
+
+  return occurrences;
+}
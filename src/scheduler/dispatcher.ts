@@ -1,234 +1,198 @@
-import { BackupFetcher } from '../backup/fetcher';
-import { SlackNotifier } from '../slack/notifier';
-import { SiteConfig, SiteBackupResult } from '../types/site';
-import { JobQueue } from './queue';
-import { SiteManager } from '../sites/manager';
-
+import { ExecutionBudgetLimits, meterKVNamespace } from '../backup/budget';
+import { RunStore } from '../runtime/run-store';
+import { ExecuteSiteBackupRunResult, ExecutionEnv, executeSiteBackupRun } from '../runtime/site-execution';
+import { SiteConfig } from '../types/site';
+import { TickDeferral, TickEntry, TickPlanner } from './planner';
+import { JobQueue, SchedulerJob } from './queue';
+import { ScheduleStateStore, findDueOccurrence } from './schedule-state';
+
+export interface DispatchedJob {
+  job: SchedulerJob;
+  siteConfig?: SiteConfig;
+  execution?: ExecuteSiteBackupRunResult;
+  error?: string;
+  deferral?: TickDeferral;
+  /**
+   * `retry` and `dead` mean the job was released back to the queue or dead-lettered;
+   * `deferred` means it stayed queued because the tick ran out of budget.
+   */
+  outcome: 'completed' | 'retry' | 'dead' | 'lease_lost' | 'deferred';
+}
+
+export interface SchedulerTickResult {
+  enqueued: SchedulerJob[];
+  dispatched: DispatchedJob[];
+}
+
+type SiteRunExecutor = typeof executeSiteBackupRun;
+
+/**
+ * Drives one cron tick: turns due schedule occurrences into queued jobs, then leases and
+ * runs the currently visible jobs (new jobs, retries whose backoff has elapsed, and jobs
+ * whose previous lease expired) in the order and budget slices chosen by `TickPlanner`.
+ */
 export class SchedulerDispatcher {
+  private env: ExecutionEnv;
   private jobQueue: JobQueue;
-  private siteManager: SiteManager;
-  private kv: KVNamespace;
-
-  constructor(kv: KVNamespace) {
-    this.kv = kv;
+  private scheduleState: ScheduleStateStore;
+  private runStore: RunStore;
+  private executeRun: SiteRunExecutor;
+  private tickBudget: Partial<ExecutionBudgetLimits>;
+  // Queue, schedule state and run record operations not yet charged to the tick's planner
+  private overheadSubrequests = 0;
+
+  constructor(
+    env: ExecutionEnv,
+    executeRun: SiteRunExecutor = executeSiteBackupRun,
+    tickBudget: Partial<ExecutionBudgetLimits> = {}
+  ) {
+    const kv = meterKVNamespace(env.BACKUP_KV, () => this.overheadSubrequests++);
+    this.env = env;
     this.jobQueue = new JobQueue(kv);
-    this.siteManager = new SiteManager(kv);
+    this.scheduleState = new ScheduleStateStore(kv);
+    this.runStore = new RunStore(kv);
+    this.executeRun = executeRun;
+    this.tickBudget = tickBudget;
   }
 
-  async initializeScheduler(): Promise<boolean> {
-    try {
-      const sites = await this.siteManager.getAllSiteConfigs();
-      
-      for (const site of sites) {
-        const nextRun = this.calculateNextRun(site.schedule);
-        
-        await this.jobQueue.enqueueJob({
-          siteId: site.id,
-          schedule: site.schedule,
-          nextRun,
-          priority: this.calculatePriority(site.schedule)
-        });
+  async enqueueDueSites(sites: SiteConfig[], now: Date = new Date()): Promise<SchedulerJob[]> {
+    const enqueued: SchedulerJob[] = [];
+
+    for (const site of sites) {
+      const due = findDueOccurrence(site, now, await this.scheduleState.getLastScheduledAt(site.id));
+      if (!due) {
+        continue;
       }
 
-      console.log(`Scheduler initialized with ${sites.length} sites`);
-      return true;
-    } catch (error) {
-      console.error('Failed to initialize scheduler:', error);
-      return false;
+      await this.scheduleState.markScheduled(site.id, due.occurrenceAt);
+      enqueued.push(await this.jobQueue.enqueue(site.id, due, now));
     }
+
+    return enqueued;
   }
 
-  async processScheduledJobs(schedule: string): Promise<{ processed: number; successful: number; failed: number }> {
-    const jobs = await this.jobQueue.dequeueJobs(schedule);
-    if (jobs.length === 0) {
-      return { processed: 0, successful: 0, failed: 0 };
-    }
+  async processAvailableJobs(sites: SiteConfig[], now: Date = new Date()): Promise<DispatchedJob[]> {
+    const sitesById = new Map(sites.map((site) => [site.id, site]));
+    const entries: TickEntry[] = [];
+
+    for (const job of await this.jobQueue.listAvailableJobs(now)) {
+      const siteConfig = sitesById.get(job.siteId);
+      if (siteConfig) {
+        entries.push({ job, siteConfig });
+        continue;
+      }
 
-    console.log(`Processing ${jobs.length} jobs for schedule: ${schedule}`);
-
-    let successful = 0;
-    let failed = 0;
-
-    for (const job of jobs) {
-      try {
-        const success = await this.executeJob(job);
-        if (success) {
-          successful++;
-          await this.jobQueue.markJobCompleted(job);
-        } else {
-          failed++;
-          await this.jobQueue.requeueFailedJob(job, 60);
-        }
-      } catch (error) {
-        console.error(`Job execution failed for site ${job.siteId}:`, error);
-        failed++;
-        await this.jobQueue.requeueFailedJob(job, 60);
+      const orphan = await this.jobQueue.lease(job.jobId, now);
+      if (orphan) {
+        await this.jobQueue.complete(orphan);
+        console.warn(`Dropping scheduler job ${job.jobId}: site no longer exists`);
       }
     }
 
-    console.log(`Job processing complete: ${successful} successful, ${failed} failed`);
-    return { processed: jobs.length, successful, failed };
-  }
+    const planner = new TickPlanner(entries, this.tickBudget);
+    const dispatched: DispatchedJob[] = [];
 
-  private async executeJob(job: { siteId: string; schedule: string }): Promise<boolean> {
-    const siteConfig = await this.siteManager.getSiteConfig(job.siteId);
-    if (!siteConfig) {
-      console.error(`Site configuration not found: ${job.siteId}`);
-      return false;
-    }
+    for (const entry of planner.getOrderedEntries()) {
+      this.chargeOverhead(planner);
+      const allocation = planner.allocate(entry);
 
-    const startTime = new Date().toISOString();
-    
-    try {
-      const stats = await this.recordJobStart(job.siteId, startTime);
-      
-      console.log(`Starting backup job for site: ${siteConfig.name} (${siteConfig.id})`);
-      
-      const fetcher = new BackupFetcher(this.kv);
-      
-      const result = await fetcher.performSiteBackup(siteConfig);
-      
-      await this.recordJobComplete(job.siteId, startTime, result);
-      
-      if (result.changedUrls.length > 0) {
-        const siteBackupResult: SiteBackupResult = {
-          ...result,
-          siteId: siteConfig.id,
-          siteName: siteConfig.name
-        };
-        
-        const notifier = new SlackNotifier(this.kv);
-        await notifier.sendChangeNotification(siteConfig, siteBackupResult);
+      if ('deferral' in allocation) {
+        dispatched.push(await this.deferJob(entry, allocation.deferral, now));
+        planner.settle(entry);
+        continue;
       }
-      
-      return result.failedBackups === 0;
-    } catch (error) {
-      console.error(`Backup job execution failed for ${job.siteId}:`, error);
-      await this.recordJobError(job.siteId, startTime, error instanceof Error ? error.message : String(error));
-      return false;
+
+      const leased = await this.jobQueue.lease(entry.job.jobId, now);
+      if (!leased) {
+        planner.settle(entry);
+        continue;
+      }
+
+      const result = await this.runJob(leased, entry.siteConfig, now, allocation.budget);
+      planner.settle(entry, result.execution?.runRecord.budget, allocation.budget);
+      dispatched.push(result);
     }
+
+    return dispatched;
   }
 
-  private async recordJobStart(siteId: string, startTime: string): Promise<any> {
-    const statsKey = `stats:${siteId}:${new Date(startTime).toISOString().split('T')[0]}`;
-    const stats = {
-      siteId,
-      date: new Date(startTime).toISOString().split('T')[0],
-      startTime,
-      endTime: null,
-      totalUrls: 0,
-      successCount: 0,
-      failureCount: 0,
-      changedCount: 0,
-      cpuTime: 0,
-      subrequestsUsed: 0,
-      errors: []
-    };
-    
-    await this.kv.put(statsKey, JSON.stringify(stats));
-    return stats;
+  async runTick(sites: SiteConfig[], now: Date = new Date()): Promise<SchedulerTickResult> {
+    const enqueued = await this.enqueueDueSites(sites, now);
+    const dispatched = await this.processAvailableJobs(sites, now);
+
+    return { enqueued, dispatched };
   }
 
-  private async recordJobComplete(siteId: string, startTime: string, result: any): Promise<void> {
-    const statsKey = `stats:${siteId}:${new Date(startTime).toISOString().split('T')[0]}`;
-    const existingStats = await this.kv.get(statsKey);
-    
-    if (existingStats) {
-      const stats = JSON.parse(existingStats);
-      stats.endTime = new Date().toISOString();
-      stats.totalUrls = result.totalUrls;
-      stats.successCount = result.successfulBackups;
-      stats.failureCount = result.failedBackups;
-      stats.changedCount = result.changedUrls.length;
-      
-      await this.kv.put(statsKey, JSON.stringify(stats));
-    }
+  /** Count the queue operations since the last charge against the tick, including enqueueing. */
+  private chargeOverhead(planner: TickPlanner): void {
+    planner.charge(this.overheadSubrequests);
+    this.overheadSubrequests = 0;
   }
 
-  private async recordJobError(siteId: string, startTime: string, error: any): Promise<void> {
-    const statsKey = `stats:${siteId}:${new Date(startTime).toISOString().split('T')[0]}`;
-    const existingStats = await this.kv.get(statsKey);
-    
-    if (existingStats) {
-      const stats = JSON.parse(existingStats);
-      stats.endTime = new Date().toISOString();
-      stats.errors.push(error.message || String(error));
-      
-      await this.kv.put(statsKey, JSON.stringify(stats));
-    }
+  private async deferJob(entry: TickEntry, deferral: TickDeferral, now: Date): Promise<DispatchedJob> {
+    const { job, siteConfig } = entry;
+    console.log(`Deferring ${siteConfig.name} (${siteConfig.id}): ${deferral.detail}`);
+
+    const deferred = await this.jobQueue.defer(job.jobId, deferral, now);
+    await this.runStore.recordDeferredRun(siteConfig, deferral, {
+      occurrenceAt: job.occurrenceAt,
+      missedOccurrences: job.missedOccurrences,
+      catchUp: job.catchUp,
+      jobId: job.jobId,
+      deferrals: deferred?.deferrals ?? job.deferrals
+    });
+
+    return { job: deferred ?? job, siteConfig, deferral, outcome: 'deferred' };
   }
 
-  async addSiteToScheduler(siteConfig: SiteConfig): Promise<boolean> {
+  private async runJob(
+    job: SchedulerJob,
+    siteConfig: SiteConfig,
+    now: Date,
+    budget: ExecutionBudgetLimits
+  ): Promise<DispatchedJob> {
+    console.log(
+      `Backing up: ${siteConfig.name} (${siteConfig.id}) for ${job.occurrenceAt}, attempt ${job.attempts}/${job.maxAttempts}` +
+      (job.catchUp ? ` (catch-up, ${job.missedOccurrences} earlier occurrence(s) coalesced)` : '')
+    );
+
+    let execution: ExecuteSiteBackupRunResult | undefined;
+    let error: string | undefined;
+
     try {
-      const nextRun = this.calculateNextRun(siteConfig.schedule);
-      
-      return this.jobQueue.enqueueJob({
-        siteId: siteConfig.id,
-        schedule: siteConfig.schedule,
-        nextRun,
-        priority: this.calculatePriority(siteConfig.schedule)
+      execution = await this.executeRun(this.env, siteConfig, {
+        trigger: 'scheduled',
+        schedule: {
+          occurrenceAt: job.occurrenceAt,
+          missedOccurrences: job.missedOccurrences,
+          catchUp: job.catchUp,
+          jobId: job.jobId,
+          attempt: job.attempts,
+          deferrals: job.deferrals
+        },
+        continueFromLast: true,
+        budget
       });
-    } catch (error) {
-      console.error(`Failed to add site ${siteConfig.id} to scheduler:`, error);
-      return false;
-    }
-  }
 
-  async removeSiteFromScheduler(siteId: string): Promise<boolean> {
-    try {
-      const jobs = await this.jobQueue.getJobsForSite(siteId);
-      let removed = 0;
-      
-      for (const job of jobs) {
-        const success = await this.jobQueue.requeueFailedJob(job, 365 * 24 * 60);
-        if (success) removed++;
+      if (execution.runRecord.status === 'failed') {
+        error = execution.runRecord.errors[0] || execution.runRecord.summary;
       }
-      
-      return removed > 0;
-    } catch (error) {
-      console.error(`Failed to remove site ${siteId} from scheduler:`, error);
-      return false;
+    } catch (runError) {
+      error = runError instanceof Error ? runError.message : String(runError);
     }
-  }
 
-  private calculateNextRun(cronExpression: string): string {
-    const parts = cronExpression.split(' ');
-    const now = new Date();
-    
-    const nextRun = new Date(now);
-    
-    const minute = parseInt(parts[0]) || 0;
-    const hour = parseInt(parts[1]) || 0;
-    
-    nextRun.setMinutes(minute);
-    nextRun.setHours(hour);
-    
-    if (nextRun <= now) {
-      nextRun.setDate(nextRun.getDate() + 1);
+    if (!error) {
+      const completed = await this.jobQueue.complete(job);
+      return { job, siteConfig, execution, outcome: completed ? 'completed' : 'lease_lost' };
     }
-    
-    return nextRun.toISOString();
-  }
-
-  private calculatePriority(schedule: string): number {
-    const parts = schedule.split(' ');
-    const hour = parseInt(parts[1]) || 0;
-    
-    if (hour >= 0 && hour < 6) return 3;
-    if (hour >= 6 && hour < 12) return 1;
-    if (hour >= 12 && hour < 18) return 2;
-    return 1;
-  }
 
-  async getSchedulerStatus(): Promise<any> {
-    const queueStatus = await this.jobQueue.getQueueStatus();
-    const sites = await this.siteManager.getAllSiteConfigs();
-    
+    const released = await this.jobQueue.fail(job, error, now);
     return {
-      totalSites: sites.length,
-      queuedJobs: queueStatus.totalJobs,
-      upcomingJobs: queueStatus.upcomingJobs,
-      schedules: [...new Set(sites.map(site => site.schedule))]
+      job: released ?? job,
+      siteConfig,
+      execution,
+      error,
+      outcome: !released ? 'lease_lost' : released.status === 'dead' ? 'dead' : 'retry'
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetUsage } from '../backup/budget';
+import { SiteConfig } from '../types/site';
+import { TickEntry, TickPlanner } from './planner';
+import { SchedulerJob } from './queue';
+
+function createEntry(siteId: string, overrides: Partial<SiteConfig> = {}, jobOverrides: Partial<SchedulerJob> = {}): TickEntry {
+  return {
+    siteConfig: {
+      id: siteId,
+      name: siteId,
+      baseUrl: 'https://example.com',
+      urls: ['https://example.com/'],
+      retentionDays: 7,
+      schedule: '0 2 * * *',
+      fetchOptions: { timeout: 10000, retries: 3, concurrency: 5 },
+      changeThreshold: {},
+      ...overrides
+    },
+    job: {
+      jobId: `${siteId}:2026-03-05T02:00:00.000Z`,
+      siteId,
+      status: 'pending',
+      occurrenceAt: '2026-03-05T02:00:00.000Z',
+      missedOccurrences: 0,
+      catchUp: false,
+      attempts: 0,
+      maxAttempts: 3,
+      deferrals: 0,
+      availableAt: '2026-03-05T02:00:00.000Z',
+      createdAt: '2026-03-05T02:00:00.000Z',
+      updatedAt: '2026-03-05T02:00:00.000Z',
+      ...jobOverrides
+    }
+  };
+}
+
+function usage(subrequests: number): BudgetUsage {
+  return {
+    wallClockMs: 0,
+    wallClockLimitMs: 0,
+    subrequests,
+    subrequestLimit: 0,
+    percentUsed: 0,
+    targetPercent: 80,
+    stoppedByBudget: false
+  };
+}
+
+describe('TickPlanner', () => {
+  it('orders jobs by priority and ages jobs that were deferred before', () => {
+    const planner = new TickPlanner([
+      createEntry('low', { priority: 2 }),
+      createEntry('default'),
+      createEntry('high', { priority: 9 }),
+      createEntry('starved', { priority: 2 }, { deferrals: 4 })
+    ]);
+
+    expect(planner.getOrderedEntries().map((entry) => entry.siteConfig.id)).toEqual(['high', 'starved', 'default', 'low']);
+  });
+
+  it('splits the remaining budget by weight and passes unused budget to later sites', () => {
+    const heavy = createEntry('heavy', { weight: 3 });
+    const light = createEntry('light');
+    const planner = new TickPlanner([heavy, light], { wallClockMs: 400_000, subrequests: 1000 });
+
+    const first = planner.allocate(heavy);
+    expect(first).toEqual({ budget: { wallClockMs: expect.any(Number), subrequests: 750 } });
+    expect('budget' in first && first.budget.wallClockMs).toBeGreaterThan(290_000);
+
+    planner.settle(heavy, usage(100));
+
+    expect(planner.allocate(light)).toMatchObject({ budget: { subrequests: 900 } });
+  });
+
+  it('defers jobs once the remainder cannot cover the per-site minimum', () => {
+    const first = createEntry('first');
+    const second = createEntry('second');
+    const planner = new TickPlanner([first, second], { subrequests: 100 });
+
+    const allocation = planner.allocate(first);
+    expect(allocation).toMatchObject({ budget: { subrequests: TickPlanner.MIN_SITE_BUDGET.subrequests } });
+
+    // A run that failed before reporting usage is charged its whole allocation.
+    planner.settle(first, undefined, 'budget' in allocation ? allocation.budget : undefined);
+
+    const deferred = planner.allocate(second);
+    expect(deferred).toMatchObject({ deferral: { reason: 'tick_budget_exhausted' } });
+    expect('deferral' in deferred && deferred.deferral.detail).toContain('40 subrequests');
+  });
+
+  it('leaves out budgets reserved for other tick work and charges queue overhead', () => {
+    const limits = TickPlanner.reserveFromDefault({ wallClockMs: 10_000, subrequests: 100 }, { subrequests: 12 });
+    expect(limits).toEqual({ wallClockMs: 230_000, subrequests: 888 });
+
+    const only = createEntry('only');
+    const planner = new TickPlanner([only], limits);
+    planner.charge(8);
+
+    expect(planner.allocate(only)).toMatchObject({ budget: { subrequests: 880 } });
+  });
+});
@@ -0,0 +1,129 @@
+import { BudgetUsage, ExecutionBudgetLimits } from '../backup/budget';
+import { SiteConfig } from '../types/site';
+import { SchedulerJob } from './queue';
+
+export type DeferralReason = 'tick_budget_exhausted';
+
+export interface TickEntry {
+  job: SchedulerJob;
+  siteConfig: SiteConfig;
+}
+
+export interface TickDeferral {
+  reason: DeferralReason;
+  detail: string;
+}
+
+/**
+ * Shares one cron invocation's wall-clock and subrequest budget across the jobs it can run.
+ *
+ * Jobs run one after another in priority order. Each job is offered a slice of whatever
+ * budget remains, proportional to its site's weight among the jobs still waiting, so time a
+ * fast site leaves unused flows to the sites after it. Once the remainder cannot cover the
+ * minimum slice, the rest of the jobs are deferred to the next tick. Every deferral raises a
+ * job's effective priority by one, so a low-priority site cannot be starved indefinitely.
+ */
+export class TickPlanner {
+  // Stays under the 5-minute cron interval so consecutive ticks rarely overlap.
+  static readonly DEFAULT_TICK_BUDGET: ExecutionBudgetLimits = { wallClockMs: 240_000, subrequests: 1000 };
+  static readonly MIN_SITE_BUDGET: ExecutionBudgetLimits = { wallClockMs: 20_000, subrequests: 60 };
+  static readonly DEFAULT_PRIORITY = 5;
+  static readonly DEFAULT_WEIGHT = 1;
+
+  private readonly limits: ExecutionBudgetLimits;
+  private readonly startedAt: number;
+  private readonly entries: TickEntry[];
+  private readonly settled = new Set<string>();
+  private subrequestsUsed = 0;
+
+  constructor(entries: TickEntry[], limits: Partial<ExecutionBudgetLimits> = {}, startedAt: number = Date.now()) {
+    this.limits = {
+      wallClockMs: limits.wallClockMs ?? TickPlanner.DEFAULT_TICK_BUDGET.wallClockMs,
+      subrequests: limits.subrequests ?? TickPlanner.DEFAULT_TICK_BUDGET.subrequests
+    };
+    this.startedAt = startedAt;
+    this.entries = [...entries].sort((left, right) =>
+      TickPlanner.getEffectivePriority(right) - TickPlanner.getEffectivePriority(left) ||
+      left.job.availableAt.localeCompare(right.job.availableAt) ||
+      left.job.jobId.localeCompare(right.job.jobId)
+    );
+  }
+
+  /**
+   * The default tick budget less what the same invocation has promised to other work, such
+   * as the integrity scrub that runs after the jobs.
+   */
+  static reserveFromDefault(...reserved: Partial<ExecutionBudgetLimits>[]): ExecutionBudgetLimits {
+    return reserved.reduce<ExecutionBudgetLimits>((limits, reservation) => ({
+      wallClockMs: Math.max(0, limits.wallClockMs - (reservation.wallClockMs ?? 0)),
+      subrequests: Math.max(0, limits.subrequests - (reservation.subrequests ?? 0))
+    }), { ...TickPlanner.DEFAULT_TICK_BUDGET });
+  }
+
+  static getEffectivePriority(entry: TickEntry): number {
+    return (entry.siteConfig.priority ?? TickPlanner.DEFAULT_PRIORITY) + (entry.job.deferrals ?? 0);
+  }
+
+  static getWeight(siteConfig: SiteConfig): number {
+    return siteConfig.weight ?? TickPlanner.DEFAULT_WEIGHT;
+  }
+
+  /** Entries in the order they should run. */
+  getOrderedEntries(): TickEntry[] {
+    return [...this.entries];
+  }
+
+  getRemaining(): ExecutionBudgetLimits {
+    return {
+      wallClockMs: Math.max(0, this.limits.wallClockMs - (Date.now() - this.startedAt)),
+      subrequests: Math.max(0, this.limits.subrequests - this.subrequestsUsed)
+    };
+  }
+
+  /**
+   * The budget slice for `entry`, or a deferral when the remaining tick budget cannot cover
+   * the per-site minimum.
+   */
+  allocate(entry: TickEntry): { budget: ExecutionBudgetLimits } | { deferral: TickDeferral } {
+    const remaining = this.getRemaining();
+    const minimum = TickPlanner.MIN_SITE_BUDGET;
+
+    if (remaining.wallClockMs < minimum.wallClockMs || remaining.subrequests < minimum.subrequests) {
+      return {
+        deferral: {
+          reason: 'tick_budget_exhausted',
+          detail:
+            `Tick budget left (${Math.round(remaining.wallClockMs / 1000)}s, ${remaining.subrequests} subrequests) ` +
+            `is below the per-site minimum (${minimum.wallClockMs / 1000}s, ${minimum.subrequests} subrequests); ` +
+            `rolled over to the next tick`
+        }
+      };
+    }
+
+    const waitingWeight = this.entries
+      .filter((candidate) => !this.settled.has(candidate.job.jobId))
+      .reduce((sum, candidate) => sum + TickPlanner.getWeight(candidate.siteConfig), 0);
+    const share = TickPlanner.getWeight(entry.siteConfig) / Math.max(waitingWeight, TickPlanner.getWeight(entry.siteConfig));
+
+    return {
+      budget: {
+        wallClockMs: Math.max(minimum.wallClockMs, Math.floor(remaining.wallClockMs * share)),
+        subrequests: Math.max(minimum.subrequests, Math.floor(remaining.subrequests * share))
+      }
+    };
+  }
+
+  /** Count subrequests the tick spent outside the jobs, such as reading and leasing the queue. */
+  charge(subrequests: number): void {
+    this.subrequestsUsed += subrequests;
+  }
+
+  /**
+   * Mark an entry as done for this tick. `usage` is what the run reported; when a run failed
+   * before reporting, the whole allocation is charged so later slices stay conservative.
+   */
+  settle(entry: TickEntry, usage?: BudgetUsage, allocation?: ExecutionBudgetLimits): void {
+    this.settled.add(entry.job.jobId);
+    this.subrequestsUsed += usage?.subrequests ?? allocation?.subrequests ?? 0;
+  }
+}
@@ -0,0 +1,263 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExecuteSiteBackupRunResult, executeSiteBackupRun } from '../runtime/site-execution';
+import { SiteConfig } from '../types/site';
+import { SchedulerDispatcher } from './dispatcher';
+import { JobQueue } from './queue';
+
+/**
+ * In-memory KV. With `interleave`, every operation yields to the event loop before it
+ * touches the store, so overlapping callers (two cron ticks) interleave the way they
+ * can against real KV.
+ */
+function createMockKV(options: { interleave?: boolean } = {}) {
+  const store = new Map<string, string>();
+  const settle = () => options.interleave ? new Promise((resolve) => setTimeout(resolve, 0)) : Promise.resolve();
+
+  const kv = {
+    get: vi.fn(async (key: string) => {
+      await settle();
+      return store.get(key) ?? null;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      await settle();
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      await settle();
+      store.delete(key);
+    }),
+    list: vi.fn(async (listOptions?: { prefix?: string; limit?: number; cursor?: string }) => {
+      await settle();
+      const prefix = listOptions?.prefix ?? '';
+      const limit = listOptions?.limit ?? 1000;
+      const offset = Number.parseInt(listOptions?.cursor ?? '0', 10);
+      const matching = Array.from(store.keys()).filter((name) => name.startsWith(prefix)).sort();
+      const keys = matching.slice(offset, offset + limit).map((name) => ({ name }));
+      const nextOffset = offset + keys.length;
+
+      return {
+        keys,
+        list_complete: nextOffset >= matching.length,
+        cursor: nextOffset < matching.length ? String(nextOffset) : undefined
+      };
+    })
+  } as unknown as KVNamespace;
+
+  return { kv, store };
+}
+
+function createSite(overrides: Partial<SiteConfig> = {}): SiteConfig {
+  return {
+    id: 'example',
+    name: 'Example',
+    baseUrl: 'https://example.com',
+    urls: ['https://example.com/'],
+    retentionDays: 7,
+    schedule: '0 2 * * *',
+    fetchOptions: { timeout: 10000, retries: 3, concurrency: 5 },
+    changeThreshold: {},
+    ...overrides
+  };
+}
+
+function createExecution(siteId: string, status: 'success' | 'failed' = 'success'): ExecuteSiteBackupRunResult {
+  return {
+    siteBackupResult: {
+      siteId,
+      siteName: siteId,
+      totalUrls: 1,
+      successfulBackups: status === 'success' ? 1 : 0,
+      failedBackups: status === 'success' ? 0 : 1,
+      storedBackups: 0,
+      failedStores: 0,
+      notModifiedBackups: 0,
+      robotsSkippedUrls: [],
+      lastmodSkippedBackups: 0,
+      changedUrls: [],
+      executionTime: 1,
+      errors: [],
+      results: []
+    },
+    runRecord: {
+      status,
+      errors: status === 'failed' ? ['origin unreachable'] : [],
+      budget: { subrequests: 60 }
+    } as unknown as ExecuteSiteBackupRunResult['runRecord'],
+    notification: { attempted: false, delivered: false, channel: 'change' }
+  };
+}
+
+const due = { occurrenceAt: new Date('2026-03-05T02:00:00.000Z'), missedOccurrences: 0, catchUp: false };
+const tickTime = new Date('2026-03-05T02:00:30.000Z');
+
+describe('JobQueue', () => {
+  it('grants a lease to only one of two concurrent ticks', async () => {
+    const { kv } = createMockKV({ interleave: true });
+    const queue = new JobQueue(kv);
+    const job = await queue.enqueue('example', due, tickTime);
+
+    const leases = await Promise.all([queue.lease(job.jobId, tickTime), queue.lease(job.jobId, tickTime)]);
+
+    expect(leases.filter((lease) => lease !== null)).toHaveLength(1);
+  });
+
+  it('keeps one active job per site and coalesces later occurrences into it', async () => {
+    const { kv } = createMockKV();
+    const queue = new JobQueue(kv);
+
+    await queue.enqueue('example', due, tickTime);
+    const coalesced = await queue.enqueue(
+      'example',
+      { occurrenceAt: new Date('2026-03-06T02:00:00.000Z'), missedOccurrences: 1, catchUp: true },
+      tickTime
+    );
+
+    expect(coalesced.occurrenceAt).toBe('2026-03-05T02:00:00.000Z');
+    expect(coalesced.missedOccurrences).toBe(2);
+    expect((await queue.listJobs('example'))).toHaveLength(1);
+  });
+
+  it('retries failed jobs with backoff and dead-letters them after the last attempt', async () => {
+    const { kv } = createMockKV();
+    const queue = new JobQueue(kv);
+    const job = await queue.enqueue('example', due, tickTime);
+    let now = tickTime;
+
+    const first = await queue.lease(job.jobId, now);
+    const retry = await queue.fail(first!, 'timeout', now);
+    expect(retry?.status).toBe('pending');
+    expect(retry?.availableAt).toBe('2026-03-05T02:05:30.000Z');
+    expect(await queue.leaseAvailableJobs(now)).toEqual([]);
+
+    now = new Date(retry!.availableAt);
+    const second = await queue.lease(job.jobId, now);
+    expect((await queue.fail(second!, 'timeout', now))?.availableAt).toBe('2026-03-05T02:15:30.000Z');
+
+    now = new Date('2026-03-05T02:15:30.000Z');
+    const third = await queue.lease(job.jobId, now);
+    const dead = await queue.fail(third!, 'timeout', now);
+    expect(dead?.status).toBe('dead');
+    expect(dead?.attempts).toBe(3);
+
+    const status = await queue.getQueueStatus();
+    expect(status).toMatchObject({ pending: 0, leased: 0, dead: 1 });
+    expect(await queue.leaseAvailableJobs(new Date('2026-03-06T00:00:00.000Z'))).toEqual([]);
+
+    // A new occurrence starts a fresh job even while the dead one is kept for inspection.
+    const next = await queue.enqueue('example', { ...due, occurrenceAt: new Date('2026-03-06T02:00:00.000Z') }, now);
+    expect(next.status).toBe('pending');
+    expect(next.attempts).toBe(0);
+  });
+
+  it('makes a job visible again once its lease expires and the retry delay passes', async () => {
+    const { kv } = createMockKV();
+    const queue = new JobQueue(kv);
+    const job = await queue.enqueue('example', due, tickTime);
+
+    const abandoned = await queue.lease(job.jobId, tickTime);
+    expect(await queue.leaseAvailableJobs(new Date('2026-03-05T02:10:00.000Z'))).toEqual([]);
+
+    // The lease ran out at 02:15:30; the first attempt backs off five minutes from then
+    expect(await queue.leaseAvailableJobs(new Date('2026-03-05T02:20:00.000Z'))).toEqual([]);
+    expect(await queue.getJob(job.jobId)).toMatchObject({
+      status: 'pending',
+      availableAt: '2026-03-05T02:20:30.000Z',
+      lastError: 'Lease expired before the run finished'
+    });
+
+    const [recovered] = await queue.leaseAvailableJobs(new Date('2026-03-05T02:20:30.000Z'));
+    expect(recovered.attempts).toBe(2);
+    expect(await queue.complete(abandoned!)).toBe(false);
+    expect(await queue.complete(recovered)).toBe(true);
+    expect(await queue.listJobs()).toEqual([]);
+  });
+
+  it('dead-letters a job whose last attempt lost its lease', async () => {
+    const { kv } = createMockKV();
+    const queue = new JobQueue(kv);
+    const job = await queue.enqueue('example', due, tickTime);
+    let now = tickTime;
+
+    // Every run dies before it can report back, so each attempt ends with an expired lease
+    for (let attempt = 1; attempt <= job.maxAttempts; attempt++) {
+      const [leased] = await queue.leaseAvailableJobs(now);
+      expect(leased.attempts).toBe(attempt);
+      now = new Date(new Date(leased.leaseExpiresAt!).getTime() + JobQueue.getRetryDelayMinutes(attempt) * 60 * 1000);
+    }
+
+    expect(await queue.leaseAvailableJobs(now)).toEqual([]);
+    expect(await queue.getJob(job.jobId)).toMatchObject({ status: 'dead', attempts: 3 });
+    expect(kv.put).toHaveBeenLastCalledWith(
+      `scheduler_job:${job.jobId}`,
+      expect.any(String),
+      { expirationTtl: JobQueue.DEAD_JOB_TTL_SECONDS }
+    );
+    expect(await queue.leaseAvailableJobs(new Date('2026-03-06T00:00:00.000Z'))).toEqual([]);
+  });
+});
+
+describe('SchedulerDispatcher', () => {
+  it('runs a due site once when two ticks overlap', async () => {
+    const { kv } = createMockKV({ interleave: true });
+    const executeRun = vi.fn(async (_env: unknown, site: SiteConfig) => createExecution(site.id));
+    const sites = [createSite()];
+
+    const ticks = await Promise.all([
+      new SchedulerDispatcher({ BACKUP_KV: kv }, executeRun).runTick(sites, tickTime),
+      new SchedulerDispatcher({ BACKUP_KV: kv }, executeRun).runTick(sites, tickTime)
+    ]);
+
+    expect(executeRun).toHaveBeenCalledTimes(1);
+    expect(ticks.flatMap((tick) => tick.dispatched).map((dispatched) => dispatched.outcome)).toEqual(['completed']);
+    expect(await new JobQueue(kv).listJobs()).toEqual([]);
+  });
+
+  it('releases failed runs for retry on a later tick', async () => {
+    const { kv } = createMockKV();
+    const executeRun = vi.fn()
+      .mockResolvedValueOnce(createExecution('example', 'failed'))
+      .mockResolvedValueOnce(createExecution('example'));
+    const dispatcher = new SchedulerDispatcher({ BACKUP_KV: kv }, executeRun);
+    const sites = [createSite()];
+
+    const first = await dispatcher.runTick(sites, tickTime);
+    expect(first.dispatched[0]).toMatchObject({ outcome: 'retry', error: 'origin unreachable' });
+
+    const early = await dispatcher.runTick(sites, new Date('2026-03-05T02:05:00.000Z'));
+    expect(early.dispatched).toEqual([]);
+
+    const retried = await dispatcher.runTick(sites, new Date('2026-03-05T02:10:00.000Z'));
+    expect(retried.enqueued).toEqual([]);
+    expect(retried.dispatched[0].outcome).toBe('completed');
+    expect(executeRun.mock.calls[1][2].schedule).toMatchObject({ attempt: 2, occurrenceAt: '2026-03-05T02:00:00.000Z' });
+  });
+
+  it('defers sites the tick budget cannot cover and runs them first on the next tick', async () => {
+    const { kv, store } = createMockKV();
+    const executeRun = vi.fn(async (...[, site]: Parameters<typeof executeSiteBackupRun>) => createExecution(site.id));
+    const sites = [createSite({ id: 'urgent', priority: 8 }), createSite({ id: 'routine', priority: 4 })];
+    const dispatcher = new SchedulerDispatcher({ BACKUP_KV: kv }, executeRun, { subrequests: 100 });
+
+    const first = await dispatcher.runTick(sites, tickTime);
+
+    expect(first.dispatched.map((dispatched) => [dispatched.job.siteId, dispatched.outcome])).toEqual([
+      ['urgent', 'completed'],
+      ['routine', 'deferred']
+    ]);
+    expect(executeRun.mock.calls[0][2]?.budget).toEqual({ wallClockMs: expect.any(Number), subrequests: 60 });
+
+    const [routineJob] = await new JobQueue(kv).listJobs('routine');
+    expect(routineJob).toMatchObject({ status: 'pending', attempts: 0, deferrals: 1 });
+    expect(routineJob.lastDeferral?.reason).toBe('tick_budget_exhausted');
+
+    const deferredRun = JSON.parse(store.get('run:latest:routine') as string);
+    expect(deferredRun).toMatchObject({ status: 'deferred', deferral: { reason: 'tick_budget_exhausted' } });
+    expect(deferredRun.summary).toContain('rolled over to the next tick');
+
+    const second = await dispatcher.runTick(sites, new Date('2026-03-05T02:05:00.000Z'));
+    expect(second.dispatched.map((dispatched) => [dispatched.job.siteId, dispatched.outcome])).toEqual([
+      ['routine', 'completed']
+    ]);
+    expect(executeRun.mock.calls[1][2]?.schedule).toMatchObject({ deferrals: 1 });
+  });
+});
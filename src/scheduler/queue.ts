@@ -1,177 +1,321 @@
-import { ScheduledJob, SiteConfig } from '../types/site';
+import { KVListResult } from '../runtime/kv-types';
+import { TickDeferral } from './planner';
+import { DueOccurrence } from './schedule-state';
 
+export type SchedulerJobStatus = 'pending' | 'leased' | 'dead';
+
+export interface SchedulerJob {
+  jobId: string;
+  siteId: string;
+  status: SchedulerJobStatus;
+  occurrenceAt: string;
+  /** Occurrences folded into this job, including ones coalesced while it was queued. */
+  missedOccurrences: number;
+  catchUp: boolean;
+  attempts: number;
+  maxAttempts: number;
+  /** The job is invisible to `leaseAvailableJobs` until this time (retry backoff). */
+  availableAt: string;
+  leaseId?: string;
+  leaseExpiresAt?: string;
+  lastError?: string;
+  /** Ticks that skipped this job for lack of budget; raises its effective priority. */
+  deferrals?: number;
+  lastDeferral?: TickDeferral & { at: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobQueueStatus {
+  pending: number;
+  leased: number;
+  dead: number;
+  jobs: SchedulerJob[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function buildJobPrefix(siteId?: string): string {
+  return siteId ? `scheduler_job:${siteId}:` : 'scheduler_job:';
+}
+
+function buildJobKey(jobId: string): string {
+  return `scheduler_job:${jobId}`;
+}
+
+function buildLeaseId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function isLeaseExpired(job: SchedulerJob, now: Date): boolean {
+  return !job.leaseExpiresAt || new Date(job.leaseExpiresAt).getTime() <= now.getTime();
+}
+
+function isAvailable(job: SchedulerJob, now: Date): boolean {
+  if (job.status === 'pending') {
+    return new Date(job.availableAt).getTime() <= now.getTime();
+  }
+
+  return job.status === 'leased' && isLeaseExpired(job, now);
+}
+
+/**
+ * KV-backed job queue with one record per job (`scheduler_job:{siteId}:{occurrenceAt}`).
+ *
+ * Each site has at most one active job; a worker must hold the job's lease to run it.
+ * KV has no compare-and-swap, so a lease is taken by writing a unique lease id and reading
+ * it back: when two ticks race, only the writer whose id survives proceeds. An expired
+ * lease (a tick that died mid-run) counts as a failed attempt: the job is backed off like a
+ * failure, or dead-lettered once its attempts are used up.
+ */
 export class JobQueue {
+  static readonly LEASE_DURATION_MINUTES = 15;
+  static readonly DEFAULT_MAX_ATTEMPTS = 3;
+  static readonly RETRY_BASE_DELAY_MINUTES = 5;
+  static readonly RETRY_MAX_DELAY_MINUTES = 60;
+  static readonly DEAD_JOB_TTL_SECONDS = 14 * 24 * 3600;
+
   private kv: KVNamespace;
 
   constructor(kv: KVNamespace) {
     this.kv = kv;
   }
 
-  async enqueueJob(job: ScheduledJob): Promise<boolean> {
-    try {
-      const queueKey = 'scheduler:queue';
-      const queueData = await this.kv.get(queueKey);
-      
-      const queue: ScheduledJob[] = queueData ? JSON.parse(queueData) : [];
-      
-      const existingIndex = queue.findIndex(j => j.siteId === job.siteId);
-      if (existingIndex >= 0) {
-        queue[existingIndex] = job;
-      } else {
-        queue.push(job);
-      }
-      
-      queue.sort((a, b) => a.priority - b.priority);
-      
-      await this.kv.put(queueKey, JSON.stringify(queue));
-      return true;
-    } catch (error) {
-      console.error('Failed to enqueue job:', error);
-      return false;
-    }
+  static getRetryDelayMinutes(attempts: number): number {
+    return Math.min(
+      JobQueue.RETRY_BASE_DELAY_MINUTES * 2 ** Math.max(0, attempts - 1),
+      JobQueue.RETRY_MAX_DELAY_MINUTES
+    );
   }
 
-  async dequeueJobs(schedule: string): Promise<ScheduledJob[]> {
-    try {
-      const queueKey = 'scheduler:queue';
-      const queueData = await this.kv.get(queueKey);
-      
-      if (!queueData) {
-        return [];
-      }
+  async getJob(jobId: string): Promise<SchedulerJob | null> {
+    const raw = await this.kv.get(buildJobKey(jobId), 'text');
+    if (!raw) {
+      return null;
+    }
 
-      let queue: ScheduledJob[] = JSON.parse(queueData);
-      const now = new Date().toISOString();
-      
-      const jobsToRun = queue.filter(job => 
-        job.schedule === schedule && job.nextRun <= now
-      );
-      
-      queue = queue.filter(job => 
-        !(job.schedule === schedule && job.nextRun <= now)
-      );
-      
-      await this.kv.put(queueKey, JSON.stringify(queue));
-      
-      return jobsToRun;
+    try {
+      return JSON.parse(raw) as SchedulerJob;
     } catch (error) {
-      console.error('Failed to dequeue jobs:', error);
-      return [];
+      console.error(`Failed to parse scheduler job ${jobId}:`, error);
+      return null;
     }
   }
 
-  async getQueueStatus(): Promise<{ totalJobs: number; upcomingJobs: ScheduledJob[] }> {
-    try {
-      const queueData = await this.kv.get('scheduler:queue');
-      if (!queueData) {
-        return { totalJobs: 0, upcomingJobs: [] };
+  async listJobs(siteId?: string): Promise<SchedulerJob[]> {
+    const jobs: SchedulerJob[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({
+        prefix: buildJobPrefix(siteId),
+        limit: 1000,
+        cursor
+      }) as KVListResult;
+
+      for (const key of list.keys) {
+        const job = await this.getJob(key.name.slice(buildJobPrefix().length));
+        if (job) {
+          jobs.push(job);
+        }
       }
 
-      const queue: ScheduledJob[] = JSON.parse(queueData);
-      const upcomingJobs = queue
-        .sort((a, b) => new Date(a.nextRun).getTime() - new Date(b.nextRun).getTime())
-        .slice(0, 10);
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
 
-      return {
-        totalJobs: queue.length,
-        upcomingJobs
+    return jobs;
+  }
+
+  /**
+   * Queue a run for a due schedule occurrence. If the site already has an active job the
+   * occurrence is coalesced into it instead, so a slow or retrying site never piles up work.
+   */
+  async enqueue(siteId: string, due: DueOccurrence, now: Date = new Date()): Promise<SchedulerJob> {
+    const activeJob = (await this.listJobs(siteId)).find((job) => job.status !== 'dead');
+
+    if (activeJob) {
+      const coalesced: SchedulerJob = {
+        ...activeJob,
+        missedOccurrences: activeJob.missedOccurrences + due.missedOccurrences + 1,
+        updatedAt: now.toISOString()
       };
-    } catch (error) {
-      console.error('Failed to get queue status:', error);
-      return { totalJobs: 0, upcomingJobs: [] };
+      await this.kv.put(buildJobKey(activeJob.jobId), JSON.stringify(coalesced));
+      return coalesced;
     }
+
+    const occurrenceAt = due.occurrenceAt.toISOString();
+    const job: SchedulerJob = {
+      jobId: `${siteId}:${occurrenceAt}`,
+      siteId,
+      status: 'pending',
+      occurrenceAt,
+      missedOccurrences: due.missedOccurrences,
+      catchUp: due.catchUp,
+      attempts: 0,
+      maxAttempts: JobQueue.DEFAULT_MAX_ATTEMPTS,
+      deferrals: 0,
+      availableAt: now.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    await this.kv.put(buildJobKey(job.jobId), JSON.stringify(job));
+    return job;
   }
 
-  async clearQueue(): Promise<boolean> {
-    try {
-      await this.kv.delete('scheduler:queue');
-      return true;
-    } catch (error) {
-      console.error('Failed to clear queue:', error);
-      return false;
+  /** Try to take the lease on a job. Returns the leased job, or null if it is not available or another tick won. */
+  async lease(jobId: string, now: Date = new Date()): Promise<SchedulerJob | null> {
+    const current = await this.getJob(jobId);
+    if (!current || !isAvailable(current, now)) {
+      return null;
+    }
+
+    if (current.status === 'leased' && !(await this.reclaimExpiredLease(current, now))) {
+      return null;
     }
+
+    const leased: SchedulerJob = {
+      ...current,
+      status: 'leased',
+      attempts: current.attempts + 1,
+      leaseId: buildLeaseId(),
+      leaseExpiresAt: new Date(now.getTime() + JobQueue.LEASE_DURATION_MINUTES * MINUTE_MS).toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    await this.kv.put(buildJobKey(jobId), JSON.stringify(leased));
+
+    const confirmed = await this.getJob(jobId);
+    return confirmed?.leaseId === leased.leaseId ? leased : null;
   }
 
-  async requeueFailedJob(job: ScheduledJob, delayMinutes: number = 30): Promise<boolean> {
-    const retryTime = new Date();
-    retryTime.setMinutes(retryTime.getMinutes() + delayMinutes);
-    
-    job.nextRun = retryTime.toISOString();
-    job.priority = Math.max(1, job.priority - 1);
-    
-    return this.enqueueJob(job);
+  async listAvailableJobs(now: Date = new Date()): Promise<SchedulerJob[]> {
+    return (await this.listJobs())
+      .filter((job) => isAvailable(job, now))
+      .sort((left, right) => left.availableAt.localeCompare(right.availableAt));
   }
 
-  async getJobsForSite(siteId: string): Promise<ScheduledJob[]> {
-    try {
-      const queueData = await this.kv.get('scheduler:queue');
-      if (!queueData) {
-        return [];
+  async leaseAvailableJobs(now: Date = new Date()): Promise<SchedulerJob[]> {
+    const available = await this.listAvailableJobs(now);
+    const leased: SchedulerJob[] = [];
+
+    for (const job of available) {
+      const lease = await this.lease(job.jobId, now);
+      if (lease) {
+        leased.push(lease);
       }
+    }
 
-      const queue: ScheduledJob[] = JSON.parse(queueData);
-      return queue.filter(job => job.siteId === siteId);
-    } catch (error) {
-      console.error(`Failed to get jobs for site ${siteId}:`, error);
-      return [];
+    return leased;
+  }
+
+  /** Leave an available job queued for the next tick, recording why this tick skipped it. */
+  async defer(jobId: string, deferral: TickDeferral, now: Date = new Date()): Promise<SchedulerJob | null> {
+    const current = await this.getJob(jobId);
+    if (!current || !isAvailable(current, now)) {
+      return null;
     }
+
+    const deferred: SchedulerJob = {
+      ...current,
+      deferrals: (current.deferrals ?? 0) + 1,
+      lastDeferral: { ...deferral, at: now.toISOString() },
+      updatedAt: now.toISOString()
+    };
+
+    await this.kv.put(buildJobKey(jobId), JSON.stringify(deferred));
+    return deferred;
   }
 
-  async markJobCompleted(job: ScheduledJob): Promise<boolean> {
-    try {
-      const jobKey = `job:${job.siteId}:${Date.now()}`;
-      const jobData = {
-        ...job,
-        completedAt: new Date().toISOString(),
-        status: 'completed'
-      };
-      
-      await this.kv.put(jobKey, JSON.stringify(jobData));
-      
-      const nextRun = this.calculateNextRun(job.schedule);
-      const nextJob: ScheduledJob = {
-        siteId: job.siteId,
-        schedule: job.schedule,
-        nextRun,
-        priority: job.priority
-      };
-      
-      return this.enqueueJob(nextJob);
-    } catch (error) {
-      console.error('Failed to mark job completed:', error);
+  async complete(job: SchedulerJob): Promise<boolean> {
+    if (!(await this.holdsLease(job))) {
       return false;
     }
+
+    await this.kv.delete(buildJobKey(job.jobId));
+    return true;
   }
 
-  private calculateNextRun(cronExpression: string): string {
-    const parts = cronExpression.split(' ');
-    const now = new Date();
-    
-    const nextRun = new Date(now);
-    nextRun.setDate(nextRun.getDate() + 1);
-    
-    return nextRun.toISOString();
+  /** Release a failed job for retry with exponential backoff, or move it to the dead-letter state. */
+  async fail(job: SchedulerJob, error: string, now: Date = new Date()): Promise<SchedulerJob | null> {
+    if (!(await this.holdsLease(job))) {
+      return null;
+    }
+
+    const dead = job.attempts >= job.maxAttempts;
+    const released: SchedulerJob = {
+      ...job,
+      status: dead ? 'dead' : 'pending',
+      availableAt: dead
+        ? job.availableAt
+        : new Date(now.getTime() + JobQueue.getRetryDelayMinutes(job.attempts) * MINUTE_MS).toISOString(),
+      leaseId: undefined,
+      leaseExpiresAt: undefined,
+      lastError: error,
+      updatedAt: now.toISOString()
+    };
+
+    await this.kv.put(
+      buildJobKey(job.jobId),
+      JSON.stringify(released),
+      dead ? { expirationTtl: JobQueue.DEAD_JOB_TTL_SECONDS } : undefined
+    );
+    return released;
   }
 
-  async getJobHistory(siteId: string, limit: number = 50): Promise<any[]> {
-    try {
-      const list = await this.kv.list({
-        prefix: `job:${siteId}:`,
-        limit
-      });
-
-      const jobs = [];
-      for (const key of list.keys.reverse()) {
-        const jobData = await this.kv.get(key.name);
-        if (jobData) {
-          jobs.push(JSON.parse(jobData));
-        }
-      }
+  async getQueueStatus(): Promise<JobQueueStatus> {
+    const jobs = (await this.listJobs())
+      .sort((left, right) => left.availableAt.localeCompare(right.availableAt));
 
-      return jobs;
-    } catch (error) {
-      console.error(`Failed to get job history for ${siteId}:`, error);
-      return [];
+    return {
+      pending: jobs.filter((job) => job.status === 'pending').length,
+      leased: jobs.filter((job) => job.status === 'leased').length,
+      dead: jobs.filter((job) => job.status === 'dead').length,
+      jobs
+    };
+  }
+
+  /**
+   * Settle a job whose lease expired the way `fail` would have, had its run lived to call it.
+   * Returns true when the job may be leased again right away.
+   */
+  private async reclaimExpiredLease(job: SchedulerJob, now: Date): Promise<boolean> {
+    const dead = job.attempts >= job.maxAttempts;
+    const expiredAt = new Date(job.leaseExpiresAt ?? job.updatedAt).getTime();
+    const retryAt = new Date(expiredAt + JobQueue.getRetryDelayMinutes(job.attempts) * MINUTE_MS);
+    if (!dead && retryAt.getTime() <= now.getTime()) {
+      return true;
     }
+
+    const released: SchedulerJob = {
+      ...job,
+      status: dead ? 'dead' : 'pending',
+      availableAt: dead ? job.availableAt : retryAt.toISOString(),
+      leaseId: undefined,
+      leaseExpiresAt: undefined,
+      lastError: 'Lease expired before the run finished',
+      updatedAt: now.toISOString()
+    };
+
+    await this.kv.put(
+      buildJobKey(job.jobId),
+      JSON.stringify(released),
+      dead ? { expirationTtl: JobQueue.DEAD_JOB_TTL_SECONDS } : undefined
+    );
+    return false;
+  }
+
+  private async holdsLease(job: SchedulerJob): Promise<boolean> {
+    const current = await this.getJob(job.jobId);
+    if (current?.leaseId !== job.leaseId) {
+      console.warn(`Lease on scheduler job ${job.jobId} was lost before it finished`);
+      return false;
+    }
+
+    return true;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SiteConfig } from '../types/site';
+import { ScheduleStateStore, findDueOccurrence } from './schedule-state';
+
+function createMockKV(initial: Record<string, string> = {}) {
+  const store = new Map<string, string>(Object.entries(initial));
+
+  const kv = {
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    put: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    delete: vi.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    })
+  } as unknown as KVNamespace;
+
+  return { kv, store };
+}
+
+function createSite(overrides: Partial<SiteConfig> = {}): SiteConfig {
+  return {
+    id: 'example',
+    name: 'Example',
+    baseUrl: 'https://example.com',
+    urls: ['https://example.com/'],
+    retentionDays: 7,
+    schedule: '0 2 * * *',
+    fetchOptions: { timeout: 10000, retries: 3, concurrency: 5 },
+    changeThreshold: {},
+    ...overrides
+  };
+}
+
+describe('findDueOccurrence', () => {
+  it('runs an occurrence that falls between ticks', () => {
+    const site = createSite({ schedule: '2 * * * *' });
+    const due = findDueOccurrence(site, new Date('2026-03-05T10:05:00.000Z'), new Date('2026-03-05T09:02:00.000Z'));
+
+    expect(due?.occurrenceAt.toISOString()).toBe('2026-03-05T10:02:00.000Z');
+    expect(due?.missedOccurrences).toBe(0);
+    expect(due?.catchUp).toBe(false);
+  });
+
+  it('catches up on a missed daily run after dropped ticks', () => {
+    const site = createSite();
+    const due = findDueOccurrence(site, new Date('2026-03-05T03:30:00.000Z'), new Date('2026-03-04T02:00:00.000Z'));
+
+    expect(due?.occurrenceAt.toISOString()).toBe('2026-03-05T02:00:00.000Z');
+    expect(due?.catchUp).toBe(true);
+  });
+
+  it('does not rerun an occurrence that was already claimed', () => {
+    const site = createSite();
+
+    expect(findDueOccurrence(site, new Date('2026-03-05T02:05:00.000Z'), new Date('2026-03-05T02:00:00.000Z'))).toBeNull();
+  });
+
+  it('coalesces missed occurrences into one run and ignores those outside the window', () => {
+    const site = createSite({ schedule: '0 * * * *', catchUpWindowMinutes: 180 });
+    const due = findDueOccurrence(site, new Date('2026-03-05T12:10:00.000Z'), new Date('2026-03-04T00:00:00.000Z'));
+
+    // 10:00 and 11:00 are coalesced into 12:00; anything before 09:10 is outside the window.
+    expect(due?.occurrenceAt.toISOString()).toBe('2026-03-05T12:00:00.000Z');
+    expect(due?.missedOccurrences).toBe(2);
+
+    const stale = findDueOccurrence(
+      createSite({ catchUpWindowMinutes: 60 }),
+      new Date('2026-03-05T08:00:00.000Z'),
+      new Date('2026-03-04T02:00:00.000Z')
+    );
+    expect(stale).toBeNull();
+  });
+
+  it('only looks back one tick for sites that have never been scheduled', () => {
+    const site = createSite();
+
+    expect(findDueOccurrence(site, new Date('2026-03-05T02:00:00.000Z'), null)?.occurrenceAt.toISOString())
+      .toBe('2026-03-05T02:00:00.000Z');
+    expect(findDueOccurrence(site, new Date('2026-03-05T03:00:00.000Z'), null)).toBeNull();
+  });
+});
+
+describe('ScheduleStateStore', () => {
+  it('persists the last claimed occurrence per site', async () => {
+    const { kv, store } = createMockKV();
+    const scheduleState = new ScheduleStateStore(kv);
+
+    expect(await scheduleState.getLastScheduledAt('example')).toBeNull();
+
+    await scheduleState.markScheduled('example', new Date('2026-03-05T02:00:00.000Z'));
+
+    expect(store.has('schedule_state:example')).toBe(true);
+    expect((await scheduleState.getLastScheduledAt('example'))?.toISOString()).toBe('2026-03-05T02:00:00.000Z');
+  });
+});
@@ -0,0 +1,111 @@
+import { SiteConfig } from '../types/site';
+import { nextOccurrences } from './cron';
+
+/** How often the global Worker cron wakes up (see `wrangler.toml`). */
+export const SCHEDULER_TICK_MINUTES = 5;
+export const DEFAULT_CATCH_UP_WINDOW_MINUTES = 6 * 60;
+export const MAX_CATCH_UP_WINDOW_MINUTES = 7 * 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface SiteScheduleState {
+  siteId: string;
+  /** The schedule occurrence most recently claimed by a tick. */
+  lastScheduledAt: string;
+  updatedAt: string;
+}
+
+export interface DueOccurrence {
+  /** The most recent occurrence in the window; earlier ones are coalesced into it. */
+  occurrenceAt: Date;
+  missedOccurrences: number;
+  catchUp: boolean;
+}
+
+function buildStateKey(siteId: string): string {
+  return `schedule_state:${siteId}`;
+}
+
+export function getCatchUpWindowMinutes(siteConfig: SiteConfig): number {
+  return siteConfig.catchUpWindowMinutes ?? DEFAULT_CATCH_UP_WINDOW_MINUTES;
+}
+
+/**
+ * Find the schedule occurrence a tick at `now` should run, if any.
+ *
+ * Occurrences since `lastScheduledAt` are considered, but never further back than the
+ * catch-up window, and all of them collapse into a single run. Sites without state only
+ * look back one tick interval, so new sites do not fire for occurrences before they existed.
+ */
+export function findDueOccurrence(
+  siteConfig: SiteConfig,
+  now: Date,
+  lastScheduledAt: Date | null
+): DueOccurrence | null {
+  const windowMinutes = Math.max(getCatchUpWindowMinutes(siteConfig), SCHEDULER_TICK_MINUTES);
+  const windowStart = now.getTime() - windowMinutes * MINUTE_MS;
+  const lowerBound = lastScheduledAt
+    ? Math.max(lastScheduledAt.getTime(), windowStart)
+    : now.getTime() - SCHEDULER_TICK_MINUTES * MINUTE_MS;
+
+  if (lowerBound >= now.getTime()) {
+    return null;
+  }
+
+  const maxCount = Math.ceil((now.getTime() - lowerBound) / MINUTE_MS) + 1;
+  const occurrences = nextOccurrences(siteConfig.schedule, new Date(lowerBound), maxCount, siteConfig.timezone)
+    .filter((occurrence) => occurrence.getTime() <= now.getTime());
+
+  if (occurrences.length === 0) {
+    return null;
+  }
+
+  const occurrenceAt = occurrences[occurrences.length - 1];
+  return {
+    occurrenceAt,
+    missedOccurrences: occurrences.length - 1,
+    catchUp: occurrenceAt.getTime() <= now.getTime() - SCHEDULER_TICK_MINUTES * MINUTE_MS
+  };
+}
+
+export class ScheduleStateStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async getState(siteId: string): Promise<SiteScheduleState | null> {
+    const raw = await this.kv.get(buildStateKey(siteId), 'text');
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(raw) as SiteScheduleState;
+    } catch (error) {
+      console.error(`Failed to parse schedule state for ${siteId}:`, error);
+      return null;
+    }
+  }
+
+  async getLastScheduledAt(siteId: string): Promise<Date | null> {
+    const state = await this.getState(siteId);
+    if (!state) {
+      return null;
+    }
+
+    const lastScheduledAt = new Date(state.lastScheduledAt);
+    return Number.isNaN(lastScheduledAt.getTime()) ? null : lastScheduledAt;
+  }
+
+  async markScheduled(siteId: string, occurrenceAt: Date): Promise<void> {
+    const state: SiteScheduleState = {
+      siteId,
+      lastScheduledAt: occurrenceAt.toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.kv.put(buildStateKey(siteId), JSON.stringify(state));
+  }
+}
@@ -0,0 +1,118 @@
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+function isUtc(timeZone?: string): boolean {
+  return !timeZone || timeZone === DEFAULT_TIME_ZONE;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (typeof timeZone !== 'string' || timeZone.trim().length === 0) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toWallClockMs(fields: ZonedDateTime): number {
+  return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute);
+}
+
+export function fromWallClockMs(wallMs: number): ZonedDateTime {
+  const date = new Date(wallMs);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes()
+  };
+}
+
+/** Wall-clock fields (minute precision) for an instant in the given IANA zone. */
+export function getZonedDateTime(instantMs: number, timeZone?: string): ZonedDateTime {
+  if (isUtc(timeZone)) {
+    return fromWallClockMs(instantMs);
+  }
+
+  const fields: ZonedDateTime = { year: 0, month: 0, day: 0, hour: 0, minute: 0 };
+  for (const part of getFormatter(timeZone as string).formatToParts(new Date(instantMs))) {
+    if (part.type === 'year' || part.type === 'month' || part.type === 'day' || part.type === 'hour' || part.type === 'minute') {
+      fields[part.type] = Number.parseInt(part.value, 10);
+    }
+  }
+
+  return fields;
+}
+
+/** Offset of the zone from UTC at the given instant, in milliseconds (local minus UTC). */
+export function getTimeZoneOffsetMs(instantMs: number, timeZone?: string): number {
+  if (isUtc(timeZone)) {
+    return 0;
+  }
+
+  const minuteStart = Math.floor(instantMs / MINUTE_MS) * MINUTE_MS;
+  return toWallClockMs(getZonedDateTime(minuteStart, timeZone)) - minuteStart;
+}
+
+/**
+ * Resolve a wall-clock time in the given zone to a UTC instant.
+ *
+ * DST is resolved deterministically, matching Temporal's "compatible" disambiguation:
+ * - a repeated (overlap) wall time resolves to the EARLIER instant;
+ * - a skipped (gap) wall time is shifted forward by the length of the gap,
+ *   so `02:30` on a spring-forward night becomes `03:30`.
+ */
+export function zonedWallClockToUtc(fields: ZonedDateTime, timeZone?: string): number {
+  const wallMs = toWallClockMs(fields);
+  if (isUtc(timeZone)) {
+    return wallMs;
+  }
+
+  const offsetBefore = getTimeZoneOffsetMs(wallMs - DAY_MS, timeZone);
+  const offsetAfter = getTimeZoneOffsetMs(wallMs + DAY_MS, timeZone);
+  const candidates = Array.from(new Set([offsetBefore, offsetAfter]))
+    .map((offset) => wallMs - offset)
+    .filter((instant) => toWallClockMs(getZonedDateTime(instant, timeZone)) === wallMs)
+    .sort((left, right) => left - right);
+
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  return wallMs - offsetBefore;
+}
@@ -1,10 +1,21 @@
+import { redactRequestOptions } from '../backup/request-headers';
+import { redactSiteAuth } from '../backup/site-auth';
 import { PublicSiteConfig, SiteConfig } from '../types/site';
 
 export function toPublicSiteConfig(siteConfig: SiteConfig): PublicSiteConfig {
-  const { slackWebhook, ...rest } = siteConfig;
+  const { slackWebhook, ...rest } = redactSiteCredentials(siteConfig);
 
   return {
     ...rest,
     hasSlackWebhook: Boolean(slackWebhook)
   };
 }
+
+/** The site config with auth credentials and literal request header, cookie and user-agent values redacted. */
+export function redactSiteCredentials(siteConfig: SiteConfig): SiteConfig {
+  return {
+    ...siteConfig,
+    ...(siteConfig.auth && { auth: redactSiteAuth(siteConfig.auth) }),
+    fetchOptions: redactRequestOptions(siteConfig.fetchOptions)
+  };
+}
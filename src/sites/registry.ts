@@ -1,5 +1,5 @@
 import { SiteConfig } from '../types/site';
-import { XMLParser } from 'fast-xml-parser';
+import { parseSitemapContent, readSitemapBody } from '../backup/sitemap';
 
 export class SiteRegistry {
   private kv: KVNamespace;
@@ -152,23 +152,12 @@ export class SiteRegistry {
         throw new Error(`Sitemap fetch failed: ${response.status}`);
       }
 
-      const xmlText = await response.text();
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_'
-      });
-
-      const result = parser.parse(xmlText);
-      
-      if (result.urlset && result.urlset.url) {
-        return Array.isArray(result.urlset.url) ? result.urlset.url.length : 1;
-      }
-      
-      if (result.sitemapindex && result.sitemapindex.sitemap) {
-        return Array.isArray(result.sitemapindex.sitemap) ? result.sitemapindex.sitemap.length : 1;
+      const result = parseSitemapContent(await readSitemapBody(response));
+      if (!result) {
+        return 0;
       }
 
-      return 0;
+      return result.format === 'sitemapindex' ? result.sitemaps.length : result.entries.length;
     } catch (error) {
       console.error(`Failed to get sitemap URL count for ${sitemapUrl}:`, error);
       return 0;
@@ -1,4 +1,14 @@
-import { SiteConfig } from '../types/site';
+import { MAX_ASSETS_PER_PAGE, MAX_ASSET_BYTES } from '../backup/assets';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from '../backup/crawler';
+import { MAX_RETENTION_MONTHS, MAX_RETENTION_WEEKS, MAX_RETENTION_YEARS } from '../backup/retention';
+import { validateRequestOptions } from '../backup/request-headers';
+import { validateSiteAuth } from '../backup/site-auth';
+import { CrawlStrategyConfig, CrawlStrategyMode, RetentionPolicy, SiteConfig } from '../types/site';
+import { isValidCronExpression } from '../scheduler/cron';
+import { MAX_CATCH_UP_WINDOW_MINUTES, SCHEDULER_TICK_MINUTES } from '../scheduler/schedule-state';
+import { isValidTimeZone } from '../scheduler/timezone';
+
+const CRAWL_STRATEGY_MODES: CrawlStrategyMode[] = ['auto', 'full', 'listener', 'listener-rolling'];
 
 export class SiteValidator {
   static validateId(id: string): boolean {
@@ -6,8 +16,11 @@ export class SiteValidator {
   }
 
   static validateSchedule(schedule: string): boolean {
-    const cronRegex = /^(\*|([0-9]|1[0-9]|2[0-9]|3[0-9]|4[0-9]|5[0-9])|\*\/([0-9]|1[0-9]|2[0-9]|3[0-9]|4[0-9]|5[0-9])) (\*|([0-9]|1[0-9]|2[0-3])|\*\/([0-9]|1[0-9]|2[0-3])) (\*|([1-9]|1[0-9]|2[0-9]|3[0-1])|\*\/([1-9]|1[0-9]|2[0-9]|3[0-1])) (\*|([1-9]|1[0-2])|\*\/([1-9]|1[0-2])) (\*|([0-6])|\*\/([0-6]))$/;
-    return cronRegex.test(schedule);
+    return isValidCronExpression(schedule);
+  }
+
+  static validateTimezone(timezone: string): boolean {
+    return isValidTimeZone(timezone);
   }
 
   static validateUrl(url: string): boolean {
@@ -49,6 +62,8 @@ export class SiteValidator {
       errors.push('Concurrency must be between 1 and 20');
     }
 
+    errors.push(...validateRequestOptions(options));
+
     return {
       valid: errors.length === 0,
       errors
@@ -80,6 +95,49 @@ export class SiteValidator {
     };
   }
 
+  static validateCrawlStrategy(strategy: CrawlStrategyConfig): string[] {
+    const errors: string[] = [];
+
+    if (!strategy || !CRAWL_STRATEGY_MODES.includes(strategy.mode)) {
+      errors.push(`Crawl strategy mode must be one of: ${CRAWL_STRATEGY_MODES.join(', ')}`);
+      return errors;
+    }
+
+    const { listenerThreshold, recheckUrlsPerTick } = strategy;
+    if (listenerThreshold !== undefined && (!Number.isInteger(listenerThreshold) || listenerThreshold < 1 || listenerThreshold > 1_000_000)) {
+      errors.push('Listener threshold must be an integer between 1 and 1000000');
+    }
+
+    if (recheckUrlsPerTick !== undefined && (!Number.isInteger(recheckUrlsPerTick) || recheckUrlsPerTick < 1 || recheckUrlsPerTick > 10_000)) {
+      errors.push('Re-checked URLs per tick must be an integer between 1 and 10000');
+    }
+
+    return errors;
+  }
+
+  static validateRetentionPolicy(policy: RetentionPolicy): string[] {
+    const errors: string[] = [];
+
+    if (!policy || typeof policy !== 'object') {
+      errors.push('Retention policy must be an object with weeks, months and/or years');
+      return errors;
+    }
+
+    const tiers: Array<[keyof RetentionPolicy, number]> = [
+      ['weeks', MAX_RETENTION_WEEKS],
+      ['months', MAX_RETENTION_MONTHS],
+      ['years', MAX_RETENTION_YEARS]
+    ];
+    for (const [tier, max] of tiers) {
+      const value = policy[tier];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > max)) {
+        errors.push(`retentionPolicy.${tier} must be an integer between 0 and ${max}`);
+      }
+    }
+
+    return errors;
+  }
+
   static async validateFullConfig(config: SiteConfig): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
@@ -106,18 +164,39 @@ export class SiteValidator {
       }
     }
 
-    if (!config.sitemapUrl && (!config.urls || config.urls.length === 0)) {
-      errors.push('Either sitemapUrl or urls must be provided');
-    }
-
     if (!this.validateSchedule(config.schedule)) {
       errors.push('Invalid cron schedule format');
     }
 
+    if (config.timezone !== undefined && !this.validateTimezone(config.timezone)) {
+      errors.push('Timezone must be a valid IANA time zone name');
+    }
+
+    if (
+      config.catchUpWindowMinutes !== undefined &&
+      (!Number.isInteger(config.catchUpWindowMinutes) ||
+        config.catchUpWindowMinutes < SCHEDULER_TICK_MINUTES ||
+        config.catchUpWindowMinutes > MAX_CATCH_UP_WINDOW_MINUTES)
+    ) {
+      errors.push(`Catch-up window must be between ${SCHEDULER_TICK_MINUTES} and ${MAX_CATCH_UP_WINDOW_MINUTES} minutes`);
+    }
+
+    if (config.priority !== undefined && (!Number.isInteger(config.priority) || config.priority < 1 || config.priority > 10)) {
+      errors.push('Priority must be an integer between 1 and 10');
+    }
+
+    if (config.weight !== undefined && (!Number.isInteger(config.weight) || config.weight < 1 || config.weight > 100)) {
+      errors.push('Weight must be an integer between 1 and 100');
+    }
+
     if (config.retentionDays < 1 || config.retentionDays > 365) {
       errors.push('Retention days must be between 1 and 365');
     }
 
+    if (config.retentionPolicy !== undefined) {
+      errors.push(...this.validateRetentionPolicy(config.retentionPolicy));
+    }
+
     const fetchValidation = this.validateFetchOptions(config.fetchOptions);
     if (!fetchValidation.valid) {
       errors.push(...fetchValidation.errors);
@@ -128,6 +207,48 @@ export class SiteValidator {
       errors.push(...thresholdValidation.errors);
     }
 
+    if (config.respectRobots !== undefined && typeof config.respectRobots !== 'boolean') {
+      errors.push('respectRobots must be true or false');
+    }
+
+    if (
+      config.fullScanIntervalDays !== undefined &&
+      (!Number.isInteger(config.fullScanIntervalDays) || config.fullScanIntervalDays < 1 || config.fullScanIntervalDays > 90)
+    ) {
+      errors.push('Full scan interval must be an integer between 1 and 90 days');
+    }
+
+    if (config.assetCapture !== undefined) {
+      const { enabled, maxAssetsPerPage, maxAssetBytes } = config.assetCapture;
+      if (typeof enabled !== 'boolean') {
+        errors.push('assetCapture.enabled must be true or false');
+      }
+      if (maxAssetsPerPage !== undefined && (!Number.isInteger(maxAssetsPerPage) || maxAssetsPerPage < 1 || maxAssetsPerPage > MAX_ASSETS_PER_PAGE)) {
+        errors.push(`assetCapture.maxAssetsPerPage must be an integer between 1 and ${MAX_ASSETS_PER_PAGE}`);
+      }
+      if (maxAssetBytes !== undefined && (!Number.isInteger(maxAssetBytes) || maxAssetBytes < 1 || maxAssetBytes > MAX_ASSET_BYTES)) {
+        errors.push(`assetCapture.maxAssetBytes must be an integer between 1 and ${MAX_ASSET_BYTES}`);
+      }
+    }
+
+    if (config.crawlStrategy !== undefined) {
+      errors.push(...this.validateCrawlStrategy(config.crawlStrategy));
+    }
+
+    if (config.crawl !== undefined) {
+      const { maxDepth, maxPages } = config.crawl;
+      if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_CRAWL_DEPTH)) {
+        errors.push(`Crawl maxDepth must be an integer between 0 and ${MAX_CRAWL_DEPTH}`);
+      }
+      if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_CRAWL_PAGES)) {
+        errors.push(`Crawl maxPages must be an integer between 1 and ${MAX_CRAWL_PAGES}`);
+      }
+    }
+
+    if (config.auth !== undefined) {
+      errors.push(...validateSiteAuth(config.auth, config.baseUrl));
+    }
+
     if (config.slackWebhook) {
       try {
         const webhookUrl = new URL(config.slackWebhook);
@@ -152,7 +273,10 @@ export class SiteValidator {
       fetchOptions: {
         timeout: config.fetchOptions?.timeout || 10000,
         retries: config.fetchOptions?.retries || 3,
-        concurrency: config.fetchOptions?.concurrency || 5
+        concurrency: config.fetchOptions?.concurrency || 5,
+        ...(config.fetchOptions?.userAgent !== undefined && { userAgent: config.fetchOptions.userAgent }),
+        ...(config.fetchOptions?.headers && { headers: config.fetchOptions.headers }),
+        ...(config.fetchOptions?.cookies && { cookies: config.fetchOptions.cookies })
       },
       changeThreshold: {
         minChangeSize: config.changeThreshold?.minChangeSize || 0,
@@ -160,6 +284,17 @@ export class SiteValidator {
       },
       ...(config.sitemapUrl && { sitemapUrl: config.sitemapUrl }),
       ...(config.urls && { urls: config.urls }),
+      ...(config.retentionPolicy && { retentionPolicy: config.retentionPolicy }),
+      ...(config.timezone && { timezone: config.timezone }),
+      ...(config.catchUpWindowMinutes !== undefined && { catchUpWindowMinutes: config.catchUpWindowMinutes }),
+      ...(config.priority !== undefined && { priority: config.priority }),
+      ...(config.weight !== undefined && { weight: config.weight }),
+      ...(config.respectRobots !== undefined && { respectRobots: config.respectRobots }),
+      ...(config.fullScanIntervalDays !== undefined && { fullScanIntervalDays: config.fullScanIntervalDays }),
+      ...(config.assetCapture && { assetCapture: config.assetCapture }),
+      ...(config.crawlStrategy && { crawlStrategy: config.crawlStrategy }),
+      ...(config.crawl && { crawl: config.crawl }),
+      ...(config.auth && { auth: config.auth }),
       ...(config.slackWebhook && { slackWebhook: config.slackWebhook })
     };
   }
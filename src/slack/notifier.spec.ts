@@ -138,6 +138,9 @@ describe('SlackNotifier', () => {
       failedBackups: 0,
       storedBackups: 1,
       failedStores: 0,
+      notModifiedBackups: 0,
+      robotsSkippedUrls: [],
+      lastmodSkippedBackups: 0,
       changedUrls: ['https://example.com/page'],
       executionTime: 5,
       errors: [],
@@ -167,4 +170,40 @@ describe('SlackNotifier', () => {
     expect(second.throttled).toBe(true);
     expect(fetchSpy).toHaveBeenCalledTimes(1);
   });
+
+  it('reports sitemap additions and removals in the change message', async () => {
+    const notifier = new SlackNotifier(createMockKV());
+    const buildChangeMessage = (notifier as unknown as Record<string, Function>).buildChangeMessage.bind(notifier);
+    const message = await buildChangeMessage(
+      { id: 'test-site', name: 'Test Site' },
+      {
+        siteId: 'test-site',
+        siteName: 'Test Site',
+        totalUrls: 0,
+        successfulBackups: 0,
+        failedBackups: 0,
+        storedBackups: 0,
+        failedStores: 0,
+        notModifiedBackups: 0,
+        robotsSkippedUrls: [],
+        lastmodSkippedBackups: 0,
+        changedUrls: [],
+        sitemapDelta: {
+          date: '2026-03-05',
+          added: ['https://example.com/new'],
+          removed: ['https://example.com/gone'],
+          readded: [],
+          updatedAt: '2026-03-05T12:00:00.000Z'
+        },
+        executionTime: 5,
+        errors: [],
+        results: []
+      }
+    ) as { blocks: Array<{ type: string; text?: { text: string } }> };
+
+    const text = message.blocks.map((block) => block.text?.text ?? '').join('\n');
+    expect(text).toContain('Sitemap changed: Test Site');
+    expect(text).toContain('*Sitemap changes:* 1 added, 1 removed, 0 re-added');
+    expect(text).toContain('<https://example.com/gone|');
+  });
 });
@@ -1,5 +1,6 @@
 import { readBackupContent } from '../runtime/content-storage';
-import { SiteConfig, SiteBackupResult } from '../types/site';
+import { PayloadStore, createPayloadStore } from '../runtime/payload-store';
+import { SiteConfig, SiteBackupResult, SitemapDelta } from '../types/site';
 import { ContentComparer } from '../diff/comparer';
 import { ContentChange, StyleChange, StructureChange } from '../types/diff';
 
@@ -15,11 +16,13 @@ export interface SlackDeliveryResult {
 export class SlackNotifier {
   private static readonly CHANGE_NOTIFICATION_TTL_SECONDS = 15 * 60;
   private kv: KVNamespace;
+  private payloads: PayloadStore;
   private defaultWebhook: string;
   private publicBaseUrl?: string;
 
-  constructor(kv: KVNamespace, defaultWebhook?: string, publicBaseUrl?: string) {
+  constructor(kv: KVNamespace, defaultWebhook?: string, publicBaseUrl?: string, storage?: R2Bucket) {
     this.kv = kv;
+    this.payloads = createPayloadStore(kv, storage);
     this.defaultWebhook = defaultWebhook || '';
     this.publicBaseUrl = publicBaseUrl;
   }
@@ -202,6 +205,7 @@ export class SlackNotifier {
     const baseUrl = this.getPublicBaseUrl();
     const processed = backupResult.successfulBackups + backupResult.failedBackups;
     const storedSuffix = backupResult.failedStores > 0 ? ` (store fails: ${backupResult.failedStores})` : '';
+    const downloaded = backupResult.successfulBackups - backupResult.notModifiedBackups;
 
     // Only include detailed diffs for a few URLs to keep the Slack payload small.
     const maxUrlsWithDiffs = backupResult.changedUrls.length > 10 ? 1 : 3;
@@ -212,7 +216,7 @@ export class SlackNotifier {
     const blocks: any[] = [
       {
         type: 'header',
-        text: { type: 'plain_text', text: `${digestMode ? 'Digest' : 'Changes detected'}: ${siteConfig.name}`, emoji: true }
+        text: { type: 'plain_text', text: `${this.getChangeHeading(backupResult, digestMode)}: ${siteConfig.name}`, emoji: true }
       },
       {
         type: 'section',
@@ -222,7 +226,8 @@ export class SlackNotifier {
             `*Date:* ${date}\n` +
             `*Changed URLs:* ${backupResult.changedUrls.length}\n` +
             `*Processed:* ${processed}/${backupResult.totalUrls}\n` +
-            `*Stored:* ${backupResult.storedBackups}/${backupResult.successfulBackups}${storedSuffix}\n` +
+            `*Stored:* ${backupResult.storedBackups}/${downloaded}${storedSuffix}\n` +
+            `*Not Modified (304):* ${backupResult.notModifiedBackups}\n` +
             `*Time:* ${executionTimeSeconds}s\n` +
             `*Alert Mode:* ${digestMode ? 'Digest' : 'Detailed'}`
         }
@@ -242,6 +247,13 @@ export class SlackNotifier {
       });
     }
 
+    if (backupResult.sitemapDelta) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: this.buildSitemapDeltaText(backupResult.sitemapDelta) }
+      });
+    }
+
     blocks.push({ type: 'divider' });
 
     for (const changedUrl of urlsForDiffs) {
@@ -436,7 +448,7 @@ export class SlackNotifier {
       return `_Previous metadata missing; cannot generate diff summary._`;
     }
 
-    const prevContent = await readBackupContent(this.kv, siteId, prevDate, urlHash, prevMeta);
+    const prevContent = await readBackupContent(this.payloads, siteId, prevDate, urlHash, prevMeta);
 
     if (!prevContent) {
       return `_Previous content not found (possibly expired due to retention)._`;
@@ -592,6 +604,31 @@ export class SlackNotifier {
     };
   }
 
+  private getChangeHeading(backupResult: SiteBackupResult, digestMode: boolean): string {
+    if (digestMode) {
+      return 'Digest';
+    }
+    return backupResult.changedUrls.length === 0 && backupResult.sitemapDelta ? 'Sitemap changed' : 'Changes detected';
+  }
+
+  private buildSitemapDeltaText(delta: SitemapDelta): string {
+    const lines = [
+      `*Sitemap changes:* ${delta.added.length} added, ${delta.removed.length} removed, ${delta.readded.length} re-added`
+    ];
+    const groups: Array<[string, string[]]> = [['Added', delta.added], ['Removed', delta.removed], ['Re-added', delta.readded]];
+
+    for (const [label, urls] of groups) {
+      if (urls.length === 0) continue;
+      lines.push(`_${label}_`);
+      lines.push(...urls.slice(0, 5).map((url) => `- <${url}|${this.truncateUrl(url)}>`));
+      if (urls.length > 5) {
+        lines.push(`… and ${urls.length - 5} more.`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
   private getChannelName(siteConfig: SiteConfig): string {
     return siteConfig.id.includes('prod') || siteConfig.id.includes('production') 
       ? '#backup-alerts-prod' 
@@ -604,7 +641,12 @@ export class SlackNotifier {
       siteConfig.id,
       backupResult.totalUrls,
       backupResult.changedUrls.length,
-      changedUrls
+      changedUrls,
+      backupResult.sitemapDelta
+        ? [backupResult.sitemapDelta.added, backupResult.sitemapDelta.removed, backupResult.sitemapDelta.readded]
+          .map((urls) => [...urls].sort().join('|'))
+          .join('/')
+        : ''
     ].join(':');
   }
 
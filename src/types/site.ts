@@ -1,21 +1,128 @@
+// A literal value, or the name of a Worker secret binding that holds it.
+export type RequestValue = string | { secret: string };
+
+export interface BasicAuthConfig {
+  type: 'basic';
+  username: RequestValue;
+  password: RequestValue;
+}
+
+export interface BearerAuthConfig {
+  type: 'bearer';
+  token: RequestValue;
+}
+
+export interface FormLoginAuthConfig {
+  type: 'form';
+  // Page the credentials are POSTed to (application/x-www-form-urlencoded)
+  loginUrl: string;
+  username: RequestValue;
+  password: RequestValue;
+  // Form field names. Default to "username" and "password".
+  usernameField?: string;
+  passwordField?: string;
+  // Additional static form fields, e.g. a "remember" flag
+  extraFields?: Record<string, string>;
+  // Cookie that must be set for the login to count as successful
+  sessionCookie?: string;
+  // Regex matched against redirect targets (path + query) that mean "not logged in". Defaults to loginUrl's path.
+  loginPathPattern?: string;
+  // Session lifetime when the cookie sets no Max-Age/Expires. Defaults to 3600.
+  sessionTtlSeconds?: number;
+}
+
+export type SiteAuthConfig = BasicAuthConfig | BearerAuthConfig | FormLoginAuthConfig;
+
+/**
+ * How a sitemap-driven site is scanned.
+ * - auto: full scans until the sitemap grows past `listenerThreshold`, then listener-rolling
+ * - full: every tick continues a full scan of the sitemap, whatever its size
+ * - listener: only URLs that are new or changed in the sitemap are fetched
+ * - listener-rolling: new or changed URLs, plus a rolling re-check of existing ones
+ */
+export type CrawlStrategyMode = 'auto' | 'full' | 'listener' | 'listener-rolling';
+
+export interface CrawlStrategyConfig {
+  mode: CrawlStrategyMode;
+  // auto only: sitemap size above which the site switches to listener mode. Defaults to 100.
+  listenerThreshold?: number;
+  // Existing URLs re-checked per tick in listener-rolling (and auto) mode. Defaults to what the budget allows.
+  recheckUrlsPerTick?: number;
+}
+
+export interface AssetCaptureConfig {
+  enabled: boolean;
+  // Assets captured per page, in document order. Defaults to 50.
+  maxAssetsPerPage?: number;
+  // Assets larger than this (bytes) are skipped. Defaults to 5 MB.
+  maxAssetBytes?: number;
+}
+
+/**
+ * Longer-term tiers on top of `retentionDays`: the last backup of each URL in a week, month or
+ * year is kept for this many weeks, months or years. E.g. `retentionDays: 14` with
+ * `{ weeks: 13, months: 84 }` keeps dailies for 14 days, weeklies for 3 months and monthlies
+ * for 7 years.
+ */
+export interface RetentionPolicy {
+  weeks?: number;
+  months?: number;
+  years?: number;
+}
+
 export interface SiteConfig {
   id: string;
   name: string;
   baseUrl: string;
   sitemapUrl?: string;
   urls?: string[];
+  // Every backup from this many days back is kept
   retentionDays: number;
+  // Weekly, monthly and yearly backups kept beyond retentionDays. None by default.
+  retentionPolicy?: RetentionPolicy;
   schedule: string;
+  // IANA time zone the schedule is evaluated in (e.g. "America/Toronto"). Defaults to UTC.
+  timezone?: string;
+  // How far back (minutes) a tick may catch up on missed schedule occurrences. Defaults to 360.
+  catchUpWindowMinutes?: number;
+  // Scheduling priority within a cron tick (1-10, higher runs first). Defaults to 5.
+  priority?: number;
+  // Relative share of a tick's time and subrequest budget (1-100). Defaults to 1.
+  weight?: number;
   slackWebhook?: string;
+  // Credentials for staging or member-only areas
+  auth?: SiteAuthConfig;
   fetchOptions: {
     timeout: number;
     retries: number;
     concurrency: number;
+    // Overrides the default MultiSiteBackup user agent
+    userAgent?: RequestValue;
+    // Extra request headers, e.g. a WAF bypass token
+    headers?: Record<string, RequestValue>;
+    // Cookies sent with every request, e.g. a preview cookie
+    cookies?: Record<string, RequestValue>;
   };
   changeThreshold: {
     minChangeSize?: number;
     ignorePatterns?: string[];
   };
+  // Honour robots.txt Disallow rules and Crawl-delay. Defaults to true; turn off for sites we own.
+  respectRobots?: boolean;
+  // Sitemap URLs whose <lastmod> predates their latest backup are skipped, except on a full
+  // scan, which re-fetches every URL at least this often. Defaults to 7 days.
+  fullScanIntervalDays?: number;
+  // Store the same-origin stylesheets, scripts and images each page references, so previews
+  // render from the backup instead of the live site. Off by default.
+  assetCapture?: AssetCaptureConfig;
+  // Scan strategy for sitemap-driven sites. Defaults to { mode: "auto" }.
+  crawlStrategy?: CrawlStrategyConfig;
+  // Limits for link-following discovery, used when the site has neither a sitemap nor urls.
+  // Defaults to a depth of 3 links from baseUrl and 500 pages.
+  crawl?: {
+    maxDepth?: number;
+    maxPages?: number;
+  };
   // URL patterns to exclude from backup (regex patterns)
   // Default excludes common i18n paths: /fr/, /en/, /es/, etc.
   excludePatterns?: string[];
@@ -25,6 +132,8 @@ export type PublicSiteConfig = Omit<SiteConfig, 'slackWebhook'> & {
   hasSlackWebhook: boolean;
 };
 
+export type StorageBackend = 'kv' | 'r2';
+
 export interface BackupMetadata {
   url: string;
   finalUrl?: string;
@@ -38,10 +147,18 @@ export interface BackupMetadata {
   status: number;
   contentType: string;
   contentEncoding?: 'identity' | 'gzip-base64';
+  // Where the payload is stored; entries written before R2 support have neither and live in KV
+  storageBackend?: StorageBackend;
+  storageKey?: string;
+  // Content hash of a payload shared with other backups of the same content (see SharedPayloadStore)
+  payloadHash?: string;
   etag?: string;
+  lastModified?: string;
   size: number;
   fetchTime: number;
   redirectCount?: number;
+  // Set on backups written from an imported archive rather than fetched
+  importedAt?: string;
 }
 
 export interface BackupResult {
@@ -50,6 +167,8 @@ export interface BackupResult {
   metadata?: BackupMetadata;
   content?: string;
   error?: string;
+  /** The origin answered a conditional GET with 304; no content was downloaded. */
+  notModified?: boolean;
 }
 
 export interface SiteBackupResult {
@@ -60,12 +179,32 @@ export interface SiteBackupResult {
   failedBackups: number;
   storedBackups: number;
   failedStores: number;
+  // Pages answered with 304 Not Modified (included in successfulBackups)
+  notModifiedBackups: number;
+  // URLs left out of the run because robots.txt disallows them
+  robotsSkippedUrls: string[];
+  // Sitemap URLs not fetched because their <lastmod> predates their latest backup
+  lastmodSkippedBackups: number;
   changedUrls: string[];
+  // URLs that entered or left the sitemap when this run refreshed the listener snapshot
+  sitemapDelta?: SitemapDelta;
   executionTime: number;
   errors: string[];
   results: BackupResult[];
 }
 
+/** URLs added to, removed from, or returned to a site's sitemap on one day. */
+export interface SitemapDelta {
+  date: string;
+  added: string[];
+  removed: string[];
+  // URLs back in the sitemap after an earlier removal
+  readded: string[];
+  // Set when a list reached its size cap and later URLs were dropped
+  truncated?: boolean;
+  updatedAt: string;
+}
+
 export interface DiffResult {
   url: string;
   hasChanged: boolean;
@@ -89,14 +228,6 @@ export interface SlackMessage {
   dashboardLink?: string;
 }
 
-export interface ScheduledJob {
-  siteId: string;
-  schedule: string;
-  lastRun?: string;
-  nextRun: string;
-  priority: number;
-}
-
 export interface ExecutionStats {
   siteId: string;
   date: string;